@@ -0,0 +1,445 @@
+import request from 'supertest';
+import { Wallet } from 'ethers';
+import { createApp } from '../../app';
+import { TokenManager } from '../../services/auth/token-manager';
+import { Keyring } from '../../services/auth/keyring';
+import { DelegationService } from '../../services/auth/delegation-service';
+import { MemoryDelegationStore } from '../../services/auth/delegation-store';
+import { WalletAuthService } from '../../services/auth/wallet-auth-service';
+import { MemoryWalletAccountStore } from '../../services/auth/wallet-account-store';
+import { MemoryNonceStore } from '../../services/auth/nonce-store';
+import { MfaService } from '../../services/auth/mfa-service';
+import { MemoryMfaStore } from '../../services/auth/mfa-store';
+import { LoginProtection } from '../../services/auth/login-protection';
+import { MemoryLoginAttemptStore } from '../../services/auth/login-attempt-store';
+import { SessionManager } from '../../services/session-manager';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import { MemoryRateLimitStore } from '../../services/rate-limit/rate-limit-store';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricsAggregationService } from '../../services/metrics/metrics-aggregation-service';
+import { TimeSeriesService } from '../../services/metrics/time-series-service';
+import { MetricTypeRegistry } from '../../services/metrics/metric-type-registry';
+import { RemoteWriteService } from '../../services/metrics/prometheus/remote-write';
+import { getPrisma } from '../../services/db/shared-prisma';
+import { PERMISSIONS } from '../../services/auth/policy';
+import { LocalChainProvider } from '../../services/payments/__mocks__/local-chain-provider';
+import { buildMarketplaceMessage } from '../../services/marketplace/marketplace-signatures';
+import { config, RateLimitTierName } from '../../config';
+
+jest.mock('../../services/db/shared-prisma', () => {
+  const prisma = {
+    agentMetadata: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    agentFunction: { findUnique: jest.fn(), update: jest.fn() },
+    paymentClaim: { findUnique: jest.fn(), create: jest.fn() },
+    marketplaceEscrow: { findUnique: jest.fn(), updateMany: jest.fn() },
+    marketplaceNonce: { updateMany: jest.fn() },
+    escrowHistory: { create: jest.fn() },
+    transferHistory: { create: jest.fn() },
+    $transaction: jest.fn()
+  };
+  return { getPrisma: () => prisma };
+});
+
+// Launch payments are checked against an in-memory chain
+jest.mock('../../services/payments/ethereum-rpc-provider', () => {
+  const { LocalChainProvider } = jest.requireActual('../../services/payments/__mocks__/local-chain-provider');
+  const chain = new LocalChainProvider();
+  return { JsonRpcEthereumProvider: jest.fn(() => chain), chain };
+});
+const { chain } = jest.requireMock('../../services/payments/ethereum-rpc-provider') as { chain: LocalChainProvider };
+
+// Which tier limited a response, going by its RateLimit-Policy header
+const policyOf = (tier: RateLimitTierName) =>
+  `${config.rateLimit.tiers[tier].points};w=${config.rateLimit.tiers[tier].duration}`;
+
+describe('createApp', () => {
+  let auditLogger: SecurityAuditLogger;
+  let sessionManager: SessionManager;
+  let metricsService: MetricsService;
+  let metricsAggregationService: MetricsAggregationService;
+  let tokenManager: TokenManager;
+  let app: ReturnType<typeof createApp>;
+  let token: string;
+
+  beforeEach(async () => {
+    const keyring = Keyring.fromSecret('test-secret');
+    tokenManager = new TokenManager({ secret: 'test-secret', expiresIn: '1h', algorithm: 'HS256' }, undefined, keyring);
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    }, new MemoryAuditStore());
+    sessionManager = new SessionManager();
+    metricsService = new MetricsService();
+    metricsAggregationService = new MetricsAggregationService(metricsService);
+
+    const nonceStore = new MemoryNonceStore();
+    const mfaService = new MfaService(new MemoryMfaStore(), nonceStore, tokenManager, auditLogger, {
+      issuer: config.mfa.issuer,
+      rp: {
+        id: config.mfa.rpId,
+        name: config.mfa.rpName,
+        origin: config.mfa.origin,
+        requireUserVerification: config.mfa.requireUserVerification
+      },
+      challengeTtlMs: config.mfa.challengeTtlMs,
+      pendingTokenTtlSeconds: config.mfa.pendingTokenTtlSeconds,
+      recoveryCodeCount: config.mfa.recoveryCodeCount
+    });
+    const metricTypeRegistry = new MetricTypeRegistry();
+
+    app = createApp({
+      tokenManager,
+      keyring,
+      sessionManager,
+      auditLogger,
+      rateLimitStore: new MemoryRateLimitStore(),
+      delegationService: new DelegationService(new MemoryDelegationStore(), auditLogger, async () => null, {
+        maxTtlMs: 86400000
+      }),
+      walletAuthService: new WalletAuthService(
+        tokenManager,
+        sessionManager,
+        nonceStore,
+        new MemoryWalletAccountStore(),
+        auditLogger,
+        config.walletAuth,
+        mfaService
+      ),
+      mfaService,
+      loginProtection: new LoginProtection(new MemoryLoginAttemptStore(), auditLogger, {
+        windowMs: 60000,
+        maxFailures: { username: 5, ip: 20, username_ip: 5 },
+        baseLockoutMs: 60000,
+        maxLockoutMs: 3600000,
+        lockoutMemoryMs: 86400000,
+        challengeAfter: 3
+      }),
+      metricsService,
+      metricsAggregationService,
+      timeSeriesService: new TimeSeriesService(),
+      metricTypeRegistry,
+      remoteWriteService: new RemoteWriteService(metricsService, metricTypeRegistry)
+    });
+    token = await tokenManager.createToken({ userId: 'u1', roles: ['user'] });
+  });
+
+  afterEach(async () => {
+    auditLogger.close();
+    sessionManager.dispose();
+    await metricsAggregationService.dispose();
+    await metricsService.dispose();
+  });
+
+  it('should serve requests without listening', async () => {
+    await request(app).get('/health').expect(200, { status: 'ok' });
+    await request(app).get('/api/v1/agents/metadata/agent-1').expect(401);
+  });
+
+  it('should not issue tokens without a wallet signature', async () => {
+    await request(app).post('/api/auth/login').send({ userId: 'admin', password: 'x' }).expect(401);
+    await request(app).get('/api/auth/permissions').expect(401);
+  });
+
+  it('should list every permission name for clients to check against', async () => {
+    const response = await request(app)
+      .get('/api/auth/permissions')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.allPermissions).toEqual([...PERMISSIONS]);
+    expect(response.body.allPermissions).toEqual(expect.arrayContaining(response.body.permissions));
+  });
+
+  it('should not slide the expiry of a session the caller may not manage', async () => {
+    const other = await sessionManager.createSession('u2');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    for (const method of ['get', 'patch', 'delete'] as const) {
+      await request(app)[method](`/api/session/${other.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ data: { hijacked: true } })
+        .expect(403);
+    }
+
+    const untouched = await sessionManager.peekSession(other.id);
+    expect(untouched).toEqual(expect.objectContaining({ data: {}, expiresAt: other.expiresAt }));
+  });
+
+  it('should stop accepting access tokens once their session ends', async () => {
+    const permissions = (accessToken: string) => request(app)
+      .get('/api/auth/permissions')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    const signedOut = await sessionManager.createSession('u1');
+    const signedOutToken = await tokenManager.createToken({ userId: 'u1', roles: ['user'], sessionId: signedOut.id });
+    await permissions(signedOutToken).expect(200);
+    await sessionManager.destroySession(signedOut.id);
+    await permissions(signedOutToken).expect(401, { error: 'Session has ended' });
+
+    const revoked = await sessionManager.createSession('u1', {}, { userAgent: 'lost-phone' });
+    const revokedToken = await tokenManager.createToken({ userId: 'u1', roles: ['user'], sessionId: revoked.id });
+    await request(app).get('/api/session/devices').set('Authorization', `Bearer ${revokedToken}`).expect(200);
+    expect(await sessionManager.revokeDevice('u1', revoked.device.fingerprint)).toBe(1);
+    await request(app).get('/api/session/devices').set('Authorization', `Bearer ${revokedToken}`).expect(401);
+  });
+
+  it('should mount the agent routers under /api/v1/agents', async () => {
+    (getPrisma().agentMetadata.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await request(app)
+      .get('/api/v1/agents/metadata/agent-1')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    expect(response.body).toEqual({ error: 'Agent metadata not found' });
+    expect(response.headers['ratelimit-policy']).toBe(policyOf('authenticated'));
+  });
+
+  it('should only let agent:update change the editable metadata fields', async () => {
+    const prisma = getPrisma();
+    (prisma.agentMetadata.findUnique as jest.Mock).mockResolvedValue({ agentAddress: 'agent-1', creator: 'u1', name: 'Old' });
+    (prisma.agentMetadata.update as jest.Mock).mockResolvedValue({});
+    const takeover = { creator: 'attacker', verificationStatus: 'VERIFIED', verifiedBy: 'u1' };
+
+    await request(app)
+      .patch('/api/v1/agents/metadata/agent-1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'New', ...takeover })
+      .expect(200);
+    await request(app)
+      .patch('/api/v1/agents/batch-update')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ updates: [{ agentAddress: 'agent-1', metadata: { description: 'New', ...takeover } }], updatedBy: 'u1' })
+      .expect(200);
+
+    const [single, batch] = (prisma.agentMetadata.update as jest.Mock).mock.calls.map(([args]) => args.data);
+    expect(single).toEqual(expect.objectContaining({ name: 'New' }));
+    expect(batch).toEqual(expect.objectContaining({ description: 'New' }));
+    for (const data of [single, batch]) {
+      expect(data).not.toHaveProperty('creator');
+      expect(data).not.toHaveProperty('verificationStatus');
+      expect(data).not.toHaveProperty('verifiedBy');
+    }
+  });
+
+  it('should not move a function to another agent', async () => {
+    const prisma = getPrisma();
+    (prisma.agentMetadata.findUnique as jest.Mock).mockResolvedValue({ agentAddress: 'agent-1', creator: 'u1' });
+    (prisma.agentFunction.findUnique as jest.Mock).mockResolvedValue({ id: 'f1', agentAddress: 'agent-1' });
+    (prisma.agentFunction.update as jest.Mock).mockResolvedValue({});
+
+    await request(app)
+      .patch('/api/v1/agents/update-function/f1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ description: 'Moved', agentAddress: 'agent-2' })
+      .expect(400);
+    expect(prisma.agentFunction.update).not.toHaveBeenCalled();
+
+    await request(app)
+      .patch('/api/v1/agents/update-function/f1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ description: 'Renamed', functionName: 'other', createdAt: '2020-01-01' })
+      .expect(200);
+    expect((prisma.agentFunction.update as jest.Mock).mock.calls[0][0].data).toEqual({
+      description: 'Renamed',
+      updatedAt: expect.any(Date)
+    });
+  });
+
+  it('should refuse execution callbacks to internal addresses', async () => {
+    (getPrisma().agentMetadata.findUnique as jest.Mock).mockResolvedValue({ agentAddress: 'agent-1', creator: 'u1' });
+    (getPrisma().agentFunction.findUnique as jest.Mock).mockResolvedValue({ id: 'f1', agentAddress: 'agent-1' });
+
+    const response = await request(app)
+      .post('/api/v1/agents/execute-function/f1')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ inputs: {}, callerAddress: 'u1', async: true, callbackUrl: 'http://169.254.169.254/latest/meta-data/' })
+      .expect(400);
+
+    expect(response.body.details).toEqual([expect.stringContaining('private or reserved address')]);
+  });
+
+  it('should require function:execute to run a function', async () => {
+    (getPrisma().agentMetadata.findUnique as jest.Mock).mockResolvedValue({ agentAddress: 'agent-1', creator: 'u1' });
+    (getPrisma().agentFunction.findUnique as jest.Mock).mockResolvedValue({ id: 'f1', agentAddress: 'agent-1' });
+    const readOnly = await tokenManager.createToken({ userId: 'u2', roles: [] });
+
+    const response = await request(app)
+      .post('/api/v1/agents/execute-function/f1')
+      .set('Authorization', `Bearer ${readOnly}`)
+      .send({ inputs: {}, callerAddress: 'u2' })
+      .expect(403);
+
+    expect(response.body.permission).toBe('function:execute');
+  });
+
+  it('should charge the launch fee for every agent in a batch', async () => {
+    const prisma = getPrisma();
+    const payer = '0xAbC0000000000000000000000000000000000002';
+    config.payments.recipientAddress = '0xAbC0000000000000000000000000000000000001';
+    (prisma.paymentClaim.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.$transaction as jest.Mock).mockImplementation(work => work(prisma));
+    (prisma.agentMetadata.create as jest.Mock).mockImplementation(async ({ data }) => data);
+
+    const pay = (value: bigint) => {
+      const txHash = chain.sendTransaction({ from: payer, to: config.payments.recipientAddress, value });
+      chain.mine(config.payments.minConfirmations);
+      return txHash;
+    };
+    const batchCreate = (paymentTx: string) => request(app)
+      .post('/api/v1/agents/batch-create')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        agents: [
+          { agentAddress: 'agent-1', name: 'One', symbol: 'ONE' },
+          { agentAddress: 'agent-2', name: 'Two', symbol: 'TWO', verificationStatus: 'VERIFIED' }
+        ],
+        creator: payer,
+        paymentTx
+      });
+    const launchFee = BigInt(config.payments.launchFeeWei);
+
+    const underpaid = await batchCreate(pay(launchFee)).expect(402);
+    expect(underpaid.body.verdict.reasons.map((reason: { code: string }) => reason.code)).toEqual(['INSUFFICIENT_AMOUNT']);
+    expect(prisma.paymentClaim.create).not.toHaveBeenCalled();
+
+    const paymentTx = pay(launchFee * BigInt(2));
+    const response = await batchCreate(paymentTx).expect(200);
+    expect(prisma.paymentClaim.create).toHaveBeenCalledWith({
+      data: { txHash: paymentTx.toLowerCase(), purpose: 'launch', claimedBy: payer }
+    });
+    expect(response.body.success.map((agent: { verificationStatus: string }) => agent.verificationStatus))
+      .toEqual(['UNVERIFIED', 'UNVERIFIED']);
+
+    (prisma.paymentClaim.findUnique as jest.Mock).mockResolvedValue({ txHash: paymentTx.toLowerCase() });
+    await batchCreate(paymentTx).expect(409);
+  });
+
+  it('should only transfer agents through verified transfer requests', async () => {
+    await request(app)
+      .post('/api/v1/agents/batch-transfer')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ transfers: [{ agentAddress: 'agent-1', fromAddress: 'u1', toAddress: 'u2' }], signature: 'sig' })
+      .expect(404);
+    expect(getPrisma().agentMetadata.update).not.toHaveBeenCalled();
+  });
+
+  it('should not pay into or settle an expired escrow', async () => {
+    const prisma = getPrisma();
+    (prisma.marketplaceEscrow.findUnique as jest.Mock).mockResolvedValue({
+      id: 'e1',
+      agentAddress: 'agent-1',
+      status: 'OFFERED',
+      expiresAt: new Date(Date.now() - 1000)
+    });
+
+    await request(app)
+      .post('/api/v1/agents/marketplace/escrows/e1/payment')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ paymentTx: '0xabc' })
+      .expect(400, { error: 'Escrow has expired' });
+    await request(app)
+      .post('/api/v1/agents/marketplace/escrows/e1/settle')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ expiresAt: Math.floor(Date.now() / 1000) + 60, signature: '0x00' })
+      .expect(400, { error: 'Escrow has expired' });
+    expect(prisma.marketplaceEscrow.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should not settle a sale once the seller no longer owns the agent', async () => {
+    const prisma = getPrisma();
+    const seller = Wallet.createRandom();
+    const escrow = {
+      id: 'e1',
+      agentAddress: 'agent-1',
+      seller: seller.address,
+      buyer: Wallet.createRandom().address,
+      price: 1,
+      status: 'ESCROWED',
+      paymentTx: '0xabc',
+      listingNonceId: null,
+      offerNonceId: 'n1',
+      expiresAt: new Date(Date.now() + 60000)
+    };
+    (prisma.marketplaceEscrow.findUnique as jest.Mock).mockResolvedValue(escrow);
+    (prisma.marketplaceEscrow.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.marketplaceNonce.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.agentMetadata.findUnique as jest.Mock).mockResolvedValue({ agentAddress: 'agent-1', creator: seller.address });
+    // Transferred away between the ownership check and the settlement
+    (prisma.agentMetadata.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (prisma.$transaction as jest.Mock).mockImplementation(work => work(prisma));
+
+    const expiresAt = Math.floor(Date.now() / 1000) + 60;
+    const signature = await seller.signMessage(buildMarketplaceMessage({
+      action: 'settle',
+      agentAddress: 'agent-1',
+      price: '1',
+      duration: 0,
+      nonce: 'e1',
+      expiresAt
+    }));
+
+    await request(app)
+      .post('/api/v1/agents/marketplace/escrows/e1/settle')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ expiresAt, signature })
+      .expect(409, { error: 'Agent is no longer owned by the seller' });
+    expect(prisma.agentMetadata.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { agentAddress: 'agent-1', creator: seller.address }
+    }));
+    expect(prisma.transferHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('should not let owners offer on their own agent under another address casing', async () => {
+    const owner = Wallet.createRandom();
+    (getPrisma().agentMetadata.findUnique as jest.Mock).mockResolvedValue({
+      agentAddress: 'agent-1',
+      creator: owner.address.toLowerCase(),
+      isListed: true,
+      listingPrice: 1
+    });
+
+    await request(app)
+      .post('/api/v1/agents/marketplace/offers')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        agentAddress: 'agent-1',
+        buyer: owner.address,
+        price: '1',
+        nonce: 'n1',
+        expiresAt: Math.floor(Date.now() / 1000) + 60,
+        signature: '0x00'
+      })
+      .expect(400, { error: 'Cannot buy your own agent' });
+  });
+
+  it('should limit each route group by its own tier', async () => {
+    const policyFor = async (method: 'get' | 'post', path: string) => {
+      const response = await request(app)[method](path).set('Authorization', `Bearer ${token}`);
+      return response.headers['ratelimit-policy'];
+    };
+
+    expect(await policyFor('get', '/api/v1/agents/search?q=bot')).toBe(policyOf('search'));
+    expect(await policyFor('get', '/api/v1/agents/marketplace/listings')).toBe(policyOf('marketplace'));
+    expect(await policyFor('post', '/api/v1/agents/execute-function/f1')).toBe(policyOf('functionExecution'));
+    expect(await policyFor('post', '/api/v1/agents/metadata')).toBe(policyOf('agentCreation'));
+    expect(await policyFor('post', '/api/v1/agents/batch-create')).toBe(policyOf('agentCreation'));
+    expect(await policyFor('get', '/api/v1/agents/agent-1/followers')).toBe(policyOf('authenticated'));
+  });
+
+  it('should not let clients choose their rate limit bucket with X-Forwarded-For', async () => {
+    const remaining = async (forwardedFor: string) => {
+      const response = await request(app)
+        .get('/api/v1/agents/agent-1/followers')
+        .set('Authorization', `Bearer ${token}`)
+        .set('X-Forwarded-For', forwardedFor);
+      return Number(response.headers['ratelimit-remaining']);
+    };
+
+    const first = await remaining('203.0.113.1');
+    expect(await remaining('203.0.113.2')).toBe(first - 1);
+  });
+});
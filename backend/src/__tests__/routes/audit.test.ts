@@ -0,0 +1,129 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { auditRoutes } from '../../routes/audit';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import { AuthenticatedRequest } from '../../middleware/auth';
+
+describe('Audit Routes', () => {
+  let auditLogger: SecurityAuditLogger;
+  let store: MemoryAuditStore;
+  let server: Server;
+  let baseUrl: string;
+  let roles: string[];
+  let mfaAt: number | undefined;
+
+  beforeEach(async () => {
+    store = new MemoryAuditStore();
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    }, store);
+    roles = ['admin'];
+    mfaAt = Math.floor(Date.now() / 1000);
+
+    const app = express();
+    // Stands in for authenticate(tokenManager)
+    app.use((req, res, next) => {
+      (req as AuthenticatedRequest).user = { id: 'admin1', roles, mfaAt };
+      next();
+    });
+    app.use('/api/audit', auditRoutes(auditLogger));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/audit`;
+
+    await auditLogger.logEvent({ type: 'auth.login', userId: 'alice', message: 'login' });
+    await auditLogger.logEvent({ type: 'auth.login', userId: 'bob', level: 'warning', message: 'login, "odd" place' });
+    await auditLogger.logEvent({ type: 'auth.logout', userId: 'alice', message: '=HYPERLINK("x")' });
+  });
+
+  afterEach(done => {
+    auditLogger.close();
+    server.close(done);
+  });
+
+  it('should require the admin role', async () => {
+    roles = ['user'];
+    const response = await fetch(`${baseUrl}/events`);
+    expect(response.status).toBe(403);
+  });
+
+  it('should require a recent second factor', async () => {
+    mfaAt = undefined;
+    const response = await fetch(`${baseUrl}/events`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Step-up authentication required', stepUp: true });
+    expect(response.headers.get('www-authenticate')).toContain('insufficient_user_authentication');
+  });
+
+  it('should filter events', async () => {
+    const response = await fetch(`${baseUrl}/events?type=auth.login&level=warning`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.events.map((event: any) => event.userId)).toEqual(['bob']);
+    expect(body.nextCursor).toBeNull();
+  });
+
+  it('should page with cursors', async () => {
+    const first = await (await fetch(`${baseUrl}/events?limit=2`)).json();
+    expect(first.events.map((event: any) => event.sequence)).toEqual([1, 2]);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const second = await (await fetch(`${baseUrl}/events?limit=2&cursor=${first.nextCursor}`)).json();
+    expect(second.events.map((event: any) => event.sequence)).toEqual([3]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should reject bad filters', async () => {
+    const response = await fetch(`${baseUrl}/events?level=loud&from=yesterday&limit=0&cursor=zz`);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors).toHaveLength(4);
+  });
+
+  it('should export NDJSON with the verification result', async () => {
+    const response = await fetch(`${baseUrl}/export?userId=alice`);
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(response.headers.get('content-type')).toContain('application/x-ndjson');
+    expect(response.headers.get('x-audit-chain-valid')).toBe('true');
+    expect(lines.slice(0, -1).map(line => line.sequence)).toEqual([1, 3]);
+    expect(lines[lines.length - 1]).toEqual({
+      verification: expect.objectContaining({ valid: true, checked: 3 })
+    });
+  });
+
+  it('should export escaped CSV', async () => {
+    const response = await fetch(`${baseUrl}/export?format=csv&type=auth.login`);
+    const lines = (await response.text()).trim().split('\n');
+
+    expect(response.headers.get('content-type')).toContain('text/csv');
+    expect(lines[0]).toBe('sequence,id,timestamp,level,type,userId,sessionId,message,metadata,previousHash,hash');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toContain('"login, ""odd"" place"');
+  });
+
+  it('should neutralise spreadsheet formulas in CSV', async () => {
+    const response = await fetch(`${baseUrl}/export?format=csv&type=auth.logout`);
+    const row = (await response.text()).trim().split('\n')[1];
+
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it('should report a broken chain', async () => {
+    const [event] = await store.find({ fromSequence: 2, toSequence: 2 }, { limit: 1 });
+    event.message = 'rewritten';
+
+    const response = await fetch(`${baseUrl}/export`);
+
+    expect(response.headers.get('x-audit-chain-valid')).toBe('false');
+    expect(response.headers.get('x-audit-chain-broken-at')).toBe('2');
+  });
+});
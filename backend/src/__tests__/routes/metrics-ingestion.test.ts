@@ -0,0 +1,159 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { metricsRoutes } from '../../routes/metrics';
+import { remoteWriteRoutes } from '../../routes/remote-write';
+import { expositionRoutes } from '../../routes/exposition';
+import { httpMetrics } from '../../middleware/http-metrics';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricsAggregationService } from '../../services/metrics/metrics-aggregation-service';
+import { TimeSeriesService } from '../../services/metrics/time-series-service';
+import { MetricTypeRegistry } from '../../services/metrics/metric-type-registry';
+import { RemoteWriteService } from '../../services/metrics/prometheus/remote-write';
+import { selfMetrics } from '../../services/metrics/prometheus/self-metrics';
+import { AuthenticatedRequest } from '../../middleware/auth';
+
+const T0 = Date.UTC(2026, 0, 1);
+
+const field = (number: number, payload: Buffer) => Buffer.from([number * 8 + 2, payload.length, ...payload]);
+
+// One sample of one series, snappy-compressed as a single literal
+const writeRequest = (labels: Record<string, string>, value: number) => {
+  const timestamp = [];
+  for (let rest = T0; rest > 0; rest = Math.floor(rest / 128)) {
+    timestamp.push((rest % 128) | (rest >= 128 ? 0x80 : 0));
+  }
+  const double = Buffer.alloc(8);
+  double.writeDoubleLE(value, 0);
+
+  const series = Buffer.concat([
+    ...Object.keys(labels).map(name => field(1, Buffer.concat([field(1, Buffer.from(name)), field(2, Buffer.from(labels[name]))]))),
+    field(2, Buffer.from([0x09, ...double, 0x10, ...timestamp]))
+  ]);
+  const message = field(1, series);
+  return Buffer.from([message.length, 60 << 2, message.length - 1, ...message]);
+};
+
+describe('Metrics ingestion routes', () => {
+  let metricsService: MetricsService;
+  let aggregationService: MetricsAggregationService;
+  let registry: MetricTypeRegistry;
+  let server: Server;
+  let baseUrl: string;
+
+  const write = (body: Buffer, headers: Record<string, string> = {}) => fetch(`${baseUrl}/api/metrics/write`, {
+    method: 'POST',
+    headers: {
+      Authorization: 'Bearer write-token',
+      'Content-Type': 'application/x-protobuf',
+      'Content-Encoding': 'snappy',
+      'X-Prometheus-Remote-Write-Version': '0.1.0',
+      ...headers
+    },
+    body
+  });
+
+  const send = async (method: string, path: string, role: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Test-Role': role },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: response.status === 204 ? null : await response.json() };
+  };
+
+  beforeEach(() => {
+    metricsService = new MetricsService();
+    aggregationService = new MetricsAggregationService(metricsService);
+    registry = new MetricTypeRegistry();
+
+    const app = express();
+    app.use(httpMetrics);
+    app.use(express.json());
+    app.use('/metrics', expositionRoutes(selfMetrics, 'scrape-token'));
+    app.use('/api/metrics/write', remoteWriteRoutes(
+      new RemoteWriteService(metricsService, registry, { maxBytes: 1024 }),
+      'write-token'
+    ));
+    // Stands in for authenticate(tokenManager)
+    app.use((req, res, next) => {
+      (req as AuthenticatedRequest).user = { id: 'user1', roles: [String(req.headers['x-test-role'] ?? 'user')] };
+      next();
+    });
+    app.use('/api/metrics', metricsRoutes(metricsService, aggregationService, new TimeSeriesService(), registry));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await aggregationService.dispose();
+    await metricsService.dispose();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should accept remote write with the configured token', async () => {
+    const response = await write(writeRequest({ __name__: 'cpu_usage', instance: 'a' }, 0.25));
+    expect(response.status).toBe(204);
+    expect(await metricsService.getMetricsByType('cpu_usage')).toMatchObject([
+      { type: 'cpu_usage', value: 0.25, timestamp: new Date(T0), metadata: { instance: 'a' } }
+    ]);
+
+    const unregistered = await write(writeRequest({ __name__: 'node_load1' }, 1));
+    expect(unregistered.status).toBe(400);
+    expect(await unregistered.text()).toBe('Unregistered metric types: node_load1');
+
+    expect((await write(writeRequest({ __name__: 'cpu_usage' }, 1), { Authorization: 'Bearer nope' })).status).toBe(401);
+    expect((await write(writeRequest({ __name__: 'cpu_usage' }, 1), { 'Content-Encoding': 'gzip' })).status).toBe(415);
+    expect((await write(Buffer.from([9, 1, 2]))).status).toBe(400);
+    expect((await write(Buffer.alloc(2048))).status).toBe(413);
+  });
+
+  it('should let metrics:manage register types that ingestion then accepts', async () => {
+    expect((await send('POST', '/api/metrics', 'user', { type: 'gpu_usage', value: 1 })).status).toBe(400);
+    expect((await send('POST', '/api/metrics/types', 'user', { name: 'gpu_usage', kind: 'gauge' })).status).toBe(403);
+
+    const registered = await send('POST', '/api/metrics/types', 'admin', { name: 'gpu_usage', kind: 'gauge' });
+    expect(registered.status).toBe(201);
+    expect(registered.body).toMatchObject({ name: 'gpu_usage', kind: 'gauge', builtin: false, createdBy: 'user1' });
+    expect((await send('POST', '/api/metrics/types', 'admin', { name: 'gpu usage' })).body).toEqual({
+      error: 'Metric type names must match [a-zA-Z_:][a-zA-Z0-9_:]* and not start with __',
+      field: 'name'
+    });
+
+    expect((await send('POST', '/api/metrics', 'user', { type: 'gpu_usage', value: 1 })).status).toBe(201);
+    expect((await write(writeRequest({ __name__: 'gpu_usage' }, 2))).status).toBe(204);
+    expect((await send('GET', '/api/metrics/types', 'user')).body.map((type: any) => type.name)).toContain('gpu_usage');
+
+    expect((await send('DELETE', '/api/metrics/types/gpu_usage', 'admin')).status).toBe(204);
+    expect((await send('DELETE', '/api/metrics/types/gpu_usage', 'admin')).status).toBe(404);
+    expect((await send('DELETE', '/api/metrics/types/cpu_usage', 'admin')).status).toBe(409);
+    expect(await metricsService.getMetricsByType('gpu_usage')).toHaveLength(2);
+  });
+
+  it('should need metrics:write to ingest and metrics:read to query', async () => {
+    expect((await send('POST', '/api/metrics', 'verifier', { type: 'cpu_usage', value: 1 })).status).toBe(403);
+    expect((await send('GET', '/api/metrics/type/cpu_usage', 'verifier')).status).toBe(403);
+    expect((await send('GET', '/api/metrics/query?query=cpu_usage', 'verifier')).status).toBe(403);
+
+    expect((await send('POST', '/api/metrics', 'user', { type: 'cpu_usage', value: 1 })).status).toBe(201);
+    expect((await send('GET', '/api/metrics/type/cpu_usage', 'user')).status).toBe(200);
+  });
+
+  it('should expose process, HTTP and rate limit metrics for scraping', async () => {
+    await send('GET', '/api/metrics/types', 'user');
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(401);
+
+    const response = await fetch(`${baseUrl}/metrics`, { headers: { Authorization: 'Bearer scrape-token' } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/openmetrics-text; version=1.0.0; charset=utf-8');
+
+    const text = await response.text();
+    expect(text).toMatch(/^http_requests_total\{method="GET",route="\/api\/metrics\/types",status="200"\} \d+$/m);
+    expect(text).toMatch(/^http_request_duration_seconds_bucket\{le="\+Inf",method="GET",route="\/api\/metrics\/types"\} \d+$/m);
+    expect(text).toMatch(/^rate_limit_requests_total\{outcome="allowed",tier="authenticated"\} \d+$/m);
+    expect(text).toMatch(/^process_cpu_seconds_total [\d.e-]+$/m);
+    expect(text).toMatch(/^process_resident_memory_bytes \d+$/m);
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+});
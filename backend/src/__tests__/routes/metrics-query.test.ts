@@ -0,0 +1,96 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { metricsRoutes } from '../../routes/metrics';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricsAggregationService } from '../../services/metrics/metrics-aggregation-service';
+import { TimeSeriesService } from '../../services/metrics/time-series-service';
+import { AuthenticatedRequest } from '../../middleware/auth';
+
+const T0 = Date.UTC(2026, 0, 1);
+
+describe('Metrics query routes', () => {
+  let metricsService: MetricsService;
+  let aggregationService: MetricsAggregationService;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = async (path: string, params: Record<string, string>) => {
+    const response = await fetch(`${baseUrl}${path}?${new URLSearchParams(params)}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    metricsService = new MetricsService();
+    aggregationService = new MetricsAggregationService(metricsService);
+
+    const app = express();
+    // Stands in for authenticate(tokenManager)
+    app.use((req, res, next) => {
+      (req as AuthenticatedRequest).user = { id: 'user1', roles: ['user'] };
+      next();
+    });
+    app.use('/api/metrics', metricsRoutes(metricsService, aggregationService, new TimeSeriesService()));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/metrics`;
+
+    for (let i = 0; i < 10; i++) {
+      await metricsService.addMetric({
+        id: `m${i}`,
+        type: 'response_time',
+        value: i % 2 ? 100 : 200,
+        timestamp: new Date(T0 + i * 30000),
+        metadata: { route: i % 2 ? '/fast' : '/slow' }
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await aggregationService.dispose();
+    await metricsService.dispose();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should answer instant queries in the Prometheus format', async () => {
+    const { status, body } = await get('/query', {
+      query: 'avg_over_time(response_time{route="/slow"}[5m]) * 2',
+      time: String(T0 / 1000 + 300)
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      status: 'success',
+      data: { resultType: 'vector', result: [{ metric: { route: '/slow' }, value: [T0 / 1000 + 300, '400'] }] }
+    });
+    expect((await get('/query', { query: '1 / 0' })).body.data.result[1]).toBe('+Inf');
+  });
+
+  it('should answer range queries over RFC 3339 times and duration steps', async () => {
+    const { status, body } = await get('/query_range', {
+      query: 'sum by (route) (count_over_time(response_time[1m]))',
+      start: new Date(T0 + 60000).toISOString(),
+      end: new Date(T0 + 180000).toISOString(),
+      step: '1m'
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.resultType).toBe('matrix');
+    const slow = body.data.result.find((series: any) => series.metric.route === '/slow');
+    expect(slow.values).toEqual([
+      [T0 / 1000 + 60, '1'],
+      [T0 / 1000 + 120, '1'],
+      [T0 / 1000 + 180, '1']
+    ]);
+  });
+
+  it('should reject bad queries and parameters', async () => {
+    expect(await get('/query', { query: 'sum(' })).toEqual({
+      status: 400,
+      body: { status: 'error', errorType: 'bad_data', error: 'Unexpected end of query', position: 4 }
+    });
+    expect((await get('/query', {})).body.error).toBe('Missing query parameter');
+    expect((await get('/query_range', { query: 'response_time', start: '0', end: '60', step: 'soon' })).status).toBe(400);
+    expect((await get('/query', { query: 'response_time', time: 'yesterday' })).body.error).toBe('Invalid time "yesterday"');
+  });
+});
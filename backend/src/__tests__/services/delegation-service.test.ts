@@ -0,0 +1,192 @@
+import express, { Request } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { DelegationService, ipAllowed } from '../../services/auth/delegation-service';
+import { MemoryDelegationStore } from '../../services/auth/delegation-store';
+import { agentResource, PolicySubject } from '../../services/auth/policy';
+import { TokenManager } from '../../services/auth/token-manager';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import {
+  acceptDelegatedAccess,
+  authenticate,
+  AuthenticatedRequest,
+  delegationsFor,
+  requirePermission
+} from '../../middleware/auth';
+
+const OWNER = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+const OTHER = '0x0000000000000000000000000000000000000001';
+const BOT = '0x00000000000000000000000000000000000000b0';
+const DAY = 86400000;
+
+describe('DelegationService', () => {
+  let agents: Record<string, { agentAddress: string; creator: string }>;
+  let store: MemoryDelegationStore;
+  let auditLogger: SecurityAuditLogger;
+  let service: DelegationService;
+  let server: Server;
+  let baseUrl: string;
+  const owner: PolicySubject = { id: 'u1', roles: ['user'], wallets: [OWNER.toLowerCase()] };
+
+  beforeEach(() => {
+    agents = {
+      'agent-1': { agentAddress: 'agent-1', creator: OWNER },
+      'agent-2': { agentAddress: 'agent-2', creator: OWNER },
+      'agent-3': { agentAddress: 'agent-3', creator: OTHER }
+    };
+    store = new MemoryDelegationStore();
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    }, new MemoryAuditStore());
+    service = new DelegationService(store, auditLogger, async address => agents[address] ?? null, {
+      maxTtlMs: 30 * DAY
+    });
+    acceptDelegatedAccess(service);
+
+    const tokenManager = new TokenManager({ secret: 'test-secret', expiresIn: '1h', algorithm: 'HS256' });
+    const loadAgent = async (req: Request) => {
+      const agent = agents[req.params.agentAddress];
+      return agent ? agentResource(agent, await delegationsFor(agent, req.ip)) : null;
+    };
+
+    const app = express();
+    app.patch('/agents/:agentAddress', authenticate(tokenManager), requirePermission('agent:update', loadAgent),
+      (req, res) => res.json({ user: (req as AuthenticatedRequest).user }));
+    app.post('/agents/:agentAddress/transfer', authenticate(tokenManager), requirePermission('agent:transfer', loadAgent),
+      (req, res) => res.json({ ok: true }));
+    app.patch('/as/:wallet/agents/:agentAddress', (req, res, next) => {
+      (req as AuthenticatedRequest).user = { id: 'u2', roles: ['user'], wallets: [req.params.wallet] };
+      next();
+    }, requirePermission('agent:update', loadAgent), (req, res) => res.json({ ok: true }));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(done => {
+    acceptDelegatedAccess(null);
+    auditLogger.close();
+    server.close(done);
+  });
+
+  const patch = (path: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, { method: 'PATCH', headers });
+
+  it('should issue scoped keys only for agents the caller owns', async () => {
+    const { apiKey, key } = await service.createApiKey(owner, {
+      name: 'deploy bot',
+      agents: ['agent-1'],
+      actions: ['agent:update']
+    });
+
+    expect(apiKey).toMatch(/^ak_[0-9a-f]{16}_/);
+    expect(key.ownerWallet).toBe(OWNER);
+    expect(key.expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * DAY);
+    expect(key).not.toHaveProperty('secretHash');
+    expect((await store.findApiKey(key.id))!.secretHash).not.toContain(apiKey.split('_')[2]);
+
+    await expect(service.createApiKey(owner, { name: 'x', agents: ['agent-3'], actions: ['agent:update'] }))
+      .rejects.toThrow('Only the owner of agent agent-3 can delegate access to it');
+    await expect(service.createApiKey({ id: 'admin', roles: ['admin'] }, {
+      name: 'x', agents: ['agent-1'], actions: ['agent:update']
+    })).rejects.toThrow('Only the owner');
+    await expect(service.createApiKey(owner, { name: 'x', agents: ['agent-1'], actions: ['agent:transfer'] }))
+      .rejects.toThrow("Actions can't be delegated: agent:transfer");
+    await expect(service.createApiKey(owner, {
+      name: 'x', agents: ['agent-1'], actions: ['agent:update'], expiresAt: new Date(Date.now() + 31 * DAY)
+    })).rejects.toThrow('expiresAt can be at most 30 days away');
+    await expect(service.createApiKey(owner, {
+      name: 'x', agents: ['agent-1'], actions: ['agent:update'], allowedIps: ['10.0.0.0/33']
+    })).rejects.toThrow('Invalid IP allowlist entries: 10.0.0.0/33');
+    await expect(service.createApiKey({ ...owner, scope: { agents: ['agent-1'] } }, {
+      name: 'x', agents: ['agent-1'], actions: ['agent:update']
+    })).rejects.toThrow('API keys cannot issue keys or grants');
+  });
+
+  it('should authenticate API keys within their scope and audit each use', async () => {
+    const { apiKey, key } = await service.createApiKey(owner, {
+      name: 'deploy bot',
+      agents: ['agent-1'],
+      actions: ['agent:update']
+    });
+
+    const response = await patch('/agents/agent-1', { 'X-API-Key': apiKey });
+    expect(response.status).toBe(200);
+    expect((await response.json()).user).toMatchObject({ id: 'u1', roles: [], wallets: [OWNER], apiKeyId: key.id });
+    expect((await patch('/agents/agent-1', { Authorization: `Bearer ${apiKey}` })).status).toBe(200);
+
+    // agent-2 is the owner's too, but outside the key's scope
+    expect((await patch('/agents/agent-2', { 'X-API-Key': apiKey })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/agents/agent-1/transfer`, { method: 'POST', headers: { 'X-API-Key': apiKey } }))
+      .status).toBe(403);
+
+    const tampered = apiKey.slice(0, -1) + (apiKey.endsWith('A') ? 'B' : 'A');
+    expect((await patch('/agents/agent-1', { 'X-API-Key': tampered })).status).toBe(401);
+
+    const [listed] = await service.listApiKeys('u1');
+    expect(listed.lastUsedAt).toBeInstanceOf(Date);
+    expect(listed.lastUsedIp).toMatch(/127\.0\.0\.1$/);
+
+    // Every authenticated request is logged, including ones the scope then refuses
+    const used = await auditLogger.searchEvents({ type: 'apikey.used' });
+    expect(used).toHaveLength(4);
+    expect(used[0].metadata).toMatchObject({ keyId: key.id, method: 'PATCH', path: '/agents/agent-1' });
+    expect(await auditLogger.searchEvents({ type: 'apikey.rejected' })).toHaveLength(1);
+  });
+
+  it('should reject revoked keys, keys from other addresses and keys whose agent moved', async () => {
+    const restricted = await service.createApiKey(owner, {
+      name: 'office only', agents: ['agent-1'], actions: ['agent:update'], allowedIps: ['10.0.0.0/8']
+    });
+    expect((await patch('/agents/agent-1', { 'X-API-Key': restricted.apiKey })).status).toBe(401);
+
+    const { apiKey, key } = await service.createApiKey(owner, {
+      name: 'bot', agents: ['agent-1'], actions: ['agent:update']
+    });
+    agents['agent-1'] = { agentAddress: 'agent-1', creator: OTHER };
+    expect((await patch('/agents/agent-1', { 'X-API-Key': apiKey })).status).toBe(403);
+
+    await expect(service.revokeApiKey({ id: 'u2', roles: [] }, key.id)).rejects.toThrow('API key not found');
+    await service.revokeApiKey(owner, key.id);
+    expect((await patch('/agents/agent-1', { 'X-API-Key': apiKey })).status).toBe(401);
+
+    const reasons = (await auditLogger.searchEvents({ type: 'apikey.rejected' })).map(event => event.metadata?.reason);
+    expect(reasons).toEqual(['address not allowed', 'revoked']);
+  });
+
+  it('should let delegates act on the agent until the grant lapses', async () => {
+    expect((await patch(`/as/${BOT}/agents/agent-1`)).status).toBe(403);
+
+    const grant = await service.grantDelegate(owner, {
+      agentAddress: 'agent-1',
+      delegate: BOT,
+      actions: ['agent:update']
+    });
+    expect((await patch(`/as/${BOT}/agents/agent-1`)).status).toBe(200);
+    expect((await patch(`/as/${BOT}/agents/agent-2`)).status).toBe(403);
+
+    const [used] = await auditLogger.searchEvents({ type: 'delegate.used' });
+    expect(used.metadata).toMatchObject({ grantId: grant.id, action: 'agent:update', resource: 'agent-1' });
+    expect((await store.findGrant(grant.id))!.lastUsedAt).toBeInstanceOf(Date);
+
+    await service.revokeGrant(owner, grant.id);
+    expect((await patch(`/as/${BOT}/agents/agent-1`)).status).toBe(403);
+    expect(await service.listGrants('u1', 'agent-1')).toEqual([
+      expect.objectContaining({ id: grant.id, revokedAt: expect.any(Date) })
+    ]);
+  });
+
+  it('should match IPv4 and IPv6 allowlists', () => {
+    expect(ipAllowed([], undefined)).toBe(true);
+    expect(ipAllowed(['10.0.0.0/8'], undefined)).toBe(false);
+    expect(ipAllowed(['10.0.0.0/8'], '10.1.2.3')).toBe(true);
+    expect(ipAllowed(['10.0.0.0/8'], '::ffff:10.1.2.3')).toBe(true);
+    expect(ipAllowed(['10.0.0.0/8', '192.168.1.5'], '192.168.1.6')).toBe(false);
+    expect(ipAllowed(['2001:db8::/32'], '2001:db8::1')).toBe(true);
+    expect(ipAllowed(['2001:db8::/32'], '10.1.2.3')).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { FunctionExecutor, FunctionRunner } from '../../services/functions/function-executor';
+import { ExecutionJob, ExecutionUpdate, ExecutionWorker, StoredFunction } from '../../services/functions/execution-worker';
+import { FunctionSchemaValidator } from '../../services/functions/schema-validator';
+import { CallbackNotifier, signCallback, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../../services/functions/callback-notifier';
+import { MemoryJobQueue } from '../../services/queue/memory-job-queue';
+
+describe('ExecutionWorker', () => {
+  let queue: MemoryJobQueue<ExecutionJob>;
+  let runner: jest.Mocked<FunctionRunner>;
+  let functions: Map<string, StoredFunction>;
+  let updates: Map<string, ExecutionUpdate[]>;
+  let mockHttp: { post: jest.Mock };
+  let worker: ExecutionWorker;
+
+  const enqueue = (callbackUrl?: string) => queue.enqueue({
+    executionId: 'exec1',
+    functionId: 'fn1',
+    callerAddress: 'caller1',
+    inputs: { n: 1 },
+    callbackUrl
+  }, { id: 'exec1', maxAttempts: 2 });
+
+  const lastUpdate = () => {
+    const history = updates.get('exec1') || [];
+    return history[history.length - 1];
+  };
+
+  beforeEach(() => {
+    queue = new MemoryJobQueue('test');
+    runner = { validate: jest.fn().mockReturnValue([]), run: jest.fn() };
+    functions = new Map([['fn1', {
+      id: 'fn1',
+      agentAddress: 'agent1',
+      functionName: 'fn1',
+      kind: 'script',
+      handler: {},
+      outputSchema: { type: 'object', required: ['n'] }
+    }]]);
+    updates = new Map();
+    mockHttp = { post: jest.fn().mockResolvedValue({ status: 200 }) };
+
+    const executor = new FunctionExecutor(async id => functions.get(id) || null, { maxChainDepth: 3 })
+      .register('script', runner);
+
+    worker = new ExecutionWorker(
+      queue,
+      executor,
+      {
+        loadFunction: async id => functions.get(id) || null,
+        updateExecution: async (id, update) => {
+          updates.set(id, [...(updates.get(id) || []), update]);
+        }
+      },
+      new FunctionSchemaValidator(),
+      new CallbackNotifier(
+        { secret: 'shh', timeoutMs: 100, retries: 0 },
+        mockHttp as any,
+        async hostname => hostname === 'example.com' ? ['93.184.215.14'] : [hostname]
+      ),
+      { pollIntervalMs: 10, retryBackoffMs: 0, maxRetryBackoffMs: 0 }
+    );
+  });
+
+  it('should return false when there is nothing to do', async () => {
+    expect(await worker.processNext()).toBe(false);
+  });
+
+  it('should move a job through running to success', async () => {
+    runner.run.mockResolvedValue({ n: 2 });
+    await enqueue();
+
+    await worker.processNext();
+
+    const history = updates.get('exec1')!;
+    expect(history[0].status).toBe('running');
+    expect(lastUpdate()).toEqual(expect.objectContaining({
+      status: 'success',
+      outputs: { n: 2 },
+      attempts: 1
+    }));
+    expect(await queue.stats()).toEqual({ ready: 0, delayed: 0, processing: 0, dead: 0 });
+  });
+
+  it('should retry failures and dead-letter once attempts are exhausted', async () => {
+    runner.run.mockRejectedValue(new Error('upstream down'));
+    await enqueue();
+
+    await worker.processNext();
+    expect(lastUpdate()).toEqual(expect.objectContaining({ status: 'queued', attempts: 1 }));
+
+    await worker.processNext();
+    expect(lastUpdate()).toEqual(expect.objectContaining({
+      status: 'failed',
+      attempts: 2,
+      error: 'upstream down'
+    }));
+
+    const dead = await queue.getDeadLetters();
+    expect(dead.map(job => job.id)).toEqual(['exec1']);
+    expect(dead[0].lastError).toBe('upstream down');
+  });
+
+  it('should not retry outputs that break the output schema', async () => {
+    runner.run.mockResolvedValue({ wrong: true });
+    await enqueue();
+
+    await worker.processNext();
+
+    expect(lastUpdate()).toEqual(expect.objectContaining({
+      status: 'failed',
+      error: 'Function output does not match outputSchema'
+    }));
+    expect((await queue.stats()).dead).toBe(1);
+  });
+
+  it('should send a signed completion callback', async () => {
+    runner.run.mockResolvedValue({ n: 3 });
+    await enqueue('https://example.com/callback');
+
+    await worker.processNext();
+
+    expect(mockHttp.post).toHaveBeenCalledTimes(1);
+    const [url, body, options] = mockHttp.post.mock.calls[0];
+    const timestamp = Number(options.headers[TIMESTAMP_HEADER]);
+
+    expect(url).toBe('https://example.com/callback');
+    expect(JSON.parse(body)).toEqual(expect.objectContaining({ executionId: 'exec1', status: 'success' }));
+    expect(options.headers[SIGNATURE_HEADER]).toBe(signCallback('shh', timestamp, body));
+  });
+
+  it('should not send callbacks to private addresses', async () => {
+    runner.run.mockResolvedValue({ n: 3 });
+    await enqueue('http://169.254.169.254/latest/meta-data/');
+
+    await worker.processNext();
+
+    expect(lastUpdate()).toEqual(expect.objectContaining({ status: 'success' }));
+    expect(mockHttp.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { AgentFunctionDefinition, FunctionExecutor } from '../../services/functions/function-executor';
+import { ScriptRunner } from '../../services/functions/runners/script-runner';
+import { ChainRunner } from '../../services/functions/runners/chain-runner';
+import { WebhookRunner } from '../../services/functions/runners/webhook-runner';
+
+const scriptFunction = (id: string, source: string): AgentFunctionDefinition => ({
+  id,
+  agentAddress: 'agent1',
+  functionName: id,
+  kind: 'script',
+  handler: { source }
+});
+
+describe('FunctionExecutor', () => {
+  let functions: Map<string, AgentFunctionDefinition>;
+  let executor: FunctionExecutor;
+  let mockHttp: { post: jest.Mock };
+  let dnsRecords: Record<string, string[]>;
+
+  beforeEach(() => {
+    functions = new Map();
+    mockHttp = { post: jest.fn() };
+    dnsRecords = { 'example.com': ['93.184.215.14'], localhost: ['127.0.0.1', '::1'] };
+    const resolve = async (hostname: string) => dnsRecords[hostname] ?? [hostname];
+    executor = new FunctionExecutor(async id => functions.get(id) || null, { maxChainDepth: 3 })
+      .register('script', new ScriptRunner({ timeoutMs: 500, memoryMb: 16 }))
+      .register('chain', new ChainRunner())
+      .register('webhook', new WebhookRunner({ timeoutMs: 500, maxResponseBytes: 1024 }, mockHttp as any, resolve));
+  });
+
+  describe('script functions', () => {
+    it('should return the snippet output', async () => {
+      const result = await executor.execute(
+        scriptFunction('sum', 'return { sum: inputs.a + inputs.b };'),
+        { a: 2, b: 3 },
+        'caller1'
+      );
+
+      expect(result.status).toBe('success');
+      expect(result.output).toEqual({ sum: 5 });
+      expect(result.error).toBeNull();
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should time out runaway scripts', async () => {
+      const result = await executor.execute(scriptFunction('loop', 'while (true) {}'), {}, 'caller1');
+
+      expect(result.status).toBe('timeout');
+      expect(result.output).toBeNull();
+    });
+
+    it('should report thrown errors as failures', async () => {
+      const result = await executor.execute(scriptFunction('boom', 'throw new Error("boom");'), {}, 'caller1');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('boom');
+    });
+
+    it('should not expose the host environment', async () => {
+      const result = await executor.execute(scriptFunction('escape', 'return typeof require;'), {}, 'caller1');
+
+      expect(result.output).toBe('undefined');
+    });
+
+    it('should not reach the host through the inputs object', async () => {
+      const result = await executor.execute(
+        scriptFunction('escape', "return inputs.constructor.constructor('return process')().env;"),
+        { a: 1 },
+        'caller1'
+      );
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('process is not defined');
+    });
+
+    it('should stop scripts over the memory limit', async () => {
+      const result = await executor.execute(
+        scriptFunction('hog', 'const chunks = []; while (true) chunks.push(new Array(1e5).fill(1));'),
+        {},
+        'caller1'
+      );
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('memory limit');
+    });
+  });
+
+  describe('chain functions', () => {
+    it('should pipe each step output into the next step', async () => {
+      functions.set('double', scriptFunction('double', 'return { n: inputs.n * 2 };'));
+      functions.set('inc', scriptFunction('inc', 'return { n: inputs.n + 1 };'));
+
+      const result = await executor.execute({
+        id: 'pipeline',
+        agentAddress: 'agent1',
+        functionName: 'pipeline',
+        kind: 'chain',
+        handler: { steps: ['double', 'inc'] }
+      }, { n: 4 }, 'caller1');
+
+      expect(result.status).toBe('success');
+      expect(result.output).toEqual({ n: 9 });
+    });
+
+    it('should stop circular chains', async () => {
+      const loop: AgentFunctionDefinition = {
+        id: 'loop',
+        agentAddress: 'agent1',
+        functionName: 'loop',
+        kind: 'chain',
+        handler: { steps: ['loop'] }
+      };
+      functions.set('loop', loop);
+
+      const result = await executor.execute(loop, {}, 'caller1');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('Circular function chain');
+    });
+  });
+
+  describe('webhook functions', () => {
+    it('should post inputs to the webhook and return its response', async () => {
+      mockHttp.post.mockResolvedValue({ data: { ok: true } });
+
+      const result = await executor.execute({
+        id: 'hook',
+        agentAddress: 'agent1',
+        functionName: 'hook',
+        kind: 'webhook',
+        handler: { url: 'https://example.com/hook' }
+      }, { q: 1 }, 'caller1');
+
+      expect(result.output).toEqual({ ok: true });
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        'https://example.com/hook',
+        expect.objectContaining({ inputs: { q: 1 }, callerAddress: 'caller1' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should refuse a host that has since resolved to a private address', async () => {
+      dnsRecords['example.com'] = ['169.254.169.254'];
+
+      const result = await executor.execute({
+        id: 'hook',
+        agentAddress: 'agent1',
+        functionName: 'hook',
+        kind: 'webhook',
+        handler: { url: 'https://example.com/hook' }
+      }, { q: 1 }, 'caller1');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('private or reserved address');
+      expect(mockHttp.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateDefinition', () => {
+    it('should reject unknown kinds and malformed handlers', async () => {
+      expect(await executor.validateDefinition('ftp', {})).toEqual(['Unsupported function kind: ftp']);
+      expect(await executor.validateDefinition('webhook', { url: 'not a url' })).toEqual(['handler.url must be a valid URL']);
+      expect(await executor.validateDefinition('chain', { steps: [] })).toHaveLength(1);
+      expect(await executor.validateDefinition('script', { source: 'return 1;' })).toEqual([]);
+    });
+
+    it('should reject webhooks pointing at internal addresses', async () => {
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data/',
+        'http://localhost:8080/admin',
+        'http://10.0.0.5/',
+        'http://192.168.1.1/',
+        'http://[::ffff:127.0.0.1]/',
+        'http://[fd00::1]/'
+      ]) {
+        expect(await executor.validateDefinition('webhook', { url })).toEqual([
+          expect.stringContaining('private or reserved address')
+        ]);
+      }
+      expect(await executor.validateDefinition('webhook', { url: 'https://example.com/hook' })).toEqual([]);
+    });
+  });
+});
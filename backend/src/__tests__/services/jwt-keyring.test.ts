@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenManager } from '../../services/auth/token-manager';
+import { Keyring, KeyringKey, loadKeyring } from '../../services/auth/keyring';
+import { signJws } from '../../services/auth/jws';
+import { DEFAULT_JWT_SECRET } from '../../config';
+
+describe('JWT keyring', () => {
+  const jwtConfig = { secret: 'unused', expiresIn: '1h', algorithm: 'RS256' };
+  const hour = 60 * 60 * 1000;
+
+  const rsaKey = (kid: string, lifecycle: Partial<KeyringKey> = {}): KeyringKey => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    return { kid, algorithm: 'RS256', privateKey, publicKey, activatesAt: new Date(0), ...lifecycle };
+  };
+
+  const managerFor = (keyring: Keyring) => new TokenManager(jwtConfig, undefined, keyring);
+
+  const headerOf = (token: string) => JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+  it.each([
+    ['RS256', () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })],
+    ['ES256', () => crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })],
+    ['EdDSA', () => crypto.generateKeyPairSync('ed25519')]
+  ] as const)('should sign and verify with %s', async (algorithm, generate) => {
+    const { privateKey, publicKey } = generate();
+    const tokenManager = managerFor(new Keyring([
+      { kid: 'k1', algorithm, privateKey, publicKey, activatesAt: new Date(0) }
+    ]));
+
+    const token = await tokenManager.generateAccessToken('user1', ['user']);
+
+    expect(headerOf(token)).toEqual({ alg: algorithm, kid: 'k1', typ: 'JWT' });
+    expect(await tokenManager.verifyToken(token)).toEqual(expect.objectContaining({ userId: 'user1' }));
+  });
+
+  it('should switch signing keys at activation and keep verifying retired ones', async () => {
+    const now = Date.now();
+    const oldKey = rsaKey('old', { retiresAt: new Date(now + hour), expiresAt: new Date(now + 3 * hour) });
+    const newKey = rsaKey('new', { activatesAt: new Date(now + hour) });
+    const keyring = new Keyring([oldKey, newKey]);
+
+    expect(keyring.signingKey(new Date(now)).kid).toBe('old');
+    expect(keyring.signingKey(new Date(now + 2 * hour)).kid).toBe('new');
+
+    expect(keyring.verificationKey('old', new Date(now + 2 * hour))?.kid).toBe('old');
+    expect(keyring.verificationKey('old', new Date(now + 3 * hour))).toBeNull();
+    expect(keyring.verificationKey('new', new Date(now))).toBeNull();
+  });
+
+  it('should reject tokens from unknown keys or with a swapped algorithm', async () => {
+    const key = rsaKey('k1');
+    const tokenManager = managerFor(new Keyring([key]));
+    const claims = { userId: 'mallory', roles: ['admin'], exp: Math.floor(Date.now() / 1000) + 60 };
+
+    const unknownKid = signJws({ alg: 'RS256', kid: 'k2' }, claims, key.privateKey!);
+    // Classic confusion attack: HMAC keyed with the published public key
+    const hmacSecret = crypto.createSecretKey(key.publicKey.export({ type: 'spki', format: 'pem' }) as Buffer);
+    const swapped = signJws({ alg: 'HS256', kid: 'k1' }, claims, hmacSecret);
+
+    expect(await tokenManager.verifyToken(unknownKid)).toBeNull();
+    expect(await tokenManager.verifyToken(swapped)).toBeNull();
+  });
+
+  it('should publish public keys only', () => {
+    const now = Date.now();
+    const secret = crypto.createSecretKey(Buffer.from('shared'));
+    const keyring = new Keyring([
+      rsaKey('current'),
+      rsaKey('upcoming', { activatesAt: new Date(now + hour) }),
+      rsaKey('expired', { retiresAt: new Date(now - 2 * hour), expiresAt: new Date(now - hour) }),
+      { kid: 'hmac', algorithm: 'HS256', publicKey: secret, privateKey: secret, activatesAt: new Date(0) }
+    ]);
+
+    const { keys } = keyring.jwks(new Date(now));
+
+    expect(keys.map(key => key.kid)).toEqual(['current', 'upcoming']);
+    expect(keys[0]).toEqual(expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig', n: expect.any(String) }));
+    expect(keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should reject key material that does not match the algorithm', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+
+    expect(() => new Keyring([{ kid: 'k1', algorithm: 'ES256', privateKey, publicKey, activatesAt: new Date(0) }]))
+      .toThrow('Key k1 is not a valid ES256 key');
+  });
+
+  it('should load keys from a keys file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+    try {
+      const { privateKey } = crypto.generateKeyPairSync('ed25519');
+      const keyFile = path.join(dir, 'ed25519.pem');
+      fs.writeFileSync(keyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+      const keysFile = path.join(dir, 'keys.json');
+      fs.writeFileSync(keysFile, JSON.stringify([{ kid: 'ed1', algorithm: 'EdDSA', privateKeyFile: keyFile }]));
+
+      const keyring = loadKeyring({ env: 'production', secret: DEFAULT_JWT_SECRET, algorithm: 'EdDSA', keysFile });
+
+      expect(keyring.signingKey().kid).toBe('ed1');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require HS256 keys file entries to bring their own secret', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+    try {
+      const keysFile = path.join(dir, 'keys.json');
+      fs.writeFileSync(keysFile, JSON.stringify([{ kid: 'hmac', algorithm: 'HS256' }]));
+
+      for (const env of ['production', 'development']) {
+        expect(() => loadKeyring({ env, secret: DEFAULT_JWT_SECRET, algorithm: 'HS256', keysFile }))
+          .toThrow('Key hmac is HS256 and needs privateKey or privateKeyFile');
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should refuse the default secret in production', () => {
+    expect(() => loadKeyring({ env: 'production', secret: DEFAULT_JWT_SECRET, algorithm: 'HS256' }))
+      .toThrow('JWT_SECRET must be changed from the default in production');
+    expect(() => loadKeyring({ env: 'development', secret: DEFAULT_JWT_SECRET, algorithm: 'HS256' }))
+      .not.toThrow();
+  });
+});
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { LoginProtection, LoginProtectionConfig } from '../../services/auth/login-protection';
+import { MemoryLoginAttemptStore } from '../../services/auth/login-attempt-store';
+import { CaptchaChallenge, ProofOfWorkChallenge } from '../../services/auth/login-challenge';
+import { MemoryNonceStore } from '../../services/auth/nonce-store';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import { AccountLockedError, ChallengeRequiredError } from '../../utils/errors';
+
+const CONFIG: LoginProtectionConfig = {
+  windowMs: 15 * 60 * 1000,
+  maxFailures: { username: 8, ip: 20, username_ip: 3 },
+  baseLockoutMs: 60 * 1000,
+  maxLockoutMs: 5 * 60 * 1000,
+  lockoutMemoryMs: 24 * 60 * 60 * 1000,
+  challengeAfter: 2
+};
+
+function solveProofOfWork(challenge: string, difficulty: number): string {
+  for (let nonce = 0; ; nonce++) {
+    const digest = crypto.createHash('sha256').update(`${challenge}:${nonce}`).digest();
+    const bits = digest.readUInt32BE(0).toString(2).padStart(32, '0').indexOf('1');
+    if (bits === -1 || bits >= difficulty) {
+      return String(nonce);
+    }
+  }
+}
+
+describe('LoginProtection', () => {
+  let store: MemoryLoginAttemptStore;
+  let auditLogger: SecurityAuditLogger;
+  let protection: LoginProtection;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+    store = new MemoryLoginAttemptStore();
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    }, new MemoryAuditStore());
+    protection = new LoginProtection(store, auditLogger, CONFIG);
+  });
+
+  afterEach(() => {
+    auditLogger.close();
+    jest.useRealTimers();
+  });
+
+  async function fail(username: string, ip: string, times: number) {
+    for (let i = 0; i < times; i++) {
+      await protection.recordFailure({ username, ip });
+    }
+  }
+
+  it('should lock a username+IP pair with exponentially growing lockouts', async () => {
+    await fail('Alice', '10.0.0.1', 3);
+
+    await expect(protection.assertAllowed({ username: 'alice', ip: '10.0.0.1' }))
+      .rejects.toThrow(AccountLockedError);
+    // Other addresses can still try the account
+    await expect(protection.assertAllowed({ username: 'alice', ip: '10.0.0.2' })).resolves.toBeUndefined();
+
+    jest.advanceTimersByTime(61 * 1000);
+    await protection.assertAllowed({ username: 'alice', ip: '10.0.0.1' });
+    await fail('alice', '10.0.0.1', 3);
+
+    const error = await protection.assertAllowed({ username: 'alice', ip: '10.0.0.1' }).catch(e => e);
+    expect(error).toBeInstanceOf(AccountLockedError);
+    expect(error.retryAfterSeconds).toBe(120);
+
+    const events = await auditLogger.searchEvents({ type: 'auth.lockout' });
+    expect(events).toHaveLength(2);
+    expect(events[1].metadata).toEqual(expect.objectContaining({
+      scope: 'username_ip',
+      subject: 'alice|10.0.0.1',
+      lockouts: 2,
+      durationMs: 120000
+    }));
+  });
+
+  it('should lock a username targeted from many addresses and cap the lockout', async () => {
+    for (let i = 0; i < 8; i++) {
+      await protection.recordFailure({ username: 'bob', ip: `10.0.1.${i}` });
+    }
+
+    await expect(protection.assertAllowed({ username: 'bob', ip: '10.0.9.9' })).rejects.toThrow(AccountLockedError);
+    expect(await protection.listLockouts()).toEqual([
+      expect.objectContaining({ scope: 'username', subject: 'bob' })
+    ]);
+    expect((await auditLogger.searchEvents({ type: 'auth.lockout' }))[0].level).toBe('critical');
+
+    for (let lockout = 2; lockout <= 4; lockout++) {
+      jest.advanceTimersByTime(CONFIG.maxLockoutMs + 1000);
+      await fail('bob', `10.0.2.${lockout}`, 8);
+    }
+    const [latest] = await protection.listLockouts();
+    expect(latest.lockedUntil.getTime() - Date.now()).toBe(CONFIG.maxLockoutMs);
+  });
+
+  it('should clear account counters on success but keep the IP counter', async () => {
+    await fail('carol', '10.0.0.3', 2);
+    await protection.recordSuccess({ username: 'carol', ip: '10.0.0.3' });
+
+    expect(await store.getFailures('username:carol')).toBe(0);
+    expect(await store.getFailures('username_ip:carol|10.0.0.3')).toBe(0);
+    expect(await store.getFailures('ip:10.0.0.3')).toBe(2);
+  });
+
+  it('should let an admin unlock and audit it', async () => {
+    await fail('dave', '10.0.0.4', 3);
+
+    expect(await protection.unlock('username_ip', 'dave|10.0.0.4', 'admin1')).toBe(true);
+    await expect(protection.assertAllowed({ username: 'dave', ip: '10.0.0.4' })).resolves.toBeUndefined();
+    expect(await protection.listLockouts()).toEqual([]);
+
+    const [event] = await auditLogger.searchEvents({ type: 'auth.lockout.cleared' });
+    expect(event.userId).toBe('admin1');
+  });
+
+  it('should demand a proof of work after repeated failures', async () => {
+    protection = new LoginProtection(store, auditLogger, CONFIG, new ProofOfWorkChallenge(new MemoryNonceStore(), {
+      difficulty: 8,
+      ttlMs: 60000
+    }));
+    await fail('erin', '10.0.0.5', 2);
+
+    const error = await protection.assertAllowed({ username: 'erin', ip: '10.0.0.5' }).catch(e => e);
+    expect(error).toBeInstanceOf(ChallengeRequiredError);
+    const { challenge, difficulty } = error.details.challenge;
+
+    const solution = { challenge, nonce: solveProofOfWork(challenge, difficulty) };
+    await protection.assertAllowed({ username: 'erin', ip: '10.0.0.5', challenge: solution });
+
+    // A solution is good for one attempt
+    await expect(protection.assertAllowed({ username: 'erin', ip: '10.0.0.5', challenge: solution }))
+      .rejects.toThrow('Challenge solution was rejected');
+  });
+
+  it('should verify CAPTCHA tokens with the provider', async () => {
+    const post = jest.fn().mockResolvedValue({ data: { success: true } });
+    const captcha = new CaptchaChallenge(
+      { siteKey: 'site', secret: 'shh', verifyUrl: 'https://captcha.example/siteverify', timeoutMs: 1000 },
+      { post } as any
+    );
+    protection = new LoginProtection(store, auditLogger, CONFIG, captcha);
+
+    expect(await protection.challengeFor({ username: 'frank', ip: '10.0.0.6' })).toBeNull();
+    await fail('frank', '10.0.0.6', 2);
+    expect(await protection.challengeFor({ username: 'frank', ip: '10.0.0.6' }))
+      .toEqual({ type: 'captcha', siteKey: 'site' });
+
+    await protection.assertAllowed({ username: 'frank', ip: '10.0.0.6', challenge: { token: 'tok' } });
+    expect(post).toHaveBeenCalledWith(
+      'https://captcha.example/siteverify',
+      'secret=shh&response=tok&remoteip=10.0.0.6',
+      expect.anything()
+    );
+  });
+});
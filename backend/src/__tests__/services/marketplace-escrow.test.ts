@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import { Wallet } from 'ethers';
+import { Prisma } from '@prisma/client';
+import {
+  canTransition,
+  isTerminalEscrowStatus,
+  nextEscrowStatus
+} from '../../services/marketplace/escrow-state-machine';
+import {
+  buildMarketplaceMessage,
+  MARKETPLACE_DOMAIN,
+  MARKETPLACE_TYPES,
+  MarketplaceAuthorization,
+  verifyMarketplaceSignature
+} from '../../services/marketplace/marketplace-signatures';
+import { consumeMarketplaceNonces, recordMarketplaceNonce } from '../../services/marketplace/marketplace-nonces';
+import { decodeBase58, encodeBase58 } from '../../utils/crypto';
+import { ConflictError } from '../../utils/errors';
+
+describe('escrow state machine', () => {
+  it('should follow the happy path from offer to settlement', () => {
+    const escrowed = nextEscrowStatus('OFFERED', 'PAYMENT_CONFIRMED');
+    expect(escrowed).toBe('ESCROWED');
+    expect(nextEscrowStatus(escrowed, 'SETTLE')).toBe('SETTLED');
+  });
+
+  it('should expire unpaid offers and refund funded escrows on timeout', () => {
+    expect(nextEscrowStatus('OFFERED', 'EXPIRE')).toBe('EXPIRED');
+    expect(nextEscrowStatus('ESCROWED', 'EXPIRE')).toBe('REFUNDED');
+  });
+
+  it('should reject transitions that skip payment or leave a terminal state', () => {
+    expect(() => nextEscrowStatus('OFFERED', 'SETTLE')).toThrow(ConflictError);
+    expect(() => nextEscrowStatus('ESCROWED', 'CANCEL')).toThrow(ConflictError);
+    expect(() => nextEscrowStatus('SETTLED', 'REFUND')).toThrow(ConflictError);
+
+    expect(canTransition('CANCELLED', 'PAYMENT_CONFIRMED')).toBe(false);
+    expect(isTerminalEscrowStatus('REFUNDED')).toBe(true);
+    expect(isTerminalEscrowStatus('ESCROWED')).toBe(false);
+  });
+});
+
+describe('marketplace signatures', () => {
+  const authorization: MarketplaceAuthorization = {
+    action: 'offer',
+    agentAddress: '0x1234567890123456789012345678901234567890',
+    price: '1.5',
+    duration: 0,
+    nonce: 'nonce-1',
+    expiresAt: Math.floor(Date.now() / 1000) + 3600
+  };
+
+  it('should verify EIP-191 signatures from the signer only', async () => {
+    const wallet = Wallet.createRandom();
+    const signature = await wallet.signMessage(buildMarketplaceMessage(authorization));
+
+    expect(verifyMarketplaceSignature(wallet.address, authorization, signature)).toBe(true);
+    expect(verifyMarketplaceSignature(Wallet.createRandom().address, authorization, signature)).toBe(false);
+    expect(verifyMarketplaceSignature(wallet.address, { ...authorization, price: '0.1' }, signature)).toBe(false);
+  });
+
+  it('should verify EIP-712 typed data signatures', async () => {
+    const wallet = Wallet.createRandom();
+    const signature = await wallet.signTypedData(MARKETPLACE_DOMAIN, MARKETPLACE_TYPES, authorization);
+
+    expect(verifyMarketplaceSignature(wallet.address, authorization, signature, 'eip712')).toBe(true);
+    expect(verifyMarketplaceSignature(wallet.address, authorization, signature, 'personal')).toBe(false);
+  });
+
+  it('should bind EIP-712 signatures to the chain and escrow contract', async () => {
+    const wallet = Wallet.createRandom();
+    const otherChain = await wallet.signTypedData({ ...MARKETPLACE_DOMAIN, chainId: 5 }, MARKETPLACE_TYPES, authorization);
+    const otherContract = await wallet.signTypedData(
+      { ...MARKETPLACE_DOMAIN, verifyingContract: Wallet.createRandom().address },
+      MARKETPLACE_TYPES,
+      authorization
+    );
+
+    expect(MARKETPLACE_DOMAIN).toEqual(expect.objectContaining({ chainId: 1, verifyingContract: expect.any(String) }));
+    expect(verifyMarketplaceSignature(wallet.address, authorization, otherChain, 'eip712')).toBe(false);
+    expect(verifyMarketplaceSignature(wallet.address, authorization, otherContract, 'eip712')).toBe(false);
+  });
+
+  it('should bind listing signatures to the listing duration', async () => {
+    const wallet = Wallet.createRandom();
+    const listing: MarketplaceAuthorization = { ...authorization, action: 'list', duration: 7 };
+    const personal = await wallet.signMessage(buildMarketplaceMessage(listing));
+    const typed = await wallet.signTypedData(MARKETPLACE_DOMAIN, MARKETPLACE_TYPES, listing);
+
+    expect(buildMarketplaceMessage(listing)).toContain('Duration: 7 days');
+    expect(verifyMarketplaceSignature(wallet.address, listing, personal)).toBe(true);
+    expect(verifyMarketplaceSignature(wallet.address, listing, typed, 'eip712')).toBe(true);
+    expect(verifyMarketplaceSignature(wallet.address, { ...listing, duration: 365 }, personal)).toBe(false);
+    expect(verifyMarketplaceSignature(wallet.address, { ...listing, duration: 365 }, typed, 'eip712')).toBe(false);
+  });
+
+  it('should reject signatures past their expiry', async () => {
+    const wallet = Wallet.createRandom();
+    const expired = { ...authorization, expiresAt: Math.floor(Date.now() / 1000) - 1 };
+
+    expect(buildMarketplaceMessage(authorization)).toContain(`Expires: ${new Date(authorization.expiresAt * 1000).toISOString()}`);
+    expect(verifyMarketplaceSignature(wallet.address, expired, await wallet.signMessage(buildMarketplaceMessage(expired)))).toBe(false);
+    expect(verifyMarketplaceSignature(
+      wallet.address,
+      expired,
+      await wallet.signTypedData(MARKETPLACE_DOMAIN, MARKETPLACE_TYPES, expired),
+      'eip712'
+    )).toBe(false);
+  });
+
+  it('should verify Solana ed25519 signatures', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const rawKey = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+    const address = encodeBase58(rawKey);
+    const message = Buffer.from(buildMarketplaceMessage(authorization), 'utf8');
+    const signature = encodeBase58(crypto.sign(null, message, privateKey));
+
+    expect(verifyMarketplaceSignature(address, authorization, signature)).toBe(true);
+    expect(verifyMarketplaceSignature(address, { ...authorization, action: 'list' }, signature)).toBe(false);
+    expect(verifyMarketplaceSignature(address, authorization, signature, 'eip712')).toBe(false);
+  });
+
+  it('should round-trip base58 with leading zero bytes', () => {
+    const data = Buffer.from([0, 0, 1, 2, 255]);
+    expect(decodeBase58(encodeBase58(data))).toEqual(data);
+  });
+});
+
+describe('marketplace nonces', () => {
+  // Stands in for the MarketplaceNonce table and its (signer, nonce) key
+  const noncesTable = () => {
+    const rows = new Map<string, { id: string; signer: string; nonce: string; consumedAt: Date | null }>();
+    return {
+      rows,
+      tx: {
+        marketplaceNonce: {
+          create: async ({ data }: { data: { signer: string; nonce: string } }) => {
+            if ([...rows.values()].some(row => row.signer === data.signer && row.nonce === data.nonce)) {
+              throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+            }
+            const row = { ...data, id: `nonce-${rows.size + 1}`, consumedAt: null };
+            rows.set(row.id, row);
+            return row;
+          },
+          updateMany: async ({ where, data }: { where: { id: { in: string[] } }; data: { consumedAt: Date } }) => {
+            const open = where.id.in.map(id => rows.get(id)).filter(row => row && row.consumedAt === null);
+            open.forEach(row => Object.assign(row!, data));
+            return { count: open.length };
+          }
+        }
+      } as unknown as Prisma.TransactionClient
+    };
+  };
+
+  const seller = '0xabcdef0123456789abcdef0123456789abcdef01';
+
+  it('should accept each signer nonce once, whatever the address casing', async () => {
+    const { rows, tx } = noncesTable();
+
+    const id = await recordMarketplaceNonce(tx, '0xABCDEF0123456789ABCDEF0123456789ABCDEF01', 'nonce-1', 'list');
+
+    expect(rows.get(id)).toEqual(expect.objectContaining({ signer: seller, nonce: 'nonce-1' }));
+    await expect(recordMarketplaceNonce(tx, seller, 'nonce-1', 'offer')).rejects.toThrow(ConflictError);
+    await expect(recordMarketplaceNonce(tx, seller, 'nonce-2', 'offer')).resolves.toBeDefined();
+  });
+
+  it('should let a listing and offer settle only one sale', async () => {
+    const { tx } = noncesTable();
+    const listing = await recordMarketplaceNonce(tx, seller, 'listing', 'list');
+    const offer = await recordMarketplaceNonce(tx, '0x0000000000000000000000000000000000000001', 'offer', 'offer');
+    const laterOffer = await recordMarketplaceNonce(tx, '0x0000000000000000000000000000000000000002', 'offer', 'offer');
+
+    await consumeMarketplaceNonces(tx, [listing, offer]);
+
+    await expect(consumeMarketplaceNonces(tx, [listing, laterOffer])).rejects.toThrow(ConflictError);
+  });
+});
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Metric, MetricType } from '../../models/metric';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricsAggregationService } from '../../services/metrics/metrics-aggregation-service';
+import { MetricsRollupService } from '../../services/metrics/metrics-rollup-service';
+import { DDSketch } from '../../services/metrics/sketch';
+import { MemoryRollupStore, Rollup } from '../../services/metrics/storage/rollup-store';
+import { FileRollupStore } from '../../services/metrics/storage/file-rollup-store';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const T0 = Date.UTC(2026, 0, 1);
+
+let nextId = 0;
+const metric = (type: MetricType, timestamp: number, value: number): Metric => ({
+  id: `m${nextId++}`,
+  type,
+  value,
+  timestamp: new Date(timestamp)
+});
+
+describe('MetricsRollupService', () => {
+  let metricsService: MetricsService;
+  let store: MemoryRollupStore;
+  let rollups: MetricsRollupService;
+  let aggregation: MetricsAggregationService;
+
+  // Two days of points every 20 seconds
+  const seed = async () => {
+    for (let t = T0; t < T0 + 2 * DAY; t += 20000) {
+      await metricsService.addMetric(metric('cpu_usage', t, 50 + 40 * Math.sin(t / HOUR)));
+      await metricsService.addMetric(metric('error_rate', t + 5000, (t / 20000) % 7));
+    }
+  };
+
+  beforeEach(() => {
+    metricsService = new MetricsService();
+    store = new MemoryRollupStore();
+    rollups = new MetricsRollupService(metricsService, store, { rawRetention: 3 * DAY, delay: MINUTE });
+    aggregation = new MetricsAggregationService(metricsService, rollups);
+  });
+
+  afterEach(async () => {
+    await rollups.dispose();
+    await metricsService.dispose();
+    await aggregation.dispose();
+  });
+
+  it('should pick the coarsest tier that fits the interval', () => {
+    expect(rollups.selectTier(T0, T0 + DAY, HOUR)?.name).toBe('1h');
+    expect(rollups.selectTier(T0, T0 + DAY, 15 * MINUTE)?.name).toBe('5m');
+    expect(rollups.selectTier(T0, T0 + DAY, 90 * 1000)).toBeNull();
+    expect(rollups.selectTier(T0, T0 + 3 * HOUR)?.name).toBe('1h');
+    expect(rollups.selectTier(T0, T0 + 30 * 1000)).toBeNull();
+  });
+
+  it('should match a raw scan, filling edges and the unrolled tail from raw points', async () => {
+    await seed();
+    await rollups.run(T0 + 2 * DAY);
+    const raw = new MetricsAggregationService(metricsService);
+
+    // Unaligned on both ends, and running past the 1m watermark
+    const start = T0 + 3 * HOUR + 12345;
+    const end = T0 + 2 * DAY - 1;
+    for (const interval of [undefined, 5 * MINUTE, HOUR]) {
+      const rolled = await aggregation.getAggregates(start, end, undefined, { interval });
+      const exact = await raw.getAggregates(start, end, undefined, { interval });
+      expect(rolled).toHaveLength(exact.length);
+
+      for (const group of rolled) {
+        const match = exact.find(e => e.type === group.type && e.interval.start === group.interval.start)!;
+        expect(group.interval.end).toBe(match.interval.end);
+        expect(group.metrics.count).toBe(match.metrics.count);
+        expect(group.metrics.min).toBe(match.metrics.min);
+        expect(group.metrics.max).toBe(match.metrics.max);
+        expect(group.metrics.sum).toBeCloseTo(match.metrics.sum, 4);
+        expect(group.metrics.variance).toBeCloseTo(match.metrics.variance, 4);
+        expect(Math.abs(group.metrics.p90 - match.metrics.p90)).toBeLessThanOrEqual(Math.abs(match.metrics.p90) * 0.01);
+      }
+    }
+    await raw.dispose();
+  });
+
+  it('should read rollups instead of raw points and honour the function list', async () => {
+    await seed();
+    await rollups.run(T0 + 2 * DAY);
+    const getMetrics = jest.spyOn(metricsService, 'getMetrics');
+
+    const series = await aggregation.getTimeSeries(T0, T0 + DAY - 1, HOUR, ['cpu_usage'], ['count', 'max']);
+    expect(series).toHaveLength(24);
+    expect(series.every(point => Object.keys(point.metrics).sort().join() === 'count,max')).toBe(true);
+    expect(series.every(point => point.metrics.count === 180)).toBe(true);
+    expect(getMetrics).not.toHaveBeenCalled();
+  });
+
+  it('should cascade tiers and expire each on its own retention', async () => {
+    await seed();
+    await rollups.run(T0 + 2 * DAY);
+    expect(await store.getWatermark(MINUTE)).toBe(T0 + 2 * DAY - MINUTE);
+    expect(await store.getWatermark(DAY)).toBe(T0 + DAY);
+    expect(await store.find(DAY, {})).toHaveLength(2);
+
+    // Raw points and 1m buckets age out; coarser tiers still answer
+    const later = new MetricsRollupService(metricsService, store, {
+      rawRetention: 3 * DAY,
+      retention: { '1m': DAY, '5m': 30 * DAY, '1h': 30 * DAY, '1d': 30 * DAY }
+    });
+    await later.run(T0 + 10 * DAY);
+    await metricsService.deleteMetricsByType('cpu_usage', new Date(0), new Date(T0 + 10 * DAY));
+
+    expect(await store.find(MINUTE, { end: T0 + 9 * DAY - 1 })).toHaveLength(0);
+    const [day] = await later.summarize(T0, T0 + DAY - 1, ['cpu_usage'], DAY);
+    expect(day.summary.count).toBe(4320);
+    await later.dispose();
+  });
+});
+
+describe('FileRollupStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rollups-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should behave like the memory store and survive a restart', async () => {
+    const file = new FileRollupStore(dir);
+    const memory = new MemoryRollupStore();
+    const rollup = (type: string, start: number, count: number): Rollup => ({
+      type, resolution: MINUTE, start, count, sum: count, min: 1, max: 1, m2: 0,
+      minTime: start, maxTime: start, sketch: new DDSketch().toJSON()
+    });
+
+    // Spread over several partition files, with one bucket replaced
+    const batches = [
+      [rollup('cpu_usage', T0, 1), rollup('error_rate', T0, 1), rollup('cpu_usage', T0 + 3 * HOUR, 1)],
+      [rollup('cpu_usage', T0, 2), rollup('cpu_usage', T0 + 90 * MINUTE, 1)]
+    ];
+    for (const batch of batches) {
+      await file.put(batch);
+      await memory.put(batch);
+    }
+    await file.setWatermark(MINUTE, T0 + 4 * HOUR);
+
+    expect(await file.deleteBefore(MINUTE, T0 + MINUTE)).toBe(await memory.deleteBefore(MINUTE, T0 + MINUTE));
+    await file.close();
+
+    const reopened = new FileRollupStore(dir);
+    expect(await reopened.getWatermark(MINUTE)).toBe(T0 + 4 * HOUR);
+    expect(await reopened.getWatermark(HOUR)).toBeNull();
+    for (const range of [{}, { types: ['cpu_usage'] }, { start: T0 + HOUR, end: T0 + 3 * HOUR }]) {
+      expect(await reopened.find(MINUTE, range)).toEqual(await memory.find(MINUTE, range));
+    }
+    expect(await reopened.find(HOUR, {})).toEqual([]);
+    await reopened.close();
+  });
+});
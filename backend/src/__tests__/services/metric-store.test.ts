@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Metric, MetricType } from '../../models/metric';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MemoryMetricStore, MetricRange } from '../../services/metrics/storage/metric-store';
+import { FileMetricStore } from '../../services/metrics/storage/file-metric-store';
+import {
+  decodeTimestamps,
+  decodeValues,
+  encodeTimestamps,
+  encodeValues
+} from '../../services/metrics/storage/gorilla';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+let nextId = 0;
+const metric = (type: MetricType, timestamp: number, value: number, metadata?: Record<string, any>): Metric => ({
+  id: `m${nextId++}`,
+  type,
+  value,
+  timestamp: new Date(timestamp),
+  ...(metadata ? { metadata } : {})
+});
+
+// Deterministic, so a failure reproduces
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('Gorilla codecs', () => {
+  it('should round-trip awkward timestamps and values', () => {
+    const timestamps = [T0, T0, T0 + 10000, T0 + 20000, T0 + 20001, T0 + 5 * HOUR, T0 + 5 * HOUR + 64, -1000, 0, 2 ** 45];
+    const values = [0, -0, 1.5, 1.5, NaN, Infinity, -Infinity, Number.MAX_VALUE, Number.MIN_VALUE, -123.456];
+
+    expect(decodeTimestamps(encodeTimestamps(timestamps), timestamps.length)).toEqual(timestamps);
+    const decoded = decodeValues(encodeValues(values), values.length);
+    expect(decoded.map(v => Object.is(v, -0) ? '-0' : v)).toEqual(values.map(v => Object.is(v, -0) ? '-0' : v));
+
+    const next = random(42);
+    const noisy = Array.from({ length: 2000 }, () => (next() - 0.5) * 10 ** Math.floor(next() * 12));
+    expect(decodeValues(encodeValues(noisy), noisy.length)).toEqual(noisy);
+  });
+
+  it('should compress a regularly scraped series', () => {
+    const timestamps = Array.from({ length: 1000 }, (_, i) => T0 + i * 15000);
+    const values = Array.from({ length: 1000 }, (_, i) => 40 + (i % 10) * 0.5);
+
+    // 16 bytes a point uncompressed
+    expect(encodeTimestamps(timestamps).length).toBeLessThan(150);
+    expect(encodeValues(values).length).toBeLessThan(3000);
+  });
+});
+
+describe('FileMetricStore', () => {
+  let dir: string;
+  let stores: FileMetricStore[];
+
+  const open = (options = {}) => {
+    const store = new FileMetricStore(dir, { blockDurationMs: HOUR, chunkSize: 16, flushThreshold: 50, ...options });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(store => store.close()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should answer range queries like the memory store', async () => {
+    const file = open();
+    const memory = new MemoryMetricStore();
+    const next = random(7);
+
+    // Out of order, across several blocks and chunks, some with metadata
+    for (let i = 0; i < 400; i++) {
+      const type = next() < 0.5 ? 'cpu_usage' : 'error_rate';
+      const point = metric(type, T0 + Math.floor(next() * 6 * HOUR), next() * 100, next() < 0.1 ? { host: `h${i % 3}` } : undefined);
+      await file.append(point);
+      await memory.append(point);
+    }
+
+    const ranges: MetricRange[] = [
+      {},
+      { types: ['cpu_usage'] },
+      { start: T0 + HOUR + 123, end: T0 + 2 * HOUR + 456 },
+      { types: ['error_rate'], start: T0 + 3 * HOUR },
+      { types: ['disk_usage'] }
+    ];
+    for (const range of ranges) {
+      const expected = await memory.find(range);
+      expect((await file.find(range)).map(m => m.id).sort()).toEqual(expected.map(m => m.id).sort());
+    }
+
+    const found = await file.find({ types: ['cpu_usage'] });
+    expect(found.every((m, i) => i === 0 || found[i - 1].timestamp <= m.timestamp)).toBe(true);
+    expect(fs.readdirSync(path.join(dir, 'cpu_usage')).length).toBeGreaterThan(1);
+  });
+
+  it('should keep points across restarts, flushed or not', async () => {
+    // Never closed, as if the process crashed
+    const store = new FileMetricStore(dir, { blockDurationMs: HOUR, flushThreshold: 3 });
+    const points = [0, 1, 2, 3, 4].map(i => metric('cpu_usage', T0 + i * 1000, i, i === 4 ? { host: 'a' } : undefined));
+    for (const point of points) {
+      await store.append(point);
+    }
+
+    // Three points are in a segment and two only in the log
+    const reopened = open();
+    expect(await reopened.find({})).toEqual(points);
+    expect(await reopened.get(points[1].id)).toEqual(points[1]);
+    expect(await reopened.get('missing')).toBeNull();
+  });
+
+  it('should delete by range and by id', async () => {
+    const store = open();
+    const points = Array.from({ length: 120 }, (_, i) => metric('request_count', T0 + i * 60000, i));
+    for (const point of points) {
+      await store.append(point);
+    }
+
+    // The first hour is dropped whole, the second trimmed
+    expect(await store.deleteRange({ end: T0 + 90 * 60000 - 1 })).toBe(90);
+    expect(await store.delete(points[100].id)).toBe(true);
+    expect(await store.delete(points[100].id)).toBe(false);
+
+    const remaining = (await open().find({})).map(m => m.value);
+    expect(remaining).toEqual(points.slice(90).map(m => m.value).filter(v => v !== 100));
+  });
+});
+
+describe('MetricsService', () => {
+  it('should read through its store', async () => {
+    const service = new MetricsService(new MemoryMetricStore());
+    const points = [metric('cpu_usage', T0, 1), metric('error_rate', T0 + 1000, 2), metric('cpu_usage', T0 + 2000, 3)];
+    for (const point of points) {
+      await service.addMetric(point);
+    }
+
+    expect(await service.getMetrics(T0 + 500, T0 + 2000)).toEqual(points.slice(1));
+    expect(await service.getMetricsByType('cpu_usage')).toEqual([points[0], points[2]]);
+    expect(await service.queryMetrics({ type: 'cpu_usage', offset: 1, limit: 5 })).toEqual([points[2]]);
+    await service.dispose();
+  });
+});
@@ -0,0 +1,172 @@
+import { MetricType } from '../../models/metric';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricsQueryEngine, QueryValue, Sample } from '../../services/metrics/query/engine';
+import { parseDuration, parseQuery } from '../../services/metrics/query/parser';
+import { QueryError } from '../../utils/errors';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const T0 = Date.UTC(2026, 0, 1);
+
+let nextId = 0;
+
+const samples = (value: QueryValue): Sample[] => {
+  if (value.type !== 'vector') {
+    throw new Error(`Expected a vector, got a ${value.type}`);
+  }
+  return [...value.samples].sort((a, b) => JSON.stringify(a.labels).localeCompare(JSON.stringify(b.labels)));
+};
+
+const parseError = (query: string): QueryError => {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    return error as QueryError;
+  }
+  throw new Error(`"${query}" parsed`);
+};
+
+describe('Metrics query parser', () => {
+  it('should parse durations, precedence and both grouping positions', () => {
+    expect(parseDuration('1h30m')).toBe(90 * MINUTE);
+    expect(parseDuration('250ms')).toBe(250);
+    expect(parseDuration('5')).toBeNull();
+
+    expect(parseQuery('2 + 3 * 4 ^ 2 ^ 0.5')).toEqual(parseQuery('2 + (3 * (4 ^ (2 ^ 0.5)))'));
+    expect(parseQuery('sum by (host) (cpu_usage)')).toEqual(parseQuery('sum(cpu_usage) by (host)'));
+    expect(parseQuery('rate(request_count{route="/a", status!~"5.."}[5m] offset 1h)')).toEqual({
+      kind: 'call',
+      func: 'rate',
+      args: [{
+        kind: 'selector',
+        name: 'request_count',
+        matchers: [
+          { label: '__name__', op: '=', value: 'request_count' },
+          { label: 'route', op: '=', value: '/a' },
+          { label: 'status', op: '!~', value: '5..' }
+        ],
+        range: 5 * MINUTE,
+        offset: 60 * MINUTE
+      }]
+    });
+  });
+
+  it('should reject malformed queries with their position', () => {
+    const cases: Array<[string, RegExp, number]> = [
+      ['rate(cpu_usage)', /must be a matrix/, 0],
+      ['sum(cpu_usage[5m])', /needs an instant vector/, 0],
+      ['cpu_usage[5m] + 1', /Range vectors can only be passed/, 14],
+      ['cpu_usage{host=~"("}', /Invalid regular expression/, 14],
+      ['cpu_usage[5x]', /Expected a duration/, 10],
+      ['nope(cpu_usage)', /Unknown function/, 0],
+      ['cpu_usage{host="a"', /Expected "}"/, 18],
+      ['cpu_usage $ 2', /Unexpected character/, 10],
+      ['{}', /needs a metric name/, 0]
+    ];
+    for (const [query, message, position] of cases) {
+      const error = parseError(query);
+      expect(error).toBeInstanceOf(QueryError);
+      expect(error.message).toMatch(message);
+      expect(error.details).toEqual({ position });
+    }
+    expect(parseError('  ').statusCode).toBe(400);
+  });
+});
+
+describe('MetricsQueryEngine', () => {
+  let metricsService: MetricsService;
+  let engine: MetricsQueryEngine;
+
+  const add = (type: MetricType, time: number, value: number, metadata?: Record<string, any>) =>
+    metricsService.addMetric({ id: `m${nextId++}`, type, value, timestamp: new Date(time), metadata });
+
+  beforeEach(async () => {
+    metricsService = new MetricsService();
+    engine = new MetricsQueryEngine(metricsService);
+
+    // Counters every 15s for ten minutes; /b restarts at T0 + 5m
+    for (let i = 0; i <= 40; i++) {
+      const time = T0 + i * 15 * SECOND;
+      await add('request_count', time, i * 3, { route: '/a', status: 200 });
+      await add('request_count', time, i < 20 ? i : i - 20, { route: '/b', status: 500 });
+    }
+    await add('cpu_usage', T0 + 9 * MINUTE, 40, { host: 'a', region: 'eu', rack: { row: 1 } });
+    await add('cpu_usage', T0 + 9 * MINUTE, 60, { host: 'b', region: 'eu' });
+    await add('cpu_usage', T0 + 9 * MINUTE, 80, { host: 'c', region: 'us' });
+    await add('cpu_usage', T0 + MINUTE, 99, { host: 'stale', region: 'us' });
+    await add('memory_usage', T0 + 9 * MINUTE, 10, { host: 'a', region: 'eu' });
+  });
+
+  afterEach(async () => {
+    await metricsService.dispose();
+  });
+
+  it('should select the latest point per series within the lookback window', async () => {
+    const at = T0 + 10 * MINUTE;
+    expect(samples(await engine.instant('cpu_usage{region="eu"}', at))).toEqual([
+      { labels: { __name__: 'cpu_usage', host: 'a', region: 'eu' }, value: 40 },
+      { labels: { __name__: 'cpu_usage', host: 'b', region: 'eu' }, value: 60 }
+    ]);
+    expect(samples(await engine.instant('{__name__=~"cpu.*", host!~"a|b"}', at)).map(s => s.value)).toEqual([80]);
+    // A missing label matches the empty string
+    expect(samples(await engine.instant('cpu_usage{zone=""}', at))).toHaveLength(3);
+    expect(samples(await engine.instant('cpu_usage offset 8m', at)).map(s => s.labels.host)).toEqual(['stale']);
+  });
+
+  it('should compute rate and increase across counter resets', async () => {
+    const at = T0 + 10 * MINUTE;
+    const rates = samples(await engine.instant('rate(request_count[5m])', at));
+    expect(rates).toEqual([
+      { labels: { route: '/a', status: '200' }, value: 57 / 300 },
+      { labels: { route: '/b', status: '500' }, value: 19 / 300 }
+    ]);
+    const increases = samples(await engine.instant('increase(request_count{route="/b"}[10m])', at));
+    expect(increases.map(s => s.value)).toEqual([38]);
+    expect(samples(await engine.instant('count_over_time(request_count{route="/a"}[1m])', at))[0].value).toBe(4);
+  });
+
+  it('should aggregate by and without labels', async () => {
+    const at = T0 + 10 * MINUTE;
+    expect(samples(await engine.instant('sum by (region) (cpu_usage)', at))).toEqual([
+      { labels: { region: 'eu' }, value: 100 },
+      { labels: { region: 'us' }, value: 80 }
+    ]);
+    expect(samples(await engine.instant('max without (host) (cpu_usage)', at))).toEqual(
+      samples(await engine.instant('max by (region) (cpu_usage)', at))
+    );
+    expect(samples(await engine.instant('count(cpu_usage)', at))).toEqual([{ labels: {}, value: 3 }]);
+    const [p50] = samples(await engine.instant('quantile(0.5, cpu_usage)', at));
+    expect(Math.abs(p50.value - 60)).toBeLessThanOrEqual(0.6);
+  });
+
+  it('should match series for arithmetic and apply scalars', async () => {
+    const at = T0 + 10 * MINUTE;
+    expect(await engine.instant('-2 ^ 2 + 10 % 4', at)).toEqual({ type: 'scalar', value: -2 });
+    expect(samples(await engine.instant('cpu_usage{host="a"} / 100', at))).toEqual([
+      { labels: { host: 'a', region: 'eu' }, value: 0.4 }
+    ]);
+    expect(samples(await engine.instant('cpu_usage - cpu_usage offset 1m', at)).map(s => s.value)).toEqual([0, 0, 0]);
+    // Only series with the same labels pair up
+    expect(samples(await engine.instant('sum by (region) (cpu_usage) + cpu_usage', at))).toEqual([]);
+    expect(samples(await engine.instant('sum by (region) (cpu_usage) / count by (region) (cpu_usage)', at))).toEqual([
+      { labels: { region: 'eu' }, value: 50 },
+      { labels: { region: 'us' }, value: 80 }
+    ]);
+    await expect(engine.instant('{host="a"} + cpu_usage', at)).rejects.toThrow(/Many-to-one/);
+  });
+
+  it('should evaluate range queries step by step', async () => {
+    const series = await engine.range('sum(rate(request_count[1m]))', T0 + 5 * MINUTE, T0 + 7 * MINUTE, MINUTE);
+    expect(series).toHaveLength(1);
+    expect(series[0].labels).toEqual({});
+    expect(series[0].points.map(point => point.time)).toEqual([T0 + 5 * MINUTE, T0 + 6 * MINUTE, T0 + 7 * MINUTE]);
+    // At 5m /a went up by 9 and /b by 2 before resetting from 19 to 0
+    expect(series[0].points[0].value).toBeCloseTo(11 / 60, 9);
+
+    const scalar = await engine.range('time()', T0, T0 + 30 * SECOND, 15 * SECOND);
+    expect(scalar[0].points.map(point => point.value)).toEqual([T0 / 1000, T0 / 1000 + 15, T0 / 1000 + 30]);
+
+    await expect(engine.range('cpu_usage', T0, T0 + 1000 * MINUTE, 1)).rejects.toThrow(/limited to/);
+    await expect(engine.range('cpu_usage[5m]', T0, T0 + MINUTE, MINUTE)).rejects.toThrow(/not a range vector/);
+  });
+});
@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { TokenManager } from '../../services/auth/token-manager';
+import { MfaService } from '../../services/auth/mfa-service';
+import { MemoryMfaStore } from '../../services/auth/mfa-store';
+import { MemoryNonceStore } from '../../services/auth/nonce-store';
+import { totpCode, totpStep } from '../../services/auth/totp';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import { authenticate, authenticateMfaPending, requireStepUp } from '../../middleware/auth';
+
+const RP = {
+  id: 'app.example.com',
+  name: 'Example',
+  origin: 'https://app.example.com',
+  requireUserVerification: false
+};
+
+// Just enough CBOR to build attestation objects and COSE keys
+function cbor(value: number | string | Buffer | Map<any, any>): Buffer {
+  const head = (major: number, length: number) => length < 24
+    ? Buffer.from([(major << 5) | length])
+    : length < 256
+      ? Buffer.from([(major << 5) | 24, length])
+      : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  return Buffer.concat([head(5, value.size), ...Array.from(value).flatMap(([k, v]) => [cbor(k), cbor(v)])]);
+}
+
+// A software P-256 authenticator that answers create() and get() options
+class VirtualAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  counter = 0;
+  origin = RP.origin;
+  private keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  register(options: { challenge: string }) {
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, number | Buffer>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')]
+    ]);
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authDataHeader(0x41),
+      Buffer.alloc(16),
+      idLength,
+      this.credentialId,
+      cbor(coseKey)
+    ]);
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge).toString('base64url'),
+        attestationObject: cbor(new Map<string, any>([
+          ['fmt', 'none'],
+          ['attStmt', new Map()],
+          ['authData', authData]
+        ])).toString('base64url'),
+        transports: ['internal']
+      }
+    };
+  }
+
+  assert(options: { challenge: string }) {
+    this.counter++;
+    const authData = this.authDataHeader(0x01);
+    const clientData = this.clientData('webauthn.get', options.challenge);
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([authData, crypto.createHash('sha256').update(clientData).digest()]),
+      this.keys.privateKey
+    );
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientData.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url')
+      }
+    };
+  }
+
+  private authDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+    return Buffer.concat([crypto.createHash('sha256').update(RP.id).digest(), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin }));
+  }
+}
+
+async function runMiddleware(middleware: any, headers: Record<string, string>) {
+  const req = { headers } as unknown as Request;
+  const result: { passed: boolean; status?: number; body?: any } = { passed: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: any) {
+      result.body = body;
+      return res;
+    },
+    setHeader() {}
+  } as unknown as Response;
+
+  await middleware(req, res, () => {
+    result.passed = true;
+  });
+  return { ...result, req: req as any };
+}
+
+describe('MfaService', () => {
+  let tokenManager: TokenManager;
+  let auditLogger: SecurityAuditLogger;
+  let service: MfaService;
+
+  beforeEach(() => {
+    tokenManager = new TokenManager({ secret: 'test-secret', expiresIn: '1h', algorithm: 'HS256' });
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    }, new MemoryAuditStore());
+    service = new MfaService(new MemoryMfaStore(), new MemoryNonceStore(), tokenManager, auditLogger, {
+      issuer: 'Example',
+      rp: RP,
+      challengeTtlMs: 60000,
+      pendingTokenTtlSeconds: 300,
+      recoveryCodeCount: 4
+    });
+  });
+
+  afterEach(() => {
+    auditLogger.close();
+  });
+
+  async function enrollTotp(userId: string) {
+    const { secret, otpauthUrl } = await service.beginTotpEnrollment(userId, 'alice@example.com');
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+
+    // Later codes are derived from this step so a 30s boundary can't flake the test
+    const step = totpStep();
+    const { recoveryCodes } = await service.confirmTotpEnrollment(userId, totpCode(secret, step));
+    return { secret, step, recoveryCodes };
+  }
+
+  async function pendingLogin(userId: string) {
+    const tokens = await service.issueLoginTokens(userId, ['admin'], { sessionId: 's1' });
+    if (!tokens.mfaRequired) {
+      throw new Error('Expected an MFA challenge');
+    }
+    return (await tokenManager.verifyToken(tokens.mfaToken))!;
+  }
+
+  it('should issue tokens directly when no factor is enrolled', async () => {
+    const tokens = await service.issueLoginTokens('u1', ['user']);
+
+    expect(tokens.mfaRequired).toBe(false);
+    expect(await service.getStatus('u1')).toEqual({
+      enrolled: false,
+      totp: false,
+      webauthn: [],
+      recoveryCodesRemaining: 0
+    });
+  });
+
+  it('should complete a login with TOTP and reject a replayed code', async () => {
+    const { secret, step, recoveryCodes } = await enrollTotp('u1');
+    expect(recoveryCodes).toHaveLength(4);
+
+    const pending = await pendingLogin('u1');
+    expect(pending.mfaPending).toBe(true);
+
+    // The current step was spent confirming enrollment
+    await expect(service.completeLogin(pending, { method: 'totp', code: totpCode(secret, step) }))
+      .rejects.toThrow('TOTP code was already used');
+
+    const code = totpCode(secret, step + 1);
+    const { token, refreshToken } = await service.completeLogin(pending, { method: 'totp', code });
+    const payload = await tokenManager.verifyToken(token);
+
+    expect(payload).toEqual(expect.objectContaining({ userId: 'u1', roles: ['admin'], sessionId: 's1' }));
+    expect(payload!.mfaPending).toBeUndefined();
+    expect(payload!.mfaAt).toBeGreaterThan(0);
+    expect((await tokenManager.rotateRefreshToken(refreshToken)).claims.mfaAt).toBe(payload!.mfaAt);
+
+    await expect(service.completeLogin(pending, { method: 'totp', code }))
+      .rejects.toThrow('TOTP code was already used');
+    expect(await auditLogger.searchEvents({ type: 'mfa.failed' })).toHaveLength(2);
+    expect(await auditLogger.searchEvents({ type: 'mfa.enroll' })).toHaveLength(1);
+  });
+
+  it('should accept each recovery code once', async () => {
+    const { recoveryCodes } = await enrollTotp('u1');
+    const pending = await pendingLogin('u1');
+    const loose = recoveryCodes[0].toLowerCase().replace('-', ' ');
+
+    await service.completeLogin(pending, { method: 'recovery', code: loose });
+    await expect(service.completeLogin(pending, { method: 'recovery', code: recoveryCodes[0] }))
+      .rejects.toThrow('Invalid recovery code');
+    expect((await service.getStatus('u1')).recoveryCodesRemaining).toBe(3);
+  });
+
+  it('should register and authenticate with a WebAuthn authenticator', async () => {
+    const authenticator = new VirtualAuthenticator();
+    const creation = await service.beginWebAuthnRegistration('u1', 'alice');
+    expect(creation.pubKeyCredParams.map(param => param.alg)).toEqual([-7, -8, -257]);
+
+    const registered = await service.finishWebAuthnRegistration('u1', authenticator.register(creation), 'Laptop');
+    expect(registered.recoveryCodes).toHaveLength(4);
+    expect((await service.beginWebAuthnRegistration('u1', 'alice')).excludeCredentials)
+      .toEqual([expect.objectContaining({ id: registered.credentialId })]);
+
+    const pending = await pendingLogin('u1');
+    const request = await service.beginWebAuthnAuthentication('u1');
+    const assertion = authenticator.assert(request);
+    await service.completeLogin(pending, { method: 'webauthn', response: assertion });
+
+    // Each challenge works once
+    await expect(service.completeLogin(pending, { method: 'webauthn', response: assertion }))
+      .rejects.toThrow('WebAuthn challenge is invalid or expired');
+
+    const status = await service.getStatus('u1');
+    expect(status.webauthn).toEqual([expect.objectContaining({ id: registered.credentialId, name: 'Laptop' })]);
+    expect(status.webauthn[0].lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject cloned authenticators and foreign origins', async () => {
+    const authenticator = new VirtualAuthenticator();
+    const creation = await service.beginWebAuthnRegistration('u1', 'alice');
+    await service.finishWebAuthnRegistration('u1', authenticator.register(creation), 'Key');
+
+    authenticator.counter = 5;
+    await service.verifySecondFactor('u1', {
+      method: 'webauthn',
+      response: authenticator.assert(await service.beginWebAuthnAuthentication('u1'))
+    });
+
+    authenticator.counter = 2;
+    await expect(service.verifySecondFactor('u1', {
+      method: 'webauthn',
+      response: authenticator.assert(await service.beginWebAuthnAuthentication('u1'))
+    })).rejects.toThrow('Signature counter did not increase');
+
+    authenticator.counter = 10;
+    authenticator.origin = 'https://evil.example.com';
+    await expect(service.verifySecondFactor('u1', {
+      method: 'webauthn',
+      response: authenticator.assert(await service.beginWebAuthnAuthentication('u1'))
+    })).rejects.toThrow('Unexpected origin');
+  });
+
+  it('should keep mfaPending tokens out of normal routes and require step-up', async () => {
+    const { secret, step } = await enrollTotp('u1');
+    const tokens = await service.issueLoginTokens('u1', ['admin']);
+    const mfaToken = tokens.mfaRequired ? tokens.mfaToken : '';
+
+    const rejected = await runMiddleware(authenticate(tokenManager), { authorization: `Bearer ${mfaToken}` });
+    expect(rejected.status).toBe(401);
+    expect(rejected.body).toEqual({ error: 'MFA verification required', mfaRequired: true });
+
+    const allowed = await runMiddleware(authenticateMfaPending(tokenManager), { authorization: `Bearer ${mfaToken}` });
+    expect(allowed.passed).toBe(true);
+
+    const passesStepUp = async (token: string) => {
+      const { req } = await runMiddleware(authenticate(tokenManager), { authorization: `Bearer ${token}` });
+      let passed = false;
+      requireStepUp(600)(req, { status: () => ({ json: () => undefined }), setHeader: () => undefined } as any, () => {
+        passed = true;
+      });
+      return passed;
+    };
+
+    // A second factor verified too long ago needs to be repeated
+    const stale = await tokenManager.generateAccessToken('u1', ['admin'], {
+      mfaAt: Math.floor(Date.now() / 1000) - 3600
+    });
+    expect(await passesStepUp(stale)).toBe(false);
+    expect(await passesStepUp(await tokenManager.generateAccessToken('u1', ['admin']))).toBe(false);
+
+    const stepped = await service.stepUp(
+      (await tokenManager.verifyToken(stale))!,
+      { method: 'totp', code: totpCode(secret, step + 1) }
+    );
+    expect(await passesStepUp(stepped)).toBe(true);
+    expect(await auditLogger.searchEvents({ type: 'mfa.verify' })).toHaveLength(1);
+  });
+});
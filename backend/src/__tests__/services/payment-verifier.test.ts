@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client';
+import { PaymentVerifier } from '../../services/payments/payment-verifier';
+import { claimPayment, isPaymentClaimed } from '../../services/payments/payment-claims';
+import { ConflictError } from '../../utils/errors';
+import { LocalChainProvider } from '../../services/payments/__mocks__/local-chain-provider';
+
+const RECIPIENT = '0xAbC0000000000000000000000000000000000001';
+const PAYER = '0x1230000000000000000000000000000000000002';
+const LAUNCH_FEE = BigInt('6000000000000000');
+
+describe('PaymentVerifier', () => {
+  let chain: LocalChainProvider;
+  let verifier: PaymentVerifier;
+
+  beforeEach(() => {
+    chain = new LocalChainProvider();
+    verifier = new PaymentVerifier(chain, {
+      recipientAddress: RECIPIENT,
+      amountWei: LAUNCH_FEE,
+      minConfirmations: 3
+    });
+  });
+
+  it('should verify a confirmed payment of the launch fee', async () => {
+    const txHash = chain.sendTransaction({ from: PAYER, to: RECIPIENT.toLowerCase(), value: LAUNCH_FEE });
+    chain.mine(2);
+
+    const verdict = await verifier.verify(txHash, { expectedPayer: PAYER });
+
+    expect(verdict.verified).toBe(true);
+    expect(verdict.reasons).toEqual([]);
+    expect(verdict.confirmations).toBe(3);
+    expect(verdict.payer).toBe(PAYER);
+    expect(verdict.amountWei).toBe(LAUNCH_FEE.toString());
+  });
+
+  it('should reject unknown transactions', async () => {
+    const verdict = await verifier.verify('0xdeadbeef', { expectedPayer: PAYER });
+
+    expect(verdict.verified).toBe(false);
+    expect(verdict.reasons.map(r => r.code)).toEqual(['TX_NOT_FOUND']);
+  });
+
+  it('should reject transactions that are not mined yet', async () => {
+    const txHash = chain.sendTransaction({ from: PAYER, to: RECIPIENT, value: LAUNCH_FEE, pending: true });
+
+    const verdict = await verifier.verify(txHash, { expectedPayer: PAYER });
+
+    expect(verdict.reasons.map(r => r.code)).toEqual(['TX_PENDING']);
+  });
+
+  it('should require the configured confirmation depth', async () => {
+    const txHash = chain.sendTransaction({ from: PAYER, to: RECIPIENT, value: LAUNCH_FEE });
+
+    const verdict = await verifier.verify(txHash, { expectedPayer: PAYER });
+
+    expect(verdict.verified).toBe(false);
+    expect(verdict.confirmations).toBe(1);
+    expect(verdict.reasons.map(r => r.code)).toEqual(['INSUFFICIENT_CONFIRMATIONS']);
+  });
+
+  it('should report every failed check', async () => {
+    const txHash = chain.sendTransaction({
+      from: PAYER,
+      to: '0x9990000000000000000000000000000000000009',
+      value: BigInt('1000'),
+      reverted: true
+    });
+    chain.mine(5);
+
+    const verdict = await verifier.verify(txHash, {
+      expectedPayer: '0x4560000000000000000000000000000000000004'
+    });
+
+    expect(verdict.verified).toBe(false);
+    expect(verdict.reasons.map(r => r.code)).toEqual([
+      'TX_REVERTED',
+      'WRONG_RECIPIENT',
+      'INSUFFICIENT_AMOUNT',
+      'WRONG_PAYER'
+    ]);
+  });
+
+  it('should refuse to start without a recipient address', () => {
+    expect(() => new PaymentVerifier(chain, {
+      recipientAddress: '',
+      amountWei: LAUNCH_FEE,
+      minConfirmations: 1
+    })).toThrow('Payment recipient address must be configured');
+  });
+});
+
+describe('claimPayment', () => {
+  // Stands in for the PaymentClaim table and its primary key
+  const claimsTable = () => {
+    const rows = new Map<string, { txHash: string; purpose: string; claimedBy: string }>();
+    return {
+      rows,
+      tx: {
+        paymentClaim: {
+          create: async ({ data }: { data: { txHash: string; purpose: string; claimedBy: string } }) => {
+            if (rows.has(data.txHash)) {
+              throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+            }
+            rows.set(data.txHash, data);
+            return data;
+          },
+          findUnique: async ({ where }: { where: { txHash: string } }) => rows.get(where.txHash) ?? null
+        }
+      } as unknown as Prisma.TransactionClient
+    };
+  };
+
+  it('should let each transaction pay for one thing only', async () => {
+    const { rows, tx } = claimsTable();
+
+    await claimPayment(tx, '0xABCdef', 'launch', PAYER);
+
+    expect(rows.get('0xabcdef')).toEqual({ txHash: '0xabcdef', purpose: 'launch', claimedBy: PAYER });
+    expect(await isPaymentClaimed(tx, '0xabcDEF')).toBe(true);
+    await expect(claimPayment(tx, '0xabcdef', 'escrow', PAYER)).rejects.toThrow(ConflictError);
+  });
+});
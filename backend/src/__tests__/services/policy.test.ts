@@ -0,0 +1,112 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+  agentResource,
+  can,
+  DEFAULT_POLICY,
+  PolicyEngine,
+  PolicySubject,
+  walletSubject
+} from '../../services/auth/policy';
+import { AuthenticatedRequest, requirePermission } from '../../middleware/auth';
+
+const OWNER = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+const agent = { agentAddress: 'agent-1', creator: OWNER };
+
+describe('PolicyEngine', () => {
+  const user = (overrides: Partial<PolicySubject> = {}): PolicySubject => ({ id: 'u1', roles: ['user'], ...overrides });
+
+  it('should grant role permissions on any resource', () => {
+    expect(can(user(), 'agent:create')).toBe(true);
+    expect(can(user(), 'metrics:delete')).toBe(false);
+    expect(can(user({ roles: ['admin'] }), 'metrics:delete')).toBe(true);
+    expect(can(user({ roles: ['admin'] }), 'agent:update', agentResource(agent))).toBe(true);
+    expect(can(user({ roles: ['verifier'] }), 'agent:verify')).toBe(true);
+  });
+
+  it('should grant owner permissions only on owned resources', () => {
+    // EVM addresses match regardless of checksum casing
+    const owner = user({ wallets: [OWNER.toLowerCase()] });
+
+    expect(can(owner, 'agent:update', agentResource(agent))).toBe(true);
+    expect(can(owner, 'agent:transfer', agentResource(agent))).toBe(true);
+    expect(can(owner, 'agent:update')).toBe(false);
+    expect(can(user({ wallets: ['0x0000000000000000000000000000000000000001'] }), 'agent:update', agentResource(agent)))
+      .toBe(false);
+    expect(can(walletSubject(OWNER), 'agent:list', agentResource(agent))).toBe(true);
+  });
+
+  it('should give delegates a narrower set than owners', () => {
+    const delegate = user({ wallets: ['DelegateWa11et'] });
+    const resource = agentResource(agent, [{ subject: 'DelegateWa11et' }]);
+
+    expect(can(delegate, 'agent:update', resource)).toBe(true);
+    expect(can(delegate, 'function:manage', resource)).toBe(true);
+    expect(can(delegate, 'agent:transfer', resource)).toBe(false);
+    // Solana addresses are case-sensitive
+    expect(can(user({ wallets: ['delegatewa11et'] }), 'agent:update', resource)).toBe(false);
+  });
+
+  it('should support namespace wildcards and list permissions', () => {
+    const engine = new PolicyEngine({
+      ...DEFAULT_POLICY,
+      roles: { operator: ['metrics:*'] }
+    });
+    const operator = user({ roles: ['operator'] });
+
+    expect(engine.can(operator, 'metrics:delete')).toBe(true);
+    expect(engine.can(operator, 'agent:create')).toBe(false);
+    expect(engine.permissionsFor(operator)).toEqual(['metrics:read', 'metrics:write', 'metrics:delete', 'metrics:manage']);
+  });
+});
+
+describe('requirePermission', () => {
+  let server: Server;
+  let baseUrl: string;
+  let subject: AuthenticatedRequest['user'];
+
+  beforeEach(() => {
+    subject = { id: 'u1', roles: ['user'], wallets: [OWNER] };
+
+    const app = express();
+    app.use((req, res, next) => {
+      (req as AuthenticatedRequest).user = subject;
+      next();
+    });
+    app.patch('/agents/:agentAddress',
+      requirePermission('agent:update', async req => req.params.agentAddress === agent.agentAddress
+        ? agentResource(agent)
+        : null),
+      (req, res) => res.json({ ok: true })
+    );
+    app.delete('/metrics', requirePermission('metrics:delete'), (req, res) => res.json({ ok: true }));
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(done => {
+    server.close(done);
+  });
+
+  it('should apply resource rules declared on the route', async () => {
+    expect((await fetch(`${baseUrl}/agents/agent-1`, { method: 'PATCH' })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/agents/missing`, { method: 'PATCH' })).status).toBe(404);
+
+    subject = { id: 'u2', roles: ['user'], wallets: [] };
+    const response = await fetch(`${baseUrl}/agents/agent-1`, { method: 'PATCH' });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Insufficient permissions', permission: 'agent:update' });
+  });
+
+  it('should check role permissions without a resource', async () => {
+    expect((await fetch(`${baseUrl}/metrics`, { method: 'DELETE' })).status).toBe(403);
+
+    subject = { id: 'admin1', roles: ['admin'] };
+    expect((await fetch(`${baseUrl}/metrics`, { method: 'DELETE' })).status).toBe(200);
+
+    subject = undefined;
+    expect((await fetch(`${baseUrl}/metrics`, { method: 'DELETE' })).status).toBe(401);
+  });
+});
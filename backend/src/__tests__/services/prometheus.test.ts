@@ -0,0 +1,319 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MetricsService } from '../../services/metrics/metrics.service';
+import { MetricTypeRegistry } from '../../services/metrics/metric-type-registry';
+import { FileMetricTypeStore } from '../../services/metrics/storage/file-metric-type-store';
+import { MetricsQueryEngine } from '../../services/metrics/query/engine';
+import { snappyDecompress } from '../../services/metrics/prometheus/snappy';
+import { decodeWriteRequest, RemoteWriteService } from '../../services/metrics/prometheus/remote-write';
+import { ExpositionRegistry } from '../../services/metrics/prometheus/exposition';
+import { ConflictError, ValidationError } from '../../utils/errors';
+
+const T0 = Date.UTC(2026, 0, 1);
+
+// Just enough of an encoder to build WriteRequests the way Prometheus does
+
+const varint = (value: number): Buffer => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+};
+
+const bytesField = (field: number, payload: Buffer) =>
+  Buffer.concat([varint(field * 8 + 2), varint(payload.length), payload]);
+
+const stringField = (field: number, text: string) => bytesField(field, Buffer.from(text));
+
+const varintField = (field: number, value: number) => Buffer.concat([varint(field * 8), varint(value)]);
+
+const doubleField = (field: number, value: number) => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeDoubleLE(value, 0);
+  return Buffer.concat([varint(field * 8 + 1), bytes]);
+};
+
+const STALE_NAN = Buffer.from([0x02, 0, 0, 0, 0, 0, 0xf0, 0x7f]);
+
+interface SeriesInput {
+  labels: Record<string, string>;
+  samples: Array<[number, number | 'stale']>;
+}
+
+const encodeSeries = ({ labels, samples }: SeriesInput) => Buffer.concat([
+  ...Object.keys(labels).map(name => bytesField(1, Buffer.concat([stringField(1, name), stringField(2, labels[name])]))),
+  ...samples.map(([timestamp, value]) => bytesField(2, Buffer.concat([
+    value === 'stale' ? Buffer.concat([varint(9), STALE_NAN]) : doubleField(1, value),
+    varintField(2, timestamp)
+  ])))
+]);
+
+const encodeMetadata = (type: number, family: string, help: string, unit = '') => Buffer.concat([
+  varintField(1, type),
+  stringField(2, family),
+  stringField(4, help),
+  stringField(5, unit)
+]);
+
+// Literals only, which every decoder has to accept
+const snappyCompress = (data: Buffer) => {
+  const parts = [varint(data.length)];
+  for (let pos = 0; pos < data.length; pos += 65536) {
+    const chunk = data.slice(pos, pos + 65536);
+    if (chunk.length <= 60) {
+      parts.push(Buffer.from([(chunk.length - 1) << 2]));
+    } else {
+      const length = Buffer.alloc(2);
+      length.writeUInt16LE(chunk.length - 1, 0);
+      parts.push(Buffer.from([61 << 2]), length);
+    }
+    parts.push(chunk);
+  }
+  return Buffer.concat(parts);
+};
+
+const encodeWriteRequest = (series: SeriesInput[], metadata: Buffer[] = []) => snappyCompress(Buffer.concat([
+  ...series.map(input => bytesField(1, encodeSeries(input))),
+  ...metadata.map(entry => bytesField(3, entry))
+]));
+
+describe('snappyDecompress', () => {
+  it('should expand literals and overlapping copies of every offset size', () => {
+    const block = Buffer.from([
+      20,
+      0x0c, ...Buffer.from('abcd'), // literal "abcd"
+      0x11, 0x04, // 8 bytes from 4 back, overlapping what it writes
+      0x0e, 0x0c, 0x00, // 4 bytes from 12 back
+      0x0f, 0x02, 0x00, 0x00, 0x00 // 4 bytes from 2 back
+    ]);
+    expect(snappyDecompress(block).toString()).toBe('abcdabcdabcdabcdcdcd');
+
+    const long = Buffer.from('x'.repeat(70000) + 'y'.repeat(100));
+    expect(snappyDecompress(snappyCompress(long)).equals(long)).toBe(true);
+  });
+
+  it('should reject corrupt blocks and oversized claims', () => {
+    expect(() => snappyDecompress(Buffer.from([5, 0x0c, 0x61]))).toThrow(/truncated/);
+    expect(() => snappyDecompress(Buffer.from([8, 0x0c, ...Buffer.from('abcd'), 0x01, 0x09]))).toThrow(/offset 9/);
+    expect(() => snappyDecompress(Buffer.from([2, 0x0c, ...Buffer.from('abcd')]))).toThrow(/longer than its header/);
+    expect(() => snappyDecompress(Buffer.from([6, 0x0c, ...Buffer.from('abcd')]))).toThrow(/expected 6/);
+    expect(() => snappyDecompress(Buffer.from([0x80, 0x80, 0x80, 0x80, 0x08]), 1024)).toThrow(/exceeds the limit/);
+  });
+});
+
+describe('decodeWriteRequest', () => {
+  it('should decode series, samples and metadata and drop staleness markers', () => {
+    const body = encodeWriteRequest([
+      {
+        labels: { __name__: 'http_requests_total', job: 'api', path: '/a "b"' },
+        samples: [[T0, 1], [T0 + 15000, 2.5], [T0 + 30000, 'stale'], [T0 + 45000, NaN]]
+      }
+    ], [encodeMetadata(1, 'http_requests', 'Requests served')]);
+
+    const request = decodeWriteRequest(body);
+    expect(request.series).toHaveLength(1);
+    expect(request.series[0].labels).toEqual({ __name__: 'http_requests_total', job: 'api', path: '/a "b"' });
+    expect(request.series[0].samples.map(sample => sample.timestamp)).toEqual([T0, T0 + 15000, T0 + 45000]);
+    expect(request.series[0].samples[1].value).toBe(2.5);
+    // An ordinary NaN is a value; only the staleness NaN is dropped
+    expect(request.series[0].samples[2].value).toBeNaN();
+    expect(request.metadata).toEqual([{ family: 'http_requests', kind: 'counter', help: 'Requests served', unit: '' }]);
+  });
+
+  it('should skip unknown fields and reject malformed messages', () => {
+    const withExtras = snappyCompress(Buffer.concat([
+      varintField(7, 1),
+      bytesField(1, Buffer.concat([encodeSeries({ labels: { __name__: 'up' }, samples: [[T0, 1]] }), stringField(3, 'exemplar')]))
+    ]));
+    expect(decodeWriteRequest(withExtras).series[0].samples).toEqual([{ value: 1, timestamp: T0 }]);
+
+    const cases: Array<[Buffer, RegExp]> = [
+      [Buffer.from([1, 2, 3]), /Malformed snappy body/],
+      [snappyCompress(Buffer.from([0x0a, 0x10, 0x01])), /truncated/],
+      [snappyCompress(varintField(1, 5)), /wire type 0, expected 2/],
+      [snappyCompress(Buffer.from([0x3b])), /Unsupported wire type 3/]
+    ];
+    for (const [body, message] of cases) {
+      expect(() => decodeWriteRequest(body)).toThrow(ValidationError);
+      expect(() => decodeWriteRequest(body)).toThrow(message);
+    }
+  });
+});
+
+describe('RemoteWriteService', () => {
+  let metricsService: MetricsService;
+  let registry: MetricTypeRegistry;
+
+  beforeEach(() => {
+    metricsService = new MetricsService();
+    registry = new MetricTypeRegistry();
+  });
+
+  afterEach(async () => {
+    await metricsService.dispose();
+  });
+
+  it('should store samples with labels as metadata so queries read them back', async () => {
+    await registry.register({ name: 'http_requests_total', kind: 'counter' });
+    const service = new RemoteWriteService(metricsService, registry);
+
+    const result = await service.write(encodeWriteRequest([
+      { labels: { __name__: 'http_requests_total', job: 'api' }, samples: [[T0, 10], [T0 + 60000, 70]] },
+      { labels: { __name__: 'cpu_usage', instance: 'a' }, samples: [[T0 + 60000, 0.5]] },
+      { labels: { __name__: 'go_goroutines', instance: 'a' }, samples: [[T0, 12]] }
+    ]));
+
+    expect(result).toEqual({ samples: 3, rejected: ['go_goroutines'] });
+    const stored = await metricsService.getMetricsByType('http_requests_total');
+    expect(stored.map(metric => [metric.timestamp.getTime(), metric.value, metric.metadata])).toEqual([
+      [T0, 10, { job: 'api' }],
+      [T0 + 60000, 70, { job: 'api' }]
+    ]);
+    expect(await metricsService.getMetricsByType('go_goroutines')).toEqual([]);
+
+    const engine = new MetricsQueryEngine(metricsService);
+    expect(await engine.instant('increase(http_requests_total{job="api"}[2m])', T0 + 60000)).toEqual({
+      type: 'vector',
+      samples: [{ labels: { job: 'api' }, value: 60 }]
+    });
+  });
+
+  it('should register unknown names from their metadata when allowed', async () => {
+    const service = new RemoteWriteService(metricsService, registry, { autoRegister: true });
+
+    await service.write(encodeWriteRequest([
+      { labels: { __name__: 'request_duration_seconds_bucket', le: '0.1' }, samples: [[T0, 4]] },
+      { labels: { __name__: 'queue_depth' }, samples: [[T0, 3]] },
+      { labels: { __name__: 'mystery' }, samples: [[T0, 1]] }
+    ], [
+      encodeMetadata(3, 'request_duration_seconds', 'Request latency', 'seconds'),
+      encodeMetadata(2, 'queue_depth', 'Jobs waiting')
+    ]));
+
+    expect(await registry.get('request_duration_seconds_bucket')).toMatchObject({
+      kind: 'counter', help: 'Request latency', unit: undefined, createdBy: 'remote-write'
+    });
+    expect(await registry.get('queue_depth')).toMatchObject({ kind: 'gauge', help: 'Jobs waiting' });
+    expect(await registry.get('mystery')).toMatchObject({ kind: 'unknown', builtin: false });
+    expect(await metricsService.getMetricsByType('mystery')).toHaveLength(1);
+  });
+
+  it('should write nothing when a series has no name', async () => {
+    await registry.register({ name: 'up' });
+    const service = new RemoteWriteService(metricsService, registry);
+
+    await expect(service.write(encodeWriteRequest([
+      { labels: { __name__: 'up' }, samples: [[T0, 1]] },
+      { labels: { job: 'api' }, samples: [[T0, 1]] }
+    ]))).rejects.toThrow(/without a __name__/);
+    expect(await metricsService.getMetricsByType('up')).toEqual([]);
+  });
+});
+
+describe('MetricTypeRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metric-types-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list built-in types and keep them fixed', async () => {
+    const registry = new MetricTypeRegistry();
+    const types = await registry.list();
+    expect(types).toHaveLength(9);
+    expect(types.find(type => type.name === 'request_count')).toEqual({ name: 'request_count', kind: 'counter', builtin: true });
+    expect(await registry.isKnown('cpu_usage')).toBe(true);
+    expect(await registry.isKnown('gpu_usage')).toBe(false);
+
+    await expect(registry.register({ name: 'cpu_usage' })).rejects.toThrow(ConflictError);
+    await expect(registry.unregister('cpu_usage')).rejects.toThrow(ConflictError);
+  });
+
+  it('should validate and persist registrations', async () => {
+    const registry = new MetricTypeRegistry(new FileMetricTypeStore(path.join(dir, 'types.json')));
+    const registered = await registry.register({ name: 'gpu_memory_bytes', kind: 'gauge', help: 'GPU memory', unit: 'bytes' }, 'admin1');
+    expect(registered).toMatchObject({ name: 'gpu_memory_bytes', builtin: false, createdBy: 'admin1' });
+    await registry.register({ name: 'jobs_total', kind: 'counter' });
+
+    const invalid: any[] = [
+      { name: '9lives' },
+      { name: '__name__' },
+      { name: 'ok', kind: 'sometimes' },
+      { name: 'latency_ms', unit: 'seconds' },
+      { name: 'x', help: 42 },
+      null
+    ];
+    for (const input of invalid) {
+      await expect(registry.register(input)).rejects.toThrow(ValidationError);
+    }
+    await expect(registry.register({ name: 'jobs_total' })).rejects.toThrow(/already registered/);
+    await registry.dispose();
+
+    const reopened = new MetricTypeRegistry(new FileMetricTypeStore(path.join(dir, 'types.json')));
+    expect((await reopened.list()).filter(type => !type.builtin).map(type => type.name)).toEqual(['gpu_memory_bytes', 'jobs_total']);
+    expect(await reopened.unregister('jobs_total')).toBe(true);
+    expect(await reopened.unregister('jobs_total')).toBe(false);
+    expect(await reopened.isKnown('jobs_total')).toBe(false);
+    await reopened.dispose();
+    expect(fs.readdirSync(dir)).toEqual(['types.json']);
+  });
+});
+
+describe('ExpositionRegistry', () => {
+  it('should render counters, gauges and histograms in the OpenMetrics format', async () => {
+    const registry = new ExpositionRegistry();
+    const requests = registry.counter('requests', 'Requests "served"\nso far');
+    const latency = registry.histogram('latency_seconds', 'Latency', 'seconds', [0.1, 1]);
+    const depth = registry.gauge('depth', 'Depth');
+
+    requests.inc({ path: '/a\\b', method: 'GET' });
+    requests.inc({ method: 'GET', path: '/a\\b' }, 2);
+    latency.observe({ route: 'x' }, 0.05);
+    latency.observe({ route: 'x' }, 0.5);
+    latency.observe({ route: 'x' }, 5);
+    registry.collect(() => depth.set({}, Infinity));
+
+    expect(await registry.render()).toBe([
+      '# TYPE requests counter',
+      '# HELP requests Requests \\"served\\"\\nso far',
+      'requests_total{method="GET",path="/a\\\\b"} 3',
+      '# TYPE latency_seconds histogram',
+      '# UNIT latency_seconds seconds',
+      '# HELP latency_seconds Latency',
+      'latency_seconds_bucket{le="0.1",route="x"} 1',
+      'latency_seconds_bucket{le="1",route="x"} 2',
+      'latency_seconds_bucket{le="+Inf",route="x"} 3',
+      'latency_seconds_count{route="x"} 3',
+      'latency_seconds_sum{route="x"} 5.55',
+      '# TYPE depth gauge',
+      '# HELP depth Depth',
+      'depth +Inf',
+      '# EOF',
+      ''
+    ].join('\n'));
+
+    expect(() => registry.gauge('depth', 'Again')).toThrow(/already registered/);
+    expect(() => registry.gauge('size', 'Size', 'bytes')).toThrow(/must end with its unit/);
+    expect(() => requests.inc({}, -1)).toThrow(/only go up/);
+  });
+
+  it('should still render when a collector fails or hangs', async () => {
+    const registry = new ExpositionRegistry(50);
+    const up = registry.gauge('up', 'Up');
+    registry.collect(() => {
+      throw new Error('broken');
+    });
+    registry.collect(() => new Promise(() => undefined));
+    registry.collect(() => up.set({}, 1));
+
+    expect(await registry.render()).toContain('\nup 1\n# EOF\n');
+  });
+});
@@ -0,0 +1,97 @@
+import RedisMock from 'ioredis-mock';
+import Redis from 'ioredis';
+import { RedisJobQueue } from '../../services/queue/redis-job-queue';
+import { FunctionExecutor, FunctionRunner } from '../../services/functions/function-executor';
+import { ExecutionJob, ExecutionUpdate, ExecutionWorker } from '../../services/functions/execution-worker';
+import { FunctionSchemaValidator } from '../../services/functions/schema-validator';
+import { CallbackNotifier } from '../../services/functions/callback-notifier';
+
+const LEASE_MS = 1000;
+
+describe('RedisJobQueue', () => {
+  let redis: Redis;
+  let now: number;
+
+  // Two workers on the same queue, as two processes would be
+  const openQueue = () => new RedisJobQueue<ExecutionJob>(redis, 'test', { leaseMs: LEASE_MS });
+
+  const job: ExecutionJob = { executionId: 'exec1', functionId: 'fn1', callerAddress: 'caller1', inputs: {} };
+
+  beforeEach(async () => {
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+    now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    redis.disconnect();
+  });
+
+  it('should lease reserved jobs until they are acked', async () => {
+    const queue = openQueue();
+    await queue.enqueue(job, { id: 'exec1' });
+
+    const reserved = await queue.reserve();
+    expect(reserved).toEqual(expect.objectContaining({ id: 'exec1', attempts: 1 }));
+    expect(await redis.zscore('queue:test:leases', 'exec1')).toBe(String(now + LEASE_MS));
+    expect(await queue.stats()).toEqual({ ready: 0, delayed: 0, processing: 1, dead: 0 });
+
+    await queue.ack(reserved!);
+    now += LEASE_MS * 2;
+
+    expect(await queue.reserve()).toBeNull();
+    expect(await queue.stats()).toEqual({ ready: 0, delayed: 0, processing: 0, dead: 0 });
+  });
+
+  it('should hand a job to another worker once the first dies mid-flight', async () => {
+    await openQueue().enqueue(job, { id: 'exec1', maxAttempts: 3 });
+
+    // Worker A reserves the job and is killed before it can ack
+    expect(await openQueue().reserve()).toEqual(expect.objectContaining({ id: 'exec1', attempts: 1 }));
+
+    const queueB = openQueue();
+    expect(await queueB.reserve()).toBeNull();
+
+    now += LEASE_MS;
+    const recovered = await queueB.reserve();
+    expect(recovered).toEqual(expect.objectContaining({ id: 'exec1', attempts: 2 }));
+
+    await queueB.ack(recovered!);
+    expect(await queueB.stats()).toEqual({ ready: 0, delayed: 0, processing: 0, dead: 0 });
+  });
+
+  it('should fail a job whose worker died during its final attempt', async () => {
+    const runner: jest.Mocked<FunctionRunner> = { validate: jest.fn(), run: jest.fn() };
+    const updates: ExecutionUpdate[] = [];
+    const queue = openQueue();
+    const worker = new ExecutionWorker(
+      queue,
+      new FunctionExecutor(async () => null, { maxChainDepth: 1 }).register('script', runner),
+      {
+        loadFunction: async () => ({ id: 'fn1', agentAddress: 'agent1', functionName: 'fn1', kind: 'script', handler: {} }),
+        updateExecution: async (id, update) => {
+          updates.push(update);
+        }
+      },
+      new FunctionSchemaValidator(),
+      new CallbackNotifier({ secret: 'shh', timeoutMs: 100, retries: 0 }, { post: jest.fn() } as any),
+      { pollIntervalMs: 10, retryBackoffMs: 0, maxRetryBackoffMs: 0 }
+    );
+
+    await queue.enqueue(job, { id: 'exec1', maxAttempts: 1 });
+    await queue.reserve();
+    now += LEASE_MS;
+
+    expect(await worker.processNext()).toBe(true);
+
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(updates[updates.length - 1]).toEqual(expect.objectContaining({
+      status: 'failed',
+      error: 'Worker stopped during the final attempt'
+    }));
+    expect((await queue.getDeadLetters()).map(dead => dead.id)).toEqual(['exec1']);
+    expect(await queue.stats()).toEqual({ ready: 0, delayed: 0, processing: 0, dead: 1 });
+  });
+});
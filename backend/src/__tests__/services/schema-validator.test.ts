@@ -0,0 +1,54 @@
+import { FunctionSchemaValidator } from '../../services/functions/schema-validator';
+
+describe('FunctionSchemaValidator', () => {
+  let validator: FunctionSchemaValidator;
+
+  const inputSchema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1 },
+      limit: { type: 'integer', minimum: 1 }
+    },
+    required: ['query'],
+    additionalProperties: false
+  };
+
+  beforeEach(() => {
+    validator = new FunctionSchemaValidator();
+  });
+
+  describe('checkSchema', () => {
+    it('should accept valid JSON Schemas', () => {
+      expect(validator.checkSchema(inputSchema)).toEqual([]);
+    });
+
+    it('should reject schemas that break the meta-schema', () => {
+      const violations = validator.checkSchema({ type: 'object', properties: { a: { type: 'strnig' } } });
+
+      expect(violations.length).toBeGreaterThan(0);
+      expect(violations[0].path).toBe('/properties/a/type');
+    });
+
+    it('should reject non-object schemas', () => {
+      expect(validator.checkSchema('string')).toEqual([
+        { path: '', message: 'must be a JSON Schema object' }
+      ]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should return no violations for matching data', () => {
+      expect(validator.validate(inputSchema, { query: 'agents', limit: 5 })).toEqual([]);
+    });
+
+    it('should report every violation with its path', () => {
+      const violations = validator.validate(inputSchema, { limit: 0, extra: true });
+
+      expect(violations).toEqual(expect.arrayContaining([
+        { path: '/', message: "must have required property 'query'" },
+        { path: '/', message: 'must NOT have additional properties: extra' },
+        { path: '/limit', message: 'must be >= 1' }
+      ]));
+    });
+  });
+});
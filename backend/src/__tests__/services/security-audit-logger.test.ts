@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { FileAuditStore } from '../../services/audit/file-audit-store';
+import { FileAuditArchiver } from '../../services/audit/audit-archiver';
+import { MemoryAuditStore } from '../../services/audit/memory-audit-store';
+import { GENESIS_HASH } from '../../services/audit/audit-store';
+
+describe('SecurityAuditLogger', () => {
+  const auditConfig = {
+    logLevel: 'info' as const,
+    retentionPeriod: 3600,
+    maxEvents: 100,
+    alertThresholds: { warning: 100, critical: 100 }
+  };
+
+  let dir: string;
+  let filePath: string;
+  let auditLogger: SecurityAuditLogger;
+  let reopened: SecurityAuditLogger[];
+
+  const logEvents = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await auditLogger.logEvent({ type: 'test.event', userId: `user${i}`, message: `event ${i}` });
+    }
+  };
+
+  // A fresh logger over the same file, as after a restart
+  const reopen = () => {
+    const instance = new SecurityAuditLogger(auditConfig, new FileAuditStore(filePath));
+    reopened.push(instance);
+    return instance;
+  };
+
+  const readLines = () => fs.readFileSync(filePath, 'utf8').trim().split('\n');
+  const writeLines = (lines: string[]) => fs.writeFileSync(filePath, lines.join('\n') + '\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    filePath = path.join(dir, 'audit.ndjson');
+    reopened = [];
+    auditLogger = new SecurityAuditLogger(
+      auditConfig,
+      new FileAuditStore(filePath),
+      new FileAuditArchiver(path.join(dir, 'archive'))
+    );
+  });
+
+  afterEach(() => {
+    auditLogger.close();
+    reopened.forEach(instance => instance.close());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should link each event to its predecessor', async () => {
+    const first = await auditLogger.logEvent({ type: 'a', message: 'first' });
+    const second = await auditLogger.logEvent({ type: 'b', message: 'second' });
+
+    expect(first.sequence).toBe(1);
+    expect(first.previousHash).toBe(GENESIS_HASH);
+    expect(second.sequence).toBe(2);
+    expect(second.previousHash).toBe(first.hash);
+    expect(await auditLogger.verifyChain()).toEqual(expect.objectContaining({
+      valid: true,
+      checked: 2,
+      fromSequence: 1,
+      toSequence: 2
+    }));
+  });
+
+  it('should keep a single chain under concurrent writes', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, i) => auditLogger.logEvent({ message: `event ${i}` })));
+
+    const result = await auditLogger.verifyChain();
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(10);
+  });
+
+  it('should continue the chain after a restart', async () => {
+    await logEvents(2);
+
+    const third = await reopen().logEvent({ message: 'after restart' });
+
+    expect(third.sequence).toBe(3);
+    expect((await auditLogger.verifyChain()).valid).toBe(true);
+  });
+
+  it('should detect a modified event', async () => {
+    await logEvents(3);
+    const lines = readLines();
+    lines[1] = lines[1].replace('event 1', 'event one');
+    writeLines(lines);
+
+    const result = await reopen().verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toEqual(expect.objectContaining({ sequence: 2, reason: 'Contents do not match hash' }));
+  });
+
+  it('should verify metadata whose keys come back in another order', async () => {
+    await auditLogger.logEvent({
+      type: 'wallet.linked',
+      message: 'linked',
+      metadata: { wallet: '0xabc', chain: 'ethereum', context: { ip: '10.0.0.1', agent: 'cli', tags: [{ b: 1, a: 2 }] } }
+    });
+
+    // As a jsonb column or another serializer might return it
+    const reverseKeys = (value: any): any => {
+      if (Array.isArray(value)) return value.map(reverseKeys);
+      if (value === null || typeof value !== 'object') return value;
+      return Object.fromEntries(Object.keys(value).reverse().map(key => [key, reverseKeys(value[key])]));
+    };
+    const stored = JSON.parse(readLines()[0]);
+    const shuffled = JSON.stringify({ ...stored, metadata: reverseKeys(stored.metadata) });
+    expect(shuffled).not.toBe(readLines()[0]);
+    writeLines([shuffled]);
+
+    expect((await reopen().verifyChain()).valid).toBe(true);
+
+    writeLines([shuffled.replace('10.0.0.1', '10.0.0.2')]);
+    expect((await reopen().verifyChain()).valid).toBe(false);
+  });
+
+  it('should detect a deleted event', async () => {
+    await logEvents(4);
+    const lines = readLines();
+    writeLines([lines[0], lines[1], lines[3]]);
+
+    const result = await reopen().verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt?.sequence).toBe(3);
+    expect(result.checked).toBe(2);
+  });
+
+  it('should detect reordered events', async () => {
+    await logEvents(3);
+    const lines = readLines();
+    writeLines([lines[0], lines[2], lines[1]]);
+
+    const result = await reopen().verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt?.sequence).toBe(2);
+  });
+
+  it('should verify a sub-range', async () => {
+    await logEvents(5);
+
+    expect(await auditLogger.verifyChain(2, 4)).toEqual(expect.objectContaining({
+      valid: true,
+      checked: 3,
+      fromSequence: 2,
+      toSequence: 4
+    }));
+    expect((await auditLogger.verifyChain(4, 9)).valid).toBe(false);
+  });
+
+  it('should archive before deleting and keep the chain verifiable', async () => {
+    await logEvents(3);
+    const cutoff = new Date(Date.now() + 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await logEvents(2);
+
+    const retention = await auditLogger.applyRetention(cutoff);
+
+    expect(retention).toEqual({ archived: 3, deleted: 3, segment: 'audit-1-3.ndjson.gz' });
+    expect(readLines()).toHaveLength(2);
+
+    const archiver = new FileAuditArchiver(path.join(dir, 'archive'));
+    const [segment] = await archiver.segments();
+    const archived = await archiver.read(segment);
+    expect(archived.map(event => event.sequence)).toEqual([1, 2, 3]);
+
+    expect(await auditLogger.verifyChain()).toEqual(expect.objectContaining({
+      valid: true,
+      checked: 2,
+      fromSequence: 4
+    }));
+  });
+
+  it('should not delete anything without an archiver', async () => {
+    const memoryLogger = new SecurityAuditLogger(auditConfig, new MemoryAuditStore());
+    reopened.push(memoryLogger);
+    await memoryLogger.logEvent({ message: 'keep me' });
+
+    expect(await memoryLogger.applyRetention(new Date(Date.now() + 1000))).toEqual({ archived: 0, deleted: 0 });
+    expect(await memoryLogger.searchEvents({})).toHaveLength(1);
+  });
+});
@@ -0,0 +1,141 @@
+import { SessionManager, SessionManagerConfig } from '../../services/session-manager';
+import { MemorySessionStore } from '../../services/session-store';
+import { ConflictError } from '../../utils/errors';
+
+const MINUTE = 60 * 1000;
+
+const CONFIG: SessionManagerConfig = {
+  idleTimeoutMs: 30 * MINUTE,
+  absoluteTimeoutMs: 120 * MINUTE,
+  maxSessions: 3,
+  evictionPolicy: 'oldest',
+  cleanupIntervalMs: 60 * MINUTE
+};
+
+const LAPTOP = { userAgent: 'Mozilla/5.0 (Macintosh)', ipAddress: '10.0.0.1' };
+const PHONE = { deviceId: 'phone-1', userAgent: 'App/2.0 (iOS)', ipAddress: '10.0.0.2' };
+
+describe('SessionManager', () => {
+  let store: MemorySessionStore;
+  let managers: SessionManager[];
+
+  const createManager = (overrides: Partial<SessionManagerConfig> = {}) => {
+    const manager = new SessionManager(store, { ...CONFIG, ...overrides });
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+    store = new MemorySessionStore();
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach(manager => manager.dispose());
+    jest.useRealTimers();
+  });
+
+  it('should slide the idle expiry on use but never past the absolute lifetime', async () => {
+    const manager = createManager();
+    const session = await manager.createSession('alice', {}, LAPTOP);
+    expect(session.expiresAt.getTime() - Date.now()).toBe(30 * MINUTE);
+
+    for (let i = 0; i < 4; i++) {
+      jest.advanceTimersByTime(25 * MINUTE);
+      expect(await manager.getSession(session.id)).not.toBeNull();
+    }
+    const touched = await manager.getSession(session.id);
+    expect(touched!.expiresAt).toEqual(touched!.absoluteExpiresAt);
+
+    jest.advanceTimersByTime(20 * MINUTE + 1);
+    expect(await manager.getSession(session.id)).toBeNull();
+  });
+
+  it('should peek at a session without sliding its expiry', async () => {
+    const manager = createManager();
+    const session = await manager.createSession('alice');
+
+    jest.advanceTimersByTime(25 * MINUTE);
+    expect(await manager.peekSession(session.id)).toEqual(expect.objectContaining({ expiresAt: session.expiresAt }));
+
+    jest.advanceTimersByTime(5 * MINUTE + 1);
+    expect(await manager.peekSession(session.id)).toBeNull();
+  });
+
+  it('should end a session after the idle timeout', async () => {
+    const manager = createManager();
+    const session = await manager.createSession('alice');
+
+    jest.advanceTimersByTime(30 * MINUTE + 1);
+    expect(await manager.getSession(session.id)).toBeNull();
+    expect(await manager.getUserSessions('alice')).toEqual([]);
+  });
+
+  it('should evict by the configured policy at maxSessions', async () => {
+    const manager = createManager({ evictionPolicy: 'least_recently_used' });
+    const first = await manager.createSession('bob');
+    jest.advanceTimersByTime(MINUTE);
+    const second = await manager.createSession('bob');
+    jest.advanceTimersByTime(MINUTE);
+    const third = await manager.createSession('bob');
+
+    jest.advanceTimersByTime(MINUTE);
+    await manager.getSession(first.id);
+    await manager.createSession('bob');
+
+    const remaining = (await manager.getUserSessions('bob')).map(session => session.id);
+    expect(remaining).toHaveLength(3);
+    expect(remaining).toEqual(expect.arrayContaining([first.id, third.id]));
+    expect(remaining).not.toContain(second.id);
+
+    await createManager().createSession('bob');
+    expect((await manager.getUserSessions('bob')).map(session => session.id)).not.toContain(first.id);
+  });
+
+  it('should refuse new sessions at the limit with the reject policy', async () => {
+    const manager = createManager({ evictionPolicy: 'reject', maxSessions: 1 });
+    await manager.createSession('carol');
+
+    await expect(manager.createSession('carol')).rejects.toThrow(ConflictError);
+    await expect(manager.createSession('dave')).resolves.toBeDefined();
+  });
+
+  it('should group sessions into devices and revoke a device', async () => {
+    const manager = createManager();
+    const laptopSession = await manager.createSession('erin', {}, LAPTOP);
+    jest.advanceTimersByTime(MINUTE);
+    await manager.createSession('erin', {}, PHONE);
+    jest.advanceTimersByTime(MINUTE);
+    // Same phone from another network is still the same device
+    const phoneSession = await manager.createSession('erin', {}, { ...PHONE, ipAddress: '192.168.1.9' });
+
+    const devices = await manager.listDevices('erin');
+    expect(devices).toHaveLength(2);
+    expect(devices[0]).toEqual(expect.objectContaining({
+      deviceId: 'phone-1',
+      ipAddress: '192.168.1.9',
+      sessionIds: expect.arrayContaining([phoneSession.id])
+    }));
+    expect(devices[0].sessionIds).toHaveLength(2);
+    expect(devices[1].fingerprint).toBe(laptopSession.device.fingerprint);
+
+    // Another user can't revoke erin's device
+    expect(await manager.revokeDevice('mallory', devices[0].fingerprint)).toBe(0);
+    expect(await manager.revokeDevice('erin', devices[0].fingerprint)).toBe(2);
+    expect(await manager.getSession(phoneSession.id)).toBeNull();
+    expect(await manager.getSession(laptopSession.id)).not.toBeNull();
+  });
+
+  it('should share sessions between managers on the same store', async () => {
+    const session = await createManager().createSession('frank', { theme: 'dark' }, LAPTOP);
+    const replica = createManager();
+
+    expect(await replica.getSession(session.id)).toEqual(expect.objectContaining({
+      userId: 'frank',
+      data: { theme: 'dark' }
+    }));
+    await replica.destroyUserSessions('frank');
+    expect(await createManager().getUserSessions('frank')).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { DDSketch } from '../../services/metrics/sketch';
+import { MetricsAggregationService } from '../../services/metrics/metrics-aggregation-service';
+import { MetricsService } from '../../services/metrics/metrics.service';
+
+// Deterministic, so a failure reproduces
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const QUANTILES = [0, 0.01, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 0.999, 1];
+
+const exactQuantile = (sorted: number[], q: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))];
+
+// The documented bound, with room for rounding at bin edges
+const withinBound = (estimate: number, exact: number, alpha: number) =>
+  Math.abs(estimate - exact) <= alpha * Math.abs(exact) * (1 + 1e-9) + 1e-9;
+
+type Distribution = (next: () => number) => number;
+
+const distributions: Record<string, Distribution> = {
+  uniform: next => next() * 1000,
+  lognormal: next => Math.exp(6 * Math.sqrt(-2 * Math.log(next() || 1e-12)) * Math.cos(2 * Math.PI * next())),
+  signed: next => (next() - 0.5) * 10 ** Math.floor(next() * 8),
+  duplicates: next => Math.floor(next() * 5) * 2.5,
+  latencies: next => (next() < 0.98 ? 20 + next() * 30 : 500 + next() * 5000)
+};
+
+describe('DDSketch', () => {
+  it('should stay within alpha of the exact quantile for any sample', () => {
+    const next = random(1);
+    for (const [name, draw] of Object.entries(distributions)) {
+      for (const alpha of [0.01, 0.05]) {
+        for (let trial = 0; trial < 10; trial++) {
+          const size = 1 + Math.floor(next() * 3000);
+          const values = Array.from({ length: size }, () => draw(next));
+          const sketch = new DDSketch(alpha);
+          values.forEach(value => sketch.add(value));
+          values.sort((a, b) => a - b);
+
+          for (const q of QUANTILES) {
+            const estimate = sketch.quantile(q);
+            const exact = exactQuantile(values, q);
+            if (!withinBound(estimate, exact, alpha)) {
+              throw new Error(`${name}, alpha ${alpha}, n ${size}, q ${q}: ${estimate} vs exact ${exact}`);
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it('should merge into exactly what one sketch of every sample holds', () => {
+    const next = random(2);
+    for (let trial = 0; trial < 20; trial++) {
+      const values = Array.from({ length: 2000 }, () => distributions.signed(next));
+      const whole = new DDSketch();
+      values.forEach(value => whole.add(value));
+
+      // Split at random, merged in a random order through their stored form
+      const parts = Array.from({ length: 1 + Math.floor(next() * 8) }, () => new DDSketch());
+      values.forEach(value => parts[Math.floor(next() * parts.length)].add(value));
+      const merged = new DDSketch();
+      for (const part of parts.sort(() => next() - 0.5)) {
+        merged.merge(DDSketch.fromJSON(JSON.parse(JSON.stringify(part))));
+      }
+
+      expect(merged.count).toBe(whole.count);
+      expect(QUANTILES.map(q => merged.quantile(q))).toEqual(QUANTILES.map(q => whole.quantile(q)));
+    }
+  });
+
+  it('should be monotone in q and handle the edges', () => {
+    const next = random(3);
+    const sketch = new DDSketch();
+    for (let i = 0; i < 500; i++) {
+      sketch.add(distributions.signed(next));
+    }
+    const estimates = QUANTILES.map(q => sketch.quantile(q));
+    expect(estimates.every((value, i) => i === 0 || estimates[i - 1] <= value)).toBe(true);
+
+    const empty = new DDSketch();
+    expect(empty.quantile(0.5)).toBeNaN();
+    empty.add(NaN);
+    empty.add(Infinity);
+    expect(empty.count).toBe(0);
+
+    const tiny = new DDSketch();
+    [0, 1e-12, -0].forEach(value => tiny.add(value));
+    tiny.add(42, 3);
+    expect(tiny.quantile(0.5)).toBe(0);
+    expect(withinBound(tiny.quantile(1), 42, 0.01)).toBe(true);
+    expect(() => tiny.merge(new DDSketch(0.02))).toThrow();
+  });
+});
+
+describe('MetricsAggregationService percentiles', () => {
+  it('should report sketch percentiles within bound of the exact ones', async () => {
+    const metricsService = new MetricsService();
+    const aggregation = new MetricsAggregationService(metricsService);
+    const next = random(4);
+    const values = Array.from({ length: 5000 }, () => distributions.latencies(next));
+    const metrics = values.map((value, i) => ({
+      id: `m${i}`,
+      type: 'response_time' as const,
+      value,
+      timestamp: new Date(Date.UTC(2026, 0, 1) + i * 1000)
+    }));
+    values.sort((a, b) => a - b);
+
+    const aggregated = await aggregation.aggregateMetrics(metrics);
+    expect(aggregated.count).toBe(5000);
+    expect(withinBound(aggregated.p95, exactQuantile(values, 0.95), 0.01)).toBe(true);
+    expect(withinBound(aggregated.p99, exactQuantile(values, 0.99), 0.01)).toBe(true);
+
+    await aggregation.dispose();
+    await metricsService.dispose();
+  });
+});
@@ -0,0 +1,91 @@
+import { TokenManager } from '../../services/auth/token-manager';
+import { MemoryTokenStore } from '../../services/auth/token-store';
+
+describe('TokenManager', () => {
+  let store: MemoryTokenStore;
+  let tokenManager: TokenManager;
+
+  beforeEach(() => {
+    store = new MemoryTokenStore();
+    tokenManager = new TokenManager({
+      secret: 'test-secret',
+      expiresIn: '1h',
+      algorithm: 'HS256',
+      refreshTokenTtlMs: 60000
+    }, store);
+  });
+
+  it('should issue opaque refresh tokens and store only their hash', async () => {
+    const refreshToken = await tokenManager.generateRefreshToken('user1', ['user']);
+
+    expect(refreshToken.split('.')).toHaveLength(1);
+    expect(await store.findRefreshToken(refreshToken)).toBeNull();
+    expect(await tokenManager.verifyToken(refreshToken)).toBeNull();
+  });
+
+  it('should rotate a refresh token within its family', async () => {
+    const first = await tokenManager.generateRefreshToken('user1', ['user'], { sessionId: 's1' });
+
+    const rotated = await tokenManager.rotateRefreshToken(first);
+    const again = await tokenManager.rotateRefreshToken(rotated.refreshToken);
+
+    expect(rotated).toEqual(expect.objectContaining({ userId: 'user1', roles: ['user'], claims: { sessionId: 's1' } }));
+    expect(rotated.refreshToken).not.toBe(first);
+    expect(again.familyId).toBe(rotated.familyId);
+  });
+
+  it('should revoke the whole family when a used token is replayed', async () => {
+    const stolen = await tokenManager.generateRefreshToken('user1', ['user']);
+    const { refreshToken: current } = await tokenManager.rotateRefreshToken(stolen);
+
+    await expect(tokenManager.rotateRefreshToken(stolen)).rejects.toThrow('Refresh token reuse detected');
+    await expect(tokenManager.rotateRefreshToken(current)).rejects.toThrow('Refresh token has been revoked');
+  });
+
+  it('should let only one concurrent rotation win', async () => {
+    const refreshToken = await tokenManager.generateRefreshToken('user1', ['user']);
+
+    const results = await Promise.allSettled([
+      tokenManager.rotateRefreshToken(refreshToken),
+      tokenManager.rotateRefreshToken(refreshToken)
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('should not affect other families', async () => {
+    const laptop = await tokenManager.generateRefreshToken('user1', ['user']);
+    const phone = await tokenManager.generateRefreshToken('user1', ['user']);
+
+    await tokenManager.revokeRefreshToken(laptop);
+
+    await expect(tokenManager.rotateRefreshToken(laptop)).rejects.toThrow('Refresh token has been revoked');
+    await expect(tokenManager.rotateRefreshToken(phone)).resolves.toBeDefined();
+  });
+
+  it('should reject unknown and expired refresh tokens', async () => {
+    await expect(tokenManager.rotateRefreshToken('not-a-token')).rejects.toThrow('Invalid or expired refresh token');
+
+    const shortLived = new TokenManager({
+      secret: 'test-secret',
+      expiresIn: '1h',
+      algorithm: 'HS256',
+      refreshTokenTtlMs: 1
+    }, store);
+    const refreshToken = await shortLived.generateRefreshToken('user1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    await expect(shortLived.rotateRefreshToken(refreshToken)).rejects.toThrow('Invalid or expired refresh token');
+  });
+
+  it('should deny a revoked access token', async () => {
+    const token = await tokenManager.generateAccessToken('user1', ['user']);
+    const other = await tokenManager.generateAccessToken('user1', ['user']);
+    expect(await tokenManager.verifyToken(token)).toEqual(expect.objectContaining({ userId: 'user1' }));
+
+    await tokenManager.revokeAccessToken(token);
+
+    expect(await tokenManager.verifyToken(token)).toBeNull();
+    expect(await tokenManager.verifyToken(other)).not.toBeNull();
+  });
+});
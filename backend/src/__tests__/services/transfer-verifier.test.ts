@@ -0,0 +1,79 @@
+import { TransferVerifier } from '../../services/transfers/transfer-verifier';
+import { LocalSolanaProvider } from '../../services/transfers/__mocks__/local-solana-provider';
+import { nextTransferStatus } from '../../services/transfers/transfer-request-state';
+import { ConflictError } from '../../utils/errors';
+
+describe('TransferVerifier', () => {
+  const mint = 'AgentMint1111111111111111111111111111111111';
+  const owner = 'Owner11111111111111111111111111111111111111';
+  const recipient = 'Recipient111111111111111111111111111111111';
+  const stranger = 'Stranger11111111111111111111111111111111111';
+
+  let chain: LocalSolanaProvider;
+  let verifier: TransferVerifier;
+
+  beforeEach(() => {
+    chain = new LocalSolanaProvider();
+    chain.mint(mint, owner);
+    verifier = new TransferVerifier(chain, { commitment: 'finalized' });
+  });
+
+  it('should accept a finalized transfer between the two parties', async () => {
+    const signature = chain.transfer({ mint, from: owner, to: recipient });
+
+    const verdict = await verifier.verify(signature, { mint, fromAddress: owner, toAddress: recipient });
+
+    expect(verdict).toEqual(expect.objectContaining({ verified: true, amount: '1', reasons: [] }));
+  });
+
+  it('should reject unknown and failed transactions', async () => {
+    const missing = await verifier.verify('nope', { mint, fromAddress: owner, toAddress: recipient });
+    expect(missing.reasons.map(r => r.code)).toEqual(['TX_NOT_FOUND']);
+
+    const signature = chain.transfer({ mint, from: owner, to: recipient, failed: true });
+    const failed = await verifier.verify(signature, { mint, fromAddress: owner, toAddress: recipient });
+    expect(failed.reasons.map(r => r.code)).toEqual(['TX_FAILED', 'NO_TOKEN_MOVEMENT']);
+  });
+
+  it('should wait for the configured commitment', async () => {
+    const signature = chain.transfer({ mint, from: owner, to: recipient, commitment: 'confirmed' });
+
+    const verdict = await verifier.verify(signature, { mint, fromAddress: owner, toAddress: recipient });
+    expect(verdict.reasons.map(r => r.code)).toEqual(['NOT_CONFIRMED']);
+
+    const lenient = new TransferVerifier(chain, { commitment: 'confirmed' });
+    expect((await lenient.verify(signature, { mint, fromAddress: owner, toAddress: recipient })).verified).toBe(true);
+  });
+
+  it('should reject a transfer that went to someone else', async () => {
+    const signature = chain.transfer({ mint, from: owner, to: stranger });
+
+    const verdict = await verifier.verify(signature, { mint, fromAddress: owner, toAddress: recipient });
+
+    expect(verdict.verified).toBe(false);
+    expect(verdict.reasons.map(r => r.code)).toEqual(['WRONG_RECIPIENT']);
+  });
+
+  it('should ignore movements of other tokens', async () => {
+    chain.mint('OtherMint', owner);
+    const signature = chain.transfer({ mint: 'OtherMint', from: owner, to: recipient });
+
+    const verdict = await verifier.verify(signature, { mint, fromAddress: owner, toAddress: recipient });
+
+    expect(verdict.reasons.map(r => r.code)).toEqual(['NO_TOKEN_MOVEMENT']);
+  });
+});
+
+describe('transfer request states', () => {
+  it('should only complete accepted requests', () => {
+    expect(nextTransferStatus('PENDING', 'ACCEPT')).toBe('ACCEPTED');
+    expect(nextTransferStatus('ACCEPTED', 'CONFIRM')).toBe('COMPLETED');
+    expect(() => nextTransferStatus('PENDING', 'CONFIRM')).toThrow(ConflictError);
+  });
+
+  it('should not reopen finished requests', () => {
+    expect(nextTransferStatus('ACCEPTED', 'CANCEL')).toBe('CANCELLED');
+    expect(() => nextTransferStatus('EXPIRED', 'ACCEPT')).toThrow(ConflictError);
+    expect(() => nextTransferStatus('COMPLETED', 'CANCEL')).toThrow(ConflictError);
+  });
+});
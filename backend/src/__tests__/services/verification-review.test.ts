@@ -0,0 +1,63 @@
+import {
+  assertCanClaim,
+  assertHoldsClaim,
+  evaluateReviews,
+  isClaimActive,
+  ReviewPolicy
+} from '../../services/verification/verification-review';
+import { AuthorizationError, ConflictError } from '../../utils/errors';
+
+describe('verification review', () => {
+  const policy: ReviewPolicy = { requiredApprovals: 2, claimTtlMs: 60000 };
+  const freshClaim = (claimedBy: string) => ({ claimedBy, claimedAt: new Date() });
+  const staleClaim = (claimedBy: string) => ({ claimedBy, claimedAt: new Date(Date.now() - 120000) });
+  const noClaim = { claimedBy: null, claimedAt: null };
+
+  describe('evaluateReviews', () => {
+    it('should stay pending until enough distinct reviewers approve', () => {
+      expect(evaluateReviews([], policy)).toBeNull();
+      expect(evaluateReviews([{ reviewerId: 'a', decision: 'APPROVE' }], policy)).toBeNull();
+      expect(evaluateReviews([
+        { reviewerId: 'a', decision: 'APPROVE' },
+        { reviewerId: 'a', decision: 'APPROVE' }
+      ], policy)).toBeNull();
+      expect(evaluateReviews([
+        { reviewerId: 'a', decision: 'APPROVE' },
+        { reviewerId: 'b', decision: 'APPROVE' }
+      ], policy)).toBe('VERIFIED');
+    });
+
+    it('should reject on a single rejection', () => {
+      expect(evaluateReviews([
+        { reviewerId: 'a', decision: 'APPROVE' },
+        { reviewerId: 'b', decision: 'REJECT' }
+      ], policy)).toBe('REJECTED');
+    });
+  });
+
+  describe('claims', () => {
+    it('should expire claims after the ttl', () => {
+      expect(isClaimActive(freshClaim('a'), policy)).toBe(true);
+      expect(isClaimActive(staleClaim('a'), policy)).toBe(false);
+      expect(isClaimActive(noClaim, policy)).toBe(false);
+    });
+
+    it('should block claiming a review someone else holds', () => {
+      expect(() => assertCanClaim('b', freshClaim('a'), [], policy)).toThrow(ConflictError);
+      expect(() => assertCanClaim('b', staleClaim('a'), [], policy)).not.toThrow();
+      expect(() => assertCanClaim('a', freshClaim('a'), [], policy)).not.toThrow();
+    });
+
+    it('should not let the first approver claim the second review', () => {
+      const reviews = [{ reviewerId: 'a', decision: 'APPROVE' as const }];
+      expect(() => assertCanClaim('a', noClaim, reviews, policy)).toThrow('already reviewed');
+      expect(() => assertCanClaim('b', noClaim, reviews, policy)).not.toThrow();
+    });
+
+    it('should require a live claim before deciding', () => {
+      expect(() => assertHoldsClaim('a', freshClaim('a'), policy)).not.toThrow();
+      expect(() => assertHoldsClaim('b', freshClaim('a'), policy)).toThrow(AuthorizationError);
+      expect(() => assertHoldsClaim('a', staleClaim('a'), policy)).toThrow(AuthorizationError);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { HDNodeWallet, Wallet } from 'ethers';
+import { WalletAuthService } from '../../services/auth/wallet-auth-service';
+import { TokenManager } from '../../services/auth/token-manager';
+import { MemoryNonceStore } from '../../services/auth/nonce-store';
+import { MemoryWalletAccountStore } from '../../services/auth/wallet-account-store';
+import { formatSignInMessage, parseSignInMessage } from '../../services/auth/sign-in-message';
+import { SessionManager } from '../../services/session-manager';
+import { SecurityAuditLogger } from '../../services/security-audit-logger';
+import { encodeBase58 } from '../../utils/crypto';
+
+describe('WalletAuthService', () => {
+  const walletConfig = {
+    domain: 'app.example.com',
+    uri: 'https://app.example.com',
+    statement: 'Sign in to the agent platform.',
+    ethereumChainIds: [1],
+    solanaCluster: 'mainnet',
+    nonceTtlMs: 60000
+  };
+
+  let tokenManager: TokenManager;
+  let sessionManager: SessionManager;
+  let auditLogger: SecurityAuditLogger;
+  let service: WalletAuthService;
+  let ethWallet: HDNodeWallet;
+
+  const solanaKeys = crypto.generateKeyPairSync('ed25519');
+  const solanaAddress = encodeBase58(
+    Buffer.from(solanaKeys.publicKey.export({ format: 'jwk' }).x!, 'base64url')
+  );
+  const signSolana = (message: string) =>
+    encodeBase58(crypto.sign(null, Buffer.from(message, 'utf8'), solanaKeys.privateKey));
+
+  beforeEach(() => {
+    tokenManager = new TokenManager({ secret: 'test-secret', expiresIn: '1h', algorithm: 'HS256' });
+    sessionManager = new SessionManager();
+    auditLogger = new SecurityAuditLogger({
+      logLevel: 'info',
+      retentionPeriod: 3600,
+      maxEvents: 100,
+      alertThresholds: { warning: 100, critical: 100 }
+    });
+    service = new WalletAuthService(
+      tokenManager,
+      sessionManager,
+      new MemoryNonceStore(),
+      new MemoryWalletAccountStore(),
+      auditLogger,
+      walletConfig
+    );
+    ethWallet = Wallet.createRandom();
+  });
+
+  afterEach(() => {
+    sessionManager.dispose();
+    auditLogger.close();
+  });
+
+  it('should round-trip EIP-4361 messages', () => {
+    const fields = {
+      chain: 'ethereum' as const,
+      domain: 'app.example.com',
+      address: ethWallet.address,
+      statement: 'Hello',
+      uri: 'https://app.example.com',
+      version: '1',
+      chainId: '1',
+      nonce: 'abc12345',
+      issuedAt: '2024-01-01T00:00:00.000Z',
+      resources: ['https://app.example.com/terms']
+    };
+    const text = formatSignInMessage(fields);
+
+    expect(text.split('\n')[0]).toBe('app.example.com wants you to sign in with your Ethereum account:');
+    expect(parseSignInMessage(text)).toEqual(fields);
+
+    const { statement, ...withoutStatement } = fields;
+    expect(parseSignInMessage(formatSignInMessage(withoutStatement))).toEqual(withoutStatement);
+  });
+
+  it('should sign in with an Ethereum wallet', async () => {
+    const { message } = await service.createChallenge(ethWallet.address.toLowerCase());
+    const result = await service.signIn(message, await ethWallet.signMessage(message), { ip: '10.0.0.1' });
+    if (result.mfaRequired) {
+      throw new Error('Expected tokens for an account without MFA');
+    }
+
+    const payload = await tokenManager.verifyToken(result.token);
+    expect(payload).toEqual(expect.objectContaining({
+      userId: result.account.id,
+      roles: ['user'],
+      wallet: ethWallet.address,
+      sessionId: result.session.id
+    }));
+    expect(result.session.data).toEqual(expect.objectContaining({ wallet: ethWallet.address, chain: 'ethereum' }));
+    expect(await tokenManager.rotateRefreshToken(result.refreshToken)).toEqual(expect.objectContaining({
+      userId: result.account.id,
+      claims: { sessionId: result.session.id, wallet: ethWallet.address }
+    }));
+    expect(await tokenManager.verifyToken(result.refreshToken)).toBeNull();
+    expect(await auditLogger.searchEvents({ type: 'auth.wallet.login' })).toHaveLength(1);
+  });
+
+  it('should sign in with a Solana wallet', async () => {
+    const { message } = await service.createChallenge(solanaAddress);
+    expect(message).toContain('sign in with your Solana account:');
+    expect(message).toContain('Chain ID: mainnet');
+
+    const result = await service.signIn(message, signSolana(message));
+
+    expect(result.account.wallets).toEqual([expect.objectContaining({ address: solanaAddress, chain: 'solana' })]);
+  });
+
+  it('should return the same account on the next sign-in', async () => {
+    const first = await service.createChallenge(ethWallet.address);
+    const { account } = await service.signIn(first.message, await ethWallet.signMessage(first.message));
+
+    const second = await service.createChallenge(ethWallet.address);
+    const again = await service.signIn(second.message, await ethWallet.signMessage(second.message));
+
+    expect(again.account.id).toBe(account.id);
+  });
+
+  it('should reject a reused nonce', async () => {
+    const { message } = await service.createChallenge(ethWallet.address);
+    const signature = await ethWallet.signMessage(message);
+    await service.signIn(message, signature);
+
+    await expect(service.signIn(message, signature)).rejects.toThrow('Nonce is invalid, expired or already used');
+  });
+
+  it('should reject a signature from another wallet without burning the nonce', async () => {
+    const { message } = await service.createChallenge(ethWallet.address);
+
+    await expect(service.signIn(message, await Wallet.createRandom().signMessage(message)))
+      .rejects.toThrow('Invalid wallet signature');
+    await expect(service.signIn(message, await ethWallet.signMessage(message))).resolves.toBeDefined();
+    expect(await auditLogger.searchEvents({ type: 'auth.wallet.failed' })).toHaveLength(1);
+  });
+
+  it('should reject messages for another domain or chain', async () => {
+    const { message } = await service.createChallenge(ethWallet.address);
+
+    const phishing = message.replace('app.example.com wants', 'evil.example.com wants');
+    await expect(service.signIn(phishing, await ethWallet.signMessage(phishing)))
+      .rejects.toThrow('Message was issued for a different domain');
+
+    const otherChain = message.replace('Chain ID: 1', 'Chain ID: 137');
+    await expect(service.signIn(otherChain, await ethWallet.signMessage(otherChain)))
+      .rejects.toThrow('Chain 137 is not accepted');
+  });
+
+  it('should reject an expired message', async () => {
+    const { message } = await service.createChallenge(ethWallet.address);
+    const expired = message.replace(/Expiration Time: .*/, `Expiration Time: ${new Date(Date.now() - 1000).toISOString()}`);
+
+    await expect(service.signIn(expired, await ethWallet.signMessage(expired))).rejects.toThrow('Message has expired');
+  });
+
+  it('should link a Solana wallet to an Ethereum account', async () => {
+    const ethChallenge = await service.createChallenge(ethWallet.address);
+    const { account } = await service.signIn(ethChallenge.message, await ethWallet.signMessage(ethChallenge.message));
+
+    const solChallenge = await service.createChallenge(solanaAddress);
+    const linked = await service.linkWallet(account.id, solChallenge.message, signSolana(solChallenge.message));
+    expect(linked.wallets.map(wallet => wallet.chain)).toEqual(['ethereum', 'solana']);
+
+    const signIn = await service.createChallenge(solanaAddress);
+    const result = await service.signIn(signIn.message, signSolana(signIn.message));
+    expect(result.account.id).toBe(account.id);
+  });
+
+  it('should not link a wallet that belongs to another account', async () => {
+    const solChallenge = await service.createChallenge(solanaAddress);
+    await service.signIn(solChallenge.message, signSolana(solChallenge.message));
+
+    const ethChallenge = await service.createChallenge(ethWallet.address);
+    const { account } = await service.signIn(ethChallenge.message, await ethWallet.signMessage(ethChallenge.message));
+
+    const link = await service.createChallenge(solanaAddress);
+    await expect(service.linkWallet(account.id, link.message, signSolana(link.message)))
+      .rejects.toThrow('Wallet is already linked to another account');
+  });
+});
@@ -1,9 +1,16 @@
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import { TokenManager } from '../../services/auth/token-manager';
 import { createMockUser } from './testUtils';
 
 const prisma = new PrismaClient();
 
+// Tokens must carry a kid from the keyring, so sign them the way the app does
+const tokenManager = new TokenManager({
+  secret: process.env.JWT_SECRET || 'test-secret',
+  expiresIn: '1h',
+  algorithm: 'HS256'
+});
+
 export const createTestToken = async () => {
   // Create a test user
   const mockUser = createMockUser();
@@ -16,17 +23,15 @@ export const createTestToken = async () => {
   });
 
   // Generate JWT token
-  const token = jwt.sign(
-    { userId: user.id, address: user.address },
-    process.env.JWT_SECRET || 'test-secret',
-    { expiresIn: '1h' }
+  const token = await tokenManager.createToken(
+    { userId: user.id, roles: ['user'], address: user.address }
   );
 
   return token;
 };
 
 export const verifyTestToken = (token: string) => {
-  return jwt.verify(token, process.env.JWT_SECRET || 'test-secret');
+  return tokenManager.verifyToken(token);
 };
 
 export const createTestAdmin = async () => {
@@ -39,10 +44,8 @@ export const createTestAdmin = async () => {
     },
   });
 
-  const token = jwt.sign(
-    { userId: admin.id, address: admin.address, isAdmin: true },
-    process.env.JWT_SECRET || 'test-secret',
-    { expiresIn: '1h' }
+  const token = await tokenManager.createToken(
+    { userId: admin.id, roles: ['admin'], address: admin.address, isAdmin: true }
   );
 
   return { admin, token };
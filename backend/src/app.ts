@@ -0,0 +1,162 @@
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { config, RateLimitTierName } from './config';
+import { TokenManager } from './services/auth/token-manager';
+import { Keyring } from './services/auth/keyring';
+import { SessionManager } from './services/session-manager';
+import { WalletAuthService } from './services/auth/wallet-auth-service';
+import { MfaService } from './services/auth/mfa-service';
+import { LoginProtection } from './services/auth/login-protection';
+import { DelegationService } from './services/auth/delegation-service';
+import { SecurityAuditLogger } from './services/security-audit-logger';
+import { RateLimitStore } from './services/rate-limit/rate-limit-store';
+import { MetricsService } from './services/metrics/metrics.service';
+import { MetricsAggregationService } from './services/metrics/metrics-aggregation-service';
+import { TimeSeriesService } from './services/metrics/time-series-service';
+import { MetricTypeRegistry } from './services/metrics/metric-type-registry';
+import { RemoteWriteService } from './services/metrics/prometheus/remote-write';
+import { selfMetrics } from './services/metrics/prometheus/self-metrics';
+import { acceptDelegatedAccess, authenticate, requireLiveSessions } from './middleware/auth';
+import { configureRateLimits, createRateLimiter, rateLimitMonitor } from './middleware/rateLimit';
+import { httpMetrics } from './middleware/http-metrics';
+import { authRoutes } from './routes/auth';
+import { jwksRoutes } from './routes/jwks';
+import { expositionRoutes } from './routes/exposition';
+import { remoteWriteRoutes } from './routes/remote-write';
+import { metricsRoutes } from './routes/metrics';
+import { sessionRoutes } from './routes/session';
+import { auditRoutes } from './routes/audit';
+import { lockoutRoutes } from './routes/lockouts';
+import { delegationRoutes } from './routes/delegation';
+import agentRoutes from './routes/agents';
+import agentMetadataRoutes from './routes/agents.metadata';
+import agentBatchRoutes from './routes/agents.batch';
+import agentFunctionRoutes from './routes/agents.functions';
+import agentVerificationRoutes from './routes/agents.verification';
+import agentTransferRoutes from './routes/agents.transfer';
+import agentMarketplaceRoutes from './routes/agents.marketplace';
+import agentSocialRoutes from './routes/agents.social';
+import agentRecommendationRoutes from './routes/agents.recommendations';
+import agentSearchRoutes from './routes/agents.search';
+import agentAnalyticsRoutes from './routes/agents.analytics';
+import analyticsRoutes from './routes/analytics';
+import logger from './utils/logger';
+
+export interface AppServices {
+  tokenManager: TokenManager;
+  keyring: Keyring;
+  sessionManager: SessionManager;
+  walletAuthService: WalletAuthService;
+  mfaService: MfaService;
+  loginProtection: LoginProtection;
+  delegationService: DelegationService;
+  auditLogger: SecurityAuditLogger;
+  rateLimitStore: RateLimitStore;
+  metricsService: MetricsService;
+  metricsAggregationService: MetricsAggregationService;
+  timeSeriesService: TimeSeriesService;
+  metricTypeRegistry: MetricTypeRegistry;
+  remoteWriteService: RemoteWriteService;
+}
+
+/**
+ * Builds the HTTP application from constructed services. Nothing here
+ * listens, connects or starts workers, so tests can hand the result to
+ * supertest; index.ts does those for the real server.
+ */
+export function createApp(services: AppServices): express.Express {
+  const app = express();
+
+  app.set('trust proxy', config.trustedProxies);
+
+  app.use(httpMetrics);
+  app.use(helmet());
+  app.use(cors());
+  app.use(express.json());
+
+  // API keys are accepted wherever a JWT is, and delegate grants apply to
+  // agent permission checks. A JWT is only good while its session lasts.
+  acceptDelegatedAccess(services.delegationService);
+  requireLiveSessions(services.sessionManager);
+  configureRateLimits({ store: services.rateLimitStore });
+
+  app.use('/.well-known', jwksRoutes(services.keyring));
+  app.use('/metrics', expositionRoutes(selfMetrics, config.metrics.expositionToken));
+
+  // Wallet sign-in, token refresh and MFA completion must be reachable
+  // without a token, and Prometheus has its own, so these are mounted ahead
+  // of the authentication middleware. The other /api/auth routes
+  // authenticate themselves.
+  app.use('/api/metrics/write', remoteWriteRoutes(services.remoteWriteService, config.metrics.remoteWriteToken));
+  app.use('/api/auth', authRoutes(
+    services.tokenManager,
+    services.walletAuthService,
+    services.mfaService,
+    services.loginProtection,
+    services.sessionManager
+  ));
+
+  app.use('/api', authenticate(services.tokenManager));
+
+  app.get('/health', (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.use('/api/metrics', metricsRoutes(
+    services.metricsService,
+    services.metricsAggregationService,
+    services.timeSeriesService,
+    services.metricTypeRegistry
+  ));
+  app.use('/api/session', sessionRoutes(services.sessionManager));
+  app.use('/api/audit', auditRoutes(services.auditLogger));
+  app.use('/api/lockouts', lockoutRoutes(services.loginProtection));
+  app.use('/api/delegation', delegationRoutes(services.delegationService));
+
+  app.use('/api/v1', rateLimitMonitor);
+  app.use('/api/v1/agents', agentRateLimit());
+  app.use('/api/v1/agents/marketplace', agentMarketplaceRoutes);
+  app.use('/api/v1/agents', [
+    agentRoutes,
+    agentMetadataRoutes,
+    agentBatchRoutes,
+    agentFunctionRoutes,
+    agentVerificationRoutes,
+    agentTransferRoutes,
+    agentSocialRoutes,
+    agentRecommendationRoutes,
+    agentSearchRoutes,
+    agentAnalyticsRoutes
+  ]);
+  app.use('/api/v1/analytics', createRateLimiter('authenticated'), analyticsRoutes);
+
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    logger.error('Unhandled error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+}
+
+// One tier per request: the agent routers share a mount point, so the tier
+// is picked from the path rather than attached router by router
+function agentRateLimit() {
+  return (req: Request, res: Response, next: NextFunction) => createRateLimiter(agentRateLimitTier(req))(req, res, next);
+}
+
+function agentRateLimitTier(req: Request): RateLimitTierName {
+  if (req.path.startsWith('/search')) {
+    return 'search';
+  }
+  if (req.path.startsWith('/marketplace/')) {
+    return 'marketplace';
+  }
+  if (req.method === 'POST' && req.path.startsWith('/execute-function/')) {
+    return 'functionExecution';
+  }
+  if (req.method === 'POST' && (req.path === '/metadata' || req.path === '/batch-create')) {
+    return 'agentCreation';
+  }
+  return 'authenticated';
+}
@@ -0,0 +1,92 @@
+import { ConfigError, DEFAULT_JWT_SECRET, loadConfig } from '..';
+
+const problemsOf = (env: NodeJS.ProcessEnv, readFile?: (path: string) => string) => {
+  try {
+    loadConfig(env, { readFile });
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return (error as ConfigError).problems;
+  }
+  throw new Error('expected the configuration to be rejected');
+};
+
+describe('loadConfig', () => {
+  it('should fill in defaults and parse values', () => {
+    const config = loadConfig({ NODE_ENV: 'development', PORT: '8080', WALLET_AUTH_ETHEREUM_CHAIN_IDS: '1, 137' });
+
+    expect(config.port).toBe(8080);
+    expect(config.redis).toEqual({ host: 'localhost', port: 6379, password: '' });
+    expect(config.jwt.secret).toBe(DEFAULT_JWT_SECRET);
+    expect(config.walletAuth.ethereumChainIds).toEqual([1, 137]);
+    expect(config.rateLimit.tiers.search).toEqual({ points: 20, duration: 60 });
+  });
+
+  it('should apply the NODE_ENV profile under explicit settings', () => {
+    expect(loadConfig({ NODE_ENV: 'development' }).logLevel).toBe('debug');
+    expect(loadConfig({ NODE_ENV: 'production', ...PRODUCTION }).logLevel).toBe('info');
+
+    const config = loadConfig({ NODE_ENV: 'test', SESSION_STORE: 'redis' });
+    expect(config.rateLimit.store).toBe('memory');
+    expect(config.session.store).toBe('redis');
+  });
+
+  it('should read secrets from files', () => {
+    const files: Record<string, string> = { '/run/secrets/jwt': 'from-file\n' };
+    const readFile = (path: string) => {
+      if (!(path in files)) {
+        throw new Error('ENOENT');
+      }
+      return files[path];
+    };
+
+    expect(loadConfig({ JWT_SECRET_FILE: '/run/secrets/jwt' }, { readFile }).jwt.secret).toBe('from-file');
+    expect(problemsOf({ JWT_SECRET: 'x', JWT_SECRET_FILE: '/run/secrets/jwt' }, readFile)).toEqual([
+      { env: 'JWT_SECRET', message: 'set either JWT_SECRET or JWT_SECRET_FILE, not both' }
+    ]);
+    expect(problemsOf({ REDIS_PASSWORD_FILE: '/missing' }, readFile)).toEqual([
+      { env: 'REDIS_PASSWORD_FILE', message: 'cannot read /missing: ENOENT' }
+    ]);
+  });
+
+  it('should report every problem at once', () => {
+    const problems = problemsOf({
+      NODE_ENV: 'staging',
+      PORT: 'eighty',
+      SESSION_STORE: 'disk',
+      WEBAUTHN_REQUIRE_USER_VERIFICATION: 'yes',
+      RATE_LIMIT_TIERS: '{"bulk":{"points":1,"duration":1}}'
+    });
+
+    expect(problems.map(problem => problem.env)).toEqual([
+      'PORT',
+      'NODE_ENV',
+      'SESSION_STORE',
+      'WEBAUTHN_REQUIRE_USER_VERIFICATION',
+      'RATE_LIMIT_TIERS'
+    ]);
+    expect(problems[0].message).toBe('must be an integer, got "eighty"');
+    expect(problems[4].message).toBe('unknown tier "bulk"');
+  });
+
+  it('should hold production to its requirements', () => {
+    expect(problemsOf({ NODE_ENV: 'production' }).map(problem => problem.env)).toEqual([
+      'JWT_SECRET',
+      'PAYMENT_RECIPIENT_ADDRESS',
+      'MARKETPLACE_ESCROW_ADDRESS',
+      'WEBAUTHN_ORIGIN',
+      'WALLET_AUTH_URI'
+    ]);
+    expect(problemsOf({ NODE_ENV: 'production', ...PRODUCTION, LOGIN_CHALLENGE: 'captcha' })).toEqual([
+      { env: 'CAPTCHA_SITE_KEY', message: 'is required when LOGIN_CHALLENGE=captcha' },
+      { env: 'CAPTCHA_SECRET', message: 'is required when LOGIN_CHALLENGE=captcha' }
+    ]);
+  });
+});
+
+const PRODUCTION = {
+  JWT_SECRET: 'a-real-secret',
+  PAYMENT_RECIPIENT_ADDRESS: '0x1111111111111111111111111111111111111111',
+  MARKETPLACE_ESCROW_ADDRESS: '0x2222222222222222222222222222222222222222',
+  WEBAUTHN_ORIGIN: 'https://agents.example.com',
+  WALLET_AUTH_URI: 'https://agents.example.com'
+};
@@ -0,0 +1,20 @@
+export interface ConfigProblem {
+  // The variable to fix
+  env: string;
+  message: string;
+}
+
+/**
+ * Everything wrong with the configuration at once, so a deploy can be fixed
+ * in one pass rather than one restart per variable.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: ConfigProblem[]) {
+    super([
+      `Invalid configuration (${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}):`,
+      ...problems.map(problem => `  ${problem.env}: ${problem.message}`)
+    ].join('\n'));
+    Object.setPrototypeOf(this, ConfigError.prototype);
+    this.name = 'ConfigError';
+  }
+}
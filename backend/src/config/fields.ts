@@ -0,0 +1,95 @@
+/**
+ * One configuration value: the environment variable it comes from and how
+ * its text is turned into a typed value. Defaults are text too, so they go
+ * through the same parsing as anything set in the environment.
+ */
+export interface ConfigField<T> {
+  readonly kind: 'field';
+  readonly env: string;
+  // Left out for variables that must be set
+  readonly default?: string;
+  // May instead be read from the file named by <env>_FILE
+  readonly secret: boolean;
+  // Throws with the reason the text is unusable
+  parse(raw: string): T;
+}
+
+export interface ConfigSchema {
+  [key: string]: ConfigField<unknown> | ConfigSchema;
+}
+
+export type ConfigOf<S> = {
+  [K in keyof S]: S[K] extends ConfigField<infer T> ? T : ConfigOf<S[K]>;
+};
+
+interface FieldOptions {
+  secret?: boolean;
+}
+
+function field<T>(env: string, defaultValue: string | undefined, parse: (raw: string) => T, options: FieldOptions = {}): ConfigField<T> {
+  return { kind: 'field', env, default: defaultValue, secret: options.secret ?? false, parse };
+}
+
+export function isConfigField(value: ConfigField<unknown> | ConfigSchema): value is ConfigField<unknown> {
+  return value.kind === 'field';
+}
+
+export function string(env: string, defaultValue?: string, options?: FieldOptions): ConfigField<string> {
+  return field(env, defaultValue, raw => raw, options);
+}
+
+export function integer(env: string, defaultValue?: string, min = 0): ConfigField<number> {
+  return field(env, defaultValue, raw => parseInteger(raw, min));
+}
+
+export function boolean(env: string, defaultValue?: string): ConfigField<boolean> {
+  return field(env, defaultValue, raw => {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new Error(`must be true or false, got "${raw}"`);
+    }
+    return raw === 'true';
+  });
+}
+
+export function oneOf<T extends string>(env: string, values: readonly T[], defaultValue?: T): ConfigField<T> {
+  return field(env, defaultValue, raw => {
+    if (!values.includes(raw as T)) {
+      throw new Error(`must be one of ${values.join(', ')}, got "${raw}"`);
+    }
+    return raw as T;
+  });
+}
+
+// Comma-separated, e.g. "1,137"
+export function integerList(env: string, defaultValue?: string): ConfigField<number[]> {
+  return field(env, defaultValue, raw => raw.split(',').map(item => parseInteger(item.trim(), 0)));
+}
+
+// Comma-separated, e.g. "loopback, 10.0.0.0/8"; empty is an empty list
+export function stringList(env: string, defaultValue?: string): ConfigField<string[]> {
+  return field(env, defaultValue, raw => raw.split(',').map(item => item.trim()).filter(item => item !== ''));
+}
+
+// `parse` receives the decoded JSON and checks its shape
+export function json<T>(env: string, defaultValue: string | undefined, parse: (value: unknown) => T): ConfigField<T> {
+  return field(env, defaultValue, raw => {
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error('must be valid JSON');
+    }
+    return parse(value);
+  });
+}
+
+function parseInteger(raw: string, min: number): number {
+  if (!/^-?\d+$/.test(raw)) {
+    throw new Error(`must be an integer, got "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < min) {
+    throw new Error(`must be at least ${min}, got ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+import { loadConfig } from './load';
+
+// Load environment variables from .env file
+dotenv.config();
+
+export { loadConfig, LoadConfigOptions } from './load';
+export { ConfigError, ConfigProblem } from './errors';
+export {
+  AppConfig,
+  DEFAULT_JWT_SECRET,
+  Environment,
+  RATE_LIMIT_TIERS,
+  RateLimitTier,
+  RateLimitTierName
+} from './schema';
+
+// Validated on first import, so a misconfigured server stops before it
+// starts listening, listing every problem in one ConfigError
+export const config = loadConfig(process.env);
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import { ConfigField, ConfigSchema, isConfigField } from './fields';
+import { ConfigError, ConfigProblem } from './errors';
+import { ConfigProfile, profiles } from './profiles';
+import { AppConfig, checkConfig, Environment, ENVIRONMENTS, schema } from './schema';
+
+export interface LoadConfigOptions {
+  readFile?: (path: string) => string;
+}
+
+/**
+ * Builds the configuration from environment variables on top of the
+ * NODE_ENV profile's defaults. Secrets can come from a file named by
+ * <VAR>_FILE, as Docker and Kubernetes secrets are mounted. Every problem
+ * found is collected and thrown together as a ConfigError.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv, options: LoadConfigOptions = {}): AppConfig {
+  const readFile = options.readFile ?? ((path: string) => fs.readFileSync(path, 'utf8'));
+  const problems: ConfigProblem[] = [];
+
+  // An unknown NODE_ENV is reported by the schema; the rest is still checked
+  // against the development profile
+  const environment = ENVIRONMENTS.includes(env.NODE_ENV as Environment) ? env.NODE_ENV as Environment : 'development';
+  const profile = profiles[environment];
+
+  const config = build(schema, field => {
+    const raw = readRaw(field, env, profile, readFile, problems);
+    if (raw === undefined) {
+      return undefined;
+    }
+    try {
+      return field.parse(raw);
+    } catch (error) {
+      problems.push({ env: field.env, message: (error as Error).message });
+      return undefined;
+    }
+  }) as AppConfig;
+
+  // Cross-setting checks would only repeat the errors above on a config
+  // with holes in it
+  if (problems.length === 0) {
+    problems.push(...checkConfig(config), ...(profile.check?.(config) ?? []));
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+function build(node: ConfigSchema, resolve: (field: ConfigField<unknown>) => unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    result[key] = isConfigField(value) ? resolve(value) : build(value, resolve);
+  }
+  return result;
+}
+
+// Unset and empty variables both fall through to the defaults, as an empty
+// line in .env usually means "not configured"
+function readRaw(
+  field: ConfigField<unknown>,
+  env: NodeJS.ProcessEnv,
+  profile: ConfigProfile,
+  readFile: (path: string) => string,
+  problems: ConfigProblem[]
+): string | undefined {
+  const value = env[field.env] || undefined;
+  const file = field.secret ? env[`${field.env}_FILE`] || undefined : undefined;
+
+  if (value !== undefined && file !== undefined) {
+    problems.push({ env: field.env, message: `set either ${field.env} or ${field.env}_FILE, not both` });
+    return undefined;
+  }
+  if (file !== undefined) {
+    try {
+      return readFile(file).trim();
+    } catch (error) {
+      problems.push({ env: `${field.env}_FILE`, message: `cannot read ${file}: ${(error as Error).message}` });
+      return undefined;
+    }
+  }
+
+  const raw = value ?? profile.defaults[field.env] ?? field.default;
+  if (raw === undefined) {
+    problems.push({ env: field.env, message: 'is required' });
+  }
+  return raw;
+}
@@ -0,0 +1,56 @@
+import { ConfigProblem } from './errors';
+import { AppConfig, DEFAULT_JWT_SECRET, Environment } from './schema';
+
+export interface ConfigProfile {
+  // Defaults for this environment by variable name; anything set still wins
+  defaults: Record<string, string>;
+  // Requirements that only hold in this environment
+  check?(config: AppConfig): ConfigProblem[];
+}
+
+export const profiles: Record<Environment, ConfigProfile> = {
+  development: {
+    defaults: {
+      LOG_LEVEL: 'debug'
+    }
+  },
+
+  // Nothing outside the process, so tests need neither Redis nor a database
+  test: {
+    defaults: {
+      JWT_TOKEN_STORE: 'memory',
+      SESSION_STORE: 'memory',
+      FUNCTION_QUEUE_BACKEND: 'memory',
+      WALLET_AUTH_NONCE_STORE: 'memory',
+      MFA_STORE: 'memory',
+      LOGIN_PROTECTION_STORE: 'memory',
+      DELEGATION_STORE: 'memory',
+      RATE_LIMIT_STORE: 'memory',
+      AUDIT_STORE: 'memory',
+      METRICS_STORE: 'memory'
+    }
+  },
+
+  production: {
+    defaults: {},
+    check(config) {
+      const problems: ConfigProblem[] = [];
+      if (!config.jwt.keysFile && config.jwt.secret === DEFAULT_JWT_SECRET) {
+        problems.push({ env: 'JWT_SECRET', message: 'must be changed from the default in production' });
+      }
+      if (!config.payments.recipientAddress) {
+        problems.push({ env: 'PAYMENT_RECIPIENT_ADDRESS', message: 'is required in production' });
+      }
+      if (!config.marketplace.escrowAddress) {
+        problems.push({ env: 'MARKETPLACE_ESCROW_ADDRESS', message: 'is required in production' });
+      }
+      if (!config.mfa.origin.startsWith('https://')) {
+        problems.push({ env: 'WEBAUTHN_ORIGIN', message: 'must use https in production' });
+      }
+      if (!config.walletAuth.uri.startsWith('https://')) {
+        problems.push({ env: 'WALLET_AUTH_URI', message: 'must use https in production' });
+      }
+      return problems;
+    }
+  }
+};
@@ -0,0 +1,248 @@
+import { boolean, ConfigOf, integer, integerList, json, oneOf, string, stringList } from './fields';
+import { ConfigProblem } from './errors';
+
+// Placeholder secret for local development; refused in production
+export const DEFAULT_JWT_SECRET = 'your-secret-key';
+
+export const ENVIRONMENTS = ['development', 'test', 'production'] as const;
+
+export type Environment = typeof ENVIRONMENTS[number];
+
+export const RATE_LIMIT_TIERS = [
+  'default',
+  'authenticated',
+  'premium',
+  'apiKey',
+  'functionExecution',
+  'agentCreation',
+  'marketplace',
+  'search'
+] as const;
+
+export type RateLimitTierName = typeof RATE_LIMIT_TIERS[number];
+
+export interface RateLimitTier {
+  points: number;
+  // Window length in seconds
+  duration: number;
+}
+
+const DEFAULT_RATE_LIMIT_TIERS: Record<RateLimitTierName, RateLimitTier> = {
+  default: { points: 30, duration: 60 },
+  authenticated: { points: 60, duration: 60 },
+  premium: { points: 120, duration: 60 },
+  apiKey: { points: 120, duration: 60 },
+  functionExecution: { points: 10, duration: 60 },
+  agentCreation: { points: 5, duration: 3600 },
+  marketplace: { points: 50, duration: 60 },
+  search: { points: 20, duration: 60 }
+};
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'] as const;
+const STORES = ['redis', 'memory'] as const;
+const DURABLE_STORES = ['prisma', 'memory'] as const;
+
+// RATE_LIMIT_TIERS is JSON overriding some tiers, e.g. {"search":{"points":40,"duration":60}}
+function parseRateLimitTiers(value: unknown): Record<RateLimitTierName, RateLimitTier> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('must be a JSON object of tiers');
+  }
+
+  const tiers = { ...DEFAULT_RATE_LIMIT_TIERS };
+  for (const [name, tier] of Object.entries(value as Record<string, Partial<RateLimitTier>>)) {
+    if (!RATE_LIMIT_TIERS.includes(name as RateLimitTierName)) {
+      throw new Error(`unknown tier "${name}"`);
+    }
+    const merged = { ...tiers[name as RateLimitTierName], ...tier };
+    if (![merged.points, merged.duration].every(n => Number.isInteger(n) && n > 0)) {
+      throw new Error(`tier "${name}" needs positive integer points and duration`);
+    }
+    tiers[name as RateLimitTierName] = merged;
+  }
+  return tiers;
+}
+
+/**
+ * Every setting the backend reads, by environment variable. Defaults here
+ * hold everywhere; profiles.ts adjusts them per NODE_ENV.
+ */
+export const schema = {
+  port: integer('PORT', '3000', 1),
+  env: oneOf('NODE_ENV', ENVIRONMENTS, 'development'),
+  logLevel: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+  // Proxies whose X-Forwarded-For is believed for the client address that
+  // rate limits and IP allowlists see; none by default
+  trustedProxies: stringList('TRUSTED_PROXIES', ''),
+  mongo: {
+    uri: string('MONGODB_URI', 'mongodb://mongo:27017/enterprise-monitoring', { secret: true })
+  },
+  redis: {
+    host: string('REDIS_HOST', 'localhost'),
+    port: integer('REDIS_PORT', '6379', 1),
+    password: string('REDIS_PASSWORD', '', { secret: true })
+  },
+  jwt: {
+    secret: string('JWT_SECRET', DEFAULT_JWT_SECRET, { secret: true }),
+    expiresIn: string('JWT_EXPIRES_IN', '1h'),
+    algorithm: string('JWT_ALGORITHM', 'HS256'),
+    refreshTokenTtlMs: integer('JWT_REFRESH_TOKEN_TTL_MS', '604800000', 1), // 7 days
+    tokenStore: oneOf('JWT_TOKEN_STORE', STORES, 'redis'),
+    keysFile: string('JWT_KEYS_FILE', '')
+  },
+  session: {
+    store: oneOf('SESSION_STORE', STORES, 'redis'),
+    maxAge: integer('SESSION_MAX_AGE', '86400000', 1), // 24 hours
+    idleTimeout: integer('SESSION_IDLE_TIMEOUT', '1800000', 1), // 30 minutes
+    maxSessions: integer('SESSION_MAX_SESSIONS', '10'),
+    evictionPolicy: oneOf('SESSION_EVICTION_POLICY', ['oldest', 'least_recently_used', 'reject'], 'least_recently_used'),
+    cleanupInterval: integer('SESSION_CLEANUP_INTERVAL', '3600000', 1) // 1 hour
+  },
+  metrics: {
+    store: oneOf('METRICS_STORE', ['file', 'memory'], 'file'),
+    dataDir: string('METRICS_DATA_DIR', 'data/metrics'),
+    // Span of each on-disk partition
+    blockDurationMs: integer('METRICS_BLOCK_DURATION_MS', '7200000', 60000), // 2 hours
+    // Raw points
+    retentionPeriod: integer('METRICS_RETENTION_PERIOD', '2592000000', 1), // 30 days
+    // How often rollups are brought up to date
+    aggregationInterval: integer('METRICS_AGGREGATION_INTERVAL', '300000', 1000), // 5 minutes
+    rollupDir: string('METRICS_ROLLUP_DIR', 'data/metric-rollups'),
+    // Grace period for late points before a bucket is rolled up
+    rollupDelay: integer('METRICS_ROLLUP_DELAY_MS', '60000', 0),
+    rollupRetention: {
+      '1m': integer('METRICS_ROLLUP_RETENTION_1M', '2592000000', 1), // 30 days
+      '5m': integer('METRICS_ROLLUP_RETENTION_5M', '7776000000', 1), // 90 days
+      '1h': integer('METRICS_ROLLUP_RETENTION_1H', '34560000000', 1), // 400 days
+      '1d': integer('METRICS_ROLLUP_RETENTION_1D', '157680000000', 1) // 5 years
+    },
+    // Custom metric types registered on top of the built-in ones
+    typesFile: string('METRICS_TYPES_FILE', 'data/metric-types.json'),
+    // Bearer token Prometheus sends with remote write; empty turns remote write off
+    remoteWriteToken: string('METRICS_REMOTE_WRITE_TOKEN', '', { secret: true }),
+    // Largest remote write body, compressed or not
+    remoteWriteMaxBytes: integer('METRICS_REMOTE_WRITE_MAX_BYTES', '33554432', 1), // 32 MiB
+    // Register metric names remote write sends that aren't known yet, instead of rejecting them
+    remoteWriteAutoRegister: boolean('METRICS_REMOTE_WRITE_AUTO_REGISTER', 'false'),
+    // Bearer token Prometheus must send to scrape /metrics; empty leaves it open
+    expositionToken: string('METRICS_EXPOSITION_TOKEN', '', { secret: true })
+  },
+  payments: {
+    ethRpcUrl: string('ETH_RPC_URL', 'http://localhost:8545'),
+    recipientAddress: string('PAYMENT_RECIPIENT_ADDRESS', ''),
+    launchFeeWei: string('LAUNCH_FEE_WEI', '6000000000000000'), // 0.006 ETH
+    minConfirmations: integer('PAYMENT_MIN_CONFIRMATIONS', '12')
+  },
+  functions: {
+    scriptTimeoutMs: integer('FUNCTION_SCRIPT_TIMEOUT_MS', '1000', 1),
+    // isolated-vm refuses heaps under 8MB
+    scriptMemoryMb: integer('FUNCTION_SCRIPT_MEMORY_MB', '32', 8),
+    webhookTimeoutMs: integer('FUNCTION_WEBHOOK_TIMEOUT_MS', '10000', 1),
+    webhookMaxResponseBytes: integer('FUNCTION_WEBHOOK_MAX_RESPONSE_BYTES', '1048576', 1),
+    maxChainDepth: integer('FUNCTION_MAX_CHAIN_DEPTH', '5', 1),
+    queueBackend: oneOf('FUNCTION_QUEUE_BACKEND', STORES, 'redis'),
+    maxAttempts: integer('FUNCTION_MAX_ATTEMPTS', '3', 1),
+    // How long a worker may hold a job before another one takes it over
+    jobLeaseMs: integer('FUNCTION_JOB_LEASE_MS', '300000', 1),
+    retryBackoffMs: integer('FUNCTION_RETRY_BACKOFF_MS', '2000'),
+    workerPollIntervalMs: integer('FUNCTION_WORKER_POLL_INTERVAL_MS', '1000', 1),
+    callbackSecret: string('FUNCTION_CALLBACK_SECRET', '', { secret: true })
+  },
+  marketplace: {
+    escrowAddress: string('MARKETPLACE_ESCROW_ADDRESS', ''),
+    // Chain the escrow contract lives on; part of the EIP-712 signing domain
+    chainId: integer('MARKETPLACE_CHAIN_ID', '1', 1),
+    offerTimeoutMs: integer('MARKETPLACE_OFFER_TIMEOUT_MS', '3600000', 1), // 1 hour
+    settlementTimeoutMs: integer('MARKETPLACE_SETTLEMENT_TIMEOUT_MS', '259200000', 1), // 3 days
+    sweepIntervalMs: integer('MARKETPLACE_SWEEP_INTERVAL_MS', '60000', 1) // 1 minute
+  },
+  transfers: {
+    solanaRpcUrl: string('SOLANA_RPC_URL', 'https://api.mainnet-beta.solana.com'),
+    commitment: oneOf('TRANSFER_COMMITMENT', ['confirmed', 'finalized'], 'finalized'),
+    requestTtlMs: integer('TRANSFER_REQUEST_TTL_MS', '604800000', 1), // 7 days
+    sweepIntervalMs: integer('TRANSFER_SWEEP_INTERVAL_MS', '60000', 1) // 1 minute
+  },
+  verification: {
+    requiredApprovals: integer('VERIFICATION_REQUIRED_APPROVALS', '2', 1),
+    claimTtlMs: integer('VERIFICATION_CLAIM_TTL_MS', '1800000', 1) // 30 minutes
+  },
+  walletAuth: {
+    domain: string('WALLET_AUTH_DOMAIN', 'localhost:3000'),
+    uri: string('WALLET_AUTH_URI', 'http://localhost:3000'),
+    statement: string('WALLET_AUTH_STATEMENT', 'Sign in to the agent platform.'),
+    ethereumChainIds: integerList('WALLET_AUTH_ETHEREUM_CHAIN_IDS', '1'),
+    solanaCluster: string('WALLET_AUTH_SOLANA_CLUSTER', 'mainnet'),
+    nonceTtlMs: integer('WALLET_AUTH_NONCE_TTL_MS', '300000', 1), // 5 minutes
+    nonceStore: oneOf('WALLET_AUTH_NONCE_STORE', STORES, 'redis')
+  },
+  mfa: {
+    issuer: string('MFA_ISSUER', 'Agent Platform'),
+    rpId: string('WEBAUTHN_RP_ID', 'localhost'),
+    rpName: string('WEBAUTHN_RP_NAME', 'Agent Platform'),
+    origin: string('WEBAUTHN_ORIGIN', 'http://localhost:3000'),
+    requireUserVerification: boolean('WEBAUTHN_REQUIRE_USER_VERIFICATION', 'false'),
+    challengeTtlMs: integer('MFA_CHALLENGE_TTL_MS', '120000', 1), // 2 minutes
+    pendingTokenTtlSeconds: integer('MFA_PENDING_TOKEN_TTL_SECONDS', '300', 1),
+    stepUpMaxAgeSeconds: integer('MFA_STEP_UP_MAX_AGE_SECONDS', '900', 1), // 15 minutes
+    recoveryCodeCount: integer('MFA_RECOVERY_CODE_COUNT', '10', 1),
+    store: oneOf('MFA_STORE', DURABLE_STORES, 'prisma')
+  },
+  loginProtection: {
+    store: oneOf('LOGIN_PROTECTION_STORE', STORES, 'redis'),
+    windowMs: integer('LOGIN_FAILURE_WINDOW_MS', '900000', 1), // 15 minutes
+    maxFailuresPerUsername: integer('LOGIN_MAX_FAILURES_PER_USERNAME', '20', 1),
+    maxFailuresPerIp: integer('LOGIN_MAX_FAILURES_PER_IP', '100', 1),
+    maxFailuresPerUsernameIp: integer('LOGIN_MAX_FAILURES_PER_USERNAME_IP', '5', 1),
+    baseLockoutMs: integer('LOGIN_BASE_LOCKOUT_MS', '60000', 1), // 1 minute
+    maxLockoutMs: integer('LOGIN_MAX_LOCKOUT_MS', '86400000', 1), // 24 hours
+    lockoutMemoryMs: integer('LOGIN_LOCKOUT_MEMORY_MS', '86400000', 1),
+    challengeAfter: integer('LOGIN_CHALLENGE_AFTER', '3'),
+    challenge: oneOf('LOGIN_CHALLENGE', ['pow', 'captcha', 'none'], 'pow'),
+    challengeTtlMs: integer('LOGIN_CHALLENGE_TTL_MS', '120000', 1), // 2 minutes
+    powDifficulty: integer('LOGIN_POW_DIFFICULTY', '20'),
+    captchaSiteKey: string('CAPTCHA_SITE_KEY', ''),
+    captchaSecret: string('CAPTCHA_SECRET', '', { secret: true }),
+    captchaVerifyUrl: string('CAPTCHA_VERIFY_URL', 'https://hcaptcha.com/siteverify')
+  },
+  delegation: {
+    store: oneOf('DELEGATION_STORE', DURABLE_STORES, 'prisma'),
+    maxTtlMs: integer('DELEGATION_MAX_TTL_MS', '7776000000', 1) // 90 days
+  },
+  rateLimit: {
+    // 'insurance' counts in Redis and falls back to memory while it's down
+    store: oneOf('RATE_LIMIT_STORE', ['redis', 'memory', 'insurance'], 'insurance'),
+    tiers: json('RATE_LIMIT_TIERS', '{}', parseRateLimitTiers),
+    violationThreshold: integer('RATE_LIMIT_VIOLATION_THRESHOLD', '100', 1)
+  },
+  audit: {
+    store: oneOf('AUDIT_STORE', ['memory', 'file', 'prisma'], 'file'),
+    filePath: string('AUDIT_FILE_PATH', 'data/audit/audit.ndjson'),
+    archiveDir: string('AUDIT_ARCHIVE_DIR', 'data/audit/archive'),
+    retentionPeriod: integer('AUDIT_RETENTION_PERIOD', '7776000', 1), // 90 days, in seconds
+    maxEvents: integer('AUDIT_MAX_EVENTS', '100000', 1),
+    warningThreshold: integer('AUDIT_WARNING_THRESHOLD', '10', 1),
+    criticalThreshold: integer('AUDIT_CRITICAL_THRESHOLD', '3', 1)
+  }
+};
+
+export type AppConfig = ConfigOf<typeof schema>;
+
+// Checks spanning several settings, whatever the environment
+export function checkConfig(config: AppConfig): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+
+  if (config.jwt.algorithm !== 'HS256' && !config.jwt.keysFile) {
+    problems.push({ env: 'JWT_KEYS_FILE', message: `is required for JWT_ALGORITHM=${config.jwt.algorithm}` });
+  }
+  if (config.loginProtection.challenge === 'captcha') {
+    if (!config.loginProtection.captchaSiteKey) {
+      problems.push({ env: 'CAPTCHA_SITE_KEY', message: 'is required when LOGIN_CHALLENGE=captcha' });
+    }
+    if (!config.loginProtection.captchaSecret) {
+      problems.push({ env: 'CAPTCHA_SECRET', message: 'is required when LOGIN_CHALLENGE=captcha' });
+    }
+  }
+  if (!/^\d+$/.test(config.payments.launchFeeWei)) {
+    problems.push({ env: 'LAUNCH_FEE_WEI', message: `must be a whole number of wei, got "${config.payments.launchFeeWei}"` });
+  }
+  return problems;
+}
@@ -1,66 +1,244 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
 import { config } from './config';
 import { TokenManager } from './services/auth/token-manager';
+import { MemoryTokenStore, TokenStore } from './services/auth/token-store';
+import { RedisTokenStore } from './services/auth/redis-token-store';
+import { loadKeyring } from './services/auth/keyring';
 import { MetricsService } from './services/metrics/metrics.service';
+import { MemoryMetricStore, MetricStore } from './services/metrics/storage/metric-store';
+import { FileMetricStore } from './services/metrics/storage/file-metric-store';
 import { MetricsAggregationService } from './services/metrics/metrics-aggregation-service';
+import { MetricsRollupService } from './services/metrics/metrics-rollup-service';
+import { MemoryRollupStore, RollupStore } from './services/metrics/storage/rollup-store';
+import { FileRollupStore } from './services/metrics/storage/file-rollup-store';
 import { TimeSeriesService } from './services/metrics/time-series-service';
+import { MetricTypeRegistry } from './services/metrics/metric-type-registry';
+import { MemoryMetricTypeStore, MetricTypeStore } from './services/metrics/storage/metric-type-store';
+import { FileMetricTypeStore } from './services/metrics/storage/file-metric-type-store';
+import { RemoteWriteService } from './services/metrics/prometheus/remote-write';
 import { SessionManager } from './services/session-manager';
-import { authenticate } from './middleware/auth';
+import { MemorySessionStore, SessionStore } from './services/session-store';
+import { RedisSessionStore } from './services/redis-session-store';
+import { WalletAuthService } from './services/auth/wallet-auth-service';
+import { MemoryNonceStore, NonceStore } from './services/auth/nonce-store';
+import { RedisNonceStore } from './services/auth/redis-nonce-store';
+import { PrismaWalletAccountStore } from './services/auth/prisma-wallet-account-store';
+import { MfaService } from './services/auth/mfa-service';
+import { MemoryMfaStore, MfaStore } from './services/auth/mfa-store';
+import { PrismaMfaStore } from './services/auth/prisma-mfa-store';
+import { LoginProtection } from './services/auth/login-protection';
+import { LoginAttemptStore, MemoryLoginAttemptStore } from './services/auth/login-attempt-store';
+import { RedisLoginAttemptStore } from './services/auth/redis-login-attempt-store';
+import { CaptchaChallenge, LoginChallengeProvider, ProofOfWorkChallenge } from './services/auth/login-challenge';
+import { DelegationService } from './services/auth/delegation-service';
+import { DelegationStore, MemoryDelegationStore } from './services/auth/delegation-store';
+import { PrismaDelegationStore } from './services/auth/prisma-delegation-store';
+import { getAuditLogger } from './services/audit/shared-audit-logger';
+import { InsuranceRateLimitStore, MemoryRateLimitStore, RateLimitStore } from './services/rate-limit/rate-limit-store';
+import { RedisRateLimitStore } from './services/rate-limit/redis-rate-limit-store';
+import { getPrisma } from './services/db/shared-prisma';
+import { createApp } from './app';
+import { executionWorker } from './routes/agents.functions';
+import { startEscrowSweeper } from './routes/agents.marketplace';
+import { startTransferSweeper } from './routes/agents.transfer';
 import logger from './utils/logger';
 import mongoose from 'mongoose';
-
-// Initialize Express app
-const app = express();
-
-// Middleware
-app.use(helmet());
-app.use(cors());
-app.use(express.json());
+import Redis from 'ioredis';
 
 // MongoDB connection
-mongoose.connect(process.env.MONGODB_URI || 'mongodb://mongo:27017/enterprise-monitoring')
+mongoose.connect(config.mongo.uri)
   .then(() => console.log('Connected to MongoDB'))
   .catch(err => console.error('MongoDB connection error:', err));
 
 // Initialize services
+const createRedisClient = () => new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password || undefined,
+  lazyConnect: true
+});
+
+const tokenStore: TokenStore = config.jwt.tokenStore === 'memory'
+  ? new MemoryTokenStore()
+  : new RedisTokenStore(createRedisClient());
+
+// Throws on a missing or unusable key setup, so the server never starts
+// signing with the placeholder secret in production
+const keyring = loadKeyring({
+  env: config.env,
+  secret: config.jwt.secret,
+  algorithm: config.jwt.algorithm,
+  keysFile: config.jwt.keysFile
+});
+
 const tokenManager = new TokenManager({
   secret: config.jwt.secret,
   expiresIn: config.jwt.expiresIn,
-  algorithm: config.jwt.algorithm
-});
+  algorithm: config.jwt.algorithm,
+  refreshTokenTtlMs: config.jwt.refreshTokenTtlMs
+}, tokenStore, keyring);
+
+const metricStore: MetricStore = config.metrics.store === 'memory'
+  ? new MemoryMetricStore()
+  : new FileMetricStore(config.metrics.dataDir, { blockDurationMs: config.metrics.blockDurationMs });
 
-const metricsService = new MetricsService();
-const metricsAggregationService = new MetricsAggregationService(metricsService);
+const metricsService = new MetricsService(metricStore, { retentionPeriod: config.metrics.retentionPeriod });
+
+const rollupStore: RollupStore = config.metrics.store === 'memory'
+  ? new MemoryRollupStore()
+  : new FileRollupStore(config.metrics.rollupDir);
+
+const metricsRollupService = new MetricsRollupService(metricsService, rollupStore, {
+  retention: config.metrics.rollupRetention,
+  rawRetention: config.metrics.retentionPeriod,
+  interval: config.metrics.aggregationInterval,
+  delay: config.metrics.rollupDelay
+});
+const metricsAggregationService = new MetricsAggregationService(metricsService, metricsRollupService);
 const timeSeriesService = new TimeSeriesService();
-const sessionManager = new SessionManager();
 
-// Authentication middleware
-app.use('/api', authenticate(tokenManager));
+const metricTypeStore: MetricTypeStore = config.metrics.store === 'memory'
+  ? new MemoryMetricTypeStore()
+  : new FileMetricTypeStore(config.metrics.typesFile);
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok' });
+const metricTypeRegistry = new MetricTypeRegistry(metricTypeStore);
+const remoteWriteService = new RemoteWriteService(metricsService, metricTypeRegistry, {
+  maxBytes: config.metrics.remoteWriteMaxBytes,
+  autoRegister: config.metrics.remoteWriteAutoRegister
 });
 
-// Import and use route handlers
-import { authRoutes } from './routes/auth';
-import { metricsRoutes } from './routes/metrics';
-import { sessionRoutes } from './routes/session';
+// Wallet sign-ins and /api/session all share this manager, so every session
+// shows up in a user's device list
+const sessionStore: SessionStore = config.session.store === 'memory'
+  ? new MemorySessionStore()
+  : new RedisSessionStore(createRedisClient());
+
+const sessionManager = new SessionManager(sessionStore, {
+  idleTimeoutMs: config.session.idleTimeout,
+  absoluteTimeoutMs: config.session.maxAge,
+  maxSessions: config.session.maxSessions,
+  evictionPolicy: config.session.evictionPolicy,
+  cleanupIntervalMs: config.session.cleanupInterval
+});
+
+const nonceStore: NonceStore = config.walletAuth.nonceStore === 'memory'
+  ? new MemoryNonceStore()
+  : new RedisNonceStore(createRedisClient());
+
+const prisma = getPrisma();
+
+const mfaStore: MfaStore = config.mfa.store === 'memory'
+  ? new MemoryMfaStore()
+  : new PrismaMfaStore(prisma);
+
+// WebAuthn challenges share the single-use nonce store with wallet sign-in
+const mfaService = new MfaService(mfaStore, nonceStore, tokenManager, getAuditLogger(), {
+  issuer: config.mfa.issuer,
+  rp: {
+    id: config.mfa.rpId,
+    name: config.mfa.rpName,
+    origin: config.mfa.origin,
+    requireUserVerification: config.mfa.requireUserVerification
+  },
+  challengeTtlMs: config.mfa.challengeTtlMs,
+  pendingTokenTtlSeconds: config.mfa.pendingTokenTtlSeconds,
+  recoveryCodeCount: config.mfa.recoveryCodeCount
+});
+
+const walletAuthService = new WalletAuthService(
+  tokenManager,
+  sessionManager,
+  nonceStore,
+  new PrismaWalletAccountStore(prisma),
+  getAuditLogger(),
+  config.walletAuth,
+  mfaService
+);
+
+const loginAttemptStore: LoginAttemptStore = config.loginProtection.store === 'memory'
+  ? new MemoryLoginAttemptStore()
+  : new RedisLoginAttemptStore(createRedisClient());
+
+const createLoginChallenge = (): LoginChallengeProvider | null => {
+  switch (config.loginProtection.challenge) {
+    case 'pow':
+      return new ProofOfWorkChallenge(nonceStore, {
+        difficulty: config.loginProtection.powDifficulty,
+        ttlMs: config.loginProtection.challengeTtlMs
+      });
+    case 'captcha':
+      return new CaptchaChallenge({
+        siteKey: config.loginProtection.captchaSiteKey,
+        secret: config.loginProtection.captchaSecret,
+        verifyUrl: config.loginProtection.captchaVerifyUrl,
+        timeoutMs: 5000
+      });
+    default:
+      return null;
+  }
+};
+
+const loginProtection = new LoginProtection(loginAttemptStore, getAuditLogger(), {
+  windowMs: config.loginProtection.windowMs,
+  maxFailures: {
+    username: config.loginProtection.maxFailuresPerUsername,
+    ip: config.loginProtection.maxFailuresPerIp,
+    username_ip: config.loginProtection.maxFailuresPerUsernameIp
+  },
+  baseLockoutMs: config.loginProtection.baseLockoutMs,
+  maxLockoutMs: config.loginProtection.maxLockoutMs,
+  lockoutMemoryMs: config.loginProtection.lockoutMemoryMs,
+  challengeAfter: config.loginProtection.challengeAfter
+}, createLoginChallenge());
+
+const delegationStore: DelegationStore = config.delegation.store === 'memory'
+  ? new MemoryDelegationStore()
+  : new PrismaDelegationStore(prisma);
+
+const delegationService = new DelegationService(
+  delegationStore,
+  getAuditLogger(),
+  agentAddress => prisma.agentMetadata.findUnique({ where: { agentAddress } }),
+  { maxTtlMs: config.delegation.maxTtlMs }
+);
 
-app.use('/api/auth', authRoutes(tokenManager));
-app.use('/api/metrics', metricsRoutes(metricsService, metricsAggregationService, timeSeriesService));
-app.use('/api/session', sessionRoutes(sessionManager));
+// Commands fail straight away while Redis is unreachable instead of
+// queueing, so requests fall back to memory rather than stalling
+const createRateLimitStore = (): RateLimitStore => {
+  if (config.rateLimit.store === 'memory') {
+    return new MemoryRateLimitStore();
+  }
+  const redisStore = new RedisRateLimitStore(new Redis({
+    host: config.redis.host,
+    port: config.redis.port,
+    password: config.redis.password || undefined,
+    enableOfflineQueue: false
+  }));
+  return config.rateLimit.store === 'redis' ? redisStore : new InsuranceRateLimitStore(redisStore);
+};
 
-// Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  logger.error('Unhandled error:', err);
-  res.status(500).json({ error: 'Internal server error' });
+const app = createApp({
+  tokenManager,
+  keyring,
+  sessionManager,
+  walletAuthService,
+  mfaService,
+  loginProtection,
+  delegationService,
+  auditLogger: getAuditLogger(),
+  rateLimitStore: createRateLimitStore(),
+  metricsService,
+  metricsAggregationService,
+  timeSeriesService,
+  metricTypeRegistry,
+  remoteWriteService
 });
 
 // Start server
 const port = config.port || 3000;
 app.listen(port, () => {
   logger.info(`Server started on port ${port}`);
+  executionWorker.start();
+  metricsRollupService.start();
+  startEscrowSweeper();
+  startTransferSweeper();
 });
@@ -1,19 +1,28 @@
 import { Request, Response } from 'express';
-import { createRateLimiter, dynamicRateLimit, rateLimitMonitor } from '../rateLimit';
-import { MockRedis } from '../__mocks__/redis';
-import { RateLimiterRedis } from 'rate-limiter-flexible';
-
-// Mock Redis
-jest.mock('ioredis', () => {
-  return jest.fn().mockImplementation(() => new MockRedis());
+import { configureRateLimits, createRateLimiter, dynamicRateLimit, rateLimitMonitor } from '../rateLimit';
+import {
+  InsuranceRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitStore
+} from '../../services/rate-limit/rate-limit-store';
+import { config } from '../../config';
+import logger from '../../utils/logger';
+
+const failingStore = (): RateLimitStore => ({
+  hit: jest.fn().mockRejectedValue(new Error('Redis connection error')),
+  reset: jest.fn().mockRejectedValue(new Error('Redis connection error'))
 });
 
 describe('Rate Limiting Middleware', () => {
-  let mockRequest: Partial<Request>;
+  let mockRequest: any;
   let mockResponse: Partial<Response>;
   let nextFunction: jest.Mock;
+  let store: MemoryRateLimitStore;
 
   beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    configureRateLimits({ store, tiers: config.rateLimit.tiers, violationThreshold: 100 });
+
     mockRequest = {
       ip: '127.0.0.1',
       user: undefined,
@@ -37,17 +46,15 @@ describe('Rate Limiting Middleware', () => {
   });
 
   afterEach(() => {
-    jest.clearAllMocks();
+    jest.restoreAllMocks();
   });
 
+  const run = (middleware: (req: Request, res: Response, next: jest.Mock) => unknown) =>
+    middleware(mockRequest as Request, mockResponse as Response, nextFunction);
+
   describe('createRateLimiter', () => {
     it('should allow requests within rate limit', async () => {
-      const rateLimiter = createRateLimiter('default');
-      await rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+      await run(createRateLimiter('default'));
 
       expect(nextFunction).toHaveBeenCalled();
       expect(mockResponse.status).not.toHaveBeenCalled();
@@ -55,88 +62,89 @@ describe('Rate Limiting Middleware', () => {
 
     it('should block requests exceeding rate limit', async () => {
       const rateLimiter = createRateLimiter('default');
-      
+
       // Simulate exceeding rate limit
       for (let i = 0; i < 31; i++) {
-        await rateLimiter(
-          mockRequest as Request,
-          mockResponse as Response,
-          nextFunction
-        );
+        await run(rateLimiter);
       }
 
+      expect(nextFunction).toHaveBeenCalledTimes(30);
       expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', expect.stringMatching(/^\d+$/));
       expect(mockResponse.json).toHaveBeenCalledWith(
         expect.objectContaining({
-          error: 'Too Many Requests'
+          error: 'Too Many Requests',
+          tier: 'default',
+          limits: { points: 30, duration: 60 }
         })
       );
     });
 
-    it('should set correct rate limit headers', async () => {
-      const rateLimiter = createRateLimiter('default');
-      await rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+    it('should set standard rate limit headers', async () => {
+      await run(createRateLimiter('default'));
 
-      expect(mockResponse.set).toHaveBeenCalledWith(
-        expect.objectContaining({
-          'X-RateLimit-Limit': expect.any(Number),
-          'X-RateLimit-Remaining': expect.any(Number),
-          'X-RateLimit-Reset': expect.any(String)
-        })
-      );
+      expect(mockResponse.set).toHaveBeenCalledWith({
+        'RateLimit-Limit': '30',
+        'RateLimit-Remaining': '29',
+        'RateLimit-Reset': '60',
+        'RateLimit-Policy': '30;w=60'
+      });
+    });
+
+    it('should use tiers from configuration', async () => {
+      configureRateLimits({ tiers: { ...config.rateLimit.tiers, search: { points: 2, duration: 10 } } });
+      const rateLimiter = createRateLimiter('search');
+
+      for (let i = 0; i < 3; i++) {
+        await run(rateLimiter);
+      }
+
+      expect(nextFunction).toHaveBeenCalledTimes(2);
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+    });
+
+    it('should give each API key its own quota', async () => {
+      configureRateLimits({ tiers: { ...config.rateLimit.tiers, apiKey: { points: 1, duration: 60 } } });
+      const rateLimiter = createRateLimiter('authenticated');
+
+      mockRequest.user = { id: 'u1', roles: [], apiKeyId: 'key-a' };
+      await run(rateLimiter);
+      await run(rateLimiter);
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ tier: 'apiKey' }));
+
+      // Another key, and the owner signed in, are counted separately
+      mockRequest.user = { id: 'u1', roles: [], apiKeyId: 'key-b' };
+      await run(rateLimiter);
+      mockRequest.user = { id: 'u1', roles: ['user'] };
+      await run(rateLimiter);
+      expect(nextFunction).toHaveBeenCalledTimes(3);
     });
   });
 
   describe('dynamicRateLimit', () => {
     it('should apply different limits for different user tiers', async () => {
       // Test unauthenticated user
-      await dynamicRateLimit(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
-      expect(mockResponse.set).toHaveBeenCalledWith(
-        expect.objectContaining({
-          'X-RateLimit-Tier': 'default'
-        })
-      );
+      await run(dynamicRateLimit);
+      expect(mockResponse.set).toHaveBeenCalledWith('X-RateLimit-Tier', 'default');
 
       // Test authenticated user
-      mockRequest.user = { address: '0x123', isPremium: false };
-      await dynamicRateLimit(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
-      expect(mockResponse.set).toHaveBeenCalledWith(
-        expect.objectContaining({
-          'X-RateLimit-Tier': 'authenticated'
-        })
-      );
+      mockRequest.user = { id: 'u1', roles: ['user'] };
+      await run(dynamicRateLimit);
+      expect(mockResponse.set).toHaveBeenCalledWith('X-RateLimit-Tier', 'authenticated');
 
       // Test premium user
-      mockRequest.user = { address: '0x123', isPremium: true };
-      await dynamicRateLimit(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
-      expect(mockResponse.set).toHaveBeenCalledWith(
-        expect.objectContaining({
-          'X-RateLimit-Tier': 'premium'
-        })
-      );
+      mockRequest.user = { id: 'u1', roles: ['user', 'premium'] };
+      await run(dynamicRateLimit);
+      expect(mockResponse.set).toHaveBeenCalledWith('X-RateLimit-Tier', 'premium');
+      expect(mockResponse.set).toHaveBeenCalledWith(expect.objectContaining({ 'RateLimit-Limit': '120' }));
     });
   });
 
   describe('rateLimitMonitor', () => {
     it('should log rate limit events', async () => {
-      const consoleSpy = jest.spyOn(console, 'log');
-      
+      const debugSpy = jest.spyOn(logger, 'debug');
+
       // Mock response.on to trigger 'finish' event immediately
       mockResponse.on = jest.fn().mockImplementation((event, callback) => {
         if (event === 'finish') {
@@ -144,15 +152,11 @@ describe('Rate Limiting Middleware', () => {
         }
       });
 
-      await rateLimitMonitor(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+      await run(rateLimitMonitor);
 
-      expect(consoleSpy).toHaveBeenCalledWith(
+      expect(debugSpy).toHaveBeenCalledWith(
+        'Rate limit event',
         expect.objectContaining({
-          type: 'rate_limit',
           path: '/test',
           method: 'GET'
         })
@@ -160,6 +164,7 @@ describe('Rate Limiting Middleware', () => {
     });
 
     it('should track violations when status is 429', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
       mockResponse.statusCode = 429;
       mockResponse.on = jest.fn().mockImplementation((event, callback) => {
         if (event === 'finish') {
@@ -167,43 +172,28 @@ describe('Rate Limiting Middleware', () => {
         }
       });
 
-      const consoleSpy = jest.spyOn(console, 'warn');
-
-      await rateLimitMonitor(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
-
       // Simulate multiple violations
-      for (let i = 0; i < 101; i++) {
-        await rateLimitMonitor(
-          mockRequest as Request,
-          mockResponse as Response,
-          nextFunction
-        );
+      for (let i = 0; i < 100; i++) {
+        await run(rateLimitMonitor);
       }
+      await new Promise(resolve => setImmediate(resolve));
+      expect(warnSpy).not.toHaveBeenCalled();
 
-      expect(consoleSpy).toHaveBeenCalledWith(
+      await run(rateLimitMonitor);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(warnSpy).toHaveBeenCalledWith(
         expect.stringContaining('exceeded violation threshold')
       );
     });
   });
 
   describe('Error Handling', () => {
-    it('should handle Redis connection errors gracefully', async () => {
-      // Mock Redis error
-      jest.spyOn(RateLimiterRedis.prototype, 'consume').mockRejectedValue(
-        new Error('Redis connection error')
-      );
+    it('should handle store errors gracefully', async () => {
+      configureRateLimits({ store: failingStore() });
 
-      const rateLimiter = createRateLimiter('default');
-      await rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+      await run(createRateLimiter('default'));
 
+      expect(nextFunction).not.toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(500);
       expect(mockResponse.json).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -212,58 +202,71 @@ describe('Rate Limiting Middleware', () => {
       );
     });
 
+    it('should fall back to memory while the insured store is down', async () => {
+      configureRateLimits({
+        store: new InsuranceRateLimitStore(failingStore()),
+        tiers: { ...config.rateLimit.tiers, default: { points: 1, duration: 60 } }
+      });
+      const rateLimiter = createRateLimiter('default');
+
+      await run(rateLimiter);
+      await run(rateLimiter);
+
+      expect(nextFunction).toHaveBeenCalledTimes(1);
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+    });
+
     it('should handle invalid rate limiter type', async () => {
-      const invalidRateLimiter = createRateLimiter('invalid' as any);
-      await invalidRateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+      await run(createRateLimiter('invalid' as any));
 
       expect(mockResponse.status).toHaveBeenCalledWith(500);
     });
   });
 
   describe('IP Address Detection', () => {
-    it('should correctly identify client IP from X-Forwarded-For', async () => {
-      const forwardedIp = '192.168.1.1';
-      mockRequest.headers['x-forwarded-for'] = forwardedIp;
+    let hit: jest.SpyInstance;
 
-      const rateLimiter = createRateLimiter('default');
-      await rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+    beforeEach(() => {
+      hit = jest.spyOn(store, 'hit');
+    });
 
-      // Verify the rate limit key contains the forwarded IP
-      expect(mockResponse.set).toHaveBeenCalled();
-      const calls = (mockResponse.set as jest.Mock).mock.calls;
-      const keyContainsIp = calls.some(call => 
-        JSON.stringify(call).includes(forwardedIp)
-      );
-      expect(keyContainsIp).toBeTruthy();
+    // Express only derives req.ip from X-Forwarded-For for trusted proxies
+    it('should key on req.ip rather than X-Forwarded-For', async () => {
+      mockRequest.headers['x-forwarded-for'] = '192.168.1.1, 10.0.0.1';
+
+      await run(createRateLimiter('default'));
+
+      expect(hit).toHaveBeenCalledWith('default:127.0.0.1:anonymous', 60000);
     });
 
-    it('should fall back to socket address when X-Forwarded-For is not present', async () => {
-      const socketIp = '127.0.0.1';
-      mockRequest.socket.remoteAddress = socketIp;
-      delete mockRequest.headers['x-forwarded-for'];
+    it('should fall back to socket address when req.ip is not set', async () => {
+      mockRequest.ip = undefined;
+      mockRequest.socket.remoteAddress = '10.1.2.3';
 
-      const rateLimiter = createRateLimiter('default');
-      await rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        nextFunction
-      );
+      await run(createRateLimiter('default'));
 
-      // Verify the rate limit key contains the socket IP
-      expect(mockResponse.set).toHaveBeenCalled();
-      const calls = (mockResponse.set as jest.Mock).mock.calls;
-      const keyContainsIp = calls.some(call => 
-        JSON.stringify(call).includes(socketIp)
-      );
-      expect(keyContainsIp).toBeTruthy();
+      expect(hit).toHaveBeenCalledWith('default:10.1.2.3:anonymous', 60000);
     });
   });
 });
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should start a new window once the current one ends', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['setImmediate', 'nextTick'] });
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.hit('k', 1000)).toEqual({ count: 1, resetAt: 1_001_000 });
+    jest.advanceTimersByTime(500);
+    expect(await store.hit('k', 1000)).toEqual({ count: 2, resetAt: 1_001_000 });
+
+    jest.advanceTimersByTime(500);
+    expect(await store.hit('k', 1000)).toEqual({ count: 1, resetAt: 1_002_000 });
+
+    await store.reset('k');
+    expect((await store.hit('k', 1000)).count).toBe(1);
+  });
+});
@@ -1,18 +1,68 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { TokenManager, TokenPayload } from '../services/auth/token-manager';
+import { DelegationService, isApiKey } from '../services/auth/delegation-service';
+import { SessionManager } from '../services/session-manager';
+import { Delegation, Permission, policyEngine, PolicyResource, PolicyScope } from '../services/auth/policy';
+import { AppError } from '../utils/errors';
 import logger from '../utils/logger';
+import { config } from '../config';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     roles: string[];
+    // Wallet the user signed in with, which is how agent ownership is proven
+    wallets?: string[];
+    sessionId?: string;
+    // Unix seconds when a second factor was last verified
+    mfaAt?: number;
+    // Set when the request came in with an API key instead of a login
+    apiKeyId?: string;
+    scope?: PolicyScope;
   };
+  tokenPayload?: TokenPayload;
+}
+
+let delegatedAccess: DelegationService | null = null;
+
+// Lets authenticate() accept owner-issued API keys and makes delegated
+// access auditable. Without it only JWTs are accepted.
+export function acceptDelegatedAccess(service: DelegationService | null) {
+  delegatedAccess = service;
+}
+
+let liveSessions: SessionManager | null = null;
+
+// Makes authenticate() refuse access tokens whose session was destroyed or
+// whose device was revoked, instead of honouring them until they expire.
+// Tokens without a sessionId claim are unaffected.
+export function requireLiveSessions(sessionManager: SessionManager | null) {
+  liveSessions = sessionManager;
+}
+
+export async function delegationsFor(agent: { agentAddress: string; creator: string }, ip?: string): Promise<Delegation[]> {
+  return delegatedAccess ? delegatedAccess.delegationsFor(agent, ip) : [];
 }
 
 export function authenticate(tokenManager: TokenManager) {
+  return verifyBearerToken(tokenManager, false);
+}
+
+// Only the MFA completion routes accept a login that is still missing its second factor
+export function authenticateMfaPending(tokenManager: TokenManager) {
+  return verifyBearerToken(tokenManager, true);
+}
+
+function verifyBearerToken(tokenManager: TokenManager, allowMfaPending: boolean) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const token = extractToken(req);
+      const keyHeader = req.headers['x-api-key'];
+      const apiKey = typeof keyHeader === 'string' ? keyHeader : token && isApiKey(token) ? token : undefined;
+      if (apiKey && !allowMfaPending) {
+        return await verifyApiKey(apiKey, req, res, next);
+      }
       if (!token) {
         return res.status(401).json({ error: 'No token provided' });
       }
@@ -21,11 +71,23 @@ export function authenticate(tokenManager: TokenManager) {
       if (!decoded) {
         return res.status(401).json({ error: 'Invalid token' });
       }
+      if (decoded.mfaPending && !allowMfaPending) {
+        return res.status(401).json({ error: 'MFA verification required', mfaRequired: true });
+      }
+      // Using the token counts as activity on its session
+      if (liveSessions && decoded.sessionId && !(await liveSessions.getSession(decoded.sessionId))) {
+        return res.status(401).json({ error: 'Session has ended' });
+      }
 
-      (req as AuthenticatedRequest).user = {
+      const authReq = req as AuthenticatedRequest;
+      authReq.user = {
         id: decoded.userId,
-        roles: decoded.roles
+        roles: decoded.roles,
+        wallets: decoded.wallet ? [decoded.wallet] : [],
+        sessionId: decoded.sessionId,
+        mfaAt: decoded.mfaAt
       };
+      authReq.tokenPayload = decoded;
 
       next();
     } catch (error) {
@@ -35,6 +97,48 @@ export function authenticate(tokenManager: TokenManager) {
   };
 }
 
+async function verifyApiKey(apiKey: string, req: Request, res: Response, next: NextFunction) {
+  const principal = delegatedAccess
+    ? await delegatedAccess.authenticateApiKey(apiKey, { ip: req.ip, method: req.method, path: req.originalUrl })
+    : null;
+  if (!principal) {
+    return res.status(401).json({ error: 'Invalid API key' });
+  }
+
+  // The key acts as the owner's wallet, limited to what it was issued for
+  (req as AuthenticatedRequest).user = {
+    id: principal.ownerId,
+    roles: [],
+    wallets: [principal.ownerWallet],
+    apiKeyId: principal.keyId,
+    scope: { agents: principal.agents, actions: principal.actions }
+  };
+  next();
+}
+
+// For routes that act on the account itself rather than on an agent, which
+// an API key's scope can't express
+export function interactiveOnly(req: Request, res: Response, next: NextFunction) {
+  if ((req as AuthenticatedRequest).user?.apiKeyId) {
+    return res.status(403).json({ error: 'API keys cannot be used for this endpoint' });
+  }
+  next();
+}
+
+// For machine clients such as Prometheus that can only send one fixed
+// bearer token, configured rather than issued
+export function requireStaticToken(token: string) {
+  const expected = Buffer.from(token);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = Buffer.from(extractToken(req) ?? '');
+    if (!token || presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+    next();
+  };
+}
+
 export function authorize(roles: string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
     const authReq = req as AuthenticatedRequest;
@@ -51,6 +155,89 @@ export function authorize(roles: string[]) {
   };
 }
 
+/**
+ * Require a permission from the policy engine. Routes acting on one
+ * resource pass a resolver for it so owner and delegate rules can apply;
+ * a resolver returning null means the resource doesn't exist.
+ */
+export function requirePermission(
+  action: Permission,
+  resolveResource?: (req: Request) => Promise<PolicyResource | null>
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const authReq = req as AuthenticatedRequest;
+    if (!authReq.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const resource = resolveResource ? await resolveResource(req) : undefined;
+      if (resource === null) {
+        return res.status(404).json({ error: 'Resource not found' });
+      }
+      if (!(await checkPermission(req, action, resource))) {
+        return res.status(403).json({ error: 'Insufficient permissions', permission: action });
+      }
+      next();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Authorization error:', error);
+      res.status(500).json({ error: 'Authorization check failed' });
+    }
+  };
+}
+
+/**
+ * can() for the request's user, recording the use when only a delegate
+ * grant allowed it. Routes that check several resources call this directly.
+ */
+export async function checkPermission(
+  req: Request,
+  action: Permission,
+  resource?: PolicyResource
+): Promise<boolean> {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    return false;
+  }
+
+  const decision = policyEngine.decide(user, action, resource);
+  if (decision.allowed && decision.via === 'delegate' && decision.grantId && resource && delegatedAccess) {
+    await delegatedAccess.recordDelegateUse(decision.grantId, user, action, resource, {
+      ip: req.ip,
+      method: req.method,
+      path: req.originalUrl
+    });
+  }
+  return decision.allowed;
+}
+
+/**
+ * Require a second factor verified within the last `maxAgeSeconds`. The
+ * response follows RFC 9470 so clients know to call /api/auth/mfa/step-up.
+ */
+export function requireStepUp(maxAgeSeconds: number = config.mfa.stepUpMaxAgeSeconds) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const authReq = req as AuthenticatedRequest;
+    if (!authReq.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const mfaAt = authReq.user.mfaAt;
+    if (!mfaAt || Date.now() / 1000 - mfaAt > maxAgeSeconds) {
+      res.setHeader(
+        'WWW-Authenticate',
+        `Bearer error="insufficient_user_authentication", max_age=${maxAgeSeconds}`
+      );
+      return res.status(401).json({ error: 'Step-up authentication required', stepUp: true });
+    }
+
+    next();
+  };
+}
+
 function extractToken(req: Request): string | null {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
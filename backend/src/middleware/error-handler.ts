@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
 import { AppError } from '../utils/errors';
 import logger from '../utils/logger';
 
@@ -36,7 +37,7 @@ export function errorHandler(
     }
 
     // Only include stack trace for non-operational errors in development
-    if (!err.isOperational && process.env.NODE_ENV === 'development') {
+    if (!err.isOperational && config.env === 'development') {
       response.stack = err.stack;
     }
 
@@ -62,7 +63,7 @@ export function errorHandler(
   }
 
   // Include stack trace in development mode for unknown errors
-  if (process.env.NODE_ENV === 'development') {
+  if (config.env === 'development') {
     response.stack = err.stack;
   }
 
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests } from '../services/metrics/prometheus/self-metrics';
+
+// Counts and times every response for /metrics. Requests are labelled with
+// the route pattern they matched, not their path, so ids in URLs don't make
+// a series each.
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime();
+
+  res.on('finish', () => {
+    const [seconds, nanoseconds] = process.hrtime(start);
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, seconds + nanoseconds / 1e9);
+  });
+
+  next();
+}
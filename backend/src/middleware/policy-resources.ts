@@ -0,0 +1,29 @@
+import { Request } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { agentResource, PolicyResource } from '../services/auth/policy';
+import { delegationsFor } from './auth';
+
+// Resolver for requirePermission() that loads the agent a route acts on.
+// `pick` finds the agent's address in the request, looking it up if needed.
+export function agentAt(
+  prisma: PrismaClient,
+  pick: (req: Request) => string | undefined | Promise<string | undefined>
+) {
+  return async (req: Request): Promise<PolicyResource | null> => {
+    const agentAddress = await pick(req);
+    if (!agentAddress) {
+      return null;
+    }
+
+    const agent = await prisma.agentMetadata.findUnique({ where: { agentAddress } });
+    return agent ? delegatedAgentResource(agent, req) : null;
+  };
+}
+
+// The agent with the delegate grants that apply to this request
+export async function delegatedAgentResource(
+  agent: { agentAddress: string; creator: string },
+  req: Request
+): Promise<PolicyResource> {
+  return agentResource(agent, await delegationsFor(agent, req.ip));
+}
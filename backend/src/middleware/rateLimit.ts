@@ -1,203 +1,121 @@
 import { Request, Response, NextFunction } from 'express';
-import Redis from 'ioredis';
-import { RateLimiterRedis } from 'rate-limiter-flexible';
-import config from '../config';
-
-// Initialize Redis client
-const redisClient = new Redis({
-  host: config.redis.host,
-  port: config.redis.port,
-  password: config.redis.password,
-  enableOfflineQueue: false,
-});
-
-// Define rate limit tiers
-const rateLimitTiers = {
-  // Unauthenticated users
-  default: {
-    points: 30, // Number of requests
-    duration: 60, // Per 60 seconds
-  },
-  // Authenticated users
-  authenticated: {
-    points: 60,
-    duration: 60,
-  },
-  // Premium users
-  premium: {
-    points: 120,
-    duration: 60,
-  },
-  // Function execution limits
-  functionExecution: {
-    points: 10,
-    duration: 60,
-  },
-  // Agent creation limits
-  agentCreation: {
-    points: 5,
-    duration: 3600, // Per hour
-  },
-  // Marketplace interaction limits
-  marketplace: {
-    points: 50,
-    duration: 60,
-  },
-  // Search limits
-  search: {
-    points: 20,
-    duration: 60,
-  },
+import { config, RateLimitTier, RateLimitTierName } from '../config';
+import { MemoryRateLimitStore, RateLimitStore } from '../services/rate-limit/rate-limit-store';
+import { rateLimitErrors, rateLimitRequests } from '../services/metrics/prometheus/self-metrics';
+import { AuthenticatedRequest } from './auth';
+import logger from '../utils/logger';
+
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  tiers: Record<RateLimitTierName, RateLimitTier>;
+  // 429s per client in a day before it is reported
+  violationThreshold: number;
+}
+
+type UserTier = 'default' | 'authenticated' | 'premium' | 'apiKey';
+
+const USER_TIERS: RateLimitTierName[] = ['default', 'authenticated', 'premium'];
+const VIOLATION_WINDOW_MS = 86400000;
+
+// Counts in memory until index.ts hands over the configured store, so the
+// module loads, and tests run, without Redis
+let options: RateLimitOptions = {
+  store: new MemoryRateLimitStore(),
+  tiers: config.rateLimit.tiers,
+  violationThreshold: config.rateLimit.violationThreshold
 };
 
-// Create rate limiters for different tiers
-const rateLimiters = {
-  default: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:default',
-    points: rateLimitTiers.default.points,
-    duration: rateLimitTiers.default.duration,
-  }),
-  authenticated: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:auth',
-    points: rateLimitTiers.authenticated.points,
-    duration: rateLimitTiers.authenticated.duration,
-  }),
-  premium: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:premium',
-    points: rateLimitTiers.premium.points,
-    duration: rateLimitTiers.premium.duration,
-  }),
-  functionExecution: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:func',
-    points: rateLimitTiers.functionExecution.points,
-    duration: rateLimitTiers.functionExecution.duration,
-  }),
-  agentCreation: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:agent',
-    points: rateLimitTiers.agentCreation.points,
-    duration: rateLimitTiers.agentCreation.duration,
-  }),
-  marketplace: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:market',
-    points: rateLimitTiers.marketplace.points,
-    duration: rateLimitTiers.marketplace.duration,
-  }),
-  search: new RateLimiterRedis({
-    storeClient: redisClient,
-    keyPrefix: 'rlflx:search',
-    points: rateLimitTiers.search.points,
-    duration: rateLimitTiers.search.duration,
-  }),
-};
+export function configureRateLimits(overrides: Partial<RateLimitOptions>) {
+  options = { ...options, ...overrides };
+}
 
-// Helper function to get client IP
-const getClientIp = (req: Request): string => {
-  const forwarded = req.headers['x-forwarded-for'];
-  if (forwarded) {
-    return Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0];
-  }
-  return req.socket.remoteAddress || '';
-};
+// req.ip only follows X-Forwarded-For through the proxies createApp trusts
+const getClientIp = (req: Request): string => req.ip || req.socket.remoteAddress || '';
 
-// Helper function to get rate limiter key
+// API keys count on their own, so a bot can't use up its owner's quota
 const getRateLimiterKey = (req: Request): string => {
-  const clientIp = getClientIp(req);
-  const userAddress = req.user?.address || 'anonymous';
-  return `${clientIp}:${userAddress}`;
+  const user = (req as AuthenticatedRequest).user;
+  if (user?.apiKeyId) {
+    return `key:${user.apiKeyId}`;
+  }
+  return `${getClientIp(req)}:${user?.id ?? 'anonymous'}`;
 };
 
-// Helper function to get user tier
-const getUserTier = (req: Request): 'default' | 'authenticated' | 'premium' => {
-  if (!req.user) {
+const getUserTier = (req: Request): UserTier => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
     return 'default';
   }
-  return req.user.isPremium ? 'premium' : 'authenticated';
+  if (user.apiKeyId) {
+    return 'apiKey';
+  }
+  return user.roles.includes('premium') ? 'premium' : 'authenticated';
 };
 
-// Create middleware for different rate limit types
-export const createRateLimiter = (type: keyof typeof rateLimiters) => {
-  return async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const key = getRateLimiterKey(req);
-      const rateLimiter = rateLimiters[type];
-
-      const result = await rateLimiter.consume(key);
-
-      // Set rate limit headers
-      res.set({
-        'X-RateLimit-Limit': rateLimiter.points,
-        'X-RateLimit-Remaining': result.remainingPoints,
-        'X-RateLimit-Reset': new Date(Date.now() + result.msBeforeNext).toISOString(),
-      });
-
-      next();
-    } catch (error) {
-      if (error instanceof Error) {
-        const resetTime = new Date(Date.now() + (error as any).msBeforeNext).toISOString();
-        res.set({
-          'X-RateLimit-Reset': resetTime,
-        });
-        res.status(429).json({
-          error: 'Too Many Requests',
-          message: `Rate limit exceeded. Try again after ${resetTime}`,
-          tier: getUserTier(req),
-          limits: rateLimitTiers[getUserTier(req)],
-        });
-      } else {
-        res.status(500).json({
-          error: 'Internal Server Error',
-          message: 'Rate limiting system error',
-        });
-      }
-    }
-  };
-};
+// Counts the request against `tierName` and answers with the standard
+// RateLimit-* headers (draft-ietf-httpapi-ratelimit-headers), plus
+// Retry-After once the quota is spent
+const consume = async (tierName: RateLimitTierName, req: Request, res: Response, next: NextFunction) => {
+  const tier = options.tiers[tierName];
+  if (!tier) {
+    logger.error(`Unknown rate limit tier: ${tierName}`);
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Rate limiting system error',
+    });
+  }
 
-// Middleware for dynamic rate limiting based on user tier
-export const dynamicRateLimit = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const tier = getUserTier(req);
-    const key = getRateLimiterKey(req);
-    const rateLimiter = rateLimiters[tier];
+    const { count, resetAt } = await options.store.hit(`${tierName}:${getRateLimiterKey(req)}`, tier.duration * 1000);
+    const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
 
-    const result = await rateLimiter.consume(key);
-
-    // Set rate limit headers
     res.set({
-      'X-RateLimit-Limit': rateLimiter.points,
-      'X-RateLimit-Remaining': result.remainingPoints,
-      'X-RateLimit-Reset': new Date(Date.now() + result.msBeforeNext).toISOString(),
-      'X-RateLimit-Tier': tier,
+      'RateLimit-Limit': String(tier.points),
+      'RateLimit-Remaining': String(Math.max(0, tier.points - count)),
+      'RateLimit-Reset': String(resetSeconds),
+      'RateLimit-Policy': `${tier.points};w=${tier.duration}`,
     });
 
-    next();
-  } catch (error) {
-    if (error instanceof Error) {
-      const resetTime = new Date(Date.now() + (error as any).msBeforeNext).toISOString();
-      res.set({
-        'X-RateLimit-Reset': resetTime,
-      });
-      res.status(429).json({
+    const limited = count > tier.points;
+    rateLimitRequests.inc({ tier: tierName, outcome: limited ? 'limited' : 'allowed' });
+
+    if (limited) {
+      res.set('Retry-After', String(resetSeconds));
+      return res.status(429).json({
         error: 'Too Many Requests',
-        message: `Rate limit exceeded. Try again after ${resetTime}`,
-        tier: getUserTier(req),
-        limits: rateLimitTiers[getUserTier(req)],
-      });
-    } else {
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Rate limiting system error',
+        message: `Rate limit exceeded. Try again in ${resetSeconds} seconds`,
+        tier: tierName,
+        limits: tier,
       });
     }
+
+    next();
+  } catch (error) {
+    rateLimitErrors.inc({ tier: tierName });
+    logger.error('Rate limiting error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Rate limiting system error',
+    });
   }
 };
 
+// Create middleware for different rate limit types. Requests made with an
+// API key use the apiKey tier wherever a user tier would apply.
+export const createRateLimiter = (type: RateLimitTierName) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const tier = USER_TIERS.includes(type) && getUserTier(req) === 'apiKey' ? 'apiKey' : type;
+    return consume(tier, req, res, next);
+  };
+};
+
+// Middleware for dynamic rate limiting based on user tier
+export const dynamicRateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  const tier = getUserTier(req);
+  res.set('X-RateLimit-Tier', tier);
+  return consume(tier, req, res, next);
+};
+
 // Middleware for monitoring and logging rate limit events
 export const rateLimitMonitor = async (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
@@ -209,10 +127,7 @@ export const rateLimitMonitor = async (req: Request, res: Response, next: NextFu
     const duration = Date.now() - startTime;
     const status = res.statusCode;
 
-    // Log rate limit event
-    console.log({
-      timestamp: new Date().toISOString(),
-      type: 'rate_limit',
+    logger.debug('Rate limit event', {
       tier,
       key,
       duration,
@@ -220,19 +135,21 @@ export const rateLimitMonitor = async (req: Request, res: Response, next: NextFu
       path: req.path,
       method: req.method,
       headers: {
-        'x-ratelimit-remaining': res.getHeader('x-ratelimit-remaining'),
-        'x-ratelimit-reset': res.getHeader('x-ratelimit-reset'),
+        'ratelimit-remaining': res.getHeader('ratelimit-remaining'),
+        'ratelimit-reset': res.getHeader('ratelimit-reset'),
       },
     });
 
     // If this was a rate limit violation, increment violation counter
     if (status === 429) {
-      redisClient.incr(`rlflx:violations:${key}`).then((violations) => {
-        // If user has too many violations, they might need to be blocked
-        if (violations > 100) {
-          console.warn(`User ${key} has exceeded violation threshold`);
-        }
-      });
+      options.store.hit(`violations:${key}`, VIOLATION_WINDOW_MS)
+        .then(({ count }) => {
+          // If user has too many violations, they might need to be blocked
+          if (count > options.violationThreshold) {
+            logger.warn(`User ${key} has exceeded violation threshold`);
+          }
+        })
+        .catch(error => logger.error('Failed to count rate limit violation:', error));
     }
   });
 
@@ -240,6 +157,7 @@ export const rateLimitMonitor = async (req: Request, res: Response, next: NextFu
 };
 
 export default {
+  configureRateLimits,
   createRateLimiter,
   dynamicRateLimit,
   rateLimitMonitor,
@@ -1,6 +1,6 @@
-import { Metric, MetricType } from '../types';
+import { BuiltinMetricType, Metric, MetricType } from '../types';
 
-const VALID_METRIC_TYPES = [
+export const BUILTIN_METRIC_TYPES: readonly BuiltinMetricType[] = [
   'cpu_usage',
   'memory_usage',
   'disk_usage',
@@ -10,7 +10,11 @@ const VALID_METRIC_TYPES = [
   'response_time',
   'active_users',
   'transaction_volume'
-] as const;
+];
+
+export function isBuiltinMetricType(type: string): type is BuiltinMetricType {
+  return BUILTIN_METRIC_TYPES.includes(type as BuiltinMetricType);
+}
 
 export class MetricModel implements Metric {
   id: string;
@@ -27,8 +31,9 @@ export class MetricModel implements Metric {
     this.metadata = data.metadata;
   }
 
-  static validate(data: Partial<Metric>): void {
-    if (!data.type || !VALID_METRIC_TYPES.includes(data.type as MetricType)) {
+  // Only built-in types pass unless `isKnownType` also accepts registered ones
+  static validate(data: Partial<Metric>, isKnownType: (type: string) => boolean = isBuiltinMetricType): void {
+    if (!data.type || !isKnownType(data.type)) {
       throw new Error('Invalid metric type');
     }
 
@@ -56,4 +61,4 @@ export class MetricModel implements Metric {
   }
 }
 
-export { Metric, MetricType };
+export { BuiltinMetricType, Metric, MetricType };
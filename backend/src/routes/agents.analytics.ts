@@ -1,9 +1,9 @@
 import express from 'express';
 import { param, query, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
 // Record an interaction
 router.post('/interaction/:agentAddress',
@@ -11,7 +11,7 @@ router.post('/interaction/:agentAddress',
     param('agentAddress').isString().notEmpty(),
     query('type').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -78,13 +78,58 @@ router.post('/interaction/:agentAddress',
   }
 );
 
+// Get trending agents
+router.get('/analytics/trending',
+  [
+    query('period').optional().isIn(['day', 'week', 'month']),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const period = (req.query.period as string) || 'day';
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const analytics = await prisma.agentAnalytics.findMany({
+        where: {
+          lastInteraction: {
+            gte: getPeriodStart(period),
+          },
+        },
+        orderBy: {
+          totalInteractions: 'desc',
+        },
+        take: limit,
+        include: {
+          agent: {
+            select: {
+              name: true,
+              symbol: true,
+              verificationStatus: true,
+            },
+          },
+        },
+      });
+
+      res.json(analytics);
+    } catch (error) {
+      console.error('Error fetching trending agents:', error);
+      res.status(500).json({ error: 'Failed to fetch trending agents' });
+    }
+  }
+);
+
 // Get agent analytics
 router.get('/analytics/:agentAddress',
   [
     param('agentAddress').isString().notEmpty(),
     query('period').optional().isIn(['day', 'week', 'month', 'all']),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -131,51 +176,6 @@ router.get('/analytics/:agentAddress',
   }
 );
 
-// Get trending agents
-router.get('/trending',
-  [
-    query('period').optional().isIn(['day', 'week', 'month']),
-    query('limit').optional().isInt({ min: 1, max: 100 }),
-  ],
-  async (req, res) => {
-    try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
-      const period = req.query.period || 'day';
-      const limit = parseInt(req.query.limit as string) || 10;
-
-      const analytics = await prisma.agentAnalytics.findMany({
-        where: {
-          lastInteraction: {
-            gte: getPeriodStart(period),
-          },
-        },
-        orderBy: {
-          totalInteractions: 'desc',
-        },
-        take: limit,
-        include: {
-          agent: {
-            select: {
-              name: true,
-              symbol: true,
-              verificationStatus: true,
-            },
-          },
-        },
-      });
-
-      res.json(analytics);
-    } catch (error) {
-      console.error('Error fetching trending agents:', error);
-      res.status(500).json({ error: 'Failed to fetch trending agents' });
-    }
-  }
-);
-
 // Helper functions
 function getWeekKey(date: Date): string {
   const start = new Date(date);
@@ -1,154 +1,113 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
-import { Token } from '@solana/spl-token';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { config } from '../config';
+import { JsonRpcEthereumProvider } from '../services/payments/ethereum-rpc-provider';
+import { PaymentVerifier } from '../services/payments/payment-verifier';
+import { claimPayment, isPaymentClaimed } from '../services/payments/payment-claims';
+import { checkPermission, requirePermission } from '../middleware/auth';
+import { delegatedAgentResource } from '../middleware/policy-resources';
+import { AGENT_METADATA_FIELDS, pickFields } from '../utils/editable-fields';
+import { AppError } from '../utils/errors';
 
 const router = express.Router();
-const prisma = new PrismaClient();
-
-// Initialize Solana connection
-const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+const prisma = getPrisma();
+
+let batchPaymentVerifier: PaymentVerifier | null = null;
+
+// Created on first use so the router can load without payment config
+function getBatchPaymentVerifier(): PaymentVerifier {
+  if (!batchPaymentVerifier) {
+    batchPaymentVerifier = new PaymentVerifier(
+      new JsonRpcEthereumProvider(config.payments.ethRpcUrl),
+      {
+        recipientAddress: config.payments.recipientAddress,
+        amountWei: BigInt(config.payments.launchFeeWei),
+        minConfirmations: config.payments.minConfirmations,
+      }
+    );
+  }
+  return batchPaymentVerifier;
+}
 
 // Batch create agents
 router.post('/batch-create',
+  requirePermission('agent:create'),
   [
     body('agents').isArray().notEmpty(),
+    body('agents.*.agentAddress').isString().notEmpty(),
     body('agents.*.name').isString().notEmpty(),
     body('agents.*.symbol').isString().notEmpty(),
     body('agents.*.description').optional().isString(),
     body('creator').isString().notEmpty(),
     body('paymentTx').isString().notEmpty(),
+    body('payer').optional().isString(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { agents, creator, paymentTx } = req.body;
+      const { agents, creator, paymentTx, payer } = req.body;
 
-      // Verify payment first
-      const paymentVerified = await verifyBatchPayment(paymentTx, agents.length);
-      if (!paymentVerified) {
-        return res.status(400).json({ error: 'Invalid payment for batch creation' });
+      if (await isPaymentClaimed(prisma, paymentTx)) {
+        return res.status(409).json({ error: 'Payment transaction already used' });
       }
 
-      // Create agents in parallel
-      const createdAgents = await Promise.all(
-        agents.map(async (agent: any) => {
-          try {
-            return await prisma.agentMetadata.create({
-              data: {
-                ...agent,
-                creator,
-                paymentTx: `${paymentTx}-${agent.symbol}`,
-                createdAt: new Date(),
-                verificationStatus: 'UNVERIFIED',
-                analytics: {
-                  create: {
-                    totalInteractions: 0,
-                    dailyStats: {},
-                    weeklyStats: {},
-                    monthlyStats: {},
-                  },
-                },
-              },
-            });
-          } catch (error) {
-            console.error(`Error creating agent ${agent.symbol}:`, error);
-            return {
-              error: true,
-              symbol: agent.symbol,
-              message: error instanceof Error ? error.message : 'Failed to create agent',
-            };
-          }
-        })
-      );
-
-      res.json({
-        success: createdAgents.filter(a => !a.error),
-        failures: createdAgents.filter(a => a.error),
+      // One payment covers the whole batch, so it must be the launch fee
+      // for every agent in it
+      const verdict = await getBatchPaymentVerifier().verify(paymentTx, {
+        expectedPayer: payer ?? creator,
+        amountWei: BigInt(config.payments.launchFeeWei) * BigInt(agents.length),
       });
-    } catch (error) {
-      console.error('Error in batch creation:', error);
-      res.status(500).json({ error: 'Failed to process batch creation' });
-    }
-  }
-);
-
-// Batch transfer agents
-router.post('/batch-transfer',
-  [
-    body('transfers').isArray().notEmpty(),
-    body('transfers.*.agentAddress').isString().notEmpty(),
-    body('transfers.*.fromAddress').isString().notEmpty(),
-    body('transfers.*.toAddress').isString().notEmpty(),
-    body('signature').isString().notEmpty(),
-  ],
-  async (req, res) => {
-    try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+      if (!verdict.verified) {
+        return res.status(402).json({ error: 'Payment verification failed', verdict });
       }
 
-      const { transfers, signature } = req.body;
-
-      // Verify the batch transfer transaction
-      const tx = await connection.getTransaction(signature);
-      if (!tx) {
-        return res.status(400).json({ error: 'Invalid transfer transaction' });
-      }
-
-      // Process transfers in parallel
-      const results = await Promise.all(
-        transfers.map(async (transfer: any) => {
-          try {
-            const agent = await prisma.agentMetadata.findUnique({
-              where: { agentAddress: transfer.agentAddress },
-            });
-
-            if (!agent) {
-              throw new Error('Agent not found');
-            }
-
-            if (agent.creator !== transfer.fromAddress) {
-              throw new Error('Not authorized to transfer this agent');
-            }
-
-            return await prisma.agentMetadata.update({
-              where: { agentAddress: transfer.agentAddress },
-              data: {
-                creator: transfer.toAddress,
-                transferHistory: {
-                  create: {
-                    fromAddress: transfer.fromAddress,
-                    toAddress: transfer.toAddress,
-                    transactionHash: signature,
-                    timestamp: new Date(),
-                  },
+      // All or nothing: a batch that fails part way releases the claim
+      // rather than spending the payment on fewer agents than it covered
+      const createdAgents = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await claimPayment(tx, paymentTx, 'launch', creator);
+
+        const created = [];
+        for (const agent of agents) {
+          created.push(await tx.agentMetadata.create({
+            data: {
+              ...pickFields(agent, AGENT_METADATA_FIELDS),
+              agentAddress: agent.agentAddress,
+              name: agent.name,
+              symbol: agent.symbol,
+              creator,
+              paymentTx: `${paymentTx}-${agent.symbol}`,
+              createdAt: new Date(),
+              verificationStatus: 'UNVERIFIED',
+              analytics: {
+                create: {
+                  totalInteractions: 0,
+                  dailyStats: {},
+                  weeklyStats: {},
+                  monthlyStats: {},
                 },
               },
-            });
-          } catch (error) {
-            return {
-              error: true,
-              agentAddress: transfer.agentAddress,
-              message: error instanceof Error ? error.message : 'Failed to transfer agent',
-            };
-          }
-        })
-      );
+            },
+          }));
+        }
+        return created;
+      });
 
       res.json({
-        success: results.filter(r => !r.error),
-        failures: results.filter(r => r.error),
+        success: createdAgents,
+        failures: [],
       });
     } catch (error) {
-      console.error('Error in batch transfer:', error);
-      res.status(500).json({ error: 'Failed to process batch transfer' });
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error in batch creation:', error);
+      res.status(500).json({ error: 'Failed to process batch creation' });
     }
   }
 );
@@ -161,7 +120,7 @@ router.patch('/batch-update',
     body('updates.*.metadata').isObject().notEmpty(),
     body('updatedBy').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -181,11 +140,14 @@ router.patch('/batch-update',
             if (!agent) {
               throw new Error('Agent not found');
             }
+            if (!(await checkPermission(req, 'agent:update', await delegatedAgentResource(agent, req)))) {
+              throw new Error('Not authorized to update this agent');
+            }
 
             return await prisma.agentMetadata.update({
               where: { agentAddress: update.agentAddress },
               data: {
-                ...update.metadata,
+                ...pickFields(update.metadata, AGENT_METADATA_FIELDS),
                 metadataHistory: {
                   create: {
                     previousName: agent.name,
@@ -193,7 +155,7 @@ router.patch('/batch-update',
                     previousDescription: agent.description,
                     previousImageUrl: agent.imageUrl,
                     previousExternalUrl: agent.externalUrl,
-                    previousAttributes: agent.attributes,
+                    previousAttributes: agent.attributes ?? undefined,
                     updatedAt: new Date(),
                     updatedBy,
                   },
@@ -221,22 +183,4 @@ router.patch('/batch-update',
   }
 );
 
-// Helper function to verify batch payment
-async function verifyBatchPayment(txHash: string, count: number): Promise<boolean> {
-  try {
-    const tx = await connection.getTransaction(txHash);
-    if (!tx) return false;
-
-    // TODO: Implement proper payment verification
-    // 1. Verify the payment amount matches the batch size (count * 0.006 ETH)
-    // 2. Verify the payment recipient is correct
-    // 3. Verify the transaction is confirmed
-
-    return true;
-  } catch (error) {
-    console.error('Error verifying batch payment:', error);
-    return false;
-  }
-}
-
 export default router;
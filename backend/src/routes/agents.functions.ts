@@ -1,22 +1,115 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import Redis from 'ioredis';
+import { getPrisma } from '../services/db/shared-prisma';
+import { config } from '../config';
+import { FunctionExecutor, FunctionKind } from '../services/functions/function-executor';
+import { WebhookRunner } from '../services/functions/runners/webhook-runner';
+import { ScriptRunner } from '../services/functions/runners/script-runner';
+import { ChainRunner } from '../services/functions/runners/chain-runner';
+import { FunctionSchemaValidator, SchemaViolation } from '../services/functions/schema-validator';
+import { ExecutionJob, ExecutionStore, ExecutionWorker, StoredFunction } from '../services/functions/execution-worker';
+import { CallbackNotifier } from '../services/functions/callback-notifier';
+import { JobQueue } from '../services/queue/job-queue';
+import { MemoryJobQueue } from '../services/queue/memory-job-queue';
+import { RedisJobQueue } from '../services/queue/redis-job-queue';
+import { trackQueue } from '../services/metrics/prometheus/self-metrics';
+import { sendProblem } from '../utils/problem';
+import { checkPublicHost } from '../utils/public-address';
+import { requirePermission } from '../middleware/auth';
+import { agentAt } from '../middleware/policy-resources';
+import { AGENT_FUNCTION_FIELDS, pickFields } from '../utils/editable-fields';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
-// Register agent function
+const FUNCTION_KINDS: FunctionKind[] = ['webhook', 'script', 'chain'];
+
+const functionExecutor = new FunctionExecutor(loadFunctionDefinition, {
+  maxChainDepth: config.functions.maxChainDepth,
+})
+  .register('webhook', new WebhookRunner({
+    timeoutMs: config.functions.webhookTimeoutMs,
+    maxResponseBytes: config.functions.webhookMaxResponseBytes,
+  }))
+  .register('script', new ScriptRunner({
+    timeoutMs: config.functions.scriptTimeoutMs,
+    memoryMb: config.functions.scriptMemoryMb,
+  }))
+  .register('chain', new ChainRunner());
+
+const schemaValidator = new FunctionSchemaValidator();
+
+const EXECUTION_STATES = ['queued', 'running', 'success', 'failed', 'timeout'];
+
+const executionQueue: JobQueue<ExecutionJob> = config.functions.queueBackend === 'memory'
+  ? new MemoryJobQueue<ExecutionJob>('function-executions')
+  : new RedisJobQueue<ExecutionJob>(
+    new Redis({
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password || undefined,
+      maxRetriesPerRequest: null,
+      lazyConnect: true,
+    }),
+    'function-executions',
+    { leaseMs: config.functions.jobLeaseMs }
+  );
+
+trackQueue(executionQueue);
+
+const executionStore: ExecutionStore = {
+  loadFunction: loadFunctionDefinition,
+  updateExecution: async (executionId, update) => {
+    await prisma.functionExecution.update({
+      where: { id: executionId },
+      data: {
+        ...update,
+        outputs: update.outputs ?? undefined,
+      },
+    });
+  },
+};
+
+// Started by the server once the HTTP listener is up
+export const executionWorker = new ExecutionWorker(
+  executionQueue,
+  functionExecutor,
+  executionStore,
+  schemaValidator,
+  new CallbackNotifier({
+    secret: config.functions.callbackSecret,
+    timeoutMs: config.functions.webhookTimeoutMs,
+    retries: 2,
+  }),
+  {
+    pollIntervalMs: config.functions.workerPollIntervalMs,
+    retryBackoffMs: config.functions.retryBackoffMs,
+    maxRetryBackoffMs: 5 * 60 * 1000,
+  }
+);
+
+// The agent owning the :functionId a route acts on
+const functionAgent = agentAt(prisma, async req => {
+  const agentFunction = await prisma.agentFunction.findUnique({ where: { id: req.params.functionId } });
+  return agentFunction?.agentAddress;
+});
+
+// Register agent function (owner, delegate or admin)
 router.post('/register-function',
+  requirePermission('function:manage', agentAt(prisma, req => req.body.agentAddress)),
   [
     body('agentAddress').isString().notEmpty(),
     body('functionName').isString().notEmpty(),
     body('description').isString().notEmpty(),
     body('inputSchema').isObject(),
-    body('outputSchema').isObject(),
+    body('outputSchema').optional().isObject(),
     body('category').isString().notEmpty(),
     body('version').isString().notEmpty(),
+    body('kind').isIn(FUNCTION_KINDS),
+    body('handler').isObject(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -31,8 +124,20 @@ router.post('/register-function',
         outputSchema,
         category,
         version,
+        kind,
+        handler,
       } = req.body;
 
+      const schemaViolations = checkSchemas({ inputSchema, outputSchema });
+      if (schemaViolations.length > 0) {
+        return sendInvalidSchemaProblem(req, res, schemaViolations);
+      }
+
+      const handlerProblems = await functionExecutor.validateDefinition(kind, handler);
+      if (handlerProblems.length > 0) {
+        return res.status(400).json({ error: 'Invalid function handler', details: handlerProblems });
+      }
+
       const agentFunction = await prisma.agentFunction.create({
         data: {
           agentAddress,
@@ -42,6 +147,8 @@ router.post('/register-function',
           outputSchema,
           category,
           version,
+          kind,
+          handler,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -69,16 +176,21 @@ router.post('/register-function',
   }
 );
 
-// Update agent function
+// Update agent function (owner, delegate or admin of its agent)
 router.patch('/update-function/:functionId',
+  requirePermission('function:manage', functionAgent),
   [
     body('description').optional().isString(),
     body('inputSchema').optional().isObject(),
     body('outputSchema').optional().isObject(),
     body('category').optional().isString(),
     body('version').optional().isString(),
+    body('kind').optional().isIn(FUNCTION_KINDS),
+    body('handler').optional().isObject(),
+    // function:manage was checked against the current agent only
+    body(['agentAddress', 'agent']).not().exists().withMessage('A function cannot be moved to another agent'),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -86,8 +198,35 @@ router.patch('/update-function/:functionId',
       }
 
       const { functionId } = req.params;
+
+      const schemaViolations = checkSchemas({
+        inputSchema: req.body.inputSchema,
+        outputSchema: req.body.outputSchema,
+      });
+      if (schemaViolations.length > 0) {
+        return sendInvalidSchemaProblem(req, res, schemaViolations);
+      }
+
+      if (req.body.kind !== undefined || req.body.handler !== undefined) {
+        const existing = await prisma.agentFunction.findUnique({
+          where: { id: functionId },
+        });
+
+        if (!existing) {
+          return res.status(404).json({ error: 'Function not found' });
+        }
+
+        const handlerProblems = await functionExecutor.validateDefinition(
+          req.body.kind ?? existing.kind,
+          req.body.handler ?? existing.handler
+        );
+        if (handlerProblems.length > 0) {
+          return res.status(400).json({ error: 'Invalid function handler', details: handlerProblems });
+        }
+      }
+
       const updateData = {
-        ...req.body,
+        ...pickFields(req.body, AGENT_FUNCTION_FIELDS),
         updatedAt: new Date(),
       };
 
@@ -127,11 +266,14 @@ router.get('/:agentAddress/functions', async (req, res) => {
 
 // Execute agent function
 router.post('/execute-function/:functionId',
+  requirePermission('function:execute', functionAgent),
   [
     body('inputs').isObject(),
     body('callerAddress').isString().notEmpty(),
+    body('async').optional().isBoolean(),
+    body('callbackUrl').optional().isURL({ protocols: ['http', 'https'], require_tld: false }),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -139,7 +281,19 @@ router.post('/execute-function/:functionId',
       }
 
       const { functionId } = req.params;
-      const { inputs, callerAddress } = req.body;
+      const { inputs, callerAddress, callbackUrl } = req.body;
+      const runAsync = req.body.async === true || req.body.async === 'true';
+
+      if (callbackUrl && !runAsync) {
+        return res.status(400).json({ error: 'callbackUrl requires async execution' });
+      }
+
+      if (callbackUrl) {
+        const callbackProblems = await checkPublicHost(new URL(callbackUrl));
+        if (callbackProblems.length > 0) {
+          return res.status(400).json({ error: 'Invalid callbackUrl', details: callbackProblems });
+        }
+      }
 
       // Get function details
       const agentFunction = await prisma.agentFunction.findUnique({
@@ -154,27 +308,94 @@ router.post('/execute-function/:functionId',
       }
 
       // Validate inputs against schema
-      // TODO: Implement input validation using the function's inputSchema
-
-      // Execute function
-      // TODO: Implement actual function execution logic
-      const result = {
-        status: 'success',
-        output: {
-          message: 'Function executed successfully',
-          // Add actual output here
-        },
-      };
+      const inputViolations = schemaValidator.validate(agentFunction.inputSchema as object, inputs);
+      if (inputViolations.length > 0) {
+        return sendProblem(req, res, {
+          type: 'invalid-function-inputs',
+          title: 'Function inputs do not match inputSchema',
+          status: 422,
+          detail: `${inputViolations.length} input validation error(s)`,
+          errors: inputViolations,
+        });
+      }
+
+      if (runAsync) {
+        if (callbackUrl && !config.functions.callbackSecret) {
+          return res.status(503).json({ error: 'Execution callbacks are not configured' });
+        }
+
+        const execution = await prisma.functionExecution.create({
+          data: {
+            functionId,
+            callerAddress,
+            inputs,
+            status: 'queued',
+            mode: 'async',
+            attempts: 0,
+            callbackUrl,
+            executedAt: new Date(),
+          },
+        });
+
+        await executionQueue.enqueue({
+          executionId: execution.id,
+          functionId,
+          callerAddress,
+          inputs,
+          callbackUrl,
+        }, {
+          id: execution.id,
+          maxAttempts: config.functions.maxAttempts,
+        });
+
+        await prisma.agentAnalytics.update({
+          where: { agentAddress: agentFunction.agentAddress },
+          data: {
+            totalInteractions: {
+              increment: 1,
+            },
+          },
+        });
+
+        const statusUrl = `${req.baseUrl}/executions/${execution.id}`;
+        return res.status(202).location(statusUrl).json({
+          executionId: execution.id,
+          status: 'queued',
+          statusUrl,
+        });
+      }
+
+      const executedAt = new Date();
+      const result = await functionExecutor.execute(
+        toDefinition(agentFunction),
+        inputs,
+        callerAddress
+      );
+
+      // Validate outputs against the optional schema
+      let outputViolations: SchemaViolation[] = [];
+      if (result.status === 'success' && agentFunction.outputSchema) {
+        outputViolations = schemaValidator.validate(agentFunction.outputSchema as object, result.output);
+        if (outputViolations.length > 0) {
+          result.status = 'failed';
+          result.error = 'Function output does not match outputSchema';
+        }
+      }
 
       // Record execution
-      await prisma.functionExecution.create({
+      const execution = await prisma.functionExecution.create({
         data: {
           functionId,
           callerAddress,
           inputs,
-          outputs: result.output,
+          outputs: result.output ?? undefined,
           status: result.status,
-          executedAt: new Date(),
+          mode: 'sync',
+          attempts: 1,
+          error: result.error,
+          executionTime: result.durationMs,
+          executedAt,
+          completedAt: new Date(),
         },
       });
 
@@ -188,7 +409,21 @@ router.post('/execute-function/:functionId',
         },
       });
 
-      res.json(result);
+      if (outputViolations.length > 0) {
+        return sendProblem(req, res, {
+          type: 'invalid-function-output',
+          title: 'Function output does not match outputSchema',
+          status: 502,
+          detail: `${outputViolations.length} output validation error(s)`,
+          executionId: execution.id,
+          errors: outputViolations,
+        });
+      }
+
+      res.status(result.status === 'success' ? 200 : 502).json({
+        executionId: execution.id,
+        ...result,
+      });
     } catch (error) {
       console.error('Error executing function:', error);
       res.status(500).json({ error: 'Failed to execute function' });
@@ -196,37 +431,78 @@ router.post('/execute-function/:functionId',
   }
 );
 
+// Get a single execution (used to poll async executions)
+router.get('/executions/:executionId',
+  [
+    param('executionId').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const execution = await prisma.functionExecution.findUnique({
+        where: { id: req.params.executionId },
+      });
+
+      if (!execution) {
+        return res.status(404).json({ error: 'Execution not found' });
+      }
+
+      res.json(execution);
+    } catch (error) {
+      console.error('Error fetching execution:', error);
+      res.status(500).json({ error: 'Failed to fetch execution' });
+    }
+  }
+);
+
 // Get function execution history
-router.get('/execution-history/:functionId', async (req, res) => {
-  try {
-    const { functionId } = req.params;
-    const { limit = '20', offset = '0' } = req.query;
-
-    const executions = await prisma.functionExecution.findMany({
-      where: { functionId },
-      take: parseInt(limit as string),
-      skip: parseInt(offset as string),
-      orderBy: { executedAt: 'desc' },
-      include: {
-        caller: {
-          select: {
-            name: true,
-            imageUrl: true,
-            verificationStatus: true,
+router.get('/execution-history/:functionId',
+  [
+    query('status').optional().isIn(EXECUTION_STATES),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { functionId } = req.params;
+      const { limit = '20', offset = '0', status } = req.query;
+
+      const executions = await prisma.functionExecution.findMany({
+        where: {
+          functionId,
+          ...(status && { status: status as string }),
+        },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+        orderBy: { executedAt: 'desc' },
+        include: {
+          caller: {
+            select: {
+              name: true,
+              imageUrl: true,
+              verificationStatus: true,
+            },
           },
         },
-      },
-    });
+      });
 
-    res.json(executions);
-  } catch (error) {
-    console.error('Error fetching execution history:', error);
-    res.status(500).json({ error: 'Failed to fetch execution history' });
+      res.json(executions);
+    } catch (error) {
+      console.error('Error fetching execution history:', error);
+      res.status(500).json({ error: 'Failed to fetch execution history' });
+    }
   }
-});
+);
 
 // Get function analytics
-router.get('/analytics/:functionId', async (req, res) => {
+router.get('/function-analytics/:functionId', async (req, res) => {
   try {
     const { functionId } = req.params;
     const { timeframe = '24h' } = req.query;
@@ -257,6 +533,54 @@ router.get('/analytics/:functionId', async (req, res) => {
   }
 });
 
+// Helper function to check submitted input/output schemas
+function checkSchemas(schemas: { inputSchema?: unknown; outputSchema?: unknown }): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  for (const [field, schema] of Object.entries(schemas)) {
+    if (schema === undefined || schema === null) continue;
+    for (const violation of schemaValidator.checkSchema(schema)) {
+      violations.push({
+        path: `/${field}${violation.path === '/' ? '' : violation.path}`,
+        message: violation.message,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Helper function to reject functions with unusable schemas
+function sendInvalidSchemaProblem(req: express.Request, res: express.Response, violations: SchemaViolation[]) {
+  return sendProblem(req, res, {
+    type: 'invalid-function-schema',
+    title: 'Function schema is not a valid JSON Schema',
+    status: 400,
+    detail: `${violations.length} schema error(s)`,
+    errors: violations,
+  });
+}
+
+// Helper function to load a function for chained and queued execution
+async function loadFunctionDefinition(functionId: string): Promise<StoredFunction | null> {
+  const agentFunction = await prisma.agentFunction.findUnique({
+    where: { id: functionId },
+  });
+  return agentFunction ? toDefinition(agentFunction) : null;
+}
+
+// Helper function to map a stored function to an executable definition
+function toDefinition(agentFunction: any): StoredFunction {
+  return {
+    id: agentFunction.id,
+    agentAddress: agentFunction.agentAddress,
+    functionName: agentFunction.functionName,
+    kind: agentFunction.kind as FunctionKind,
+    handler: (agentFunction.handler || {}) as Record<string, any>,
+    outputSchema: agentFunction.outputSchema as object | null,
+  };
+}
+
 // Helper function to get start time based on timeframe
 function getStartTime(timeframe: string): Date {
   const now = new Date();
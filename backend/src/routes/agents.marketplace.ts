@@ -1,13 +1,54 @@
 import express from 'express';
-import { body, query, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { body, param, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { parseEther } from 'ethers';
+import { config } from '../config';
+import { JsonRpcEthereumProvider } from '../services/payments/ethereum-rpc-provider';
+import { PaymentVerifier } from '../services/payments/payment-verifier';
+import { claimPayment, isPaymentClaimed } from '../services/payments/payment-claims';
+import {
+  ACTIVE_ESCROW_STATUSES,
+  EscrowEvent,
+  EscrowStatus,
+  nextEscrowStatus,
+} from '../services/marketplace/escrow-state-machine';
+import {
+  MarketplaceAuthorization,
+  SignatureScheme,
+  verifyMarketplaceSignature,
+} from '../services/marketplace/marketplace-signatures';
+import { consumeMarketplaceNonces, recordMarketplaceNonce } from '../services/marketplace/marketplace-nonces';
+import { OPEN_TRANSFER_STATUSES } from '../services/transfers/transfer-request-state';
+import { agentResource, can, walletSubject } from '../services/auth/policy';
+import { detectWalletChain, normalizeWalletAddress } from '../utils/wallet-signatures';
+import { AppError } from '../utils/errors';
+import logger from '../utils/logger';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
-// Initialize Solana connection
-const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+const SIGNATURE_SCHEMES: SignatureScheme[] = ['personal', 'eip712'];
+
+// Prices are signed and converted to wei as decimal strings, never floats
+const ETHER_AMOUNT = /^\d+(\.\d{1,18})?$/;
+
+let escrowPaymentVerifier: PaymentVerifier | null = null;
+
+// Created on first use so the router can load without an escrow address
+function getEscrowPaymentVerifier(): PaymentVerifier {
+  if (!escrowPaymentVerifier) {
+    escrowPaymentVerifier = new PaymentVerifier(
+      new JsonRpcEthereumProvider(config.payments.ethRpcUrl),
+      {
+        recipientAddress: config.marketplace.escrowAddress,
+        amountWei: BigInt(0),
+        minConfirmations: config.payments.minConfirmations,
+      }
+    );
+  }
+  return escrowPaymentVerifier;
+}
 
 // List agents in marketplace
 router.get('/listings',
@@ -18,7 +59,7 @@ router.get('/listings',
     query('order').optional().isIn(['asc', 'desc']),
     query('filter').optional().isObject(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
@@ -53,7 +94,7 @@ router.get('/listings',
       });
 
       res.json({
-        listings,
+        listings: listings.map(toPublicListing),
         pagination: {
           total,
           page,
@@ -72,62 +113,91 @@ router.get('/listings',
 router.post('/listings',
   [
     body('agentAddress').isString().notEmpty(),
-    body('price').isFloat({ min: 0 }),
-    body('duration').isInt({ min: 1 }),
+    body('price').isString().matches(ETHER_AMOUNT),
+    body('duration').isInt({ min: 1 }).toInt(),
     body('seller').isString().notEmpty(),
+    body('nonce').isString().notEmpty(),
+    body('expiresAt').isInt({ min: 1 }).toInt(),
     body('signature').isString().notEmpty(),
+    body('signatureScheme').optional().isIn(SIGNATURE_SCHEMES),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { agentAddress, price, duration, seller, signature } = req.body;
+      const { agentAddress, price, duration, seller, nonce, expiresAt, signature, signatureScheme } = req.body;
 
       // Verify ownership and signature
-      const isVerified = await verifyOwnership(agentAddress, seller, signature);
+      const isVerified = await verifyOwnership(seller, {
+        action: 'list',
+        agentAddress,
+        price,
+        duration,
+        nonce,
+        expiresAt,
+      }, signature, signatureScheme);
       if (!isVerified) {
         return res.status(403).json({ error: 'Not authorized to list this agent' });
       }
 
-      // Create listing
-      const listing = await prisma.agentMetadata.update({
-        where: { agentAddress },
-        data: {
-          isListed: true,
-          listingPrice: price,
-          listingExpiry: new Date(Date.now() + duration * 24 * 60 * 60 * 1000),
-          listingSignature: signature,
-        },
+      const activeEscrow = await findActiveEscrow(agentAddress);
+      if (activeEscrow) {
+        return res.status(409).json({ error: 'Agent has an escrow in progress' });
+      }
+
+      // Create listing, spending its nonce
+      const listing = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const listingNonceId = await recordMarketplaceNonce(tx, seller, nonce, 'list');
+        return tx.agentMetadata.update({
+          where: { agentAddress },
+          data: {
+            isListed: true,
+            listingPrice: parseFloat(price),
+            listingExpiry: new Date(Date.now() + duration * 24 * 60 * 60 * 1000),
+            listingSignature: signature,
+            listingNonceId,
+          },
+        });
       });
 
-      res.json(listing);
+      res.json(toPublicListing(listing));
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error('Error creating marketplace listing:', error);
       res.status(500).json({ error: 'Failed to create marketplace listing' });
     }
   }
 );
 
-// Purchase agent from marketplace
-router.post('/purchase',
+// Make a signed offer on a listed agent
+router.post('/offers',
   [
     body('agentAddress').isString().notEmpty(),
     body('buyer').isString().notEmpty(),
-    body('paymentTx').isString().notEmpty(),
+    body('price').isString().matches(ETHER_AMOUNT),
+    body('nonce').isString().notEmpty(),
+    body('expiresAt').isInt({ min: 1 }).toInt(),
+    body('signature').isString().notEmpty(),
+    body('signatureScheme').optional().isIn(SIGNATURE_SCHEMES),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { agentAddress, buyer, paymentTx } = req.body;
+      const { agentAddress, buyer, price, nonce, expiresAt, signature, signatureScheme } = req.body;
+
+      if (detectWalletChain(buyer) !== 'ethereum') {
+        return res.status(400).json({ error: 'Offers must be made from the ETH wallet that will pay' });
+      }
 
-      // Get the listing
       const agent = await prisma.agentMetadata.findUnique({
         where: { agentAddress },
       });
@@ -140,41 +210,373 @@ router.post('/purchase',
         return res.status(400).json({ error: 'Listing has expired' });
       }
 
-      // Verify payment
-      const paymentVerified = await verifyPayment(paymentTx, agent.listingPrice || 0);
-      if (!paymentVerified) {
-        return res.status(400).json({ error: 'Invalid payment' });
+      if (normalizeWalletAddress(agent.creator) === normalizeWalletAddress(buyer)) {
+        return res.status(400).json({ error: 'Cannot buy your own agent' });
       }
 
-      // Process purchase
-      const purchase = await prisma.agentMetadata.update({
-        where: { agentAddress },
-        data: {
-          isListed: false,
-          listingPrice: null,
-          listingExpiry: null,
-          listingSignature: null,
-          creator: buyer,
-          transferHistory: {
-            create: {
-              fromAddress: agent.creator,
-              toAddress: buyer,
-              transactionHash: paymentTx,
-              timestamp: new Date(),
-              price: agent.listingPrice,
+      if (parseFloat(price) < (agent.listingPrice || 0)) {
+        return res.status(400).json({ error: 'Offer is below the listing price' });
+      }
+
+      const authorization: MarketplaceAuthorization = {
+        action: 'offer',
+        agentAddress,
+        price,
+        duration: 0,
+        nonce,
+        expiresAt,
+      };
+      if (!verifyMarketplaceSignature(buyer, authorization, signature, signatureScheme)) {
+        return res.status(403).json({ error: 'Invalid offer signature' });
+      }
+
+      const activeEscrow = await findActiveEscrow(agentAddress);
+      if (activeEscrow) {
+        return res.status(409).json({ error: 'Agent has an escrow in progress' });
+      }
+
+      const openTransfer = await prisma.transferRequest.findFirst({
+        where: {
+          agentAddress,
+          status: { in: OPEN_TRANSFER_STATUSES },
+          expiresAt: { gt: new Date() },
+        },
+      });
+      if (openTransfer) {
+        return res.status(409).json({ error: 'Agent has a pending ownership transfer' });
+      }
+
+      const escrow = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const offerNonceId = await recordMarketplaceNonce(tx, buyer, nonce, 'offer');
+        return tx.marketplaceEscrow.create({
+          data: {
+            agentAddress,
+            seller: agent.creator,
+            buyer,
+            price: parseFloat(price),
+            priceWei: parseEther(price).toString(),
+            status: 'OFFERED',
+            offerSignature: signature,
+            listingNonceId: agent.listingNonceId,
+            offerNonceId,
+            expiresAt: new Date(Date.now() + config.marketplace.offerTimeoutMs),
+            history: {
+              create: {
+                toStatus: 'OFFERED',
+                actor: buyer,
+                reason: 'Offer made',
+              },
             },
           },
+          include: { history: true },
+        });
+      });
+
+      res.status(201).json(escrow);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error creating marketplace offer:', error);
+      res.status(500).json({ error: 'Failed to create offer' });
+    }
+  }
+);
+
+// Get escrow state and history
+router.get('/escrows/:escrowId',
+  [
+    param('escrowId').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const escrow = await prisma.marketplaceEscrow.findUnique({
+        where: { id: req.params.escrowId },
+        include: {
+          history: {
+            orderBy: { timestamp: 'asc' },
+          },
         },
       });
 
-      res.json(purchase);
+      if (!escrow) {
+        return res.status(404).json({ error: 'Escrow not found' });
+      }
+
+      res.json(escrow);
+    } catch (error) {
+      console.error('Error fetching escrow:', error);
+      res.status(500).json({ error: 'Failed to fetch escrow' });
+    }
+  }
+);
+
+// Submit the buyer's payment into escrow
+router.post('/escrows/:escrowId/payment',
+  [
+    param('escrowId').isString().notEmpty(),
+    body('paymentTx').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { escrowId } = req.params;
+      const { paymentTx } = req.body;
+
+      const escrow = await prisma.marketplaceEscrow.findUnique({
+        where: { id: escrowId },
+      });
+
+      if (!escrow) {
+        return res.status(404).json({ error: 'Escrow not found' });
+      }
+
+      if (escrow.expiresAt < new Date()) {
+        return res.status(400).json({ error: 'Escrow has expired' });
+      }
+
+      if (await isPaymentClaimed(prisma, paymentTx)) {
+        return res.status(400).json({ error: 'Payment transaction already used' });
+      }
+
+      // Check the state first so we don't hit the chain for a dead escrow
+      nextEscrowStatus(escrow.status as EscrowStatus, 'PAYMENT_CONFIRMED');
+
+      const verdict = await getEscrowPaymentVerifier().verify(paymentTx, {
+        expectedPayer: escrow.buyer,
+        amountWei: BigInt(escrow.priceWei),
+      });
+
+      if (!verdict.verified) {
+        return res.status(400).json({ error: 'Payment verification failed', verdict });
+      }
+
+      const updated = await transitionEscrow(escrow.id, 'PAYMENT_CONFIRMED', escrow.buyer, 'Payment confirmed on chain', {
+        paymentTx,
+        expiresAt: new Date(Date.now() + config.marketplace.settlementTimeoutMs),
+      }, async (tx) => {
+        await claimPayment(tx, paymentTx, 'escrow', escrow.buyer);
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error('Error processing marketplace purchase:', error);
-      res.status(500).json({ error: 'Failed to process purchase' });
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error confirming escrow payment:', error);
+      res.status(500).json({ error: 'Failed to confirm escrow payment' });
     }
   }
 );
 
+// Seller releases the agent to the buyer once funds are in escrow
+router.post('/escrows/:escrowId/settle',
+  [
+    param('escrowId').isString().notEmpty(),
+    body('expiresAt').isInt({ min: 1 }).toInt(),
+    body('signature').isString().notEmpty(),
+    body('signatureScheme').optional().isIn(SIGNATURE_SCHEMES),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { escrowId } = req.params;
+      const { expiresAt, signature, signatureScheme } = req.body;
+
+      const escrow = await prisma.marketplaceEscrow.findUnique({
+        where: { id: escrowId },
+      });
+
+      if (!escrow) {
+        return res.status(404).json({ error: 'Escrow not found' });
+      }
+
+      if (escrow.expiresAt < new Date()) {
+        return res.status(400).json({ error: 'Escrow has expired' });
+      }
+
+      const isVerified = await verifyOwnership(escrow.seller, {
+        action: 'settle',
+        agentAddress: escrow.agentAddress,
+        price: String(escrow.price),
+        duration: 0,
+        nonce: escrow.id,
+        expiresAt,
+      }, signature, signatureScheme);
+      if (!isVerified) {
+        return res.status(403).json({ error: 'Invalid settlement signature' });
+      }
+
+      const settled = await transitionEscrow(escrow.id, 'SETTLE', escrow.seller, 'Seller released agent', {
+        settlementSignature: signature,
+      }, async (tx) => {
+        // The listing and offer behind this sale cannot back another one
+        await consumeMarketplaceNonces(
+          tx,
+          escrow.listingNonceId ? [escrow.listingNonceId, escrow.offerNonceId] : [escrow.offerNonceId]
+        );
+
+        // Ownership only moves together with the settled escrow, and only
+        // from a seller who still owns the agent
+        const { count } = await tx.agentMetadata.updateMany({
+          where: {
+            agentAddress: escrow.agentAddress,
+            creator: escrow.seller,
+          },
+          data: {
+            isListed: false,
+            listingPrice: null,
+            listingExpiry: null,
+            listingSignature: null,
+            listingNonceId: null,
+            creator: escrow.buyer,
+          },
+        });
+        if (count === 0) {
+          throw new AppError(409, 'Agent is no longer owned by the seller');
+        }
+
+        await tx.transferHistory.create({
+          data: {
+            agentAddress: escrow.agentAddress,
+            fromAddress: escrow.seller,
+            toAddress: escrow.buyer,
+            // Only an escrowed sale can settle, so the payment is on record
+            transactionHash: escrow.paymentTx!,
+            timestamp: new Date(),
+            price: escrow.price,
+          },
+        });
+      });
+
+      res.json(settled);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error settling escrow:', error);
+      res.status(500).json({ error: 'Failed to settle escrow' });
+    }
+  }
+);
+
+// Cancel an unpaid offer (buyer or seller) or refund a funded escrow (seller)
+router.post('/escrows/:escrowId/cancel',
+  [
+    param('escrowId').isString().notEmpty(),
+    body('actor').isString().notEmpty(),
+    body('expiresAt').isInt({ min: 1 }).toInt(),
+    body('signature').isString().notEmpty(),
+    body('signatureScheme').optional().isIn(SIGNATURE_SCHEMES),
+    body('reason').optional().isString(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { escrowId } = req.params;
+      const { actor, expiresAt, signature, signatureScheme, reason } = req.body;
+
+      const escrow = await prisma.marketplaceEscrow.findUnique({
+        where: { id: escrowId },
+      });
+
+      if (!escrow) {
+        return res.status(404).json({ error: 'Escrow not found' });
+      }
+
+      const event: EscrowEvent = escrow.status === 'ESCROWED' ? 'REFUND' : 'CANCEL';
+      const allowedActors = event === 'REFUND' ? [escrow.seller] : [escrow.seller, escrow.buyer];
+      if (!allowedActors.includes(actor)) {
+        return res.status(403).json({ error: 'Not a party allowed to cancel this escrow' });
+      }
+
+      const authorization: MarketplaceAuthorization = {
+        action: event === 'REFUND' ? 'refund' : 'cancel',
+        agentAddress: escrow.agentAddress,
+        price: String(escrow.price),
+        duration: 0,
+        nonce: escrow.id,
+        expiresAt,
+      };
+      if (!verifyMarketplaceSignature(actor, authorization, signature, signatureScheme)) {
+        return res.status(403).json({ error: 'Invalid cancellation signature' });
+      }
+
+      const updated = await transitionEscrow(
+        escrow.id,
+        event,
+        actor,
+        reason || (event === 'REFUND' ? 'Seller declined sale' : 'Offer cancelled')
+      );
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error cancelling escrow:', error);
+      res.status(500).json({ error: 'Failed to cancel escrow' });
+    }
+  }
+);
+
+/**
+ * Expire unpaid offers and refund funded escrows whose settlement window
+ * has passed. Refund payouts are made by the escrow operator from the
+ * REFUNDED history entries.
+ */
+export async function expireStaleEscrows(): Promise<number> {
+  const stale = await prisma.marketplaceEscrow.findMany({
+    where: {
+      status: { in: ACTIVE_ESCROW_STATUSES },
+      expiresAt: { lt: new Date() },
+    },
+  });
+
+  for (const escrow of stale) {
+    try {
+      await transitionEscrow(escrow.id, 'EXPIRE', 'system', 'Escrow timed out');
+    } catch (error) {
+      logger.error(`Failed to expire escrow ${escrow.id}:`, error);
+    }
+  }
+
+  return stale.length;
+}
+
+let escrowSweepTimer: NodeJS.Timeout | null = null;
+
+export function startEscrowSweeper(intervalMs: number = config.marketplace.sweepIntervalMs): void {
+  if (escrowSweepTimer) return;
+  escrowSweepTimer = setInterval(() => {
+    expireStaleEscrows().catch(error => logger.error('Escrow sweep failed:', error));
+  }, intervalMs);
+}
+
+export function stopEscrowSweeper(): void {
+  if (escrowSweepTimer) {
+    clearInterval(escrowSweepTimer);
+    escrowSweepTimer = null;
+  }
+}
+
 // Helper function to build filter query
 function buildFilterQuery(filter: any) {
   const query: any = {};
@@ -215,44 +617,99 @@ function buildSortQuery(sortBy: string, order: 'asc' | 'desc') {
   }
 }
 
-// Helper function to verify ownership
-async function verifyOwnership(agentAddress: string, seller: string, signature: string): Promise<boolean> {
+// Helper function to keep the seller's signature out of public listings
+function toPublicListing<T extends { listingSignature: string | null }>(listing: T): Omit<T, 'listingSignature'> {
+  const { listingSignature, ...rest } = listing;
+  return rest;
+}
+
+// Helper function to verify the signer currently owns the agent
+async function verifyOwnership(
+  owner: string,
+  authorization: MarketplaceAuthorization,
+  signature: string,
+  scheme?: SignatureScheme
+): Promise<boolean> {
   try {
     const agent = await prisma.agentMetadata.findUnique({
-      where: { agentAddress },
+      where: { agentAddress: authorization.agentAddress },
     });
 
-    if (!agent || agent.creator !== seller) {
+    // Listing needs agent:list; settling hands the agent over, so agent:transfer
+    const permission = authorization.action === 'list' ? 'agent:list' : 'agent:transfer';
+    if (!agent || !can(walletSubject(owner), permission, agentResource(agent))) {
       return false;
     }
 
-    // TODO: Implement proper signature verification
-    // 1. Verify the signature is valid for the agent address
-    // 2. Verify the signer is the current owner
-
-    return true;
+    return verifyMarketplaceSignature(owner, authorization, signature, scheme);
   } catch (error) {
     console.error('Error verifying ownership:', error);
     return false;
   }
 }
 
-// Helper function to verify payment
-async function verifyPayment(txHash: string, price: number): Promise<boolean> {
-  try {
-    const tx = await connection.getTransaction(txHash);
-    if (!tx) return false;
+// Helper function to find an in-flight escrow for an agent
+async function findActiveEscrow(agentAddress: string) {
+  return prisma.marketplaceEscrow.findFirst({
+    where: {
+      agentAddress,
+      status: { in: ACTIVE_ESCROW_STATUSES },
+    },
+  });
+}
 
-    // TODO: Implement proper payment verification
-    // 1. Verify the payment amount matches the listing price
-    // 2. Verify the payment recipient is correct
-    // 3. Verify the transaction is confirmed
+// Helper function to move an escrow to its next state and record the step.
+// The status guard in the update makes concurrent transitions lose cleanly.
+async function transitionEscrow(
+  escrowId: string,
+  event: EscrowEvent,
+  actor: string,
+  reason: string,
+  data: Record<string, any> = {},
+  sideEffects?: (tx: Prisma.TransactionClient) => Promise<void>
+) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const escrow = await tx.marketplaceEscrow.findUnique({
+      where: { id: escrowId },
+    });
+    if (!escrow) {
+      throw new AppError(404, 'Escrow not found');
+    }
+    const fromStatus = escrow.status as EscrowStatus;
+    const toStatus = nextEscrowStatus(fromStatus, event);
 
-    return true;
-  } catch (error) {
-    console.error('Error verifying payment:', error);
-    return false;
-  }
+    const { count } = await tx.marketplaceEscrow.updateMany({
+      where: { id: escrowId, status: fromStatus },
+      data: { ...data, status: toStatus },
+    });
+    if (count === 0) {
+      throw new AppError(409, 'Escrow changed concurrently, please retry');
+    }
+
+    await tx.escrowHistory.create({
+      data: {
+        escrowId,
+        fromStatus,
+        toStatus,
+        actor,
+        reason,
+        transactionHash: data.paymentTx,
+      },
+    });
+
+    if (sideEffects) {
+      await sideEffects(tx);
+    }
+
+    return tx.marketplaceEscrow.findUnique({
+      where: { id: escrowId },
+      include: {
+        history: {
+          orderBy: { timestamp: 'asc' },
+        },
+      },
+    });
+  });
 }
 
 export default router;
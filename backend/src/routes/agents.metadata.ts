@@ -1,12 +1,16 @@
 import express from 'express';
 import { body, param, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { requirePermission } from '../middleware/auth';
+import { agentAt } from '../middleware/policy-resources';
+import { AGENT_METADATA_FIELDS, pickFields } from '../utils/editable-fields';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
-// Update agent metadata
+// Update agent metadata (owner, delegate or admin)
 router.patch('/metadata/:agentAddress',
+  requirePermission('agent:update', agentAt(prisma, req => req.params.agentAddress)),
   [
     param('agentAddress').isString().notEmpty(),
     body('name').optional().isString(),
@@ -16,7 +20,7 @@ router.patch('/metadata/:agentAddress',
     body('externalUrl').optional().isURL(),
     body('attributes').optional().isArray(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -24,7 +28,7 @@ router.patch('/metadata/:agentAddress',
       }
 
       const { agentAddress } = req.params;
-      const updateData = req.body;
+      const updateData = pickFields(req.body, AGENT_METADATA_FIELDS);
 
       // Verify the agent exists
       const agent = await prisma.agentMetadata.findUnique({
@@ -75,7 +79,7 @@ router.get('/metadata-history/:agentAddress',
   [
     param('agentAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -107,7 +111,7 @@ router.post('/metadata-validation',
     body('externalUrl').optional().isURL(),
     body('attributes').optional().isArray(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
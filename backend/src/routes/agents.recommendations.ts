@@ -1,9 +1,9 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
 // Get personalized recommendations
 router.get('/:userAddress/recommendations', async (req, res) => {
@@ -123,7 +123,7 @@ router.post('/interaction',
     body('interactionType').isString().notEmpty(),
     body('metadata').optional().isObject(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -210,12 +210,12 @@ function analyzeUserPreferences(history: any[]) {
 // Helper function to get recommendations
 async function getRecommendations(userAddress: string, preferences: any, limit: number) {
   // Get top categories and tags
-  const topCategories = Array.from(preferences.categories.entries())
+  const topCategories = Array.from<[string, number]>(preferences.categories.entries())
     .sort((a, b) => b[1] - a[1])
     .slice(0, 3)
     .map(([category]) => category);
 
-  const topTags = Array.from(preferences.tags.entries())
+  const topTags = Array.from<[string, number]>(preferences.tags.entries())
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5)
     .map(([tag]) => tag);
@@ -1,9 +1,9 @@
 import express from 'express';
 import { query, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
 // Advanced search endpoint
 router.get('/search',
@@ -21,7 +21,7 @@ router.get('/search',
     query('page').optional().isInt({ min: 1 }).toInt(),
     query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -43,7 +43,7 @@ router.get('/search',
         limit = 20,
       } = req.query;
 
-      const skip = (page - 1) * limit;
+      const skip = (Number(page) - 1) * Number(limit);
 
       // Build the where clause
       const where: any = {};
@@ -120,7 +120,7 @@ router.get('/search',
           where,
           orderBy,
           skip,
-          take: limit,
+          take: Number(limit),
           include: {
             analytics: true,
             functions: {
@@ -149,7 +149,7 @@ router.get('/search',
       });
 
       const uniqueTags = Array.from(
-        new Set(relatedTags.flatMap(agent => agent.tags))
+        new Set(relatedTags.flatMap((agent: { tags: string[] }) => agent.tags))
       ).slice(0, 10);
 
       res.json({
@@ -158,7 +158,7 @@ router.get('/search',
           total,
           page,
           limit,
-          pages: Math.ceil(total / limit),
+          pages: Math.ceil(total / Number(limit)),
         },
         refinements: {
           tags: uniqueTags,
@@ -177,7 +177,7 @@ router.get('/search/suggestions',
     query('q').isString().notEmpty(),
     query('limit').optional().isInt({ min: 1, max: 10 }).toInt(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const { q, limit = 5 } = req.query;
 
@@ -193,7 +193,7 @@ router.get('/search/suggestions',
           symbol: true,
           verificationStatus: true,
         },
-        take: limit,
+        take: Number(limit),
       });
 
       res.json(suggestions);
@@ -237,7 +237,7 @@ router.post('/search/record',
   [
     query('q').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const { q } = req.query;
 
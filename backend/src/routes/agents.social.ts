@@ -1,9 +1,9 @@
 import express from 'express';
 import { body, query, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
 // Follow an agent
 router.post('/follow',
@@ -11,7 +11,7 @@ router.post('/follow',
     body('agentAddress').isString().notEmpty(),
     body('followerAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -52,7 +52,7 @@ router.delete('/follow',
     body('agentAddress').isString().notEmpty(),
     body('followerAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -94,7 +94,7 @@ router.get('/:agentAddress/followers',
     query('page').optional().isInt({ min: 1 }).toInt(),
     query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const { agentAddress } = req.params;
       const page = parseInt(req.query.page as string) || 1;
@@ -144,7 +144,7 @@ router.get('/:agentAddress/feed',
     query('page').optional().isInt({ min: 1 }).toInt(),
     query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const { agentAddress } = req.params;
       const page = parseInt(req.query.page as string) || 1;
@@ -195,7 +195,7 @@ router.post('/comment',
     body('commenterAddress').isString().notEmpty(),
     body('content').isString().notEmpty().trim(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -250,7 +250,7 @@ router.get('/:agentAddress/comments',
     query('page').optional().isInt({ min: 1 }).toInt(),
     query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const { agentAddress } = req.params;
       const page = parseInt(req.query.page as string) || 1;
@@ -1,34 +1,58 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
-import { Token } from '@solana/spl-token';
+import { body, param, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { config } from '../config';
+import { JsonRpcSolanaProvider } from '../services/transfers/solana-rpc-provider';
+import { TransferVerifier } from '../services/transfers/transfer-verifier';
+import {
+  buildTransferMessage,
+  nextTransferStatus,
+  OPEN_TRANSFER_STATUSES,
+  TransferAuthorization,
+  TransferRequestEvent,
+  TransferRequestStatus,
+} from '../services/transfers/transfer-request-state';
+import { ACTIVE_ESCROW_STATUSES } from '../services/marketplace/escrow-state-machine';
+import { verifyWalletMessage } from '../utils/wallet-signatures';
+import { agentResource, can, walletSubject } from '../services/auth/policy';
+import { AppError } from '../utils/errors';
+import logger from '../utils/logger';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
-// Initialize Solana connection
-const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+// Unique constraint violation
+const PRISMA_UNIQUE_VIOLATION = 'P2002';
 
-// Transfer agent ownership
-router.post('/transfer/:agentAddress',
+const transferVerifier = new TransferVerifier(
+  new JsonRpcSolanaProvider(config.transfers.solanaRpcUrl),
+  { commitment: config.transfers.commitment }
+);
+
+// Owner initiates a transfer to a recipient
+router.post('/transfer-requests',
   [
-    param('agentAddress').isString().notEmpty(),
-    body('currentOwner').isString().notEmpty(),
-    body('newOwner').isString().notEmpty(),
+    body('agentAddress').isString().notEmpty(),
+    body('fromAddress').isString().notEmpty(),
+    body('toAddress').isString().notEmpty(),
+    body('nonce').isString().notEmpty(),
     body('signature').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { agentAddress } = req.params;
-      const { currentOwner, newOwner, signature } = req.body;
+      const { agentAddress, fromAddress, toAddress, nonce, signature } = req.body;
 
-      // Verify the agent exists and is owned by the current owner
+      if (fromAddress === toAddress) {
+        return res.status(400).json({ error: 'Cannot transfer an agent to its current owner' });
+      }
+
+      // Verify the agent exists and is owned by the initiator
       const agent = await prisma.agentMetadata.findUnique({
         where: { agentAddress },
       });
@@ -37,39 +61,284 @@ router.post('/transfer/:agentAddress',
         return res.status(404).json({ error: 'Agent not found' });
       }
 
-      if (agent.creator !== currentOwner) {
+      if (!can(walletSubject(fromAddress), 'agent:transfer', agentResource(agent))) {
         return res.status(403).json({ error: 'Not authorized to transfer this agent' });
       }
 
-      // Verify the transfer transaction signature
-      const tx = await connection.getTransaction(signature);
-      if (!tx) {
-        return res.status(400).json({ error: 'Invalid transfer transaction' });
+      const message = buildTransferMessage({ action: 'initiate', agentAddress, fromAddress, toAddress, nonce });
+      if (!verifyWalletMessage(fromAddress, message, signature)) {
+        return res.status(403).json({ error: 'Invalid owner signature' });
       }
 
-      // Update the agent metadata with the new owner
-      const updatedAgent = await prisma.agentMetadata.update({
-        where: { agentAddress },
+      const [openTransfer, activeEscrow] = await Promise.all([
+        findOpenTransfer(agentAddress),
+        prisma.marketplaceEscrow.findFirst({
+          where: { agentAddress, status: { in: ACTIVE_ESCROW_STATUSES } },
+        }),
+      ]);
+      if (openTransfer) {
+        return res.status(409).json({ error: 'Pending transfer exists', requestId: openTransfer.id });
+      }
+      if (activeEscrow) {
+        return res.status(409).json({ error: 'Agent has a marketplace escrow in progress' });
+      }
+
+      const reused = await prisma.transferRequest.findFirst({
+        where: { fromAddress, initiatorNonce: nonce },
+      });
+      if (reused) {
+        return res.status(409).json({ error: 'Nonce already used' });
+      }
+
+      // The unique (fromAddress, initiatorNonce) key also stops concurrent replays
+      const transferRequest = await prisma.transferRequest.create({
         data: {
-          creator: newOwner,
-          transferHistory: {
-            create: {
-              fromAddress: currentOwner,
-              toAddress: newOwner,
-              transactionHash: signature,
-              timestamp: new Date(),
-            },
-          },
+          agentAddress,
+          fromAddress,
+          toAddress,
+          status: 'PENDING',
+          initiatorSignature: signature,
+          initiatorNonce: nonce,
+          expiresAt: new Date(Date.now() + config.transfers.requestTtlMs),
         },
-        include: {
-          transferHistory: true,
+      });
+
+      res.status(201).json(transferRequest);
+    } catch (error: any) {
+      if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+        return res.status(409).json({ error: 'Nonce already used' });
+      }
+      logger.error('Error creating transfer request:', error);
+      res.status(500).json({ error: 'Failed to create transfer request' });
+    }
+  }
+);
+
+// List transfer requests for an agent or a wallet
+router.get('/transfer-requests',
+  [
+    query('agentAddress').optional().isString(),
+    query('address').optional().isString(),
+    query('status').optional().isIn(['PENDING', 'ACCEPTED', 'COMPLETED', 'CANCELLED', 'EXPIRED']),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { agentAddress, address, status } = req.query;
+
+      const requests = await prisma.transferRequest.findMany({
+        where: {
+          ...(agentAddress && { agentAddress }),
+          ...(status && { status }),
+          ...(address && {
+            OR: [{ fromAddress: address }, { toAddress: address }],
+          }),
         },
+        orderBy: { createdAt: 'desc' },
       });
 
-      res.json(updatedAgent);
+      res.json(requests);
     } catch (error) {
-      console.error('Error transferring agent:', error);
-      res.status(500).json({ error: 'Failed to transfer agent' });
+      logger.error('Error fetching transfer requests:', error);
+      res.status(500).json({ error: 'Failed to fetch transfer requests' });
+    }
+  }
+);
+
+// Get a single transfer request
+router.get('/transfer-requests/:requestId',
+  [
+    param('requestId').isInt(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const transferRequest = await loadTransferRequest(parseInt(req.params.requestId, 10));
+      if (!transferRequest) {
+        return res.status(404).json({ error: 'Transfer request not found' });
+      }
+
+      res.json(transferRequest);
+    } catch (error) {
+      logger.error('Error fetching transfer request:', error);
+      res.status(500).json({ error: 'Failed to fetch transfer request' });
+    }
+  }
+);
+
+// Recipient accepts with a signed message
+router.post('/transfer-requests/:requestId/accept',
+  [
+    param('requestId').isInt(),
+    body('signature').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const transferRequest = await loadTransferRequest(parseInt(req.params.requestId, 10));
+      if (!transferRequest) {
+        return res.status(404).json({ error: 'Transfer request not found' });
+      }
+
+      const { signature } = req.body;
+      const message = buildTransferMessage(authorizationFor('accept', transferRequest));
+      if (!verifyWalletMessage(transferRequest.toAddress, message, signature)) {
+        return res.status(403).json({ error: 'Invalid recipient signature' });
+      }
+
+      const updated = await transitionTransferRequest(transferRequest.id, 'ACCEPT', {
+        acceptanceSignature: signature,
+        acceptedAt: new Date(),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error accepting transfer request:', error);
+      res.status(500).json({ error: 'Failed to accept transfer request' });
+    }
+  }
+);
+
+// Either side cancels before the transfer completes
+router.post('/transfer-requests/:requestId/cancel',
+  [
+    param('requestId').isInt(),
+    body('actor').isString().notEmpty(),
+    body('signature').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const transferRequest = await loadTransferRequest(parseInt(req.params.requestId, 10));
+      if (!transferRequest) {
+        return res.status(404).json({ error: 'Transfer request not found' });
+      }
+
+      const { actor, signature } = req.body;
+      if (actor !== transferRequest.fromAddress && actor !== transferRequest.toAddress) {
+        return res.status(403).json({ error: 'Not a party to this transfer' });
+      }
+
+      const message = buildTransferMessage(authorizationFor('cancel', transferRequest));
+      if (!verifyWalletMessage(actor, message, signature)) {
+        return res.status(403).json({ error: 'Invalid cancellation signature' });
+      }
+
+      const updated = await transitionTransferRequest(transferRequest.id, 'CANCEL', {
+        cancelledBy: actor,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error cancelling transfer request:', error);
+      res.status(500).json({ error: 'Failed to cancel transfer request' });
+    }
+  }
+);
+
+// Record ownership once the on-chain transfer is confirmed
+router.post('/transfer-requests/:requestId/confirm',
+  [
+    param('requestId').isInt(),
+    body('transactionSignature').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const transferRequest = await loadTransferRequest(parseInt(req.params.requestId, 10));
+      if (!transferRequest) {
+        return res.status(404).json({ error: 'Transfer request not found' });
+      }
+
+      const { transactionSignature } = req.body;
+
+      // Check the state first so we don't hit the chain for a dead request
+      nextTransferStatus(transferRequest.status as TransferRequestStatus, 'CONFIRM');
+
+      const reused = await prisma.transferHistory.findFirst({
+        where: { transactionHash: transactionSignature },
+      });
+      if (reused) {
+        return res.status(400).json({ error: 'Transfer transaction already used' });
+      }
+
+      const verdict = await transferVerifier.verify(transactionSignature, {
+        mint: transferRequest.agentAddress,
+        fromAddress: transferRequest.fromAddress,
+        toAddress: transferRequest.toAddress,
+      });
+
+      if (!verdict.verified) {
+        return res.status(400).json({ error: 'Transfer verification failed', verdict });
+      }
+
+      const completed = await transitionTransferRequest(transferRequest.id, 'CONFIRM', {
+        transactionSignature,
+        completedAt: new Date(),
+      }, async (tx) => {
+        // The owner may have changed through another path since acceptance
+        const { count } = await tx.agentMetadata.updateMany({
+          where: {
+            agentAddress: transferRequest.agentAddress,
+            creator: transferRequest.fromAddress,
+          },
+          data: {
+            creator: transferRequest.toAddress,
+            isListed: false,
+            listingPrice: null,
+            listingExpiry: null,
+            listingSignature: null,
+            listingNonceId: null,
+          },
+        });
+        if (count === 0) {
+          throw new AppError(409, 'Agent is no longer owned by the sender');
+        }
+
+        await tx.transferHistory.create({
+          data: {
+            agentAddress: transferRequest.agentAddress,
+            fromAddress: transferRequest.fromAddress,
+            toAddress: transferRequest.toAddress,
+            transactionHash: transactionSignature,
+            timestamp: new Date(),
+          },
+        });
+      });
+
+      res.json({ ...completed, verdict });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error confirming transfer:', error);
+      res.status(500).json({ error: 'Failed to confirm transfer' });
     }
   }
 );
@@ -79,7 +348,7 @@ router.get('/transfer-history/:agentAddress',
   [
     param('agentAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -95,7 +364,7 @@ router.get('/transfer-history/:agentAddress',
 
       res.json(history);
     } catch (error) {
-      console.error('Error fetching transfer history:', error);
+      logger.error('Error fetching transfer history:', error);
       res.status(500).json({ error: 'Failed to fetch transfer history' });
     }
   }
@@ -107,7 +376,7 @@ router.get('/transfer-eligibility/:agentAddress',
     param('agentAddress').isString().notEmpty(),
     body('currentOwner').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -127,28 +396,137 @@ router.get('/transfer-eligibility/:agentAddress',
       }
 
       // Check if there are any pending transfers
-      const pendingTransfer = await prisma.transferRequest.findFirst({
-        where: {
-          agentAddress,
-          status: 'PENDING',
-        },
-      });
+      const pendingTransfer = await findOpenTransfer(agentAddress);
 
-      const isEligible = agent.creator === currentOwner && !pendingTransfer;
+      const mayTransfer = can(walletSubject(currentOwner), 'agent:transfer', agentResource(agent));
+      const isEligible = mayTransfer && !pendingTransfer;
 
       res.json({
         isEligible,
         reason: !isEligible
-          ? agent.creator !== currentOwner
+          ? !mayTransfer
             ? 'Not the current owner'
             : 'Pending transfer exists'
           : null,
       });
     } catch (error) {
-      console.error('Error checking transfer eligibility:', error);
+      logger.error('Error checking transfer eligibility:', error);
       res.status(500).json({ error: 'Failed to check transfer eligibility' });
     }
   }
 );
 
+/**
+ * Expire open transfer requests that were never accepted or never
+ * confirmed on chain before their deadline.
+ */
+export async function expireStaleTransferRequests(): Promise<number> {
+  const stale = await prisma.transferRequest.findMany({
+    where: {
+      status: { in: OPEN_TRANSFER_STATUSES },
+      expiresAt: { lt: new Date() },
+    },
+  });
+
+  for (const transferRequest of stale) {
+    try {
+      await transitionTransferRequest(transferRequest.id, 'EXPIRE');
+    } catch (error) {
+      logger.error(`Failed to expire transfer request ${transferRequest.id}:`, error);
+    }
+  }
+
+  return stale.length;
+}
+
+let transferSweepTimer: NodeJS.Timeout | null = null;
+
+export function startTransferSweeper(intervalMs: number = config.transfers.sweepIntervalMs): void {
+  if (transferSweepTimer) return;
+  transferSweepTimer = setInterval(() => {
+    expireStaleTransferRequests().catch(error => logger.error('Transfer sweep failed:', error));
+  }, intervalMs);
+}
+
+export function stopTransferSweeper(): void {
+  if (transferSweepTimer) {
+    clearInterval(transferSweepTimer);
+    transferSweepTimer = null;
+  }
+}
+
+// Helper function to find an open request for an agent, ignoring ones past their deadline
+async function findOpenTransfer(agentAddress: string) {
+  return prisma.transferRequest.findFirst({
+    where: {
+      agentAddress,
+      status: { in: OPEN_TRANSFER_STATUSES },
+      expiresAt: { gt: new Date() },
+    },
+  });
+}
+
+// Helper function to load a request, expiring it first if its deadline has passed
+async function loadTransferRequest(id: number) {
+  const transferRequest = await prisma.transferRequest.findUnique({
+    where: { id },
+  });
+
+  if (
+    transferRequest &&
+    OPEN_TRANSFER_STATUSES.includes(transferRequest.status as TransferRequestStatus) &&
+    transferRequest.expiresAt < new Date()
+  ) {
+    return transitionTransferRequest(id, 'EXPIRE');
+  }
+
+  return transferRequest;
+}
+
+function authorizationFor(action: 'accept' | 'cancel', transferRequest: any): TransferAuthorization {
+  return {
+    action,
+    agentAddress: transferRequest.agentAddress,
+    fromAddress: transferRequest.fromAddress,
+    toAddress: transferRequest.toAddress,
+    nonce: String(transferRequest.id),
+  };
+}
+
+// Helper function to move a request to its next state. The status guard in
+// the update makes concurrent transitions lose cleanly.
+async function transitionTransferRequest(
+  id: number,
+  event: TransferRequestEvent,
+  data: Record<string, any> = {},
+  sideEffects?: (tx: Prisma.TransactionClient) => Promise<void>
+) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const transferRequest = await tx.transferRequest.findUnique({
+      where: { id },
+    });
+    if (!transferRequest) {
+      throw new AppError(404, 'Transfer request not found');
+    }
+    const fromStatus = transferRequest.status as TransferRequestStatus;
+    const toStatus = nextTransferStatus(fromStatus, event);
+
+    const { count } = await tx.transferRequest.updateMany({
+      where: { id, status: fromStatus },
+      data: { ...data, status: toStatus },
+    });
+    if (count === 0) {
+      throw new AppError(409, 'Transfer request changed concurrently, please retry');
+    }
+
+    if (sideEffects) {
+      await sideEffects(tx);
+    }
+
+    return tx.transferRequest.findUnique({
+      where: { id },
+    });
+  });
+}
+
 export default router;
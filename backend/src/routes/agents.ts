@@ -1,41 +1,84 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { config } from '../config';
+import { JsonRpcEthereumProvider } from '../services/payments/ethereum-rpc-provider';
+import { PaymentVerifier } from '../services/payments/payment-verifier';
+import { claimPayment, isPaymentClaimed } from '../services/payments/payment-claims';
+import { requirePermission } from '../middleware/auth';
+import { AppError } from '../utils/errors';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
+
+let paymentVerifier: PaymentVerifier | null = null;
+
+// Created on first use so the router can load without payment config
+function getPaymentVerifier(): PaymentVerifier {
+  if (!paymentVerifier) {
+    paymentVerifier = new PaymentVerifier(
+      new JsonRpcEthereumProvider(config.payments.ethRpcUrl),
+      {
+        recipientAddress: config.payments.recipientAddress,
+        amountWei: BigInt(config.payments.launchFeeWei),
+        minConfirmations: config.payments.minConfirmations
+      }
+    );
+  }
+  return paymentVerifier;
+}
 
 // Create agent metadata
 router.post('/metadata',
+  requirePermission('agent:create'),
   [
     body('agentAddress').isString().notEmpty(),
     body('name').isString().notEmpty(),
     body('symbol').isString().notEmpty(),
     body('paymentTx').isString().notEmpty(),
     body('creator').isString().notEmpty(),
+    body('payer').optional().isString(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { agentAddress, name, symbol, paymentTx, creator } = req.body;
+      const { agentAddress, name, symbol, paymentTx, creator, payer } = req.body;
 
-      const metadata = await prisma.agentMetadata.create({
-        data: {
-          agentAddress,
-          name,
-          symbol,
-          paymentTx,
-          creator,
-          createdAt: new Date(),
-        },
+      if (await isPaymentClaimed(prisma, paymentTx)) {
+        return res.status(409).json({ error: 'Payment transaction already used' });
+      }
+
+      // Only mint metadata for a real, confirmed launch payment, which the
+      // creator made unless someone else is named as paying for them
+      const verdict = await getPaymentVerifier().verify(paymentTx, { expectedPayer: payer ?? creator });
+      if (!verdict.verified) {
+        return res.status(402).json({ error: 'Payment verification failed', verdict });
+      }
+
+      const metadata = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await claimPayment(tx, paymentTx, 'launch', creator);
+        return tx.agentMetadata.create({
+          data: {
+            agentAddress,
+            name,
+            symbol,
+            paymentTx,
+            creator,
+            createdAt: new Date(),
+          },
+        });
       });
 
       res.status(201).json(metadata);
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error('Error creating agent metadata:', error);
       res.status(500).json({ error: 'Failed to create agent metadata' });
     }
@@ -47,7 +90,7 @@ router.get('/metadata/:agentAddress',
   [
     param('agentAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -79,7 +122,7 @@ router.get('/creator/:creatorAddress',
   [
     param('creatorAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -105,12 +148,23 @@ router.get('/creator/:creatorAddress',
   }
 );
 
+// Where and how much to pay for a launch, so clients pay what
+// verify-payment checks for
+router.get('/launch-fee', (req, res) => {
+  res.json({
+    recipientAddress: config.payments.recipientAddress,
+    amountWei: config.payments.launchFeeWei,
+    minConfirmations: config.payments.minConfirmations
+  });
+});
+
 // Verify payment transaction
 router.get('/verify-payment/:txHash',
   [
     param('txHash').isString().notEmpty(),
+    query('payer').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -118,25 +172,18 @@ router.get('/verify-payment/:txHash',
       }
 
       const { txHash } = req.params;
+      const payer = req.query.payer as string;
 
-      // Check if payment has already been used
-      const existingAgent = await prisma.agentMetadata.findFirst({
-        where: {
-          paymentTx: txHash,
-        },
-      });
-
-      if (existingAgent) {
+      if (await isPaymentClaimed(prisma, txHash)) {
         return res.status(400).json({ error: 'Payment transaction already used' });
       }
 
-      // TODO: Implement actual blockchain verification of the transaction
-      // This should verify:
-      // 1. Transaction exists and is confirmed
-      // 2. Amount is correct (0.006 ETH)
-      // 3. Recipient address is correct
+      const verdict = await getPaymentVerifier().verify(txHash, { expectedPayer: payer });
+      if (!verdict.verified) {
+        return res.status(400).json({ error: 'Payment verification failed', verdict });
+      }
 
-      res.json({ verified: true });
+      res.json(verdict);
     } catch (error) {
       console.error('Error verifying payment:', error);
       res.status(500).json({ error: 'Failed to verify payment' });
@@ -1,18 +1,59 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
-import { PrismaClient, VerificationStatus } from '@prisma/client';
+import { body, param, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
+import { config } from '../config';
+import { AuthenticatedRequest, requirePermission, requireStepUp } from '../middleware/auth';
+import { agentAt } from '../middleware/policy-resources';
+import { getAuditLogger } from '../services/audit/shared-audit-logger';
+import {
+  assertCanClaim,
+  assertHoldsClaim,
+  evaluateReviews,
+  isClaimActive,
+  ReviewDecision,
+  ReviewEvidence,
+  ReviewPolicy,
+} from '../services/verification/verification-review';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
-// Request verification for an agent
+const reviewPolicy: ReviewPolicy = {
+  requiredApprovals: config.verification.requiredApprovals,
+  claimTtlMs: config.verification.claimTtlMs,
+};
+
+interface ReviewRow {
+  reviewerId: string;
+  decision: string;
+  round: number;
+}
+
+// An agent as the review queue loads it
+interface PendingAgentRow {
+  agentAddress: string;
+  name: string;
+  symbol: string;
+  creator: string;
+  createdAt: Date;
+  reviewClaimedBy: string | null;
+  reviewClaimedAt: Date | null;
+  reviewRound: number;
+  verificationReviews: ReviewRow[];
+  verificationHistory: { timestamp: Date }[];
+}
+
+// Request verification for an agent (its owner or an admin)
 router.post('/verify-request/:agentAddress',
+  requirePermission('agent:request_verification', agentAt(prisma, req => req.params.agentAddress)),
   [
     param('agentAddress').isString().notEmpty(),
     body('requestedBy').isString().notEmpty(),
     body('details').optional().isObject(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -43,6 +84,9 @@ router.post('/verify-request/:agentAddress',
         where: { agentAddress },
         data: {
           verificationStatus: 'PENDING',
+          reviewRound: { increment: 1 },
+          reviewClaimedBy: null,
+          reviewClaimedAt: null,
           verificationHistory: {
             create: {
               status: 'PENDING',
@@ -69,15 +113,197 @@ router.post('/verify-request/:agentAddress',
   }
 );
 
-// Update verification status (admin only)
+// Review queue of pending agents (reviewers only)
+router.get('/verify-queue',
+  requirePermission('agent:verify'),
+  requireStepUp(),
+  [
+    query('unclaimed').optional().isBoolean(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const reviewerId = (req as AuthenticatedRequest).user!.id;
+
+      const pending: PendingAgentRow[] = await prisma.agentMetadata.findMany({
+        where: { verificationStatus: 'PENDING' },
+        include: {
+          verificationReviews: true,
+          verificationHistory: {
+            orderBy: {
+              timestamp: 'desc',
+            },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const queue = pending
+        .map(agent => {
+          const reviews = agent.verificationReviews.filter(review => review.round === agent.reviewRound);
+          const claimed = isClaimActive(
+            { claimedBy: agent.reviewClaimedBy, claimedAt: agent.reviewClaimedAt },
+            reviewPolicy
+          );
+
+          return {
+            agentAddress: agent.agentAddress,
+            name: agent.name,
+            symbol: agent.symbol,
+            creator: agent.creator,
+            requestedAt: agent.verificationHistory[0]?.timestamp ?? agent.createdAt,
+            claimedBy: claimed ? agent.reviewClaimedBy : null,
+            claimedAt: claimed ? agent.reviewClaimedAt : null,
+            approvals: reviews.filter(review => review.decision === 'APPROVE').length,
+            requiredApprovals: reviewPolicy.requiredApprovals,
+            reviewedByMe: reviews.some(review => review.reviewerId === reviewerId),
+            reviews,
+          };
+        })
+        .filter(item => req.query.unclaimed !== 'true' || !item.claimedBy);
+
+      res.json(queue);
+    } catch (error) {
+      console.error('Error fetching verification queue:', error);
+      res.status(500).json({ error: 'Failed to fetch verification queue' });
+    }
+  }
+);
+
+// Claim a pending agent for review (reviewers only)
+router.post('/verify-queue/:agentAddress/claim',
+  requirePermission('agent:verify'),
+  requireStepUp(),
+  [
+    param('agentAddress').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { agentAddress } = req.params;
+      const reviewerId = (req as AuthenticatedRequest).user!.id;
+
+      const agent = await loadPendingAgent(agentAddress);
+      const reviews = await currentRoundReviews(agentAddress, agent.reviewRound);
+      assertCanClaim(
+        reviewerId,
+        { claimedBy: agent.reviewClaimedBy, claimedAt: agent.reviewClaimedAt },
+        reviews,
+        reviewPolicy
+      );
+
+      // Only take the claim if nobody else took it since we read it
+      const { count } = await prisma.agentMetadata.updateMany({
+        where: {
+          agentAddress,
+          reviewClaimedBy: agent.reviewClaimedBy,
+          reviewClaimedAt: agent.reviewClaimedAt,
+        },
+        data: {
+          reviewClaimedBy: reviewerId,
+          reviewClaimedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new ConflictError('Review was claimed concurrently, please retry');
+      }
+
+      await getAuditLogger().logEvent({
+        type: 'verification.claim',
+        userId: reviewerId,
+        message: `Verification review of ${agentAddress} claimed`,
+        metadata: { agentAddress, round: agent.reviewRound },
+      });
+
+      res.json({
+        agentAddress,
+        claimedBy: reviewerId,
+        claimExpiresAt: new Date(Date.now() + reviewPolicy.claimTtlMs),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error claiming verification review:', error);
+      res.status(500).json({ error: 'Failed to claim verification review' });
+    }
+  }
+);
+
+// Release a claimed review without deciding (reviewers only)
+router.post('/verify-queue/:agentAddress/release',
+  requirePermission('agent:verify'),
+  requireStepUp(),
+  [
+    param('agentAddress').isString().notEmpty(),
+  ],
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { agentAddress } = req.params;
+      const reviewerId = (req as AuthenticatedRequest).user!.id;
+
+      const agent = await loadPendingAgent(agentAddress);
+      assertHoldsClaim(
+        reviewerId,
+        { claimedBy: agent.reviewClaimedBy, claimedAt: agent.reviewClaimedAt },
+        reviewPolicy
+      );
+
+      await prisma.agentMetadata.updateMany({
+        where: { agentAddress, reviewClaimedBy: reviewerId },
+        data: {
+          reviewClaimedBy: null,
+          reviewClaimedAt: null,
+        },
+      });
+
+      await getAuditLogger().logEvent({
+        type: 'verification.release',
+        userId: reviewerId,
+        message: `Verification review of ${agentAddress} released`,
+        metadata: { agentAddress, round: agent.reviewRound },
+      });
+
+      res.json({ agentAddress, claimedBy: null });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Error releasing verification review:', error);
+      res.status(500).json({ error: 'Failed to release verification review' });
+    }
+  }
+);
+
+// Record a review decision (reviewers only, and the reviewer must hold the claim).
+// REJECTED is final on its own; VERIFIED needs approvals from distinct reviewers.
 router.patch('/verify-status/:agentAddress',
+  requirePermission('agent:verify'),
+  requireStepUp(),
   [
     param('agentAddress').isString().notEmpty(),
     body('status').isIn(['VERIFIED', 'REJECTED']),
-    body('verifiedBy').isString().notEmpty(),
-    body('reason').optional().isString(),
+    body('notes').isString().trim().isLength({ min: 10 }),
+    body('evidence').isArray({ min: 1 }),
+    body('evidence.*.type').isString().notEmpty(),
+    body('evidence.*.description').isString().notEmpty(),
+    body('evidence.*.url').optional().isURL(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -85,36 +311,101 @@ router.patch('/verify-status/:agentAddress',
       }
 
       const { agentAddress } = req.params;
-      const { status, verifiedBy, reason } = req.body;
+      const { status, notes, evidence } = req.body;
+      const reviewerId = (req as AuthenticatedRequest).user!.id;
+      const decision: ReviewDecision = status === 'VERIFIED' ? 'APPROVE' : 'REJECT';
 
-      // TODO: Add admin authorization check here
+      const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const agent = await tx.agentMetadata.findUnique({
+          where: { agentAddress },
+        });
+        if (!agent) {
+          throw new NotFoundError('Agent');
+        }
+        if (agent.verificationStatus !== 'PENDING') {
+          throw new ConflictError(`Agent is ${agent.verificationStatus.toLowerCase()}, not pending review`);
+        }
 
-      const updatedAgent = await prisma.agentMetadata.update({
-        where: { agentAddress },
-        data: {
-          verificationStatus: status as VerificationStatus,
-          verifiedAt: status === 'VERIFIED' ? new Date() : null,
-          verifiedBy: status === 'VERIFIED' ? verifiedBy : null,
-          verificationHistory: {
-            create: {
-              status: status as VerificationStatus,
-              verifiedBy,
-              reason,
+        assertHoldsClaim(
+          reviewerId,
+          { claimedBy: agent.reviewClaimedBy, claimedAt: agent.reviewClaimedAt },
+          reviewPolicy
+        );
+
+        await tx.verificationReview.create({
+          data: {
+            agentAddress,
+            reviewerId,
+            decision,
+            notes,
+            evidence: evidence as ReviewEvidence[],
+            round: agent.reviewRound,
+          },
+        });
+
+        const reviews: ReviewRow[] = await tx.verificationReview.findMany({
+          where: { agentAddress, round: agent.reviewRound },
+        });
+        const outcome = evaluateReviews(
+          reviews.map(review => ({ reviewerId: review.reviewerId, decision: review.decision as ReviewDecision })),
+          reviewPolicy
+        );
+        const approvals = reviews.filter(review => review.decision === 'APPROVE').length;
+
+        const updatedAgent = await tx.agentMetadata.update({
+          where: { agentAddress },
+          data: {
+            // The claim is released either way so the next reviewer can pick it up
+            reviewClaimedBy: null,
+            reviewClaimedAt: null,
+            ...(outcome && {
+              verificationStatus: outcome,
+              verifiedAt: outcome === 'VERIFIED' ? new Date() : null,
+              verifiedBy: outcome === 'VERIFIED' ? reviewerId : null,
+            }),
+            verificationHistory: {
+              create: {
+                status: outcome || 'PENDING',
+                verifiedBy: reviewerId,
+                reason: outcome
+                  ? notes
+                  : `Approved (${approvals}/${reviewPolicy.requiredApprovals}): ${notes}`,
+              },
             },
           },
-        },
-        include: {
-          verificationHistory: {
-            orderBy: {
-              timestamp: 'desc',
+          include: {
+            verificationHistory: {
+              orderBy: {
+                timestamp: 'desc',
+              },
+              take: 1,
             },
-            take: 1,
           },
+        });
+
+        return { updatedAgent, outcome, approvals, round: agent.reviewRound };
+      });
+
+      await getAuditLogger().logEvent({
+        type: 'verification.decision',
+        level: result.outcome === 'VERIFIED' ? 'warning' : 'info',
+        userId: reviewerId,
+        message: `Verification review of ${agentAddress}: ${decision.toLowerCase()}`,
+        metadata: {
+          agentAddress,
+          decision,
+          outcome: result.outcome || 'PENDING',
+          approvals: result.approvals,
+          round: result.round,
+          evidence,
         },
       });
 
-      res.json(updatedAgent);
+      res.json(result.updatedAgent);
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       console.error('Error updating verification status:', error);
       res.status(500).json({ error: 'Failed to update verification status' });
     }
@@ -126,7 +417,7 @@ router.get('/verify-history/:agentAddress',
   [
     param('agentAddress').isString().notEmpty(),
   ],
-  async (req, res) => {
+  async (req: express.Request, res: express.Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -154,7 +445,7 @@ router.get('/verify-history/:agentAddress',
 router.get('/verify-stats',
   async (req, res) => {
     try {
-      const stats = await prisma.agentMetadata.groupBy({
+      const stats: { verificationStatus: string; _count: { agentAddress: number } }[] = await prisma.agentMetadata.groupBy({
         by: ['verificationStatus'],
         _count: {
           agentAddress: true,
@@ -179,4 +470,32 @@ router.get('/verify-stats',
   }
 );
 
+// Helper function to load an agent that is waiting for review
+async function loadPendingAgent(agentAddress: string) {
+  const agent = await prisma.agentMetadata.findUnique({
+    where: { agentAddress },
+  });
+
+  if (!agent) {
+    throw new NotFoundError('Agent');
+  }
+  if (agent.verificationStatus !== 'PENDING') {
+    throw new ConflictError(`Agent is ${agent.verificationStatus.toLowerCase()}, not pending review`);
+  }
+
+  return agent;
+}
+
+// Helper function to fetch the reviews that count towards the current request
+async function currentRoundReviews(agentAddress: string, round: number) {
+  const reviews: ReviewRow[] = await prisma.verificationReview.findMany({
+    where: { agentAddress, round },
+  });
+
+  return reviews.map(review => ({
+    reviewerId: review.reviewerId,
+    decision: review.decision as ReviewDecision,
+  }));
+}
+
 export default router;
@@ -1,9 +1,9 @@
 import express from 'express';
 import { query } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { getPrisma } from '../services/db/shared-prisma';
 
 const router = express.Router();
-const prisma = new PrismaClient();
+const prisma = getPrisma();
 
 // Get overall platform metrics
 router.get('/platform', async (req, res) => {
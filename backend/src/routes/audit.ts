@@ -0,0 +1,205 @@
+import express, { Request, Response } from 'express';
+import { AuthenticatedRequest, requirePermission, requireStepUp } from '../middleware/auth';
+import { SecurityAuditLogger, ChainVerificationResult } from '../services/security-audit-logger';
+import { AuditEventFilter, ChainedAuditEvent } from '../services/audit/audit-store';
+import { AuditLevel } from '../types';
+import logger from '../utils/logger';
+
+const AUDIT_LEVELS: AuditLevel[] = ['info', 'warning', 'critical'];
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const CSV_COLUMNS: (keyof ChainedAuditEvent)[] = [
+  'sequence',
+  'id',
+  'timestamp',
+  'level',
+  'type',
+  'userId',
+  'sessionId',
+  'message',
+  'metadata',
+  'previousHash',
+  'hash'
+];
+
+export function auditRoutes(auditLogger: SecurityAuditLogger) {
+  const router = express.Router();
+
+  router.use(requirePermission('audit:read'), requireStepUp());
+
+  // Page through audit events, oldest first
+  router.get('/events', async (req, res) => {
+    try {
+      const { filter, errors } = parseFilter(req);
+      const afterSequence = decodeCursor(req.query.cursor);
+      const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : DEFAULT_PAGE_SIZE;
+
+      if (afterSequence === null) {
+        errors.push('cursor is invalid');
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        errors.push(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({ errors });
+      }
+
+      // Ask for one extra to know whether another page exists
+      const events = await auditLogger.findEvents(filter, afterSequence ?? undefined, limit + 1);
+      const page = events.slice(0, limit);
+      const hasMore = events.length > limit;
+
+      res.json({
+        events: page,
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1].sequence) : null
+      });
+    } catch (error) {
+      logger.error('Error querying audit events:', error);
+      res.status(500).json({ error: 'Failed to query audit events' });
+    }
+  });
+
+  // Stream matching events as NDJSON or CSV. The chain is verified before
+  // streaming starts and the result is sent in X-Audit-Chain-* headers; the
+  // last NDJSON line repeats it as { "verification": ... }.
+  router.get('/export', async (req, res) => {
+    try {
+      const { filter, errors } = parseFilter(req);
+      const format = String(req.query.format || 'ndjson');
+      if (format !== 'ndjson' && format !== 'csv') {
+        errors.push('format must be ndjson or csv');
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({ errors });
+      }
+
+      const verification = await auditLogger.verifyChain();
+      const authReq = req as AuthenticatedRequest;
+
+      await auditLogger.logEvent({
+        type: 'audit.export',
+        level: verification.valid ? 'info' : 'critical',
+        userId: authReq.user?.id,
+        message: `Audit log exported as ${format}`,
+        metadata: { filter, chainValid: verification.valid, brokenAt: verification.brokenAt }
+      });
+
+      const filename = `audit-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+      res.status(200);
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      setVerificationHeaders(res, verification);
+
+      if (format === 'csv') {
+        await write(res, CSV_COLUMNS.join(',') + '\n');
+      }
+
+      for await (const event of auditLogger.streamEvents(filter)) {
+        // Stop reading the store once the client has gone away
+        if (res.destroyed) return;
+        await write(res, format === 'csv' ? toCsvRow(event) : JSON.stringify(event) + '\n');
+      }
+
+      if (format === 'ndjson') {
+        await write(res, JSON.stringify({ verification }) + '\n');
+      }
+      res.end();
+    } catch (error) {
+      logger.error('Error exporting audit events:', error);
+      if (res.headersSent) {
+        // Cut the stream so the client can tell the export is incomplete
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ error: 'Failed to export audit events' });
+      }
+    }
+  });
+
+  return router;
+}
+
+function parseFilter(req: Request): { filter: AuditEventFilter; errors: string[] } {
+  const errors: string[] = [];
+  const filter: AuditEventFilter = {};
+  const { type, level, userId, sessionId, from, to } = req.query;
+
+  if (type) filter.type = String(type);
+  if (userId) filter.userId = String(userId);
+  if (sessionId) filter.sessionId = String(sessionId);
+
+  if (level) {
+    if (AUDIT_LEVELS.includes(level as AuditLevel)) {
+      filter.level = level as AuditLevel;
+    } else {
+      errors.push(`level must be one of ${AUDIT_LEVELS.join(', ')}`);
+    }
+  }
+
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (!value) continue;
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      errors.push(`${name} must be an ISO 8601 timestamp`);
+    } else if (name === 'from') {
+      filter.startDate = date;
+    } else {
+      filter.endDate = date;
+    }
+  }
+
+  return { filter, errors };
+}
+
+// Cursors are opaque to clients; internally they carry the last sequence seen
+function encodeCursor(sequence: number): string {
+  return Buffer.from(String(sequence), 'utf8').toString('base64url');
+}
+
+function decodeCursor(cursor: unknown): number | undefined | null {
+  if (cursor === undefined || cursor === '') {
+    return undefined;
+  }
+  const sequence = Number(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  return Number.isInteger(sequence) && sequence >= 0 ? sequence : null;
+}
+
+function setVerificationHeaders(res: Response, verification: ChainVerificationResult): void {
+  res.setHeader('X-Audit-Chain-Valid', String(verification.valid));
+  res.setHeader('X-Audit-Chain-Checked', String(verification.checked));
+  if (verification.brokenAt) {
+    res.setHeader('X-Audit-Chain-Broken-At', String(verification.brokenAt.sequence));
+  }
+}
+
+function toCsvRow(event: ChainedAuditEvent): string {
+  return CSV_COLUMNS.map(column => {
+    const value = event[column];
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    return csvEscape(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  }).join(',') + '\n';
+}
+
+function csvEscape(value: string): string {
+  // Keep spreadsheets from evaluating attacker-controlled fields as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function write(res: Response, chunk: string): Promise<void> {
+  return new Promise(resolve => {
+    if (res.write(chunk)) {
+      resolve();
+    } else {
+      // A client that disconnects never drains
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.once('drain', done);
+      res.once('close', done);
+    }
+  });
+}
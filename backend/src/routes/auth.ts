@@ -1,58 +1,401 @@
-import { Router } from 'express';
+import { NextFunction, Request, Response, Router } from 'express';
 import { TokenManager } from '../services/auth/token-manager';
-import { authenticate } from '../middleware/auth';
+import { WalletAuthService } from '../services/auth/wallet-auth-service';
+import { MfaProof, MfaService } from '../services/auth/mfa-service';
+import { LoginAttempt, LoginProtection } from '../services/auth/login-protection';
+import { SessionManager } from '../services/session-manager';
+import { PERMISSIONS, policyEngine } from '../services/auth/policy';
+import {
+  authenticate,
+  authenticateMfaPending,
+  AuthenticatedRequest,
+  interactiveOnly,
+  requireStepUp
+} from '../middleware/auth';
+import { AccountLockedError, AppError, AuthenticationError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
 
-export function authRoutes(tokenManager: TokenManager) {
+export function authRoutes(
+  tokenManager: TokenManager,
+  walletAuthService: WalletAuthService,
+  mfaService: MfaService,
+  loginProtection: LoginProtection,
+  sessionManager: SessionManager
+) {
   const router = Router();
 
-  router.post('/login', async (req, res) => {
+  // Second-factor guesses count toward the login lockouts
+  const guarded = async <T>(attempt: LoginAttempt, check: () => Promise<T>): Promise<T> => {
+    await loginProtection.assertAllowed(attempt);
     try {
-      const { userId, password } = req.body;
+      const result = await check();
+      await loginProtection.recordSuccess(attempt);
+      return result;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        await loginProtection.recordFailure(attempt);
+      }
+      throw error;
+    }
+  };
 
-      // Note: In a real application, you would validate credentials against a database
-      // This is just a placeholder for demonstration
-      if (!userId || !password) {
-        return res.status(400).json({ error: 'Missing credentials' });
+  // Adding a factor to an account that already has one needs a recent
+  // second factor, so a stolen session can't enroll its own authenticator
+  const stepUpIfEnrolled = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      if (await mfaService.isEnrolled(authReq.user!.id)) {
+        return requireStepUp()(req, res, next);
       }
+      next();
+    } catch (error) {
+      logger.error('MFA enrollment check error:', error);
+      res.status(500).json({ error: 'Failed to check MFA enrollment' });
+    }
+  };
 
-      const payload = {
-        userId,
-        roles: ['user'], // In a real app, roles would come from the database
-      };
+  // Lets a client fetch and solve a brute-force challenge before its next
+  // second-factor attempt
+  router.post('/login/challenge', async (req, res) => {
+    try {
+      const { userId } = req.body;
+      if (typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
 
-      const token = await tokenManager.createToken(payload);
-      res.json({ token });
+      res.json({ challenge: await loginProtection.challengeFor({ username: userId, ip: req.ip }) });
     } catch (error) {
-      logger.error('Login error:', error);
-      res.status(500).json({ error: 'Authentication failed' });
+      logger.error('Login challenge error:', error);
+      res.status(500).json({ error: 'Failed to create login challenge' });
     }
   });
 
-  router.post('/refresh', authenticate(tokenManager), async (req, res) => {
+  // Exchange a refresh token for a new access token and the next refresh
+  // token in its family. The presented refresh token stops working.
+  router.post('/refresh', async (req, res) => {
     try {
-      const token = req.headers.authorization?.split(' ')[1];
-      if (!token) {
-        return res.status(401).json({ error: 'No token provided' });
+      const { refreshToken } = req.body;
+      if (typeof refreshToken !== 'string') {
+        return res.status(400).json({ error: 'refreshToken is required' });
       }
 
-      const newToken = await tokenManager.refreshToken(token);
-      if (!newToken) {
-        return res.status(401).json({ error: 'Invalid token' });
+      const rotated = await tokenManager.rotateRefreshToken(refreshToken);
+
+      // A signed-out device keeps its refresh token, so check the session
+      // it was issued for is still alive
+      if (rotated.claims.sessionId && !(await sessionManager.getSession(rotated.claims.sessionId))) {
+        await tokenManager.revokeRefreshToken(rotated.refreshToken);
+        return res.status(401).json({ error: 'Session has ended' });
       }
 
-      res.json({ token: newToken });
+      const token = await tokenManager.generateAccessToken(rotated.userId, rotated.roles, rotated.claims);
+
+      res.json({ token, refreshToken: rotated.refreshToken });
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       logger.error('Token refresh error:', error);
       res.status(500).json({ error: 'Token refresh failed' });
     }
   });
 
-  router.post('/logout', authenticate(tokenManager), (req, res) => {
-    // In a real application, you might want to blacklist the token
-    // For now, we just return success as the client will remove the token
-    res.json({ message: 'Logged out successfully' });
+  // Revoke the presented access token, end its session and, if given,
+  // revoke the refresh token family
+  router.post('/logout', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const token = req.headers.authorization!.split(' ')[1];
+      const { refreshToken } = req.body;
+
+      await tokenManager.revokeAccessToken(token);
+      if (authReq.user!.sessionId) {
+        await sessionManager.destroySession(authReq.user!.sessionId);
+      }
+      if (typeof refreshToken === 'string') {
+        await tokenManager.revokeRefreshToken(refreshToken);
+      }
+
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      logger.error('Logout error:', error);
+      res.status(500).json({ error: 'Logout failed' });
+    }
+  });
+
+  // Issue a single-use nonce and the EIP-4361 / SIWS message to sign with it
+  router.post('/wallet/nonce', async (req, res) => {
+    try {
+      const { address } = req.body;
+      if (typeof address !== 'string') {
+        return res.status(400).json({ error: 'address is required' });
+      }
+
+      res.json(await walletAuthService.createChallenge(address));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Wallet nonce error:', error);
+      res.status(500).json({ error: 'Failed to create sign-in nonce' });
+    }
+  });
+
+  router.post('/wallet/verify', async (req, res) => {
+    try {
+      const { message, signature } = req.body;
+      if (typeof message !== 'string' || typeof signature !== 'string') {
+        return res.status(400).json({ error: 'message and signature are required' });
+      }
+
+      const result = await walletAuthService.signIn(message, signature, {
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        deviceId: req.get('x-device-id')
+      });
+
+      const { session, account, ...tokens } = result;
+      res.json({
+        ...tokens,
+        sessionId: session.id,
+        expiresAt: session.expiresAt,
+        account
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Wallet sign-in error:', error);
+      res.status(500).json({ error: 'Wallet sign-in failed' });
+    }
+  });
+
+  // Link a second wallet to the signed-in account
+  router.post('/wallet/link', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { message, signature } = req.body;
+      if (typeof message !== 'string' || typeof signature !== 'string') {
+        return res.status(400).json({ error: 'message and signature are required' });
+      }
+
+      const account = await walletAuthService.linkWallet(authReq.user!.id, message, signature, {
+        ip: req.ip,
+        userAgent: req.get('user-agent')
+      });
+      res.json({ account });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Wallet link error:', error);
+      res.status(500).json({ error: 'Failed to link wallet' });
+    }
+  });
+
+  router.get('/wallet/account', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      res.json({ account: await walletAuthService.getAccount(authReq.user!.id) });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Wallet account error:', error);
+      res.status(500).json({ error: 'Failed to load account' });
+    }
+  });
+
+  // The caller's role permissions plus the policy itself, so clients can
+  // evaluate owner and delegate rules on resources they've loaded. Every
+  // permission name is listed too, so clients need no copy of their own.
+  router.get('/permissions', authenticate(tokenManager), (req, res) => {
+    const { user } = req as AuthenticatedRequest;
+    res.json({
+      userId: user!.id,
+      roles: user!.roles,
+      wallets: user!.wallets ?? [],
+      ...(user!.scope && { scope: user!.scope }),
+      permissions: policyEngine.permissionsFor(user!),
+      allPermissions: PERMISSIONS,
+      policy: policyEngine
+    });
+  });
+
+  router.get('/mfa', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      res.json(await mfaService.getStatus(authReq.user!.id));
+    } catch (error) {
+      logger.error('MFA status error:', error);
+      res.status(500).json({ error: 'Failed to load MFA status' });
+    }
+  });
+
+  // Start TOTP enrollment; the secret only becomes active once confirmed
+  router.post('/mfa/totp/enroll', authenticate(tokenManager), interactiveOnly, stepUpIfEnrolled, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const accountName = typeof req.body.accountName === 'string' ? req.body.accountName : authReq.user!.id;
+
+      res.json(await mfaService.beginTotpEnrollment(authReq.user!.id, accountName));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('TOTP enrollment error:', error);
+      res.status(500).json({ error: 'Failed to start TOTP enrollment' });
+    }
+  });
+
+  router.post('/mfa/totp/confirm', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { code } = req.body;
+      if (typeof code !== 'string') {
+        return res.status(400).json({ error: 'code is required' });
+      }
+
+      res.json(await mfaService.confirmTotpEnrollment(authReq.user!.id, code));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('TOTP confirmation error:', error);
+      res.status(500).json({ error: 'Failed to confirm TOTP enrollment' });
+    }
+  });
+
+  router.post('/mfa/webauthn/register/options', authenticate(tokenManager), interactiveOnly, stepUpIfEnrolled, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userName = typeof req.body.userName === 'string' ? req.body.userName : authReq.user!.id;
+
+      res.json(await mfaService.beginWebAuthnRegistration(authReq.user!.id, userName));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('WebAuthn registration options error:', error);
+      res.status(500).json({ error: 'Failed to start authenticator registration' });
+    }
+  });
+
+  router.post('/mfa/webauthn/register', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const { response, name } = req.body;
+      if (!response || typeof response !== 'object') {
+        return res.status(400).json({ error: 'response is required' });
+      }
+
+      res.json(await mfaService.finishWebAuthnRegistration(
+        authReq.user!.id,
+        response,
+        typeof name === 'string' && name ? name : 'Security key'
+      ));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('WebAuthn registration error:', error);
+      res.status(500).json({ error: 'Failed to register authenticator' });
+    }
+  });
+
+  router.post('/mfa/recovery-codes', authenticate(tokenManager), interactiveOnly, requireStepUp(), async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      res.json({ recoveryCodes: await mfaService.regenerateRecoveryCodes(authReq.user!.id) });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Recovery code error:', error);
+      res.status(500).json({ error: 'Failed to generate recovery codes' });
+    }
+  });
+
+  // Challenge for a WebAuthn assertion, during login or for step-up
+  router.post('/mfa/webauthn/authenticate/options', authenticateMfaPending(tokenManager), async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      res.json(await mfaService.beginWebAuthnAuthentication(authReq.user!.id));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('WebAuthn authentication options error:', error);
+      res.status(500).json({ error: 'Failed to create authenticator challenge' });
+    }
+  });
+
+  // Complete a login: mfaPending token plus a second factor for real tokens
+  router.post('/mfa/verify', authenticateMfaPending(tokenManager), async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const proof = parseMfaProof(req.body);
+      const tokens = await guarded(
+        { username: authReq.user!.id, ip: req.ip, challenge: req.body.challenge },
+        () => mfaService.completeLogin(authReq.tokenPayload!, proof)
+      );
+
+      // The pending token has done its job
+      await tokenManager.revokeAccessToken(req.headers.authorization!.split(' ')[1]);
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendLoginError(res, error);
+      }
+      logger.error('MFA verification error:', error);
+      res.status(500).json({ error: 'MFA verification failed' });
+    }
+  });
+
+  // Re-prove the second factor for routes behind requireStepUp
+  router.post('/mfa/step-up', authenticate(tokenManager), interactiveOnly, async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const proof = parseMfaProof(req.body);
+      const token = await guarded(
+        { username: authReq.user!.id, ip: req.ip, challenge: req.body.challenge },
+        () => mfaService.stepUp(authReq.tokenPayload!, proof)
+      );
+      res.json({ token });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return sendLoginError(res, error);
+      }
+      logger.error('Step-up error:', error);
+      res.status(500).json({ error: 'Step-up authentication failed' });
+    }
   });
 
   return router;
 }
+
+// Lockout and challenge errors carry details the client needs to retry
+function sendLoginError(res: Response, error: AppError) {
+  if (error instanceof AccountLockedError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+  res.status(error.statusCode).json({ error: error.message, ...error.details });
+}
+
+function parseMfaProof(body: any): MfaProof {
+  switch (body?.method) {
+    case 'totp':
+    case 'recovery':
+      if (typeof body.code !== 'string') {
+        throw new ValidationError('code is required');
+      }
+      return { method: body.method, code: body.code };
+    case 'webauthn':
+      if (!body.response || typeof body.response !== 'object') {
+        throw new ValidationError('response is required');
+      }
+      return { method: 'webauthn', response: body.response };
+    default:
+      throw new ValidationError('method must be totp, recovery or webauthn');
+  }
+}
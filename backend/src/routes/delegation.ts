@@ -0,0 +1,107 @@
+import express from 'express';
+import { DelegationService } from '../services/auth/delegation-service';
+import { AuthenticatedRequest, interactiveOnly } from '../middleware/auth';
+import { AppError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export function delegationRoutes(delegationService: DelegationService) {
+  const router = express.Router();
+
+  // Requests reach this router through the /api authentication middleware;
+  // keys and grants are only managed from a signed-in session
+  router.use(interactiveOnly);
+
+  router.get('/api-keys', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      res.json({ apiKeys: await delegationService.listApiKeys(user!.id) });
+    } catch (error) {
+      logger.error('Error listing API keys:', error);
+      res.status(500).json({ error: 'Failed to list API keys' });
+    }
+  });
+
+  // The key is in this response only
+  router.post('/api-keys', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      const { name, agents, actions, allowedIps, expiresAt } = req.body;
+      const created = await delegationService.createApiKey(user!, {
+        name,
+        agents,
+        actions,
+        allowedIps,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error creating API key:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  });
+
+  router.delete('/api-keys/:id', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      await delegationService.revokeApiKey(user!, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error revoking API key:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
+  router.get('/grants', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      const agentAddress = typeof req.query.agentAddress === 'string' ? req.query.agentAddress : undefined;
+      res.json({ grants: await delegationService.listGrants(user!.id, agentAddress) });
+    } catch (error) {
+      logger.error('Error listing delegate grants:', error);
+      res.status(500).json({ error: 'Failed to list delegate grants' });
+    }
+  });
+
+  router.post('/grants', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      const { agentAddress, delegate, actions, allowedIps, expiresAt } = req.body;
+      const grant = await delegationService.grantDelegate(user!, {
+        agentAddress,
+        delegate,
+        actions,
+        allowedIps,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      });
+      res.status(201).json(grant);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error creating delegate grant:', error);
+      res.status(500).json({ error: 'Failed to create delegate grant' });
+    }
+  });
+
+  router.delete('/grants/:id', async (req, res) => {
+    try {
+      const { user } = req as AuthenticatedRequest;
+      await delegationService.revokeGrant(user!, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error revoking delegate grant:', error);
+      res.status(500).json({ error: 'Failed to revoke delegate grant' });
+    }
+  });
+
+  return router;
+}
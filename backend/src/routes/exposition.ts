@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { ExpositionRegistry, OPENMETRICS_CONTENT_TYPE } from '../services/metrics/prometheus/exposition';
+import { requireStaticToken } from '../middleware/auth';
+import logger from '../utils/logger';
+
+// Prometheus scrape target for the backend's own process. Open unless a
+// token is configured for Prometheus to send.
+export function expositionRoutes(registry: ExpositionRegistry, token: string) {
+  const router = Router();
+
+  if (token) {
+    router.use(requireStaticToken(token));
+  }
+
+  router.get('/', async (req, res) => {
+    try {
+      const text = await registry.render();
+      res.setHeader('Content-Type', OPENMETRICS_CONTENT_TYPE);
+      res.setHeader('Cache-Control', 'no-store');
+      // send() would reorder the content type's parameters
+      res.end(text);
+    } catch (error) {
+      logger.error('Error rendering metrics:', error);
+      res.status(500).json({ error: 'Failed to render metrics' });
+    }
+  });
+
+  return router;
+}
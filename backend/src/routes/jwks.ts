@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { Keyring } from '../services/auth/keyring';
+import logger from '../utils/logger';
+
+// Lets other services verify our access tokens without sharing a secret
+export function jwksRoutes(keyring: Keyring) {
+  const router = Router();
+
+  router.get('/jwks.json', (req, res) => {
+    try {
+      // Short cache so newly published keys are picked up well before they activate
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      res.json(keyring.jwks());
+    } catch (error) {
+      logger.error('Error publishing JWKS:', error);
+      res.status(500).json({ error: 'Failed to load signing keys' });
+    }
+  });
+
+  return router;
+}
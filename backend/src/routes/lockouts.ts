@@ -0,0 +1,38 @@
+import express from 'express';
+import { LOCK_SCOPES, LockScope, LoginProtection } from '../services/auth/login-protection';
+import { AuthenticatedRequest, requirePermission, requireStepUp } from '../middleware/auth';
+import logger from '../utils/logger';
+
+export function lockoutRoutes(loginProtection: LoginProtection) {
+  const router = express.Router();
+
+  router.use(requirePermission('lockout:manage'), requireStepUp());
+
+  router.get('/', async (req, res) => {
+    try {
+      res.json({ lockouts: await loginProtection.listLockouts() });
+    } catch (error) {
+      logger.error('Error listing login lockouts:', error);
+      res.status(500).json({ error: 'Failed to list lockouts' });
+    }
+  });
+
+  // Subjects are a username, an IP, or "username|ip" for the username_ip scope
+  router.delete('/:scope/:subject', async (req, res) => {
+    try {
+      const { scope, subject } = req.params;
+      if (!LOCK_SCOPES.includes(scope as LockScope)) {
+        return res.status(400).json({ error: `scope must be one of ${LOCK_SCOPES.join(', ')}` });
+      }
+
+      const authReq = req as AuthenticatedRequest;
+      const unlocked = await loginProtection.unlock(scope as LockScope, subject, authReq.user?.id);
+      res.json({ unlocked });
+    } catch (error) {
+      logger.error('Error clearing login lockout:', error);
+      res.status(500).json({ error: 'Failed to clear lockout' });
+    }
+  });
+
+  return router;
+}
@@ -2,21 +2,28 @@ import { Router } from 'express';
 import { MetricsService } from '../services/metrics/metrics.service';
 import { MetricsAggregationService } from '../services/metrics/metrics-aggregation-service';
 import { TimeSeriesService } from '../services/metrics/time-series-service';
-import { authenticate, authorize } from '../middleware/auth';
-import { MetricModel } from '../models/metric';
+import { MetricsQueryEngine, QueryValue, Series } from '../services/metrics/query/engine';
+import { parseDuration } from '../services/metrics/query/parser';
+import { MetricTypeRegistry } from '../services/metrics/metric-type-registry';
+import { AuthenticatedRequest, interactiveOnly, requirePermission, requireStepUp } from '../middleware/auth';
+import { MetricModel, MetricType } from '../models/metric';
 import logger from '../utils/logger';
+import { AppError, QueryError } from '../utils/errors';
 import express from 'express';
 import { createRateLimiter, rateLimitMonitor } from '../middleware/rateLimit';
 
 export function metricsRoutes(
   metricsService: MetricsService,
   metricsAggregationService: MetricsAggregationService,
-  timeSeriesService: TimeSeriesService
+  timeSeriesService: TimeSeriesService,
+  typeRegistry: MetricTypeRegistry = new MetricTypeRegistry()
 ) {
   const router = express.Router();
+  const queryEngine = new MetricsQueryEngine(metricsService);
 
   // Apply rate limiting middleware
   router.use(rateLimitMonitor);
+  router.use(interactiveOnly);
 
   // Different rate limits for different endpoints
   router.use('/type', createRateLimiter('authenticated'));
@@ -25,10 +32,13 @@ export function metricsRoutes(
   router.use('/', createRateLimiter('authenticated'));
 
   // Add new metric
-  router.post('/', authenticate, async (req, res) => {
+  router.post('/', requirePermission('metrics:write'), async (req, res) => {
     try {
       const metricData = req.body;
       const metric = new MetricModel(metricData);
+      if (!(await typeRegistry.isKnown(metric.type))) {
+        return res.status(400).json({ error: `Unknown metric type ${metric.type}` });
+      }
       await metricsService.addMetric(metric);
       res.status(201).json(metric);
     } catch (error) {
@@ -38,7 +48,7 @@ export function metricsRoutes(
   });
 
   // Get metrics by type
-  router.get('/type/:type', authenticate, async (req, res) => {
+  router.get('/type/:type', requirePermission('metrics:read'), async (req, res) => {
     try {
       const { type } = req.params;
       const metrics = await metricsService.getMetricsByType(type);
@@ -50,7 +60,7 @@ export function metricsRoutes(
   });
 
   // Get aggregated metrics
-  router.get('/aggregate/:type', authenticate, async (req, res) => {
+  router.get('/aggregate/:type', requirePermission('metrics:read'), async (req, res) => {
     try {
       const { type } = req.params;
       const { startTime, endTime } = req.query;
@@ -73,7 +83,7 @@ export function metricsRoutes(
   });
 
   // Get time series analysis
-  router.get('/analysis/:type', authenticate, async (req, res) => {
+  router.get('/analysis/:type', requirePermission('metrics:read'), async (req, res) => {
     try {
       const { type } = req.params;
       const { startTime, endTime, steps } = req.query;
@@ -82,11 +92,11 @@ export function metricsRoutes(
         return res.status(400).json({ error: 'Missing time range parameters' });
       }
 
-      const metrics = await metricsService.getMetricsByType(type);
-      const filteredMetrics = metrics.filter(
-        m => m.timestamp >= new Date(startTime as string) && 
-             m.timestamp <= new Date(endTime as string)
-      );
+      const filteredMetrics = await metricsService.queryMetrics({
+        type: type as MetricType,
+        startTime: new Date(startTime as string),
+        endTime: new Date(endTime as string)
+      });
 
       const trend = await timeSeriesService.analyzeTrend(filteredMetrics);
       const seasonality = await timeSeriesService.detectSeasonality(filteredMetrics);
@@ -108,8 +118,73 @@ export function metricsRoutes(
     }
   });
 
-  // Delete metrics (admin only)
-  router.delete('/:type', authenticate, authorize(['admin']), async (req, res) => {
+  // Metric types: the built-in ones plus those operators have registered
+  router.get('/types', requirePermission('metrics:read'), async (req, res) => {
+    try {
+      res.json(await typeRegistry.list());
+    } catch (error) {
+      logger.error('Error listing metric types:', error);
+      res.status(500).json({ error: 'Failed to list metric types' });
+    }
+  });
+
+  router.post('/types', requirePermission('metrics:manage'), async (req, res) => {
+    try {
+      const definition = await typeRegistry.register(req.body, (req as AuthenticatedRequest).user?.id);
+      res.status(201).json(definition);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message, ...error.details });
+      }
+      logger.error('Error registering metric type:', error);
+      res.status(500).json({ error: 'Failed to register metric type' });
+    }
+  });
+
+  // Points already stored under the type are kept
+  router.delete('/types/:name', requirePermission('metrics:manage'), async (req, res) => {
+    try {
+      if (!(await typeRegistry.unregister(req.params.name))) {
+        return res.status(404).json({ error: 'Metric type not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      logger.error('Error removing metric type:', error);
+      res.status(500).json({ error: 'Failed to remove metric type' });
+    }
+  });
+
+  // Query language endpoints, answering in the Prometheus HTTP API format so
+  // Prometheus clients and dashboards can read them
+  router.get('/query', requirePermission('metrics:read'), async (req, res) => {
+    try {
+      const query = requireParam(req.query.query, 'query');
+      const time = req.query.time !== undefined ? parseTime(req.query.time, 'time') : Date.now();
+      const value = await queryEngine.instant(query, time);
+      res.json({ status: 'success', data: formatValue(value, time) });
+    } catch (error) {
+      sendQueryError(res, error);
+    }
+  });
+
+  router.get('/query_range', requirePermission('metrics:read'), async (req, res) => {
+    try {
+      const query = requireParam(req.query.query, 'query');
+      const start = parseTime(req.query.start, 'start');
+      const end = parseTime(req.query.end, 'end');
+      const step = parseStep(req.query.step);
+      const series = await queryEngine.range(query, start, end, step);
+      res.json({ status: 'success', data: formatValue({ type: 'matrix', series }, end) });
+    } catch (error) {
+      sendQueryError(res, error);
+    }
+  });
+
+  // Delete metrics (needs metrics:delete, admins by default)
+  router.delete('/:type', requirePermission('metrics:delete'), requireStepUp(), async (req, res) => {
     try {
       const { type } = req.params;
       const { startTime, endTime } = req.query;
@@ -133,3 +208,66 @@ export function metricsRoutes(
 
   return router;
 }
+
+function requireParam(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !value) {
+    throw new QueryError(`Missing ${name} parameter`);
+  }
+  return value;
+}
+
+// Unix seconds, fractional allowed, or an RFC 3339 timestamp; epoch milliseconds out
+function parseTime(value: unknown, name: string): number {
+  const text = requireParam(value, name);
+  const time = /^-?\d+(\.\d+)?$/.test(text) ? parseFloat(text) * 1000 : Date.parse(text);
+  if (isNaN(time)) {
+    throw new QueryError(`Invalid ${name} "${text}"`);
+  }
+  return Math.round(time);
+}
+
+// Seconds or a duration such as 30s; milliseconds out
+function parseStep(value: unknown): number {
+  const text = requireParam(value, 'step');
+  const step = /^\d+(\.\d+)?$/.test(text) ? parseFloat(text) * 1000 : parseDuration(text);
+  if (!step) {
+    throw new QueryError(`Invalid step "${text}"`);
+  }
+  return step;
+}
+
+function formatNumber(value: number): string {
+  if (isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatSeries(series: Series) {
+  return {
+    metric: series.labels,
+    values: series.points.map(point => [point.time / 1000, formatNumber(point.value)])
+  };
+}
+
+function formatValue(value: QueryValue, time: number) {
+  switch (value.type) {
+    case 'scalar':
+      return { resultType: 'scalar', result: [time / 1000, formatNumber(value.value)] };
+    case 'vector':
+      return {
+        resultType: 'vector',
+        result: value.samples.map(sample => ({ metric: sample.labels, value: [time / 1000, formatNumber(sample.value)] }))
+      };
+    case 'matrix':
+      return { resultType: 'matrix', result: value.series.map(formatSeries) };
+  }
+}
+
+function sendQueryError(res: express.Response, error: unknown) {
+  if (error instanceof AppError) {
+    return res.status(error.statusCode).json({ status: 'error', errorType: 'bad_data', error: error.message, ...error.details });
+  }
+  logger.error('Error evaluating metrics query:', error);
+  res.status(500).json({ status: 'error', errorType: 'internal', error: 'Failed to evaluate query' });
+}
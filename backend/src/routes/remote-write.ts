@@ -0,0 +1,61 @@
+import express, { Router } from 'express';
+import { RemoteWriteService } from '../services/metrics/prometheus/remote-write';
+import { requireStaticToken } from '../middleware/auth';
+import { AppError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Prometheus remote write. Prometheus can only send a fixed bearer token,
+ * so this is mounted ahead of the API's authentication and stays off until
+ * a token is configured. Errors are plain text, which Prometheus logs as is;
+ * it retries 5xx responses and drops the batch on 4xx.
+ */
+export function remoteWriteRoutes(remoteWrite: RemoteWriteService, token: string) {
+  const router = Router();
+
+  if (!token) {
+    return router;
+  }
+
+  router.post('/', requireStaticToken(token), async (req, res) => {
+    try {
+      if (!req.is('application/x-protobuf') || req.headers['content-encoding'] !== 'snappy') {
+        return res.status(415).type('text/plain').send('Expected a snappy-compressed application/x-protobuf body');
+      }
+
+      const { rejected } = await remoteWrite.write(await readBody(req, remoteWrite.maxBytes));
+      if (rejected.length > 0) {
+        return res.status(400).type('text/plain').send(`Unregistered metric types: ${rejected.join(', ')}`);
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).type('text/plain').send(error.message);
+      }
+      logger.error('Error ingesting remote write:', error);
+      res.status(500).type('text/plain').send('Failed to store samples');
+    }
+  });
+
+  return router;
+}
+
+// The JSON parser leaves other content types unread
+function readBody(req: express.Request, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    req.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new AppError(413, `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
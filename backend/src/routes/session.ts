@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { SessionManager } from '../services/session-manager';
-import { authenticate, authorize } from '../middleware/auth';
+import { interactiveOnly, requirePermission, requireStepUp } from '../middleware/auth';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { can } from '../services/auth/policy';
+import { AppError } from '../utils/errors';
 import logger from '../utils/logger';
 import express from 'express';
 import { createRateLimiter, rateLimitMonitor } from '../middleware/rateLimit';
@@ -9,39 +11,95 @@ import { createRateLimiter, rateLimitMonitor } from '../middleware/rateLimit';
 export function sessionRoutes(sessionManager: SessionManager) {
   const router = Router();
 
+  // Someone else's session must not have its expiry pushed out just by being
+  // asked about, so it is read without touching until session:manage passes.
+  // Sends the 404 or 403 itself and returns false when the caller may not act.
+  const authorizeSession = async (req: AuthenticatedRequest, res: express.Response, sessionId: string) => {
+    const session = await sessionManager.peekSession(sessionId);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return false;
+    }
+    if (!can(req.user!, 'session:manage', { type: 'session', id: session.id, owner: session.userId })) {
+      res.status(403).json({ error: 'Unauthorized access to session' });
+      return false;
+    }
+    return true;
+  };
+
   // Apply rate limiting middleware
   router.use(rateLimitMonitor);
   router.use(createRateLimiter('default'));
 
+  // Requests reach this router through the /api authentication middleware
+  router.use(interactiveOnly);
+
   // Create a new session
-  router.post('/', authenticate, async (req, res) => {
+  router.post('/', async (req, res) => {
     try {
       const authReq = req as AuthenticatedRequest;
       const { data } = req.body;
       
-      const session = await sessionManager.createSession(authReq.user!.id, data);
+      const session = await sessionManager.createSession(authReq.user!.id, data, {
+        deviceId: req.get('x-device-id'),
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip
+      });
       res.status(201).json(session);
     } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
       logger.error('Error creating session:', error);
       res.status(500).json({ error: 'Failed to create session' });
     }
   });
 
+  // The caller's own devices, with the one making this request marked
+  router.get('/devices', async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const devices = await sessionManager.listDevices(authReq.user!.id);
+      res.json({
+        devices: devices.map(device => ({
+          ...device,
+          current: device.sessionIds.includes(authReq.user!.sessionId as string)
+        }))
+      });
+    } catch (error) {
+      logger.error('Error listing devices:', error);
+      res.status(500).json({ error: 'Failed to list devices' });
+    }
+  });
+
+  // Sign out every session on one of the caller's devices
+  router.delete('/devices/:fingerprint', async (req, res) => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const revoked = await sessionManager.revokeDevice(authReq.user!.id, req.params.fingerprint);
+      if (revoked === 0) {
+        return res.status(404).json({ error: 'Device not found' });
+      }
+      res.json({ revokedSessions: revoked });
+    } catch (error) {
+      logger.error('Error revoking device:', error);
+      res.status(500).json({ error: 'Failed to revoke device' });
+    }
+  });
+
   // Get session by ID
-  router.get('/:sessionId', authenticate, async (req, res) => {
+  router.get('/:sessionId', async (req, res) => {
     try {
       const { sessionId } = req.params;
-      const session = await sessionManager.getSession(sessionId);
+      if (!(await authorizeSession(req as AuthenticatedRequest, res, sessionId))) {
+        return;
+      }
 
+      const session = await sessionManager.getSession(sessionId);
       if (!session) {
         return res.status(404).json({ error: 'Session not found' });
       }
 
-      const authReq = req as AuthenticatedRequest;
-      if (session.userId !== authReq.user!.id && !authReq.user!.roles.includes('admin')) {
-        return res.status(403).json({ error: 'Unauthorized access to session' });
-      }
-
       res.json(session);
     } catch (error) {
       logger.error('Error getting session:', error);
@@ -50,22 +108,19 @@ export function sessionRoutes(sessionManager: SessionManager) {
   });
 
   // Update session data
-  router.patch('/:sessionId', authenticate, async (req, res) => {
+  router.patch('/:sessionId', async (req, res) => {
     try {
       const { sessionId } = req.params;
       const { data } = req.body;
 
-      const session = await sessionManager.getSession(sessionId);
-      if (!session) {
-        return res.status(404).json({ error: 'Session not found' });
-      }
-
-      const authReq = req as AuthenticatedRequest;
-      if (session.userId !== authReq.user!.id && !authReq.user!.roles.includes('admin')) {
-        return res.status(403).json({ error: 'Unauthorized access to session' });
+      if (!(await authorizeSession(req as AuthenticatedRequest, res, sessionId))) {
+        return;
       }
 
       const updatedSession = await sessionManager.updateSession(sessionId, data);
+      if (!updatedSession) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
       res.json(updatedSession);
     } catch (error) {
       logger.error('Error updating session:', error);
@@ -74,18 +129,12 @@ export function sessionRoutes(sessionManager: SessionManager) {
   });
 
   // Delete session
-  router.delete('/:sessionId', authenticate, async (req, res) => {
+  router.delete('/:sessionId', async (req, res) => {
     try {
       const { sessionId } = req.params;
-      
-      const session = await sessionManager.getSession(sessionId);
-      if (!session) {
-        return res.status(404).json({ error: 'Session not found' });
-      }
 
-      const authReq = req as AuthenticatedRequest;
-      if (session.userId !== authReq.user!.id && !authReq.user!.roles.includes('admin')) {
-        return res.status(403).json({ error: 'Unauthorized access to session' });
+      if (!(await authorizeSession(req as AuthenticatedRequest, res, sessionId))) {
+        return;
       }
 
       await sessionManager.destroySession(sessionId);
@@ -96,8 +145,8 @@ export function sessionRoutes(sessionManager: SessionManager) {
     }
   });
 
-  // Get all sessions for a user (admin only)
-  router.get('/user/:userId', authenticate, authorize(['admin']), async (req, res) => {
+  // Get all sessions for a user (needs session:manage, admins by default)
+  router.get('/user/:userId', requirePermission('session:manage'), requireStepUp(), async (req, res) => {
     try {
       const { userId } = req.params;
       const sessions = await sessionManager.getUserSessions(userId);
@@ -108,8 +157,8 @@ export function sessionRoutes(sessionManager: SessionManager) {
     }
   });
 
-  // Delete all sessions for a user (admin only)
-  router.delete('/user/:userId', authenticate, authorize(['admin']), async (req, res) => {
+  // Delete all sessions for a user (needs session:manage, admins by default)
+  router.delete('/user/:userId', requirePermission('session:manage'), requireStepUp(), async (req, res) => {
     try {
       const { userId } = req.params;
       await sessionManager.destroyUserSessions(userId);
@@ -4,14 +4,19 @@ import logger from '../utils/logger';
 
 export class ApiService {
   protected client: AxiosInstance;
-  protected config: ApiServiceConfig;
+  protected config: Required<ApiServiceConfig>;
   protected retryCount: number = 0;
 
   constructor(config: ApiServiceConfig) {
-    this.config = config;
-    this.client = axios.create({
+    this.config = {
       baseURL: config.baseURL,
-      timeout: config.timeout,
+      timeout: config.timeout || 5000,
+      retries: config.retries || 3,
+      retryDelay: config.retryDelay || 1000
+    };
+    this.client = axios.create({
+      baseURL: this.config.baseURL,
+      timeout: this.config.timeout,
     });
 
     this.setupInterceptors();
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { ChainedAuditEvent } from './audit-store';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * A contiguous run of events moved out of the live store. The first and
+ * last hashes let the chain be checked across the archive boundary
+ * without reading the archive itself.
+ */
+export interface ArchiveSegment {
+  fromSequence: number;
+  toSequence: number;
+  firstPreviousHash: string;
+  lastHash: string;
+  file: string;
+  checksum: string;
+  archivedAt: string;
+}
+
+export interface AuditArchiver {
+  archive(events: ChainedAuditEvent[]): Promise<ArchiveSegment>;
+  segments(): Promise<ArchiveSegment[]>;
+  read(segment: ArchiveSegment): Promise<ChainedAuditEvent[]>;
+}
+
+const MANIFEST = 'manifest.json';
+
+// Gzipped NDJSON segments plus a manifest, in one directory
+export class FileAuditArchiver implements AuditArchiver {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async archive(events: ChainedAuditEvent[]): Promise<ArchiveSegment> {
+    if (events.length === 0) {
+      throw new Error('Nothing to archive');
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const first = events[0];
+    const last = events[events.length - 1];
+    const file = `audit-${first.sequence}-${last.sequence}.ndjson.gz`;
+    const body = await gzip(events.map(event => JSON.stringify(event)).join('\n') + '\n');
+
+    // Write then rename so a crash never leaves a half-written segment
+    const target = path.join(this.directory, file);
+    await fs.promises.writeFile(`${target}.tmp`, body);
+    await fs.promises.rename(`${target}.tmp`, target);
+
+    const segment: ArchiveSegment = {
+      fromSequence: first.sequence,
+      toSequence: last.sequence,
+      firstPreviousHash: first.previousHash,
+      lastHash: last.hash,
+      file,
+      checksum: crypto.createHash('sha256').update(body).digest('hex'),
+      archivedAt: new Date().toISOString()
+    };
+
+    const segments = await this.segments();
+    segments.push(segment);
+    await fs.promises.writeFile(path.join(this.directory, MANIFEST), JSON.stringify(segments, null, 2));
+
+    return segment;
+  }
+
+  async segments(): Promise<ArchiveSegment[]> {
+    try {
+      const manifest = await fs.promises.readFile(path.join(this.directory, MANIFEST), 'utf8');
+      return JSON.parse(manifest);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async read(segment: ArchiveSegment): Promise<ChainedAuditEvent[]> {
+    const body = await fs.promises.readFile(path.join(this.directory, segment.file));
+    const checksum = crypto.createHash('sha256').update(body).digest('hex');
+    if (checksum !== segment.checksum) {
+      throw new Error(`Archive ${segment.file} does not match its checksum`);
+    }
+
+    return (await gunzip(body)).toString('utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const raw = JSON.parse(line);
+        return { ...raw, timestamp: new Date(raw.timestamp) };
+      });
+  }
+}
@@ -0,0 +1,122 @@
+import { AuditEvent, AuditLevel } from '../../types';
+import { hashData } from '../../utils/crypto';
+
+/**
+ * An audit event linked to its predecessor. `sequence` starts at 1 and has
+ * no gaps; `previousHash` is the hash of event `sequence - 1`, or
+ * GENESIS_HASH for the first event.
+ */
+export interface ChainedAuditEvent extends AuditEvent {
+  sequence: number;
+  previousHash: string;
+}
+
+export interface AuditEventFilter {
+  type?: string;
+  level?: AuditLevel;
+  userId?: string;
+  sessionId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  fromSequence?: number;
+  toSequence?: number;
+}
+
+export interface AuditFindOptions {
+  afterSequence?: number;
+  limit: number;
+}
+
+/**
+ * Append-only storage for chained audit events. Implementations must
+ * reject an append whose sequence already exists, so two writers can't
+ * fork the chain.
+ */
+export interface AuditStore {
+  append(event: ChainedAuditEvent): Promise<void>;
+  first(): Promise<ChainedAuditEvent | null>;
+  last(): Promise<ChainedAuditEvent | null>;
+  // Matching events in ascending sequence order
+  find(filter: AuditEventFilter, options: AuditFindOptions): Promise<ChainedAuditEvent[]>;
+  // Remove every event up to and including `sequence`; returns the count removed
+  deleteThrough(sequence: number): Promise<number>;
+}
+
+export class AuditSequenceConflictError extends Error {
+  constructor(sequence: number) {
+    super(`Audit event ${sequence} already exists`);
+    this.name = 'AuditSequenceConflictError';
+    Object.setPrototypeOf(this, AuditSequenceConflictError.prototype);
+  }
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted at every depth. Stores such as Postgres jsonb
+// do not keep key order, so the hash must not depend on it.
+function canonicalJson(value: unknown): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalJson((value as { toJSON(): unknown }).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function computeAuditHash(event: Omit<ChainedAuditEvent, 'hash'>): string {
+  return hashData(canonicalJson({
+    sequence: event.sequence,
+    previousHash: event.previousHash,
+    id: event.id,
+    timestamp: new Date(event.timestamp).toISOString(),
+    level: event.level,
+    type: event.type,
+    userId: event.userId ?? null,
+    sessionId: event.sessionId ?? null,
+    message: event.message,
+    metadata: event.metadata ?? null
+  }));
+}
+
+export function matchesAuditFilter(event: ChainedAuditEvent, filter: AuditEventFilter): boolean {
+  if (filter.type && event.type !== filter.type) return false;
+  if (filter.level && event.level !== filter.level) return false;
+  if (filter.userId && event.userId !== filter.userId) return false;
+  if (filter.sessionId && event.sessionId !== filter.sessionId) return false;
+  if (filter.startDate && event.timestamp < filter.startDate) return false;
+  if (filter.endDate && event.timestamp > filter.endDate) return false;
+  if (filter.fromSequence !== undefined && event.sequence < filter.fromSequence) return false;
+  if (filter.toSequence !== undefined && event.sequence > filter.toSequence) return false;
+  return true;
+}
+
+/**
+ * Walk every matching event in sequence order, one page at a time.
+ */
+export async function* scanAuditEvents(
+  store: AuditStore,
+  filter: AuditEventFilter,
+  batchSize: number = 500
+): AsyncGenerator<ChainedAuditEvent> {
+  let afterSequence: number | undefined;
+
+  while (true) {
+    const batch = await store.find(filter, { afterSequence, limit: batchSize });
+    for (const event of batch) {
+      yield event;
+    }
+    if (batch.length < batchSize) {
+      return;
+    }
+    afterSequence = batch[batch.length - 1].sequence;
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import {
+  AuditEventFilter,
+  AuditFindOptions,
+  AuditSequenceConflictError,
+  AuditStore,
+  ChainedAuditEvent,
+  matchesAuditFilter
+} from './audit-store';
+
+/**
+ * Append-only NDJSON file, one event per line. Reads scan the file, which
+ * is fine for a single node with retention keeping the file bounded; use
+ * the Prisma store when several processes share the log.
+ */
+export class FileAuditStore implements AuditStore {
+  private filePath: string;
+  private head: ChainedAuditEvent | null = null;
+  private tail: ChainedAuditEvent | null = null;
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async append(event: ChainedAuditEvent): Promise<void> {
+    await this.load();
+    return this.serialize(async () => {
+      if (this.tail && event.sequence <= this.tail.sequence) {
+        throw new AuditSequenceConflictError(event.sequence);
+      }
+
+      await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+      this.tail = event;
+      this.head = this.head ?? event;
+    });
+  }
+
+  async first(): Promise<ChainedAuditEvent | null> {
+    await this.load();
+    return this.head;
+  }
+
+  async last(): Promise<ChainedAuditEvent | null> {
+    await this.load();
+    return this.tail;
+  }
+
+  async find(filter: AuditEventFilter, options: AuditFindOptions): Promise<ChainedAuditEvent[]> {
+    await this.load();
+    const results: ChainedAuditEvent[] = [];
+
+    for await (const event of this.readEvents()) {
+      if (options.afterSequence !== undefined && event.sequence <= options.afterSequence) continue;
+      if (!matchesAuditFilter(event, filter)) continue;
+      results.push(event);
+      if (results.length >= options.limit) break;
+    }
+
+    return results;
+  }
+
+  async deleteThrough(sequence: number): Promise<number> {
+    await this.load();
+    return this.serialize(async () => {
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      const output = fs.createWriteStream(tempPath, { encoding: 'utf8' });
+      let removed = 0;
+      let head: ChainedAuditEvent | null = null;
+
+      for await (const event of this.readEvents()) {
+        if (event.sequence <= sequence) {
+          removed++;
+          continue;
+        }
+        head = head ?? event;
+        if (!output.write(JSON.stringify(event) + '\n')) {
+          await new Promise(resolve => output.once('drain', resolve));
+        }
+      }
+
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+      await fs.promises.rename(tempPath, this.filePath);
+
+      this.head = head;
+      if (!head) {
+        this.tail = null;
+      }
+      return removed;
+    });
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        for await (const event of this.readEvents()) {
+          this.head = this.head ?? event;
+          this.tail = event;
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async *readEvents(): AsyncGenerator<ChainedAuditEvent> {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity
+    });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        const raw = JSON.parse(line);
+        yield { ...raw, timestamp: new Date(raw.timestamp) };
+      }
+    } finally {
+      lines.close();
+    }
+  }
+
+  // Appends and rewrites must not interleave
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  AuditEventFilter,
+  AuditFindOptions,
+  AuditSequenceConflictError,
+  AuditStore,
+  ChainedAuditEvent,
+  matchesAuditFilter
+} from './audit-store';
+
+// Process-local store for tests and development. Nothing survives a restart.
+export class MemoryAuditStore implements AuditStore {
+  private events: ChainedAuditEvent[] = [];
+
+  async append(event: ChainedAuditEvent): Promise<void> {
+    const last = this.events[this.events.length - 1];
+    if (last && event.sequence <= last.sequence) {
+      throw new AuditSequenceConflictError(event.sequence);
+    }
+    this.events.push({ ...event });
+  }
+
+  async first(): Promise<ChainedAuditEvent | null> {
+    return this.events[0] ?? null;
+  }
+
+  async last(): Promise<ChainedAuditEvent | null> {
+    return this.events[this.events.length - 1] ?? null;
+  }
+
+  async find(filter: AuditEventFilter, options: AuditFindOptions): Promise<ChainedAuditEvent[]> {
+    const results: ChainedAuditEvent[] = [];
+    for (const event of this.events) {
+      if (options.afterSequence !== undefined && event.sequence <= options.afterSequence) continue;
+      if (!matchesAuditFilter(event, filter)) continue;
+      results.push(event);
+      if (results.length >= options.limit) break;
+    }
+    return results;
+  }
+
+  async deleteThrough(sequence: number): Promise<number> {
+    const before = this.events.length;
+    this.events = this.events.filter(event => event.sequence > sequence);
+    return before - this.events.length;
+  }
+}
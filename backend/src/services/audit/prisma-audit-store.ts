@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  AuditEventFilter,
+  AuditFindOptions,
+  AuditSequenceConflictError,
+  AuditStore,
+  ChainedAuditEvent
+} from './audit-store';
+
+// Unique constraint violation
+const PRISMA_UNIQUE_VIOLATION = 'P2002';
+
+/**
+ * Stores events in the AuditLogEvent table of whatever database the Prisma
+ * datasource points at (Postgres in production, SQLite works for a single
+ * node). The sequence is the primary key, so concurrent writers can't fork
+ * the chain.
+ */
+export class PrismaAuditStore implements AuditStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async append(event: ChainedAuditEvent): Promise<void> {
+    try {
+      await this.prisma.auditLogEvent.create({
+        data: {
+          sequence: event.sequence,
+          id: event.id,
+          timestamp: event.timestamp,
+          level: event.level,
+          type: event.type,
+          userId: event.userId ?? null,
+          sessionId: event.sessionId ?? null,
+          message: event.message,
+          metadata: event.metadata ?? undefined,
+          previousHash: event.previousHash,
+          hash: event.hash
+        }
+      });
+    } catch (error: any) {
+      if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+        throw new AuditSequenceConflictError(event.sequence);
+      }
+      throw error;
+    }
+  }
+
+  async first(): Promise<ChainedAuditEvent | null> {
+    const row = await this.prisma.auditLogEvent.findFirst({ orderBy: { sequence: 'asc' } });
+    return row ? toEvent(row) : null;
+  }
+
+  async last(): Promise<ChainedAuditEvent | null> {
+    const row = await this.prisma.auditLogEvent.findFirst({ orderBy: { sequence: 'desc' } });
+    return row ? toEvent(row) : null;
+  }
+
+  async find(filter: AuditEventFilter, options: AuditFindOptions): Promise<ChainedAuditEvent[]> {
+    const sequence: Record<string, number> = {};
+    if (filter.fromSequence !== undefined) sequence.gte = filter.fromSequence;
+    if (filter.toSequence !== undefined) sequence.lte = filter.toSequence;
+    if (options.afterSequence !== undefined) sequence.gt = options.afterSequence;
+
+    const timestamp: Record<string, Date> = {};
+    if (filter.startDate) timestamp.gte = filter.startDate;
+    if (filter.endDate) timestamp.lte = filter.endDate;
+
+    const rows = await this.prisma.auditLogEvent.findMany({
+      where: {
+        ...(filter.type && { type: filter.type }),
+        ...(filter.level && { level: filter.level }),
+        ...(filter.userId && { userId: filter.userId }),
+        ...(filter.sessionId && { sessionId: filter.sessionId }),
+        ...(Object.keys(sequence).length > 0 && { sequence }),
+        ...(Object.keys(timestamp).length > 0 && { timestamp })
+      },
+      orderBy: { sequence: 'asc' },
+      take: options.limit
+    });
+
+    return rows.map(toEvent);
+  }
+
+  async deleteThrough(sequence: number): Promise<number> {
+    const { count } = await this.prisma.auditLogEvent.deleteMany({
+      where: { sequence: { lte: sequence } }
+    });
+    return count;
+  }
+}
+
+function toEvent(row: any): ChainedAuditEvent {
+  return {
+    sequence: row.sequence,
+    id: row.id,
+    timestamp: row.timestamp,
+    level: row.level,
+    type: row.type,
+    userId: row.userId ?? undefined,
+    sessionId: row.sessionId ?? undefined,
+    message: row.message,
+    metadata: row.metadata ?? undefined,
+    previousHash: row.previousHash,
+    hash: row.hash
+  };
+}
@@ -0,0 +1,41 @@
+import { config } from '../../config';
+import { getPrisma } from '../db/shared-prisma';
+import { SecurityAuditLogger } from '../security-audit-logger';
+import { AuditStore } from './audit-store';
+import { FileAuditArchiver } from './audit-archiver';
+import { FileAuditStore } from './file-audit-store';
+import { MemoryAuditStore } from './memory-audit-store';
+import { PrismaAuditStore } from './prisma-audit-store';
+
+let sharedAuditLogger: SecurityAuditLogger | null = null;
+
+function createAuditStore(): AuditStore {
+  switch (config.audit.store) {
+    case 'prisma':
+      return new PrismaAuditStore(getPrisma());
+    case 'memory':
+      return new MemoryAuditStore();
+    default:
+      return new FileAuditStore(config.audit.filePath);
+  }
+}
+
+// Application-wide audit log, created on first use
+export function getAuditLogger(): SecurityAuditLogger {
+  if (!sharedAuditLogger) {
+    sharedAuditLogger = new SecurityAuditLogger(
+      {
+        logLevel: 'info',
+        retentionPeriod: config.audit.retentionPeriod,
+        maxEvents: config.audit.maxEvents,
+        alertThresholds: {
+          warning: config.audit.warningThreshold,
+          critical: config.audit.criticalThreshold
+        }
+      },
+      createAuditStore(),
+      new FileAuditArchiver(config.audit.archiveDir)
+    );
+  }
+  return sharedAuditLogger;
+}
@@ -0,0 +1,392 @@
+import crypto from 'crypto';
+import net from 'net';
+import { ApiKeyRecord, DelegateGrant, DelegationStore } from './delegation-store';
+import { agentResource, Delegation, Permission, policyEngine, PolicyResource, PolicySubject } from './policy';
+import { SecurityAuditLogger } from '../security-audit-logger';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+
+// What keys and grants can be issued for. Transfers and listings also need
+// a wallet signature, so handing them out would be pointless.
+export const DELEGABLE_ACTIONS: Permission[] = ['agent:update', 'function:manage'];
+
+const API_KEY_PATTERN = /^ak_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+export interface DelegationConfig {
+  // Longest lifetime a key or grant can have, and the default
+  maxTtlMs: number;
+}
+
+export type AgentLookup = (agentAddress: string) => Promise<{ agentAddress: string; creator: string } | null>;
+
+interface ScopedRequest {
+  actions: Permission[];
+  allowedIps?: string[];
+  expiresAt?: Date;
+}
+
+export interface ApiKeyRequest extends ScopedRequest {
+  name: string;
+  agents: string[];
+}
+
+export interface DelegateGrantRequest extends ScopedRequest {
+  agentAddress: string;
+  delegate: string;
+}
+
+export type ApiKeyView = Omit<ApiKeyRecord, 'secretHash'>;
+
+export interface ApiKeyPrincipal {
+  keyId: string;
+  ownerId: string;
+  ownerWallet: string;
+  agents: string[];
+  actions: Permission[];
+}
+
+export interface AccessContext {
+  ip?: string;
+  method?: string;
+  path?: string;
+}
+
+/**
+ * Lets an agent owner hand out limited access without their wallet: API
+ * keys for bots, and grants that make another user or wallet a delegate.
+ * Both are tied to the owner's wallet, so they lapse when the agent is
+ * transferred, and both are scoped to agents and actions with an expiry
+ * and optional IP allowlist.
+ */
+export class DelegationService {
+  private store: DelegationStore;
+  private auditLogger: SecurityAuditLogger;
+  private lookupAgent: AgentLookup;
+  private config: DelegationConfig;
+
+  constructor(
+    store: DelegationStore,
+    auditLogger: SecurityAuditLogger,
+    lookupAgent: AgentLookup,
+    config: DelegationConfig
+  ) {
+    this.store = store;
+    this.auditLogger = auditLogger;
+    this.lookupAgent = lookupAgent;
+    this.config = config;
+  }
+
+  // The key is only returned here; the store keeps a hash of its secret
+  async createApiKey(owner: PolicySubject, request: ApiKeyRequest): Promise<{ apiKey: string; key: ApiKeyView }> {
+    if (!request.name?.trim()) {
+      throw new ValidationError('name is required');
+    }
+    const ownerWallet = await this.assertOwnerMayDelegate(owner, request.agents, request.actions);
+
+    const id = crypto.randomBytes(8).toString('hex');
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const record: ApiKeyRecord = {
+      id,
+      ownerId: owner.id,
+      ownerWallet,
+      name: request.name.trim(),
+      secretHash: hashSecret(secret),
+      agents: [...new Set(request.agents)],
+      actions: [...new Set(request.actions)],
+      allowedIps: validateAllowedIps(request.allowedIps),
+      expiresAt: this.expiryFor(request.expiresAt),
+      createdAt: new Date(),
+      lastUsedAt: null,
+      lastUsedIp: null,
+      revokedAt: null
+    };
+    await this.store.saveApiKey(record);
+
+    await this.auditLogger.logEvent({
+      type: 'apikey.created',
+      level: 'info',
+      userId: owner.id,
+      message: `API key ${id} issued for ${record.agents.length} agent(s)`,
+      metadata: { keyId: id, agents: record.agents, actions: record.actions, expiresAt: record.expiresAt.toISOString() }
+    });
+
+    return { apiKey: `ak_${id}_${secret}`, key: toView(record) };
+  }
+
+  async listApiKeys(ownerId: string): Promise<ApiKeyView[]> {
+    return (await this.store.listApiKeys(ownerId)).map(toView);
+  }
+
+  async revokeApiKey(owner: PolicySubject, keyId: string): Promise<void> {
+    const record = await this.store.findApiKey(keyId);
+    if (!record || record.ownerId !== owner.id) {
+      throw new NotFoundError('API key');
+    }
+    await this.store.revokeApiKey(keyId, new Date());
+
+    await this.auditLogger.logEvent({
+      type: 'apikey.revoked',
+      level: 'info',
+      userId: owner.id,
+      message: `API key ${keyId} revoked`,
+      metadata: { keyId }
+    });
+  }
+
+  // Null for anything but a live key used from an allowed address
+  async authenticateApiKey(apiKey: string, context: AccessContext = {}): Promise<ApiKeyPrincipal | null> {
+    const match = API_KEY_PATTERN.exec(apiKey);
+    if (!match) {
+      return null;
+    }
+
+    const [, keyId, secret] = match;
+    const record = await this.store.findApiKey(keyId);
+    if (!record || !safeEqual(record.secretHash, hashSecret(secret))) {
+      await this.logRejectedKey(keyId, record?.ownerId, 'unknown key', context);
+      return null;
+    }
+
+    const rejection = record.revokedAt ? 'revoked'
+      : record.expiresAt.getTime() <= Date.now() ? 'expired'
+        : !ipAllowed(record.allowedIps, context.ip) ? 'address not allowed'
+          : null;
+    if (rejection) {
+      await this.logRejectedKey(keyId, record.ownerId, rejection, context);
+      return null;
+    }
+
+    await this.store.touchApiKey(keyId, new Date(), context.ip ?? null);
+    await this.auditLogger.logEvent({
+      type: 'apikey.used',
+      level: 'info',
+      userId: record.ownerId,
+      message: `API key ${keyId} used for ${context.method ?? 'request'} ${context.path ?? ''}`.trim(),
+      metadata: { keyId, ip: context.ip, method: context.method, path: context.path }
+    });
+
+    return {
+      keyId,
+      ownerId: record.ownerId,
+      ownerWallet: record.ownerWallet,
+      agents: record.agents,
+      actions: record.actions
+    };
+  }
+
+  async grantDelegate(owner: PolicySubject, request: DelegateGrantRequest): Promise<DelegateGrant> {
+    if (!request.delegate?.trim()) {
+      throw new ValidationError('delegate is required');
+    }
+    const ownerWallet = await this.assertOwnerMayDelegate(owner, [request.agentAddress], request.actions);
+
+    const grant: DelegateGrant = {
+      id: crypto.randomUUID(),
+      ownerId: owner.id,
+      ownerWallet,
+      agentAddress: request.agentAddress,
+      delegate: request.delegate.trim(),
+      actions: [...new Set(request.actions)],
+      allowedIps: validateAllowedIps(request.allowedIps),
+      expiresAt: this.expiryFor(request.expiresAt),
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    await this.store.saveGrant(grant);
+
+    await this.auditLogger.logEvent({
+      type: 'delegate.granted',
+      level: 'info',
+      userId: owner.id,
+      message: `${grant.delegate} made a delegate of agent ${grant.agentAddress}`,
+      metadata: {
+        grantId: grant.id,
+        agentAddress: grant.agentAddress,
+        delegate: grant.delegate,
+        actions: grant.actions,
+        expiresAt: grant.expiresAt.toISOString()
+      }
+    });
+
+    return grant;
+  }
+
+  async listGrants(ownerId: string, agentAddress?: string): Promise<DelegateGrant[]> {
+    return this.store.listGrants({ ownerId, agentAddress });
+  }
+
+  async revokeGrant(owner: PolicySubject, grantId: string): Promise<void> {
+    const grant = await this.store.findGrant(grantId);
+    if (!grant || grant.ownerId !== owner.id) {
+      throw new NotFoundError('Delegate grant');
+    }
+    await this.store.revokeGrant(grantId, new Date());
+
+    await this.auditLogger.logEvent({
+      type: 'delegate.revoked',
+      level: 'info',
+      userId: owner.id,
+      message: `Delegate grant ${grantId} on agent ${grant.agentAddress} revoked`,
+      metadata: { grantId, agentAddress: grant.agentAddress, delegate: grant.delegate }
+    });
+  }
+
+  // Grants on the agent that apply to a request from `ip`
+  async delegationsFor(agent: { agentAddress: string; creator: string }, ip?: string): Promise<Delegation[]> {
+    const grants = await this.store.listGrants({ agentAddress: agent.agentAddress });
+    return activeDelegations(grants, agent.creator, ip);
+  }
+
+  // Called when a grant is what let a request through
+  async recordDelegateUse(
+    grantId: string,
+    subject: PolicySubject,
+    action: Permission,
+    resource: PolicyResource,
+    context: AccessContext = {}
+  ): Promise<void> {
+    await this.store.touchGrant(grantId, new Date());
+    await this.auditLogger.logEvent({
+      type: 'delegate.used',
+      level: 'info',
+      userId: subject.id,
+      message: `${action} on ${resource.type} ${resource.id} as a delegate`,
+      metadata: { grantId, action, resource: resource.id, ip: context.ip, method: context.method, path: context.path }
+    });
+  }
+
+  // The caller must own every agent, through one wallet, and be allowed
+  // each action as owner. Returns that wallet.
+  private async assertOwnerMayDelegate(owner: PolicySubject, agents: string[], actions: Permission[]): Promise<string> {
+    if (owner.scope) {
+      throw new AuthorizationError('API keys cannot issue keys or grants');
+    }
+    if (!Array.isArray(agents) || agents.length === 0) {
+      throw new ValidationError('At least one agent is required');
+    }
+    if (!Array.isArray(actions) || actions.length === 0) {
+      throw new ValidationError('At least one action is required');
+    }
+    const undelegable = actions.filter(action => !DELEGABLE_ACTIONS.includes(action));
+    if (undelegable.length > 0) {
+      throw new ValidationError(`Actions can't be delegated: ${undelegable.join(', ')}`, {
+        delegable: DELEGABLE_ACTIONS
+      });
+    }
+
+    const wallets = new Set<string>();
+    for (const agentAddress of new Set(agents)) {
+      const agent = await this.lookupAgent(agentAddress);
+      if (!agent) {
+        throw new NotFoundError(`Agent ${agentAddress}`);
+      }
+
+      // Roles don't count: an admin can't hand out access to someone else's agent
+      const asOwner = { id: owner.id, roles: [], wallets: owner.wallets };
+      for (const action of actions) {
+        const decision = policyEngine.decide(asOwner, action, agentResource(agent));
+        if (!decision.allowed || decision.via !== 'owner') {
+          throw new AuthorizationError(`Only the owner of agent ${agentAddress} can delegate access to it`);
+        }
+      }
+      wallets.add(agent.creator);
+    }
+
+    if (wallets.size > 1) {
+      throw new ValidationError('All agents must be owned by the same wallet');
+    }
+    return [...wallets][0];
+  }
+
+  private expiryFor(requested?: Date): Date {
+    const latest = Date.now() + this.config.maxTtlMs;
+    if (!requested) {
+      return new Date(latest);
+    }
+    if (Number.isNaN(requested.getTime()) || requested.getTime() <= Date.now()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+    if (requested.getTime() > latest) {
+      throw new ValidationError(`expiresAt can be at most ${Math.floor(this.config.maxTtlMs / 86400000)} days away`);
+    }
+    return requested;
+  }
+
+  private async logRejectedKey(keyId: string, ownerId: string | undefined, reason: string, context: AccessContext) {
+    await this.auditLogger.logEvent({
+      type: 'apikey.rejected',
+      level: 'warning',
+      userId: ownerId,
+      message: `API key ${keyId} rejected: ${reason}`,
+      metadata: { keyId, reason, ip: context.ip, method: context.method, path: context.path }
+    });
+  }
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith('ak_');
+}
+
+// Delegations on an agent that are usable now, from this address, and
+// were granted by its current owner
+export function activeDelegations(grants: DelegateGrant[], ownerWallet: string, ip?: string): Delegation[] {
+  const now = Date.now();
+  return grants
+    .filter(grant => !grant.revokedAt
+      && grant.expiresAt.getTime() > now
+      && grant.ownerWallet.toLowerCase() === ownerWallet.toLowerCase()
+      && ipAllowed(grant.allowedIps, ip))
+    .map(grant => ({ subject: grant.delegate, actions: grant.actions, grantId: grant.id }));
+}
+
+export function ipAllowed(allowedIps: string[], ip?: string): boolean {
+  if (allowedIps.length === 0) {
+    return true;
+  }
+  if (!ip) {
+    return false;
+  }
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+  const list = new net.BlockList();
+  for (const entry of allowedIps) {
+    const [network, prefix] = entry.split('/');
+    const entryFamily = net.isIPv6(network) ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      list.addAddress(network, entryFamily);
+    } else {
+      list.addSubnet(network, parseInt(prefix, 10), entryFamily);
+    }
+  }
+  return net.isIP(address) !== 0 && list.check(address, family);
+}
+
+function validateAllowedIps(allowedIps: string[] = []): string[] {
+  const invalid = allowedIps.filter(entry => {
+    const [network, prefix, ...rest] = entry.split('/');
+    if (rest.length > 0 || net.isIP(network) === 0) {
+      return true;
+    }
+    const maxPrefix = net.isIPv6(network) ? 128 : 32;
+    return prefix !== undefined && !(/^\d+$/.test(prefix) && parseInt(prefix, 10) <= maxPrefix);
+  });
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid IP allowlist entries: ${invalid.join(', ')}`);
+  }
+  return [...new Set(allowedIps)];
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function toView(record: ApiKeyRecord): ApiKeyView {
+  const { secretHash, ...view } = record;
+  return view;
+}
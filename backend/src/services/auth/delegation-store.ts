@@ -0,0 +1,128 @@
+import { Permission } from './policy';
+
+export interface ApiKeyRecord {
+  // Public part of the key, used to look it up
+  id: string;
+  ownerId: string;
+  // The key acts as this wallet, so it stops working once the agents move on
+  ownerWallet: string;
+  name: string;
+  // SHA-256 of the secret part
+  secretHash: string;
+  agents: string[];
+  actions: Permission[];
+  // IPs or CIDR ranges; empty allows any address
+  allowedIps: string[];
+  expiresAt: Date;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+}
+
+export interface DelegateGrant {
+  id: string;
+  ownerId: string;
+  ownerWallet: string;
+  agentAddress: string;
+  // Wallet address or user id of the delegate
+  delegate: string;
+  actions: Permission[];
+  allowedIps: string[];
+  expiresAt: Date;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface GrantFilter {
+  ownerId?: string;
+  agentAddress?: string;
+}
+
+/**
+ * Owner-issued API keys and delegate grants. Revoked and expired entries are
+ * kept so their use and history stay visible; callers check revokedAt and
+ * expiresAt.
+ */
+export interface DelegationStore {
+  saveApiKey(record: ApiKeyRecord): Promise<void>;
+  findApiKey(id: string): Promise<ApiKeyRecord | null>;
+  listApiKeys(ownerId: string): Promise<ApiKeyRecord[]>;
+  touchApiKey(id: string, usedAt: Date, ip: string | null): Promise<void>;
+  revokeApiKey(id: string, revokedAt: Date): Promise<boolean>;
+  saveGrant(grant: DelegateGrant): Promise<void>;
+  findGrant(id: string): Promise<DelegateGrant | null>;
+  listGrants(filter: GrantFilter): Promise<DelegateGrant[]>;
+  touchGrant(id: string, usedAt: Date): Promise<void>;
+  revokeGrant(id: string, revokedAt: Date): Promise<boolean>;
+}
+
+export class MemoryDelegationStore implements DelegationStore {
+  private apiKeys = new Map<string, ApiKeyRecord>();
+  private grants = new Map<string, DelegateGrant>();
+
+  async saveApiKey(record: ApiKeyRecord): Promise<void> {
+    this.apiKeys.set(record.id, { ...record });
+  }
+
+  async findApiKey(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.apiKeys.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async listApiKeys(ownerId: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(record => record.ownerId === ownerId)
+      .map(record => ({ ...record }));
+  }
+
+  async touchApiKey(id: string, usedAt: Date, ip: string | null): Promise<void> {
+    const record = this.apiKeys.get(id);
+    if (record) {
+      record.lastUsedAt = usedAt;
+      record.lastUsedIp = ip;
+    }
+  }
+
+  async revokeApiKey(id: string, revokedAt: Date): Promise<boolean> {
+    const record = this.apiKeys.get(id);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+    record.revokedAt = revokedAt;
+    return true;
+  }
+
+  async saveGrant(grant: DelegateGrant): Promise<void> {
+    this.grants.set(grant.id, { ...grant });
+  }
+
+  async findGrant(id: string): Promise<DelegateGrant | null> {
+    const grant = this.grants.get(id);
+    return grant ? { ...grant } : null;
+  }
+
+  async listGrants(filter: GrantFilter): Promise<DelegateGrant[]> {
+    return Array.from(this.grants.values())
+      .filter(grant => (!filter.ownerId || grant.ownerId === filter.ownerId)
+        && (!filter.agentAddress || grant.agentAddress === filter.agentAddress))
+      .map(grant => ({ ...grant }));
+  }
+
+  async touchGrant(id: string, usedAt: Date): Promise<void> {
+    const grant = this.grants.get(id);
+    if (grant) {
+      grant.lastUsedAt = usedAt;
+    }
+  }
+
+  async revokeGrant(id: string, revokedAt: Date): Promise<boolean> {
+    const grant = this.grants.get(id);
+    if (!grant || grant.revokedAt) {
+      return false;
+    }
+    grant.revokedAt = revokedAt;
+    return true;
+  }
+}
@@ -0,0 +1,96 @@
+import crypto, { KeyObject } from 'crypto';
+
+export type JwsAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+export const JWS_ALGORITHMS: JwsAlgorithm[] = ['HS256', 'RS256', 'ES256', 'EdDSA'];
+
+export interface JwsHeader {
+  alg: JwsAlgorithm;
+  kid?: string;
+  typ?: string;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Record<string, any>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export class JwsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwsError';
+  }
+}
+
+/**
+ * Compact JWS signing for the algorithms the keyring supports. jsonwebtoken
+ * has no EdDSA support, so signatures are produced with node's crypto.
+ */
+export function signJws(header: JwsHeader, payload: Record<string, any>, key: KeyObject): string {
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const data = Buffer.from(signingInput, 'ascii');
+
+  let signature: Buffer;
+  switch (header.alg) {
+    case 'HS256':
+      signature = crypto.createHmac('sha256', key).update(data).digest();
+      break;
+    case 'RS256':
+      signature = crypto.sign('sha256', data, key);
+      break;
+    case 'ES256':
+      // JWS wants the raw r||s form, not DER
+      signature = crypto.sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+      break;
+    case 'EdDSA':
+      signature = crypto.sign(null, data, key);
+      break;
+    default:
+      throw new JwsError(`Unsupported algorithm ${header.alg}`);
+  }
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+export function decodeJws(token: string): DecodedJws {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwsError('Token is not a compact JWS');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch {
+    throw new JwsError('Token is malformed');
+  }
+}
+
+export function verifyJwsSignature(decoded: DecodedJws, algorithm: JwsAlgorithm, key: KeyObject): boolean {
+  const data = Buffer.from(decoded.signingInput, 'ascii');
+
+  switch (algorithm) {
+    case 'HS256': {
+      const expected = crypto.createHmac('sha256', key).update(data).digest();
+      return expected.length === decoded.signature.length && crypto.timingSafeEqual(expected, decoded.signature);
+    }
+    case 'RS256':
+      return crypto.verify('sha256', data, key, decoded.signature);
+    case 'ES256':
+      return crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, decoded.signature);
+    case 'EdDSA':
+      return crypto.verify(null, data, key, decoded.signature);
+    default:
+      return false;
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
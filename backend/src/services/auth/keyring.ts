@@ -0,0 +1,192 @@
+import crypto, { JsonWebKey, KeyObject } from 'crypto';
+import fs from 'fs';
+import { DEFAULT_JWT_SECRET } from '../../config';
+import { JWS_ALGORITHMS, JwsAlgorithm } from './jws';
+
+/**
+ * A signing key and its lifecycle. The key signs new tokens from activatesAt
+ * until retiresAt, then only verifies them until expiresAt, which should be
+ * at least one token lifetime after retirement.
+ */
+export interface KeyringKey {
+  kid: string;
+  algorithm: JwsAlgorithm;
+  // Absent for verify-only keys, e.g. another service's public key
+  privateKey?: KeyObject;
+  // The shared secret for HS256
+  publicKey: KeyObject;
+  activatesAt: Date;
+  retiresAt?: Date;
+  expiresAt?: Date;
+}
+
+// Shape of each entry in the JWT_KEYS_FILE JSON array
+export interface KeyringKeyConfig {
+  kid: string;
+  algorithm: JwsAlgorithm;
+  privateKey?: string;
+  privateKeyFile?: string;
+  publicKey?: string;
+  publicKeyFile?: string;
+  activatesAt?: string;
+  retiresAt?: string;
+  expiresAt?: string;
+}
+
+export interface KeyringOptions {
+  env: string;
+  secret: string;
+  algorithm: string;
+  keysFile?: string;
+}
+
+export class KeyringError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyringError';
+  }
+}
+
+// What the key material must be for each algorithm
+const KEY_TYPES: Record<JwsAlgorithm, { type: string; curve?: string }> = {
+  HS256: { type: 'secret' },
+  RS256: { type: 'rsa' },
+  ES256: { type: 'ec', curve: 'prime256v1' },
+  EdDSA: { type: 'ed25519' }
+};
+
+export class Keyring {
+  private keys: Map<string, KeyringKey>;
+
+  constructor(keys: KeyringKey[]) {
+    this.keys = new Map();
+    for (const key of keys) {
+      if (this.keys.has(key.kid)) {
+        throw new KeyringError(`Duplicate key id ${key.kid}`);
+      }
+      assertKeyMatchesAlgorithm(key);
+      this.keys.set(key.kid, key);
+    }
+  }
+
+  static fromSecret(secret: string, kid: string = 'default'): Keyring {
+    return new Keyring([{
+      kid,
+      algorithm: 'HS256',
+      privateKey: crypto.createSecretKey(Buffer.from(secret, 'utf8')),
+      publicKey: crypto.createSecretKey(Buffer.from(secret, 'utf8')),
+      activatesAt: new Date(0)
+    }]);
+  }
+
+  // The most recently activated key that is still allowed to sign
+  signingKey(now: Date = new Date()): KeyringKey {
+    let current: KeyringKey | null = null;
+    for (const key of this.keys.values()) {
+      const active = key.privateKey && key.activatesAt <= now && (!key.retiresAt || now < key.retiresAt);
+      if (active && (!current || key.activatesAt > current.activatesAt)) {
+        current = key;
+      }
+    }
+    if (!current) {
+      throw new KeyringError('No active signing key');
+    }
+    return current;
+  }
+
+  verificationKey(kid: string, now: Date = new Date()): KeyringKey | null {
+    const key = this.keys.get(kid);
+    if (!key || key.activatesAt > now || (key.expiresAt && now >= key.expiresAt)) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * Public keys in JWK Set form. Keys that are not active yet are included
+   * so other services have them cached before the first token is signed.
+   */
+  jwks(now: Date = new Date()): { keys: JsonWebKey[] } {
+    const keys: JsonWebKey[] = [];
+    for (const key of this.keys.values()) {
+      if (key.algorithm === 'HS256' || (key.expiresAt && now >= key.expiresAt)) {
+        continue;
+      }
+      keys.push({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig'
+      });
+    }
+    return { keys };
+  }
+}
+
+/**
+ * Build the keyring from config. Without a keys file the shared secret is
+ * used as a single HS256 key, which production refuses to do with the
+ * placeholder secret. Keys file entries never fall back to that secret.
+ */
+export function loadKeyring(options: KeyringOptions): Keyring {
+  if (!options.keysFile) {
+    if (options.algorithm !== 'HS256') {
+      throw new KeyringError(`JWT_ALGORITHM=${options.algorithm} requires JWT_KEYS_FILE`);
+    }
+    if (options.env === 'production' && (!options.secret || options.secret === DEFAULT_JWT_SECRET)) {
+      throw new KeyringError('JWT_SECRET must be changed from the default in production');
+    }
+    return Keyring.fromSecret(options.secret);
+  }
+
+  const entries: KeyringKeyConfig[] = JSON.parse(fs.readFileSync(options.keysFile, 'utf8'));
+  return new Keyring(entries.map(toKeyringKey));
+}
+
+function toKeyringKey(entry: KeyringKeyConfig): KeyringKey {
+  if (!JWS_ALGORITHMS.includes(entry.algorithm)) {
+    throw new KeyringError(`Key ${entry.kid} has unsupported algorithm ${entry.algorithm}`);
+  }
+
+  const privatePem = entry.privateKey ?? (entry.privateKeyFile && fs.readFileSync(entry.privateKeyFile, 'utf8'));
+  const publicPem = entry.publicKey ?? (entry.publicKeyFile && fs.readFileSync(entry.publicKeyFile, 'utf8'));
+
+  let privateKey: KeyObject | undefined;
+  let publicKey: KeyObject;
+  if (entry.algorithm === 'HS256') {
+    if (!privatePem) {
+      throw new KeyringError(`Key ${entry.kid} is HS256 and needs privateKey or privateKeyFile`);
+    }
+    privateKey = publicKey = crypto.createSecretKey(Buffer.from(privatePem, 'utf8'));
+  } else if (privatePem) {
+    privateKey = crypto.createPrivateKey(privatePem);
+    publicKey = crypto.createPublicKey(privateKey);
+  } else if (publicPem) {
+    publicKey = crypto.createPublicKey(publicPem);
+  } else {
+    throw new KeyringError(`Key ${entry.kid} has no key material`);
+  }
+
+  return {
+    kid: entry.kid,
+    algorithm: entry.algorithm,
+    privateKey,
+    publicKey,
+    activatesAt: entry.activatesAt ? new Date(entry.activatesAt) : new Date(0),
+    retiresAt: entry.retiresAt ? new Date(entry.retiresAt) : undefined,
+    expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : undefined
+  };
+}
+
+function assertKeyMatchesAlgorithm(key: KeyringKey): void {
+  const expected = KEY_TYPES[key.algorithm];
+  const actual = key.publicKey.type === 'secret' ? 'secret' : key.publicKey.asymmetricKeyType;
+  const curve = key.publicKey.asymmetricKeyDetails?.namedCurve;
+
+  if (actual !== expected.type || (expected.curve && curve !== expected.curve)) {
+    throw new KeyringError(`Key ${key.kid} is not a valid ${key.algorithm} key`);
+  }
+  if (key.retiresAt && key.expiresAt && key.expiresAt < key.retiresAt) {
+    throw new KeyringError(`Key ${key.kid} expires before it retires`);
+  }
+}
@@ -0,0 +1,93 @@
+export interface LockRecord {
+  key: string;
+  lockedUntil: number;
+}
+
+/**
+ * Failed-login counters and lockouts, keyed by opaque strings such as
+ * "username:alice" or "ip:10.0.0.1". Shared between replicas so an attacker
+ * can't spread guesses across them.
+ */
+export interface LoginAttemptStore {
+  // Counts a failure in a window that starts at the key's first failure
+  incrementFailures(key: string, windowMs: number): Promise<number>;
+  getFailures(key: string): Promise<number>;
+  resetFailures(key: string): Promise<void>;
+  // Counts lockouts so repeat offenders are locked out for longer; the
+  // count is forgotten after ttlMs without another lockout
+  incrementLockouts(key: string, ttlMs: number): Promise<number>;
+  lock(key: string, lockedUntil: number): Promise<void>;
+  getLockedUntil(key: string): Promise<number | null>;
+  // Clears the lock, failures and lockout count; false if it wasn't locked
+  unlock(key: string): Promise<boolean>;
+  listLocks(): Promise<LockRecord[]>;
+}
+
+interface Counter {
+  count: number;
+  expiresAt: number;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private failures = new Map<string, Counter>();
+  private lockouts = new Map<string, Counter>();
+  private locks = new Map<string, number>();
+
+  async incrementFailures(key: string, windowMs: number): Promise<number> {
+    const counter = this.liveCounter(this.failures, key) ?? { count: 0, expiresAt: Date.now() + windowMs };
+    counter.count++;
+    this.failures.set(key, counter);
+    return counter.count;
+  }
+
+  async getFailures(key: string): Promise<number> {
+    return this.liveCounter(this.failures, key)?.count ?? 0;
+  }
+
+  async resetFailures(key: string): Promise<void> {
+    this.failures.delete(key);
+  }
+
+  async incrementLockouts(key: string, ttlMs: number): Promise<number> {
+    const count = (this.liveCounter(this.lockouts, key)?.count ?? 0) + 1;
+    this.lockouts.set(key, { count, expiresAt: Date.now() + ttlMs });
+    return count;
+  }
+
+  async lock(key: string, lockedUntil: number): Promise<void> {
+    this.locks.set(key, lockedUntil);
+  }
+
+  async getLockedUntil(key: string): Promise<number | null> {
+    const lockedUntil = this.locks.get(key);
+    if (lockedUntil === undefined || lockedUntil <= Date.now()) {
+      this.locks.delete(key);
+      return null;
+    }
+    return lockedUntil;
+  }
+
+  async unlock(key: string): Promise<boolean> {
+    const wasLocked = (await this.getLockedUntil(key)) !== null;
+    this.locks.delete(key);
+    this.failures.delete(key);
+    this.lockouts.delete(key);
+    return wasLocked;
+  }
+
+  async listLocks(): Promise<LockRecord[]> {
+    const now = Date.now();
+    return Array.from(this.locks)
+      .filter(([, lockedUntil]) => lockedUntil > now)
+      .map(([key, lockedUntil]) => ({ key, lockedUntil }));
+  }
+
+  private liveCounter(counters: Map<string, Counter>, key: string): Counter | undefined {
+    const counter = counters.get(key);
+    if (counter && counter.expiresAt <= Date.now()) {
+      counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+}
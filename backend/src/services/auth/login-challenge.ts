@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import { NonceStore } from './nonce-store';
+
+export interface LoginChallengeContext {
+  username: string;
+  ip?: string;
+}
+
+/**
+ * Something a client must solve before more code guesses are accepted,
+ * such as a CAPTCHA or a proof of work. `issue` returns what the client
+ * needs to show or solve; `verify` checks the solution it sends back with
+ * the next login.
+ */
+export interface LoginChallengeProvider {
+  readonly type: string;
+  issue(context: LoginChallengeContext): Promise<Record<string, any>>;
+  verify(solution: Record<string, any>, context: LoginChallengeContext): Promise<boolean>;
+}
+
+export interface ProofOfWorkConfig {
+  // Leading zero bits required in sha256(`${challenge}:${nonce}`)
+  difficulty: number;
+  ttlMs: number;
+}
+
+/**
+ * Hashcash-style challenge: cheap for one login, expensive for a guessing
+ * script. Each challenge is single-use.
+ */
+export class ProofOfWorkChallenge implements LoginChallengeProvider {
+  readonly type = 'pow';
+  private nonces: NonceStore;
+  private config: ProofOfWorkConfig;
+
+  constructor(nonces: NonceStore, config: ProofOfWorkConfig) {
+    this.nonces = nonces;
+    this.config = config;
+  }
+
+  async issue(): Promise<Record<string, any>> {
+    const challenge = crypto.randomBytes(16).toString('hex');
+    await this.nonces.save(`pow:${challenge}`, this.config.ttlMs);
+    return { type: this.type, algorithm: 'sha256', challenge, difficulty: this.config.difficulty };
+  }
+
+  async verify(solution: Record<string, any>): Promise<boolean> {
+    const { challenge, nonce } = solution;
+    if (typeof challenge !== 'string' || (typeof nonce !== 'string' && typeof nonce !== 'number')) {
+      return false;
+    }
+
+    // Check the work first so a bad solution doesn't burn the challenge
+    const digest = crypto.createHash('sha256').update(`${challenge}:${nonce}`).digest();
+    if (leadingZeroBits(digest) < this.config.difficulty) {
+      return false;
+    }
+    return this.nonces.consume(`pow:${challenge}`);
+  }
+}
+
+export interface CaptchaConfig {
+  siteKey: string;
+  secret: string;
+  // hCaptcha, reCAPTCHA and Turnstile share this siteverify protocol
+  verifyUrl: string;
+  timeoutMs: number;
+}
+
+export class CaptchaChallenge implements LoginChallengeProvider {
+  readonly type = 'captcha';
+  private config: CaptchaConfig;
+  private client: AxiosInstance;
+
+  constructor(config: CaptchaConfig, client?: AxiosInstance) {
+    this.config = config;
+    this.client = client || axios.create({ timeout: config.timeoutMs });
+  }
+
+  async issue(): Promise<Record<string, any>> {
+    return { type: this.type, siteKey: this.config.siteKey };
+  }
+
+  async verify(solution: Record<string, any>, context: LoginChallengeContext): Promise<boolean> {
+    if (typeof solution.token !== 'string') {
+      return false;
+    }
+
+    const form = new URLSearchParams({ secret: this.config.secret, response: solution.token });
+    if (context.ip) {
+      form.set('remoteip', context.ip);
+    }
+
+    const response = await this.client.post(this.config.verifyUrl, form.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+    return response.data?.success === true;
+  }
+}
+
+function leadingZeroBits(digest: Buffer): number {
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
@@ -0,0 +1,196 @@
+import { LoginAttemptStore } from './login-attempt-store';
+import { LoginChallengeProvider } from './login-challenge';
+import { SecurityAuditLogger } from '../security-audit-logger';
+import { AccountLockedError, ChallengeRequiredError } from '../../utils/errors';
+
+export type LockScope = 'username' | 'ip' | 'username_ip';
+
+export const LOCK_SCOPES: LockScope[] = ['username', 'ip', 'username_ip'];
+
+export interface LoginProtectionConfig {
+  // Failures are counted over this window from the first one
+  windowMs: number;
+  // Failures before a lockout. A username lockout stops guessing spread
+  // over many IPs but also lets anyone lock a user out, so its limit
+  // should sit well above the username+IP one.
+  maxFailures: Record<LockScope, number>;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  // How long lockouts are remembered when doubling the next one
+  lockoutMemoryMs: number;
+  // Failures on any key before a challenge must be solved to keep trying
+  challengeAfter: number;
+}
+
+export interface LoginAttempt {
+  username: string;
+  ip?: string;
+  // Solution to a challenge issued after earlier failures
+  challenge?: Record<string, any>;
+}
+
+export interface Lockout {
+  scope: LockScope;
+  subject: string;
+  lockedUntil: Date;
+}
+
+/**
+ * Brute-force protection for second-factor codes. Failures are counted per
+ * username, per IP and per username+IP in a shared store; each key locks
+ * out on its own with a duration that doubles on every repeat lockout.
+ * After a few failures the client has to solve a challenge (CAPTCHA or
+ * proof of work) before more guesses are checked.
+ */
+export class LoginProtection {
+  private store: LoginAttemptStore;
+  private auditLogger: SecurityAuditLogger;
+  private config: LoginProtectionConfig;
+  private challenges: LoginChallengeProvider | null;
+
+  constructor(
+    store: LoginAttemptStore,
+    auditLogger: SecurityAuditLogger,
+    config: LoginProtectionConfig,
+    challenges: LoginChallengeProvider | null = null
+  ) {
+    this.store = store;
+    this.auditLogger = auditLogger;
+    this.config = config;
+    this.challenges = challenges;
+  }
+
+  /**
+   * Call before checking the code. Throws AccountLockedError while any
+   * key is locked, and ChallengeRequiredError (with a fresh challenge) when
+   * a challenge is due and the attempt has no valid solution.
+   */
+  async assertAllowed(attempt: LoginAttempt): Promise<void> {
+    const keys = attemptKeys(attempt);
+
+    const lockedUntil = Math.max(0, ...await Promise.all(
+      keys.map(async ({ key }) => (await this.store.getLockedUntil(key)) ?? 0)
+    ));
+    if (lockedUntil > Date.now()) {
+      throw new AccountLockedError(Math.ceil((lockedUntil - Date.now()) / 1000));
+    }
+
+    if (!this.challenges || !(await this.challengeDue(attempt))) {
+      return;
+    }
+
+    const context = { username: attempt.username, ip: attempt.ip };
+    if (attempt.challenge && await this.challenges.verify(attempt.challenge, context)) {
+      return;
+    }
+    throw new ChallengeRequiredError(
+      await this.challenges.issue(context),
+      attempt.challenge ? 'Challenge solution was rejected' : 'Challenge required'
+    );
+  }
+
+  // A challenge to solve up front, or null if the next attempt doesn't need one
+  async challengeFor(attempt: LoginAttempt): Promise<Record<string, any> | null> {
+    if (!this.challenges || !(await this.challengeDue(attempt))) {
+      return null;
+    }
+    return this.challenges.issue({ username: attempt.username, ip: attempt.ip });
+  }
+
+  async recordFailure(attempt: LoginAttempt): Promise<void> {
+    for (const { scope, subject, key } of attemptKeys(attempt)) {
+      const failures = await this.store.incrementFailures(key, this.config.windowMs);
+      if (failures < this.config.maxFailures[scope]) {
+        continue;
+      }
+
+      const lockouts = await this.store.incrementLockouts(key, this.config.lockoutMemoryMs);
+      const durationMs = Math.min(
+        this.config.baseLockoutMs * 2 ** (lockouts - 1),
+        this.config.maxLockoutMs
+      );
+      const lockedUntil = Date.now() + durationMs;
+
+      await this.store.lock(key, lockedUntil);
+      // After the lockout the key gets a fresh set of attempts
+      await this.store.resetFailures(key);
+
+      await this.auditLogger.logEvent({
+        type: 'auth.lockout',
+        // Username lockouts point at a targeted attack on one account
+        level: scope === 'username_ip' ? 'warning' : 'critical',
+        message: `Login locked for ${scope} ${subject} after ${failures} failed attempts`,
+        metadata: {
+          scope,
+          subject,
+          username: attempt.username,
+          ip: attempt.ip,
+          failures,
+          lockouts,
+          durationMs,
+          lockedUntil: new Date(lockedUntil).toISOString()
+        }
+      });
+    }
+  }
+
+  // A correct code clears the account's counters, but not the IP's:
+  // one valid login shouldn't launder a guessing run from the same address
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    await Promise.all(
+      attemptKeys(attempt)
+        .filter(({ scope }) => scope !== 'ip')
+        .map(({ key }) => this.store.resetFailures(key))
+    );
+  }
+
+  async listLockouts(): Promise<Lockout[]> {
+    const locks = await this.store.listLocks();
+    return locks
+      .map(({ key, lockedUntil }) => ({ ...parseKey(key), lockedUntil: new Date(lockedUntil) }))
+      .sort((a, b) => b.lockedUntil.getTime() - a.lockedUntil.getTime());
+  }
+
+  async unlock(scope: LockScope, subject: string, adminId?: string): Promise<boolean> {
+    const unlocked = await this.store.unlock(lockKey(scope, normalizeSubject(scope, subject)));
+
+    await this.auditLogger.logEvent({
+      type: 'auth.lockout.cleared',
+      level: 'info',
+      userId: adminId,
+      message: `Login lock for ${scope} ${subject} cleared by an administrator`,
+      metadata: { scope, subject, wasLocked: unlocked }
+    });
+
+    return unlocked;
+  }
+
+  private async challengeDue(attempt: LoginAttempt): Promise<boolean> {
+    const failures = await Promise.all(attemptKeys(attempt).map(({ key }) => this.store.getFailures(key)));
+    return Math.max(0, ...failures) >= this.config.challengeAfter;
+  }
+}
+
+function attemptKeys(attempt: LoginAttempt): { scope: LockScope; subject: string; key: string }[] {
+  const username = normalizeSubject('username', attempt.username);
+  const keys: { scope: LockScope; subject: string }[] = [{ scope: 'username', subject: username }];
+  if (attempt.ip) {
+    keys.push({ scope: 'ip', subject: attempt.ip });
+    keys.push({ scope: 'username_ip', subject: `${username}|${attempt.ip}` });
+  }
+  return keys.map(entry => ({ ...entry, key: lockKey(entry.scope, entry.subject) }));
+}
+
+function normalizeSubject(scope: LockScope, subject: string): string {
+  // Usernames are case-insensitive, so "Alice" and "alice" share a counter
+  return scope === 'ip' ? subject : subject.trim().toLowerCase();
+}
+
+function lockKey(scope: LockScope, subject: string): string {
+  return `${scope}:${subject}`;
+}
+
+function parseKey(key: string): { scope: LockScope; subject: string } {
+  const separator = key.indexOf(':');
+  return { scope: key.slice(0, separator) as LockScope, subject: key.slice(separator + 1) };
+}
@@ -0,0 +1,423 @@
+import crypto from 'crypto';
+import { TokenManager, TokenPayload } from './token-manager';
+import { NonceStore } from './nonce-store';
+import { MfaStore } from './mfa-store';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+import {
+  AuthenticationResponse,
+  COSE_ALGORITHMS,
+  RegistrationResponse,
+  WebAuthnError,
+  WebAuthnRelyingParty,
+  verifyAuthentication,
+  verifyRegistration
+} from './webauthn';
+import { SecurityAuditLogger } from '../security-audit-logger';
+import { AuthenticationError, ConflictError, ValidationError } from '../../utils/errors';
+
+export interface MfaConfig {
+  issuer: string;
+  rp: WebAuthnRelyingParty;
+  challengeTtlMs: number;
+  pendingTokenTtlSeconds: number;
+  recoveryCodeCount: number;
+}
+
+export type MfaMethod = 'totp' | 'recovery' | 'webauthn';
+
+export type MfaProof =
+  | { method: 'totp'; code: string }
+  | { method: 'recovery'; code: string }
+  | { method: 'webauthn'; response: AuthenticationResponse };
+
+export type LoginTokens =
+  | { mfaRequired: false; token: string; refreshToken: string }
+  | { mfaRequired: true; mfaToken: string };
+
+export interface MfaStatus {
+  enrolled: boolean;
+  totp: boolean;
+  webauthn: { id: string; name: string; createdAt: Date; lastUsedAt?: Date }[];
+  recoveryCodesRemaining: number;
+}
+
+// Claims that belong to a single token rather than to the login
+const TOKEN_CLAIMS = ['userId', 'roles', 'iat', 'exp', 'nbf', 'jti', 'mfaPending', 'mfaAt'];
+
+/**
+ * Optional second factor: TOTP with recovery codes, and WebAuthn
+ * authenticators. Logins for enrolled users get a short-lived mfaPending
+ * token that can only be exchanged, with a second factor, for real tokens
+ * stamped with mfaAt; admin routes check that stamp for step-up.
+ */
+export class MfaService {
+  private store: MfaStore;
+  private challenges: NonceStore;
+  private tokenManager: TokenManager;
+  private auditLogger: SecurityAuditLogger;
+  private config: MfaConfig;
+
+  constructor(
+    store: MfaStore,
+    challenges: NonceStore,
+    tokenManager: TokenManager,
+    auditLogger: SecurityAuditLogger,
+    config: MfaConfig
+  ) {
+    this.store = store;
+    this.challenges = challenges;
+    this.tokenManager = tokenManager;
+    this.auditLogger = auditLogger;
+    this.config = config;
+  }
+
+  async isEnrolled(userId: string): Promise<boolean> {
+    const totp = await this.store.getTotp(userId);
+    if (totp?.confirmed) {
+      return true;
+    }
+    return (await this.store.listCredentials(userId)).length > 0;
+  }
+
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const [totp, credentials, recoveryCodesRemaining] = await Promise.all([
+      this.store.getTotp(userId),
+      this.store.listCredentials(userId),
+      this.store.countRecoveryCodes(userId)
+    ]);
+
+    return {
+      enrolled: Boolean(totp?.confirmed) || credentials.length > 0,
+      totp: Boolean(totp?.confirmed),
+      webauthn: credentials.map(({ id, name, createdAt, lastUsedAt }) => ({ id, name, createdAt, lastUsedAt })),
+      recoveryCodesRemaining
+    };
+  }
+
+  /**
+   * Tokens for a user who passed the first factor: real tokens if they have
+   * no second factor, otherwise an mfaPending token to complete the login.
+   */
+  async issueLoginTokens(userId: string, roles: string[], claims: Record<string, any> = {}): Promise<LoginTokens> {
+    if (await this.isEnrolled(userId)) {
+      const mfaToken = await this.tokenManager.createToken(
+        { ...claims, userId, roles, mfaPending: true },
+        this.config.pendingTokenTtlSeconds
+      );
+      return { mfaRequired: true, mfaToken };
+    }
+
+    const [token, refreshToken] = await Promise.all([
+      this.tokenManager.generateAccessToken(userId, roles, claims),
+      this.tokenManager.generateRefreshToken(userId, roles, claims)
+    ]);
+    return { mfaRequired: false, token, refreshToken };
+  }
+
+  // Exchange an mfaPending token plus a second factor for real tokens
+  async completeLogin(pending: TokenPayload, proof: MfaProof): Promise<{ token: string; refreshToken: string }> {
+    if (!pending.mfaPending) {
+      throw new ValidationError('Login does not need a second factor');
+    }
+
+    await this.verifySecondFactor(pending.userId, proof, pending.sessionId);
+    const claims = { ...loginClaims(pending), mfaAt: Math.floor(Date.now() / 1000) };
+
+    const [token, refreshToken] = await Promise.all([
+      this.tokenManager.generateAccessToken(pending.userId, pending.roles, claims),
+      this.tokenManager.generateRefreshToken(pending.userId, pending.roles, claims)
+    ]);
+    return { token, refreshToken };
+  }
+
+  // Re-prove the second factor to get an access token with a fresh mfaAt
+  async stepUp(current: TokenPayload, proof: MfaProof): Promise<string> {
+    await this.verifySecondFactor(current.userId, proof, current.sessionId);
+    return this.tokenManager.generateAccessToken(current.userId, current.roles, {
+      ...loginClaims(current),
+      mfaAt: Math.floor(Date.now() / 1000)
+    });
+  }
+
+  async beginTotpEnrollment(userId: string, accountName: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await this.store.getTotp(userId);
+    if (existing?.confirmed) {
+      throw new ConflictError('TOTP is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.store.saveTotp(userId, { secret, confirmed: false, lastUsedStep: 0, createdAt: new Date() });
+
+    return { secret, otpauthUrl: buildOtpauthUrl(secret, this.config.issuer, accountName) };
+  }
+
+  // The first valid code proves the app was set up; returns recovery codes
+  // if this is the user's first factor
+  async confirmTotpEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const enrollment = await this.store.getTotp(userId);
+    if (!enrollment || enrollment.confirmed) {
+      throw new ConflictError('No pending TOTP enrollment');
+    }
+
+    const step = verifyTotp(enrollment.secret, code);
+    if (step === null) {
+      await this.logFailure(userId, 'totp', 'Invalid code during TOTP enrollment');
+      throw new AuthenticationError('Invalid TOTP code');
+    }
+
+    const firstFactor = !(await this.isEnrolled(userId));
+    await this.store.saveTotp(userId, { ...enrollment, confirmed: true, lastUsedStep: step });
+    await this.logEnrollment(userId, 'totp');
+
+    return { recoveryCodes: firstFactor ? await this.issueRecoveryCodes(userId) : [] };
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    if (!(await this.isEnrolled(userId))) {
+      throw new ConflictError('Enable a second factor first');
+    }
+
+    const codes = await this.issueRecoveryCodes(userId);
+    await this.auditLogger.logEvent({
+      type: 'mfa.recovery_codes.regenerated',
+      level: 'info',
+      userId,
+      message: 'Recovery codes regenerated'
+    });
+    return codes;
+  }
+
+  // PublicKeyCredentialCreationOptions for navigator.credentials.create()
+  async beginWebAuthnRegistration(userId: string, userName: string) {
+    const challenge = await this.createChallenge(userId, 'register');
+    const existing = await this.store.listCredentials(userId);
+
+    return {
+      challenge,
+      rp: { id: this.config.rp.id, name: this.config.rp.name },
+      user: {
+        id: Buffer.from(userId, 'utf8').toString('base64url'),
+        name: userName,
+        displayName: userName
+      },
+      pubKeyCredParams: Object.values(COSE_ALGORITHMS).map(alg => ({ type: 'public-key', alg })),
+      timeout: this.config.challengeTtlMs,
+      attestation: 'none',
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: this.config.rp.requireUserVerification ? 'required' : 'preferred'
+      },
+      excludeCredentials: existing.map(credential => ({
+        type: 'public-key',
+        id: credential.id,
+        transports: credential.transports
+      }))
+    };
+  }
+
+  async finishWebAuthnRegistration(
+    userId: string,
+    response: RegistrationResponse,
+    name: string
+  ): Promise<{ credentialId: string; recoveryCodes: string[] }> {
+    const challenge = await this.consumeChallenge(userId, 'register', response.response?.clientDataJSON);
+
+    let verified;
+    try {
+      verified = verifyRegistration(response, challenge, this.config.rp);
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        await this.logFailure(userId, 'webauthn', `Registration rejected: ${error.message}`);
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    if (await this.store.findCredential(verified.credentialId)) {
+      throw new ConflictError('Authenticator is already registered');
+    }
+
+    const firstFactor = !(await this.isEnrolled(userId));
+    await this.store.saveCredential({
+      id: verified.credentialId,
+      userId,
+      name,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: verified.transports,
+      createdAt: new Date()
+    });
+    await this.logEnrollment(userId, 'webauthn', { credentialId: verified.credentialId, name });
+
+    return {
+      credentialId: verified.credentialId,
+      recoveryCodes: firstFactor ? await this.issueRecoveryCodes(userId) : []
+    };
+  }
+
+  // PublicKeyCredentialRequestOptions for navigator.credentials.get()
+  async beginWebAuthnAuthentication(userId: string) {
+    const credentials = await this.store.listCredentials(userId);
+    if (credentials.length === 0) {
+      throw new ValidationError('No authenticators registered');
+    }
+
+    return {
+      challenge: await this.createChallenge(userId, 'authenticate'),
+      rpId: this.config.rp.id,
+      timeout: this.config.challengeTtlMs,
+      userVerification: this.config.rp.requireUserVerification ? 'required' : 'preferred',
+      allowCredentials: credentials.map(credential => ({
+        type: 'public-key',
+        id: credential.id,
+        transports: credential.transports
+      }))
+    };
+  }
+
+  /**
+   * Check a second factor and return the method used. Throws
+   * AuthenticationError on any mismatch; failures are audited.
+   */
+  async verifySecondFactor(userId: string, proof: MfaProof, sessionId?: string): Promise<MfaMethod> {
+    try {
+      switch (proof.method) {
+        case 'totp':
+          await this.verifyTotpCode(userId, proof.code);
+          break;
+        case 'recovery':
+          await this.verifyRecoveryCode(userId, proof.code);
+          break;
+        case 'webauthn':
+          await this.verifyWebAuthnAssertion(userId, proof.response);
+          break;
+        default:
+          throw new ValidationError('Unknown second factor method');
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        await this.logFailure(userId, proof.method, error.message, sessionId);
+      }
+      throw error;
+    }
+
+    await this.auditLogger.logEvent({
+      type: 'mfa.verify',
+      level: proof.method === 'recovery' ? 'warning' : 'info',
+      userId,
+      sessionId,
+      message: `Second factor verified with ${proof.method}`,
+      metadata: { method: proof.method }
+    });
+    return proof.method;
+  }
+
+  private async verifyTotpCode(userId: string, code: string): Promise<void> {
+    const enrollment = await this.store.getTotp(userId);
+    if (!enrollment?.confirmed) {
+      throw new AuthenticationError('TOTP is not enabled');
+    }
+
+    const step = verifyTotp(enrollment.secret, String(code ?? ''));
+    if (step === null) {
+      throw new AuthenticationError('Invalid TOTP code');
+    }
+    if (!(await this.store.markTotpStepUsed(userId, step))) {
+      throw new AuthenticationError('TOTP code was already used');
+    }
+  }
+
+  private async verifyRecoveryCode(userId: string, code: string): Promise<void> {
+    if (!(await this.store.consumeRecoveryCode(userId, hashRecoveryCode(String(code ?? ''))))) {
+      throw new AuthenticationError('Invalid recovery code');
+    }
+  }
+
+  private async verifyWebAuthnAssertion(userId: string, response: AuthenticationResponse): Promise<void> {
+    const credential = response?.id ? await this.store.findCredential(response.id) : null;
+    if (!credential || credential.userId !== userId) {
+      throw new AuthenticationError('Unknown authenticator');
+    }
+
+    const challenge = await this.consumeChallenge(userId, 'authenticate', response.response?.clientDataJSON);
+    try {
+      const { signCount } = verifyAuthentication(response, challenge, this.config.rp, credential);
+      await this.store.updateCredentialUsage(credential.id, signCount, new Date());
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        throw new AuthenticationError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.config.recoveryCodeCount }, generateRecoveryCode);
+    await this.store.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+    return codes;
+  }
+
+  // Challenges live in the nonce store under a key that binds them to the
+  // user and the ceremony, so one can't be replayed for another
+  private async createChallenge(userId: string, ceremony: string): Promise<string> {
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    await this.challenges.save(challengeKey(userId, ceremony, challenge), this.config.challengeTtlMs);
+    return challenge;
+  }
+
+  private async consumeChallenge(userId: string, ceremony: string, clientDataJSON?: string): Promise<string> {
+    let challenge: unknown;
+    try {
+      challenge = JSON.parse(Buffer.from(clientDataJSON || '', 'base64url').toString('utf8')).challenge;
+    } catch {
+      throw new ValidationError('Malformed client data');
+    }
+
+    if (typeof challenge !== 'string' || !(await this.challenges.consume(challengeKey(userId, ceremony, challenge)))) {
+      throw new AuthenticationError('WebAuthn challenge is invalid or expired');
+    }
+    return challenge;
+  }
+
+  private async logEnrollment(userId: string, method: MfaMethod, metadata: Record<string, any> = {}): Promise<void> {
+    await this.auditLogger.logEvent({
+      type: 'mfa.enroll',
+      level: 'info',
+      userId,
+      message: `Enrolled ${method} second factor`,
+      metadata: { method, ...metadata }
+    });
+  }
+
+  private async logFailure(userId: string, method: MfaMethod, reason: string, sessionId?: string): Promise<void> {
+    await this.auditLogger.logEvent({
+      type: 'mfa.failed',
+      level: 'warning',
+      userId,
+      sessionId,
+      message: `Second factor rejected: ${reason}`,
+      metadata: { method }
+    });
+  }
+}
+
+function loginClaims(payload: TokenPayload): Record<string, any> {
+  return Object.fromEntries(Object.entries(payload).filter(([key]) => !TOKEN_CLAIMS.includes(key)));
+}
+
+function challengeKey(userId: string, ceremony: string, challenge: string): string {
+  return `webauthn:${ceremony}:${userId}:${challenge}`;
+}
+
+// 10 base32 characters, grouped for reading aloud: ABCDE-FGHIJ
+function generateRecoveryCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const chars = Array.from(crypto.randomBytes(10), byte => alphabet[byte % alphabet.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,98 @@
+import { JsonWebKey } from 'crypto';
+
+export interface TotpEnrollment {
+  secret: string;
+  confirmed: boolean;
+  // Last accepted time step; codes at or before it are replays
+  lastUsedStep: number;
+  createdAt: Date;
+}
+
+export interface StoredWebAuthnCredential {
+  id: string;
+  userId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Second-factor enrollments per user. Recovery codes are stored as SHA-256
+ * hashes and each can be consumed once.
+ */
+export interface MfaStore {
+  getTotp(userId: string): Promise<TotpEnrollment | null>;
+  saveTotp(userId: string, enrollment: TotpEnrollment): Promise<void>;
+  // Atomically records the step; false if it is not newer than the last one
+  markTotpStepUsed(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+  listCredentials(userId: string): Promise<StoredWebAuthnCredential[]>;
+  findCredential(credentialId: string): Promise<StoredWebAuthnCredential | null>;
+  saveCredential(credential: StoredWebAuthnCredential): Promise<void>;
+  updateCredentialUsage(credentialId: string, signCount: number, usedAt: Date): Promise<void>;
+}
+
+export class MemoryMfaStore implements MfaStore {
+  private totp = new Map<string, TotpEnrollment>();
+  private recoveryCodes = new Map<string, Set<string>>();
+  private credentials = new Map<string, StoredWebAuthnCredential>();
+
+  async getTotp(userId: string): Promise<TotpEnrollment | null> {
+    const enrollment = this.totp.get(userId);
+    return enrollment ? { ...enrollment } : null;
+  }
+
+  async saveTotp(userId: string, enrollment: TotpEnrollment): Promise<void> {
+    this.totp.set(userId, { ...enrollment });
+  }
+
+  async markTotpStepUsed(userId: string, step: number): Promise<boolean> {
+    const enrollment = this.totp.get(userId);
+    if (!enrollment || step <= enrollment.lastUsedStep) {
+      return false;
+    }
+    enrollment.lastUsedStep = step;
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    this.recoveryCodes.set(userId, new Set(codeHashes));
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    return this.recoveryCodes.get(userId)?.delete(codeHash) ?? false;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.recoveryCodes.get(userId)?.size ?? 0;
+  }
+
+  async listCredentials(userId: string): Promise<StoredWebAuthnCredential[]> {
+    return Array.from(this.credentials.values())
+      .filter(credential => credential.userId === userId)
+      .map(credential => ({ ...credential }));
+  }
+
+  async findCredential(credentialId: string): Promise<StoredWebAuthnCredential | null> {
+    const credential = this.credentials.get(credentialId);
+    return credential ? { ...credential } : null;
+  }
+
+  async saveCredential(credential: StoredWebAuthnCredential): Promise<void> {
+    this.credentials.set(credential.id, { ...credential });
+  }
+
+  async updateCredentialUsage(credentialId: string, signCount: number, usedAt: Date): Promise<void> {
+    const credential = this.credentials.get(credentialId);
+    if (credential) {
+      credential.signCount = signCount;
+      credential.lastUsedAt = usedAt;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Holds outstanding sign-in nonces. A nonce can be consumed once; consuming
+ * an unknown or expired nonce returns false.
+ */
+export interface NonceStore {
+  save(nonce: string, ttlMs: number): Promise<void>;
+  consume(nonce: string): Promise<boolean>;
+}
+
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  async save(nonce: string, ttlMs: number): Promise<void> {
+    this.prune();
+    this.nonces.set(nonce, Date.now() + ttlMs);
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    }
+  }
+}
@@ -0,0 +1,179 @@
+export const PERMISSIONS = [
+  'agent:create',
+  'agent:update',
+  'agent:transfer',
+  'agent:list',
+  'agent:request_verification',
+  'agent:verify',
+  'function:manage',
+  'function:execute',
+  'metrics:read',
+  'metrics:write',
+  'metrics:delete',
+  'metrics:manage',
+  'session:manage',
+  'audit:read',
+  'lockout:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// '*' grants everything, 'agent:*' everything on agents
+export type PermissionGrant = Permission | '*' | `${string}:*`;
+
+// How a subject relates to a particular resource
+export type Relation = 'owner' | 'delegate';
+
+export interface Policy {
+  // Permissions a role holds on every resource
+  roles: Record<string, PermissionGrant[]>;
+  // Permissions that only hold on resources the subject owns or is a delegate for
+  relations: Record<Relation, PermissionGrant[]>;
+}
+
+// A ceiling on what a subject may do, whatever its roles and relations
+// would allow. API keys carry the agents and actions they were issued for.
+export interface PolicyScope {
+  agents?: string[];
+  actions?: Permission[];
+}
+
+export interface PolicySubject {
+  id: string;
+  roles: string[];
+  // Wallet addresses the subject has proven control of
+  wallets?: string[];
+  scope?: PolicyScope;
+}
+
+// Someone the owner lets act on a resource, optionally for fewer actions
+// than the delegate relation allows
+export interface Delegation {
+  subject: string;
+  actions?: Permission[];
+  grantId?: string;
+}
+
+export interface PolicyResource {
+  type: string;
+  id: string;
+  // Wallet address or user id that owns the resource
+  owner?: string;
+  delegates?: Delegation[];
+}
+
+export type PolicyDecision =
+  | { allowed: false }
+  | { allowed: true; via: 'role' | 'owner' | 'delegate'; grantId?: string };
+
+export const DEFAULT_POLICY: Policy = {
+  roles: {
+    admin: ['*'],
+    verifier: ['agent:verify'],
+    user: ['agent:create', 'function:execute', 'metrics:read', 'metrics:write']
+  },
+  relations: {
+    owner: [
+      'agent:update',
+      'agent:transfer',
+      'agent:list',
+      'agent:request_verification',
+      'function:manage',
+      'session:manage'
+    ],
+    delegate: ['agent:update', 'function:manage']
+  }
+};
+
+/**
+ * Answers "may this subject do this to that resource". Kept free of server
+ * imports so the frontend can evaluate the same policy, which it fetches
+ * from /api/auth/permissions.
+ */
+export class PolicyEngine {
+  private policy: Policy;
+
+  constructor(policy: Policy = DEFAULT_POLICY) {
+    this.policy = policy;
+  }
+
+  can(subject: PolicySubject, action: Permission, resource?: PolicyResource | null): boolean {
+    return this.decide(subject, action, resource).allowed;
+  }
+
+  // Like can(), but says what allowed it so delegated access can be audited
+  decide(subject: PolicySubject, action: Permission, resource?: PolicyResource | null): PolicyDecision {
+    if (subject.scope && !withinScope(subject.scope, action, resource)) {
+      return { allowed: false };
+    }
+
+    const roleGrants = subject.roles.flatMap(role => this.policy.roles[role] ?? []);
+    if (grants(roleGrants, action)) {
+      return { allowed: true, via: 'role' };
+    }
+    if (!resource) {
+      return { allowed: false };
+    }
+
+    const identities = new Set([subject.id, ...(subject.wallets ?? [])].map(normalizeIdentity));
+    if (resource.owner && identities.has(normalizeIdentity(resource.owner))
+      && grants(this.policy.relations.owner, action)) {
+      return { allowed: true, via: 'owner' };
+    }
+
+    const delegation = grants(this.policy.relations.delegate, action)
+      ? resource.delegates?.find(entry => identities.has(normalizeIdentity(entry.subject))
+        && (!entry.actions || entry.actions.includes(action)))
+      : undefined;
+    return delegation
+      ? { allowed: true, via: 'delegate', grantId: delegation.grantId }
+      : { allowed: false };
+  }
+
+  // Everything the subject may do, to `resource` if given
+  permissionsFor(subject: PolicySubject, resource?: PolicyResource | null): Permission[] {
+    return PERMISSIONS.filter(permission => this.can(subject, permission, resource));
+  }
+
+  toJSON(): Policy {
+    return this.policy;
+  }
+}
+
+export const policyEngine = new PolicyEngine();
+
+export function can(subject: PolicySubject, action: Permission, resource?: PolicyResource | null): boolean {
+  return policyEngine.can(subject, action, resource);
+}
+
+// Signature-checked routes act for whoever signed rather than the caller
+export function walletSubject(address: string): PolicySubject {
+  return { id: address, roles: [], wallets: [address] };
+}
+
+export function agentResource(
+  agent: { agentAddress: string; creator: string },
+  delegates: Delegation[] = []
+): PolicyResource {
+  return { type: 'agent', id: agent.agentAddress, owner: agent.creator, delegates };
+}
+
+function grants(granted: PermissionGrant[], action: Permission): boolean {
+  const [namespace] = action.split(':');
+  return granted.some(grant => grant === '*' || grant === action || grant === `${namespace}:*`);
+}
+
+function withinScope(scope: PolicyScope, action: Permission, resource?: PolicyResource | null): boolean {
+  if (scope.actions && !scope.actions.includes(action)) {
+    return false;
+  }
+  if (scope.agents) {
+    return resource?.type === 'agent' && scope.agents.includes(resource.id);
+  }
+  return true;
+}
+
+// EVM addresses compare case-insensitively; Solana addresses are case-sensitive
+function normalizeIdentity(identity: string): string {
+  return /^0x[0-9a-fA-F]{40}$/.test(identity) ? identity.toLowerCase() : identity;
+}
@@ -0,0 +1,77 @@
+import { PrismaClient } from '@prisma/client';
+import { ApiKeyRecord, DelegateGrant, DelegationStore, GrantFilter } from './delegation-store';
+
+export class PrismaDelegationStore implements DelegationStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async saveApiKey(record: ApiKeyRecord): Promise<void> {
+    await this.prisma.apiKey.create({ data: record });
+  }
+
+  async findApiKey(id: string): Promise<ApiKeyRecord | null> {
+    const row = await this.prisma.apiKey.findUnique({ where: { id } });
+    return row ? (row as ApiKeyRecord) : null;
+  }
+
+  async listApiKeys(ownerId: string): Promise<ApiKeyRecord[]> {
+    const rows = await this.prisma.apiKey.findMany({
+      where: { ownerId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows as ApiKeyRecord[];
+  }
+
+  async touchApiKey(id: string, usedAt: Date, ip: string | null): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: usedAt, lastUsedIp: ip }
+    });
+  }
+
+  async revokeApiKey(id: string, revokedAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt }
+    });
+    return count === 1;
+  }
+
+  async saveGrant(grant: DelegateGrant): Promise<void> {
+    await this.prisma.delegateGrant.create({ data: grant });
+  }
+
+  async findGrant(id: string): Promise<DelegateGrant | null> {
+    const row = await this.prisma.delegateGrant.findUnique({ where: { id } });
+    return row ? (row as DelegateGrant) : null;
+  }
+
+  async listGrants(filter: GrantFilter): Promise<DelegateGrant[]> {
+    const rows = await this.prisma.delegateGrant.findMany({
+      where: {
+        ...(filter.ownerId && { ownerId: filter.ownerId }),
+        ...(filter.agentAddress && { agentAddress: filter.agentAddress })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows as DelegateGrant[];
+  }
+
+  async touchGrant(id: string, usedAt: Date): Promise<void> {
+    await this.prisma.delegateGrant.update({
+      where: { id },
+      data: { lastUsedAt: usedAt }
+    });
+  }
+
+  async revokeGrant(id: string, revokedAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.delegateGrant.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt }
+    });
+    return count === 1;
+  }
+}
@@ -0,0 +1,101 @@
+import { PrismaClient } from '@prisma/client';
+import { MfaStore, StoredWebAuthnCredential, TotpEnrollment } from './mfa-store';
+
+export class PrismaMfaStore implements MfaStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async getTotp(userId: string): Promise<TotpEnrollment | null> {
+    const row = await this.prisma.mfaTotp.findUnique({ where: { userId } });
+    return row
+      ? { secret: row.secret, confirmed: row.confirmed, lastUsedStep: row.lastUsedStep, createdAt: row.createdAt }
+      : null;
+  }
+
+  async saveTotp(userId: string, enrollment: TotpEnrollment): Promise<void> {
+    await this.prisma.mfaTotp.upsert({
+      where: { userId },
+      create: { userId, ...enrollment },
+      update: enrollment
+    });
+  }
+
+  async markTotpStepUsed(userId: string, step: number): Promise<boolean> {
+    // The guard in the where clause makes concurrent replays lose
+    const { count } = await this.prisma.mfaTotp.updateMany({
+      where: { userId, lastUsedStep: { lt: step } },
+      data: { lastUsedStep: step }
+    });
+    return count === 1;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: codeHashes.map(codeHash => ({ userId, codeHash }))
+      })
+    ]);
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const { count } = await this.prisma.mfaRecoveryCode.deleteMany({ where: { userId, codeHash } });
+    return count === 1;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return this.prisma.mfaRecoveryCode.count({ where: { userId } });
+  }
+
+  async listCredentials(userId: string): Promise<StoredWebAuthnCredential[]> {
+    const rows = await this.prisma.webAuthnCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(toCredential);
+  }
+
+  async findCredential(credentialId: string): Promise<StoredWebAuthnCredential | null> {
+    const row = await this.prisma.webAuthnCredential.findUnique({ where: { id: credentialId } });
+    return row ? toCredential(row) : null;
+  }
+
+  async saveCredential(credential: StoredWebAuthnCredential): Promise<void> {
+    await this.prisma.webAuthnCredential.create({
+      data: {
+        id: credential.id,
+        userId: credential.userId,
+        name: credential.name,
+        publicKey: credential.publicKey as any,
+        algorithm: credential.algorithm,
+        signCount: credential.signCount,
+        transports: credential.transports,
+        createdAt: credential.createdAt
+      }
+    });
+  }
+
+  async updateCredentialUsage(credentialId: string, signCount: number, usedAt: Date): Promise<void> {
+    await this.prisma.webAuthnCredential.update({
+      where: { id: credentialId },
+      data: { signCount, lastUsedAt: usedAt }
+    });
+  }
+}
+
+function toCredential(row: any): StoredWebAuthnCredential {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    publicKey: row.publicKey,
+    algorithm: row.algorithm,
+    signCount: row.signCount,
+    transports: row.transports,
+    createdAt: row.createdAt,
+    lastUsedAt: row.lastUsedAt ?? undefined
+  };
+}
@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { WalletChain } from '../../utils/wallet-signatures';
+import { WalletAccount, WalletAccountStore } from './wallet-account-store';
+
+// Unique constraint violation
+const PRISMA_UNIQUE_VIOLATION = 'P2002';
+
+export class PrismaWalletAccountStore implements WalletAccountStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<WalletAccount | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      include: { wallets: true }
+    });
+    return user ? toAccount(user) : null;
+  }
+
+  async findByWallet(address: string): Promise<WalletAccount | null> {
+    const wallet = await this.prisma.walletIdentity.findUnique({
+      where: { address },
+      include: { user: { include: { wallets: true } } }
+    });
+    return wallet ? toAccount(wallet.user) : null;
+  }
+
+  async createWithWallet(address: string, chain: WalletChain): Promise<WalletAccount> {
+    try {
+      const user = await this.prisma.user.create({
+        data: {
+          roles: ['user'],
+          wallets: { create: { address, chain } }
+        },
+        include: { wallets: true }
+      });
+      return toAccount(user);
+    } catch (error: any) {
+      if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+        throw new ConflictError('Wallet is already linked to an account');
+      }
+      throw error;
+    }
+  }
+
+  async linkWallet(accountId: string, address: string, chain: WalletChain): Promise<WalletAccount> {
+    const existing = await this.prisma.walletIdentity.findUnique({ where: { address } });
+    if (existing && existing.userId !== accountId) {
+      throw new ConflictError('Wallet is already linked to another account');
+    }
+
+    if (!existing) {
+      try {
+        await this.prisma.walletIdentity.create({
+          data: { address, chain, userId: accountId }
+        });
+      } catch (error: any) {
+        if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+          throw new ConflictError('Wallet is already linked to another account');
+        }
+        throw error;
+      }
+    }
+
+    const account = await this.findById(accountId);
+    if (!account) {
+      throw new NotFoundError('Account');
+    }
+    return account;
+  }
+}
+
+function toAccount(user: any): WalletAccount {
+  return {
+    id: user.id,
+    roles: user.roles,
+    wallets: user.wallets.map((wallet: any) => ({
+      address: wallet.address,
+      chain: wallet.chain,
+      linkedAt: wallet.linkedAt
+    }))
+  };
+}
@@ -0,0 +1,86 @@
+import Redis from 'ioredis';
+import { LockRecord, LoginAttemptStore } from './login-attempt-store';
+
+export class RedisLoginAttemptStore implements LoginAttemptStore {
+  private redis: Redis;
+  private keyPrefix: string;
+
+  constructor(redis: Redis, keyPrefix: string = 'auth:login') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async incrementFailures(key: string, windowMs: number): Promise<number> {
+    const failuresKey = this.failuresKey(key);
+    const count = await this.redis.incr(failuresKey);
+    // Only the first failure starts the window, later ones don't extend it
+    if (count === 1) {
+      await this.redis.pexpire(failuresKey, windowMs);
+    }
+    return count;
+  }
+
+  async getFailures(key: string): Promise<number> {
+    return parseInt((await this.redis.get(this.failuresKey(key))) || '0', 10);
+  }
+
+  async resetFailures(key: string): Promise<void> {
+    await this.redis.del(this.failuresKey(key));
+  }
+
+  async incrementLockouts(key: string, ttlMs: number): Promise<number> {
+    const [[, count]] = (await this.redis
+      .multi()
+      .incr(this.lockoutsKey(key))
+      .pexpire(this.lockoutsKey(key), ttlMs)
+      .exec()) as [Error | null, number][];
+    return count;
+  }
+
+  async lock(key: string, lockedUntil: number): Promise<void> {
+    await this.redis.set(this.lockKey(key), String(lockedUntil), 'PX', Math.max(lockedUntil - Date.now(), 1));
+  }
+
+  async getLockedUntil(key: string): Promise<number | null> {
+    const value = await this.redis.get(this.lockKey(key));
+    return value ? parseInt(value, 10) : null;
+  }
+
+  async unlock(key: string): Promise<boolean> {
+    const [[, removed]] = (await this.redis
+      .multi()
+      .del(this.lockKey(key))
+      .del(this.failuresKey(key), this.lockoutsKey(key))
+      .exec()) as [Error | null, number][];
+    return removed === 1;
+  }
+
+  async listLocks(): Promise<LockRecord[]> {
+    const prefix = `${this.keyPrefix}:lock:`;
+    const keys: string[] = [];
+    for await (const batch of this.redis.scanStream({ match: `${prefix}*`, count: 100 })) {
+      keys.push(...(batch as string[]));
+    }
+    if (keys.length === 0) {
+      return [];
+    }
+
+    // A lock can expire between SCAN and MGET; those come back null
+    const values = await this.redis.mget(...keys);
+    return keys.flatMap((key, index) => values[index]
+      ? [{ key: key.slice(prefix.length), lockedUntil: parseInt(values[index]!, 10) }]
+      : []);
+  }
+
+  private failuresKey(key: string): string {
+    return `${this.keyPrefix}:failures:${key}`;
+  }
+
+  private lockoutsKey(key: string): string {
+    return `${this.keyPrefix}:lockouts:${key}`;
+  }
+
+  private lockKey(key: string): string {
+    return `${this.keyPrefix}:lock:${key}`;
+  }
+}
@@ -0,0 +1,25 @@
+import Redis from 'ioredis';
+import { NonceStore } from './nonce-store';
+
+export class RedisNonceStore implements NonceStore {
+  private redis: Redis;
+  private keyPrefix: string;
+
+  constructor(redis: Redis, keyPrefix: string = 'auth:nonce') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async save(nonce: string, ttlMs: number): Promise<void> {
+    await this.redis.set(this.key(nonce), '1', 'PX', ttlMs);
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    // DEL is atomic, so only one of two concurrent sign-ins can win the nonce
+    return (await this.redis.del(this.key(nonce))) === 1;
+  }
+
+  private key(nonce: string): string {
+    return `${this.keyPrefix}:${nonce}`;
+  }
+}
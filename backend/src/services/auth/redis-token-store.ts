@@ -0,0 +1,53 @@
+import Redis from 'ioredis';
+import { RefreshTokenRecord, TokenStore } from './token-store';
+
+export class RedisTokenStore implements TokenStore {
+  private redis: Redis;
+  private keyPrefix: string;
+
+  constructor(redis: Redis, keyPrefix: string = 'auth') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    const ttlMs = Math.max(record.expiresAt - Date.now(), 1);
+    await this.redis.set(this.refreshKey(record.tokenHash), JSON.stringify(record), 'PX', ttlMs);
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const value = await this.redis.get(this.refreshKey(tokenHash));
+    return value ? JSON.parse(value) : null;
+  }
+
+  async markRefreshTokenUsed(tokenHash: string): Promise<boolean> {
+    const key = this.refreshKey(tokenHash);
+    const ttlMs = await this.redis.pttl(key);
+    // SET NX makes the check-and-mark atomic across API instances
+    const result = await this.redis.set(`${key}:used`, '1', 'PX', Math.max(ttlMs, 1), 'NX');
+    return result === 'OK';
+  }
+
+  async revokeFamily(familyId: string, ttlMs: number): Promise<void> {
+    await this.redis.set(`${this.keyPrefix}:family:${familyId}:revoked`, '1', 'PX', ttlMs);
+  }
+
+  async isFamilyRevoked(familyId: string): Promise<boolean> {
+    return (await this.redis.exists(`${this.keyPrefix}:family:${familyId}:revoked`)) === 1;
+  }
+
+  async denyAccessToken(jti: string, expiresAt: number): Promise<void> {
+    const ttlMs = expiresAt - Date.now();
+    if (ttlMs > 0) {
+      await this.redis.set(`${this.keyPrefix}:denied:${jti}`, '1', 'PX', ttlMs);
+    }
+  }
+
+  async isAccessTokenDenied(jti: string): Promise<boolean> {
+    return (await this.redis.exists(`${this.keyPrefix}:denied:${jti}`)) === 1;
+  }
+
+  private refreshKey(tokenHash: string): string {
+    return `${this.keyPrefix}:refresh:${tokenHash}`;
+  }
+}
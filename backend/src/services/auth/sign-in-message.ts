@@ -0,0 +1,132 @@
+import { WalletChain } from '../../utils/wallet-signatures';
+
+/**
+ * Fields of an EIP-4361 (Sign-In with Ethereum) message. Solana wallets sign
+ * the same layout with "Solana account" in the header and a cluster name as
+ * the chain id, as described by the Sign-In with Solana spec.
+ */
+export interface SignInMessage {
+  chain: WalletChain;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export class SignInMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignInMessageError';
+  }
+}
+
+const CHAIN_NAMES: Record<WalletChain, string> = {
+  ethereum: 'Ethereum',
+  solana: 'Solana'
+};
+
+const HEADER = /^(\S+) wants you to sign in with your (Ethereum|Solana) account:$/;
+
+// Key/value fields in the order EIP-4361 lists them
+const FIELDS: [string, keyof SignInMessage][] = [
+  ['URI', 'uri'],
+  ['Version', 'version'],
+  ['Chain ID', 'chainId'],
+  ['Nonce', 'nonce'],
+  ['Issued At', 'issuedAt'],
+  ['Expiration Time', 'expirationTime'],
+  ['Not Before', 'notBefore'],
+  ['Request ID', 'requestId']
+];
+
+const REQUIRED_FIELDS: (keyof SignInMessage)[] = ['uri', 'version', 'chainId', 'nonce', 'issuedAt'];
+
+export function formatSignInMessage(message: SignInMessage): string {
+  const lines = [
+    `${message.domain} wants you to sign in with your ${CHAIN_NAMES[message.chain]} account:`,
+    message.address,
+    ''
+  ];
+
+  if (message.statement) {
+    lines.push(message.statement, '');
+  }
+
+  for (const [label, key] of FIELDS) {
+    const value = message[key];
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function parseSignInMessage(text: string): SignInMessage {
+  const lines = text.split('\n');
+  const header = HEADER.exec(lines[0] || '');
+  if (!header) {
+    throw new SignInMessageError('Message does not start with a sign-in header');
+  }
+
+  const message: Partial<SignInMessage> = {
+    chain: header[2] === 'Ethereum' ? 'ethereum' : 'solana',
+    domain: header[1],
+    address: lines[1]
+  };
+
+  if (!message.address || lines[2] !== '') {
+    throw new SignInMessageError('Message is missing the account address');
+  }
+
+  let index = 3;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    message.statement = lines[index];
+    if (lines[index + 1] !== '') {
+      throw new SignInMessageError('Statement must be a single line');
+    }
+    index += 2;
+  }
+
+  // Fields must appear in order, so walk both lists together
+  let field = 0;
+  for (; index < lines.length && lines[index] !== 'Resources:'; index++) {
+    const line = lines[index];
+    while (field < FIELDS.length && !line.startsWith(`${FIELDS[field][0]}: `)) {
+      field++;
+    }
+    if (field === FIELDS.length) {
+      throw new SignInMessageError(`Unexpected line: ${line}`);
+    }
+    const [label, key] = FIELDS[field++];
+    (message as Record<string, unknown>)[key] = line.slice(label.length + 2);
+  }
+
+  if (lines[index] === 'Resources:') {
+    message.resources = lines.slice(index + 1).map(line => {
+      if (!line.startsWith('- ')) {
+        throw new SignInMessageError(`Invalid resource line: ${line}`);
+      }
+      return line.slice(2);
+    });
+  }
+
+  const missing = REQUIRED_FIELDS.filter(key => !message[key]);
+  if (missing.length > 0) {
+    throw new SignInMessageError(`Message is missing ${missing.join(', ')}`);
+  }
+
+  return message as SignInMessage;
+}
@@ -1,10 +1,15 @@
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import logger from '../../utils/logger';
+import { AuthenticationError } from '../../utils/errors';
+import { MemoryTokenStore, RefreshTokenRecord, TokenStore } from './token-store';
+import { Keyring } from './keyring';
+import { decodeJws, signJws, verifyJwsSignature } from './jws';
 
 export interface JWTConfig {
   secret: string;
   expiresIn: string;
   algorithm: string;
+  refreshTokenTtlMs?: number;
 }
 
 export interface TokenPayload {
@@ -13,32 +18,145 @@ export interface TokenPayload {
   [key: string]: any;
 }
 
+export interface RotatedRefreshToken {
+  userId: string;
+  roles: string[];
+  claims: Record<string, any>;
+  familyId: string;
+  refreshToken: string;
+}
+
+const DEFAULT_REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
 export class TokenManager {
   private config: Required<JWTConfig>;
+  private store: TokenStore;
+  private keyring: Keyring;
+  private expiresInSeconds: number;
 
-  constructor(config: JWTConfig) {
+  constructor(
+    config: JWTConfig,
+    store: TokenStore = new MemoryTokenStore(),
+    keyring: Keyring = Keyring.fromSecret(config.secret)
+  ) {
     this.config = {
       secret: config.secret,
       expiresIn: config.expiresIn || '1h',
-      algorithm: config.algorithm || 'HS256'
+      algorithm: config.algorithm || 'HS256',
+      refreshTokenTtlMs: config.refreshTokenTtlMs || DEFAULT_REFRESH_TOKEN_TTL_MS
     };
+    this.store = store;
+    this.keyring = keyring;
+    this.expiresInSeconds = durationToSeconds(this.config.expiresIn);
   }
 
-  async createToken(payload: TokenPayload): Promise<string> {
+  async createToken(payload: TokenPayload, expiresInSeconds: number = this.expiresInSeconds): Promise<string> {
     try {
-      return jwt.sign(payload, this.config.secret, {
-        expiresIn: this.config.expiresIn,
-        algorithm: this.config.algorithm as jwt.Algorithm
-      });
+      const key = this.keyring.signingKey();
+      const now = Math.floor(Date.now() / 1000);
+
+      // Registered claims from a decoded payload are replaced, not reused
+      const { iat, exp, nbf, jti, ...claims } = payload;
+      return signJws(
+        { alg: key.algorithm, kid: key.kid, typ: 'JWT' },
+        {
+          ...claims,
+          iat: now,
+          exp: now + expiresInSeconds,
+          // Gives every access token an id the denylist can refer to
+          jti: crypto.randomUUID()
+        },
+        key.privateKey!
+      );
     } catch (error) {
       logger.error('Error creating token:', error);
       throw error;
     }
   }
 
+  async generateAccessToken(userId: string, roles: string[], claims: Record<string, any> = {}): Promise<string> {
+    return this.createToken({ ...claims, userId, roles });
+  }
+
+  /**
+   * Issue an opaque refresh token that starts a new rotation family. The
+   * roles and claims are replayed into the access tokens it is exchanged for.
+   */
+  async generateRefreshToken(
+    userId: string,
+    roles: string[] = [],
+    claims: Record<string, any> = {}
+  ): Promise<string> {
+    return this.issueRefreshToken({ userId, roles, claims, familyId: crypto.randomUUID() });
+  }
+
+  /**
+   * Exchange a refresh token for the next one in its family. Each token works
+   * once; presenting a used token means it was copied, so the whole family is
+   * revoked and the legitimate holder has to sign in again.
+   */
+  async rotateRefreshToken(token: string): Promise<RotatedRefreshToken> {
+    const record = await this.findValidRefreshToken(token);
+
+    if (!(await this.store.markRefreshTokenUsed(record.tokenHash))) {
+      await this.store.revokeFamily(record.familyId, this.config.refreshTokenTtlMs);
+      logger.warn(`Refresh token reuse detected for user ${record.userId}, revoked family ${record.familyId}`);
+      throw new AuthenticationError('Refresh token reuse detected');
+    }
+
+    const refreshToken = await this.issueRefreshToken(record);
+    return {
+      userId: record.userId,
+      roles: record.roles,
+      claims: record.claims,
+      familyId: record.familyId,
+      refreshToken
+    };
+  }
+
+  // Revokes every token in the refresh token's family, e.g. on logout
+  async revokeRefreshToken(token: string): Promise<void> {
+    const record = await this.store.findRefreshToken(hashToken(token));
+    if (record) {
+      await this.store.revokeFamily(record.familyId, this.config.refreshTokenTtlMs);
+    }
+  }
+
+  // Denylists an access token until it would have expired anyway
+  async revokeAccessToken(token: string): Promise<void> {
+    const payload = await this.decodeToken(token);
+    if (payload?.jti && payload.exp) {
+      await this.store.denyAccessToken(payload.jti, payload.exp * 1000);
+    }
+  }
+
   async verifyToken(token: string): Promise<TokenPayload | null> {
     try {
-      return jwt.verify(token, this.config.secret) as TokenPayload;
+      const decoded = decodeJws(token);
+      const key = decoded.header.kid ? this.keyring.verificationKey(decoded.header.kid) : null;
+      if (!key) {
+        logger.debug(`Rejected token with unknown or expired key ${decoded.header.kid}`);
+        return null;
+      }
+      // The key decides the algorithm, never the token header
+      if (decoded.header.alg !== key.algorithm || !verifyJwsSignature(decoded, key.algorithm, key.publicKey)) {
+        logger.debug(`Rejected token with invalid signature for key ${key.kid}`);
+        return null;
+      }
+
+      const now = Date.now() / 1000;
+      const payload = decoded.payload as TokenPayload;
+      if (typeof payload.exp !== 'number' || payload.exp <= now || (payload.nbf && payload.nbf > now)) {
+        return null;
+      }
+
+      if (payload.jti && await this.store.isAccessTokenDenied(payload.jti)) {
+        logger.debug(`Rejected revoked access token ${payload.jti}`);
+        return null;
+      }
+      return payload;
     } catch (error) {
       logger.error('Error verifying token:', error);
       return null;
@@ -47,26 +165,52 @@ export class TokenManager {
 
   async decodeToken(token: string): Promise<TokenPayload | null> {
     try {
-      const decoded = jwt.decode(token);
-      return decoded as TokenPayload;
+      return decodeJws(token).payload as TokenPayload;
     } catch (error) {
       logger.error('Error decoding token:', error);
       return null;
     }
   }
 
-  async refreshToken(token: string): Promise<string | null> {
-    try {
-      const payload = await this.verifyToken(token);
-      if (!payload) {
-        return null;
-      }
+  private async issueRefreshToken(
+    source: Pick<RefreshTokenRecord, 'userId' | 'roles' | 'claims' | 'familyId'>
+  ): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
 
-      // Create a new token with a fresh expiration
-      return this.createToken(payload);
-    } catch (error) {
-      logger.error('Error refreshing token:', error);
-      return null;
+    await this.store.saveRefreshToken({
+      tokenHash: hashToken(token),
+      familyId: source.familyId,
+      userId: source.userId,
+      roles: source.roles,
+      claims: source.claims,
+      issuedAt: now,
+      expiresAt: now + this.config.refreshTokenTtlMs
+    });
+
+    return token;
+  }
+
+  private async findValidRefreshToken(token: string): Promise<RefreshTokenRecord> {
+    const record = await this.store.findRefreshToken(hashToken(token));
+    if (!record) {
+      throw new AuthenticationError('Invalid or expired refresh token');
+    }
+    if (await this.store.isFamilyRevoked(record.familyId)) {
+      throw new AuthenticationError('Refresh token has been revoked');
     }
+    return record;
   }
 }
+
+function durationToSeconds(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid token lifetime: ${value}`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,88 @@
+/**
+ * A refresh token as stored server-side. Only the SHA-256 hash of the
+ * opaque token is kept, so a leaked store can't be replayed.
+ */
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  familyId: string;
+  userId: string;
+  roles: string[];
+  // Extra access-token claims carried across rotations (session, wallet)
+  claims: Record<string, any>;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Server-side token state: refresh tokens grouped into rotation families,
+ * revoked families, and the denylist of access tokens revoked before they
+ * expire.
+ */
+export interface TokenStore {
+  saveRefreshToken(record: RefreshTokenRecord): Promise<void>;
+  findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  // Atomically marks the token used; false if it had already been used
+  markRefreshTokenUsed(tokenHash: string): Promise<boolean>;
+  revokeFamily(familyId: string, ttlMs: number): Promise<void>;
+  isFamilyRevoked(familyId: string): Promise<boolean>;
+  denyAccessToken(jti: string, expiresAt: number): Promise<void>;
+  isAccessTokenDenied(jti: string): Promise<boolean>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private refreshTokens = new Map<string, RefreshTokenRecord>();
+  private usedTokens = new Set<string>();
+  private revokedFamilies = new Map<string, number>();
+  private deniedTokens = new Map<string, number>();
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    this.prune();
+    this.refreshTokens.set(record.tokenHash, { ...record });
+  }
+
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const record = this.refreshTokens.get(tokenHash);
+    return record && record.expiresAt > Date.now() ? { ...record } : null;
+  }
+
+  async markRefreshTokenUsed(tokenHash: string): Promise<boolean> {
+    if (this.usedTokens.has(tokenHash)) {
+      return false;
+    }
+    this.usedTokens.add(tokenHash);
+    return true;
+  }
+
+  async revokeFamily(familyId: string, ttlMs: number): Promise<void> {
+    this.revokedFamilies.set(familyId, Date.now() + ttlMs);
+  }
+
+  async isFamilyRevoked(familyId: string): Promise<boolean> {
+    return (this.revokedFamilies.get(familyId) ?? 0) > Date.now();
+  }
+
+  async denyAccessToken(jti: string, expiresAt: number): Promise<void> {
+    this.deniedTokens.set(jti, expiresAt);
+  }
+
+  async isAccessTokenDenied(jti: string): Promise<boolean> {
+    return (this.deniedTokens.get(jti) ?? 0) > Date.now();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [hash, record] of this.refreshTokens) {
+      if (record.expiresAt <= now) {
+        this.refreshTokens.delete(hash);
+        this.usedTokens.delete(hash);
+      }
+    }
+    for (const expiries of [this.revokedFamilies, this.deniedTokens]) {
+      for (const [key, expiresAt] of expiries) {
+        if (expiresAt <= now) {
+          expiries.delete(key);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { WalletChain } from '../../utils/wallet-signatures';
+
+export interface LinkedWallet {
+  address: string;
+  chain: WalletChain;
+  linkedAt: Date;
+}
+
+export interface WalletAccount {
+  id: string;
+  roles: string[];
+  wallets: LinkedWallet[];
+}
+
+/**
+ * Accounts that sign in with wallets. A wallet address belongs to at most
+ * one account; an account may hold one wallet per chain or several.
+ */
+export interface WalletAccountStore {
+  findById(id: string): Promise<WalletAccount | null>;
+  findByWallet(address: string): Promise<WalletAccount | null>;
+  createWithWallet(address: string, chain: WalletChain): Promise<WalletAccount>;
+  // Throws ConflictError if the wallet is already linked to another account
+  linkWallet(accountId: string, address: string, chain: WalletChain): Promise<WalletAccount>;
+}
+
+export class MemoryWalletAccountStore implements WalletAccountStore {
+  private accounts = new Map<string, WalletAccount>();
+  private owners = new Map<string, string>();
+
+  async findById(id: string): Promise<WalletAccount | null> {
+    return this.accounts.get(id) ?? null;
+  }
+
+  async findByWallet(address: string): Promise<WalletAccount | null> {
+    const owner = this.owners.get(address);
+    return owner ? this.findById(owner) : null;
+  }
+
+  async createWithWallet(address: string, chain: WalletChain): Promise<WalletAccount> {
+    if (this.owners.has(address)) {
+      throw new ConflictError('Wallet is already linked to an account');
+    }
+
+    const account: WalletAccount = {
+      id: crypto.randomUUID(),
+      roles: ['user'],
+      wallets: [{ address, chain, linkedAt: new Date() }]
+    };
+    this.accounts.set(account.id, account);
+    this.owners.set(address, account.id);
+    return account;
+  }
+
+  async linkWallet(accountId: string, address: string, chain: WalletChain): Promise<WalletAccount> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new NotFoundError('Account');
+    }
+
+    const owner = this.owners.get(address);
+    if (owner === accountId) {
+      return account;
+    }
+    if (owner) {
+      throw new ConflictError('Wallet is already linked to another account');
+    }
+
+    account.wallets.push({ address, chain, linkedAt: new Date() });
+    this.owners.set(address, accountId);
+    return account;
+  }
+}
@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+import { getAddress } from 'ethers';
+import { TokenManager } from './token-manager';
+import { NonceStore } from './nonce-store';
+import { LoginTokens, MfaService } from './mfa-service';
+import { WalletAccount, WalletAccountStore } from './wallet-account-store';
+import {
+  SignInMessage,
+  SignInMessageError,
+  formatSignInMessage,
+  parseSignInMessage
+} from './sign-in-message';
+import { SessionManager } from '../session-manager';
+import { SecurityAuditLogger } from '../security-audit-logger';
+import {
+  WalletChain,
+  detectWalletChain,
+  verifyEthereumMessage,
+  verifySolanaMessage
+} from '../../utils/wallet-signatures';
+import { Session } from '../../types';
+import { AuthenticationError, NotFoundError, ValidationError } from '../../utils/errors';
+
+export interface WalletAuthConfig {
+  domain: string;
+  uri: string;
+  statement: string;
+  ethereumChainIds: number[];
+  solanaCluster: string;
+  nonceTtlMs: number;
+}
+
+export interface SignInChallenge {
+  message: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+export interface SignInContext {
+  ip?: string;
+  userAgent?: string;
+  deviceId?: string;
+}
+
+// Enrolled accounts get an mfaPending token instead of real tokens
+export type WalletSignInResult = LoginTokens & {
+  session: Session;
+  account: WalletAccount;
+};
+
+// Tolerated difference between the wallet's clock and ours
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Sign-In with Ethereum (EIP-4361) and its Solana equivalent. The server
+ * hands out a single-use nonce inside a ready-to-sign message; the wallet
+ * signs it and the signed message is exchanged for tokens and a session
+ * bound to that wallet.
+ */
+export class WalletAuthService {
+  private tokenManager: TokenManager;
+  private sessionManager: SessionManager;
+  private nonceStore: NonceStore;
+  private accountStore: WalletAccountStore;
+  private auditLogger: SecurityAuditLogger;
+  private config: WalletAuthConfig;
+  private mfaService?: MfaService;
+
+  constructor(
+    tokenManager: TokenManager,
+    sessionManager: SessionManager,
+    nonceStore: NonceStore,
+    accountStore: WalletAccountStore,
+    auditLogger: SecurityAuditLogger,
+    config: WalletAuthConfig,
+    mfaService?: MfaService
+  ) {
+    this.tokenManager = tokenManager;
+    this.sessionManager = sessionManager;
+    this.nonceStore = nonceStore;
+    this.accountStore = accountStore;
+    this.auditLogger = auditLogger;
+    this.config = config;
+    this.mfaService = mfaService;
+  }
+
+  async createChallenge(address: string): Promise<SignInChallenge> {
+    const chain = detectWalletChain(address);
+    if (!chain) {
+      throw new ValidationError('Unsupported wallet address');
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expirationTime = new Date(issuedAt.getTime() + this.config.nonceTtlMs);
+    await this.nonceStore.save(nonce, this.config.nonceTtlMs);
+
+    const fields: SignInMessage = {
+      chain,
+      domain: this.config.domain,
+      address: normalizeAddress(address, chain),
+      statement: this.config.statement,
+      uri: this.config.uri,
+      version: '1',
+      chainId: chain === 'ethereum' ? String(this.config.ethereumChainIds[0]) : this.config.solanaCluster,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expirationTime.toISOString()
+    };
+
+    return {
+      message: formatSignInMessage(fields),
+      nonce,
+      issuedAt: fields.issuedAt,
+      expirationTime: fields.expirationTime!
+    };
+  }
+
+  async signIn(message: string, signature: string, context: SignInContext = {}): Promise<WalletSignInResult> {
+    const signed = await this.verifySignedMessage(message, signature, context);
+
+    const account = await this.accountStore.findByWallet(signed.address)
+      ?? await this.accountStore.createWithWallet(signed.address, signed.chain);
+
+    const session = await this.sessionManager.createSession(
+      account.id,
+      { wallet: signed.address, chain: signed.chain },
+      { deviceId: context.deviceId, userAgent: context.userAgent, ipAddress: context.ip }
+    );
+
+    const claims = { sessionId: session.id, wallet: signed.address };
+    const tokens = await this.issueTokens(account, claims);
+
+    await this.auditLogger.logEvent({
+      type: 'auth.wallet.login',
+      level: 'info',
+      userId: account.id,
+      sessionId: session.id,
+      message: `Signed in with ${signed.chain} wallet ${signed.address}`,
+      metadata: { wallet: signed.address, chain: signed.chain, ip: context.ip, mfaRequired: tokens.mfaRequired }
+    });
+
+    return { ...tokens, session, account };
+  }
+
+  /**
+   * Attach another wallet to an already signed-in account, proven by a
+   * signed challenge from that wallet.
+   */
+  async linkWallet(
+    accountId: string,
+    message: string,
+    signature: string,
+    context: SignInContext = {}
+  ): Promise<WalletAccount> {
+    const signed = await this.verifySignedMessage(message, signature, context);
+    const account = await this.accountStore.linkWallet(accountId, signed.address, signed.chain);
+
+    await this.auditLogger.logEvent({
+      type: 'auth.wallet.link',
+      level: 'info',
+      userId: accountId,
+      message: `Linked ${signed.chain} wallet ${signed.address}`,
+      metadata: { wallet: signed.address, chain: signed.chain, ip: context.ip }
+    });
+
+    return account;
+  }
+
+  async getAccount(accountId: string): Promise<WalletAccount> {
+    const account = await this.accountStore.findById(accountId);
+    if (!account) {
+      throw new NotFoundError('Account');
+    }
+    return account;
+  }
+
+  private async issueTokens(account: WalletAccount, claims: Record<string, any>): Promise<LoginTokens> {
+    if (this.mfaService) {
+      return this.mfaService.issueLoginTokens(account.id, account.roles, claims);
+    }
+
+    const [token, refreshToken] = await Promise.all([
+      this.tokenManager.generateAccessToken(account.id, account.roles, claims),
+      this.tokenManager.generateRefreshToken(account.id, account.roles, claims)
+    ]);
+    return { mfaRequired: false, token, refreshToken };
+  }
+
+  private async verifySignedMessage(
+    text: string,
+    signature: string,
+    context: SignInContext
+  ): Promise<SignInMessage> {
+    let message: SignInMessage;
+    try {
+      message = parseSignInMessage(text);
+    } catch (error) {
+      if (error instanceof SignInMessageError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    try {
+      this.checkMessage(message);
+
+      const valid = message.chain === 'ethereum'
+        ? verifyEthereumMessage(message.address, text, signature)
+        : verifySolanaMessage(message.address, text, signature);
+      if (!valid) {
+        throw new AuthenticationError('Invalid wallet signature');
+      }
+
+      // Only burn the nonce once the signature is known to be good, so a
+      // forged request can't invalidate someone else's pending sign-in
+      if (!(await this.nonceStore.consume(message.nonce))) {
+        throw new AuthenticationError('Nonce is invalid, expired or already used');
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        await this.auditLogger.logEvent({
+          type: 'auth.wallet.failed',
+          level: 'warning',
+          message: `Wallet sign-in rejected: ${error.message}`,
+          metadata: { wallet: message.address, chain: message.chain, ip: context.ip }
+        });
+      }
+      throw error;
+    }
+
+    return { ...message, address: normalizeAddress(message.address, message.chain) };
+  }
+
+  private checkMessage(message: SignInMessage): void {
+    if (message.domain !== this.config.domain) {
+      throw new AuthenticationError('Message was issued for a different domain');
+    }
+    if (message.uri !== this.config.uri) {
+      throw new AuthenticationError('Message was issued for a different URI');
+    }
+    if (message.version !== '1') {
+      throw new AuthenticationError('Unsupported message version');
+    }
+    if (detectWalletChain(message.address) !== message.chain) {
+      throw new AuthenticationError('Address does not match the message chain');
+    }
+
+    const chainAllowed = message.chain === 'ethereum'
+      ? this.config.ethereumChainIds.includes(Number(message.chainId))
+      : message.chainId === this.config.solanaCluster;
+    if (!chainAllowed) {
+      throw new AuthenticationError(`Chain ${message.chainId} is not accepted`);
+    }
+
+    const now = Date.now();
+    const issuedAt = Date.parse(message.issuedAt);
+    if (isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS || issuedAt < now - this.config.nonceTtlMs - CLOCK_SKEW_MS) {
+      throw new AuthenticationError('Message issue time is out of range');
+    }
+    if (message.expirationTime && !(Date.parse(message.expirationTime) > now)) {
+      throw new AuthenticationError('Message has expired');
+    }
+    if (message.notBefore && !(Date.parse(message.notBefore) <= now + CLOCK_SKEW_MS)) {
+      throw new AuthenticationError('Message is not valid yet');
+    }
+  }
+}
+
+function normalizeAddress(address: string, chain: WalletChain): string {
+  // Ethereum addresses are case-insensitive; store the checksummed form.
+  // Solana's base58 addresses are case-sensitive and kept as given.
+  return chain === 'ethereum' ? getAddress(address.toLowerCase()) : address;
+}
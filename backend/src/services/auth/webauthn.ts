@@ -0,0 +1,219 @@
+import crypto, { JsonWebKey } from 'crypto';
+import { CborValue, decodeCbor } from '../../utils/cbor';
+
+export interface WebAuthnRelyingParty {
+  id: string;
+  name: string;
+  origin: string;
+  requireUserVerification: boolean;
+}
+
+// PublicKeyCredential as serialised by the browser helper, binary fields base64url
+export interface RegistrationResponse {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponse {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface VerifiedCredential {
+  credentialId: string;
+  publicKey: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+}
+
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+// COSE algorithm identifiers we accept, in order of preference
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257
+};
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Check a navigator.credentials.create() response. Registration asks for
+ * "none" attestation, so the attestation statement is not verified; what
+ * matters is that the challenge, origin and RP id match and the credential
+ * key is usable.
+ */
+export function verifyRegistration(
+  response: RegistrationResponse,
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty
+): VerifiedCredential {
+  checkClientData(response.response.clientDataJSON, 'webauthn.create', expectedChallenge, rp);
+
+  const attestation = decodeCbor(fromBase64url(response.response.attestationObject)).value;
+  if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+    throw new WebAuthnError('Malformed attestation object');
+  }
+
+  const authData = parseAuthenticatorData(attestation.get('authData') as Buffer, rp);
+  if (!authData.credentialId || !authData.credentialKey) {
+    throw new WebAuthnError('Attestation has no credential data');
+  }
+
+  const credentialId = authData.credentialId.toString('base64url');
+  if (credentialId !== response.id) {
+    throw new WebAuthnError('Credential id mismatch');
+  }
+
+  const { publicKey, algorithm } = coseToJwk(authData.credentialKey);
+  return {
+    credentialId,
+    publicKey,
+    algorithm,
+    signCount: authData.signCount,
+    transports: response.response.transports ?? []
+  };
+}
+
+/**
+ * Check a navigator.credentials.get() assertion against a stored credential
+ * and return the authenticator's new signature counter.
+ */
+export function verifyAuthentication(
+  response: AuthenticationResponse,
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty,
+  credential: { publicKey: JsonWebKey; algorithm: number; signCount: number }
+): { signCount: number } {
+  const clientData = checkClientData(response.response.clientDataJSON, 'webauthn.get', expectedChallenge, rp);
+
+  const rawAuthData = fromBase64url(response.response.authenticatorData);
+  const authData = parseAuthenticatorData(rawAuthData, rp);
+
+  const signedData = Buffer.concat([rawAuthData, crypto.createHash('sha256').update(clientData).digest()]);
+  const key = crypto.createPublicKey({ key: credential.publicKey, format: 'jwk' });
+  const signature = fromBase64url(response.response.signature);
+  const digest = credential.algorithm === COSE_ALGORITHMS.EdDSA ? null : 'sha256';
+
+  if (!crypto.verify(digest, signedData, key, signature)) {
+    throw new WebAuthnError('Invalid assertion signature');
+  }
+
+  // Authenticators that count must count up; going backwards means a clone
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('Signature counter did not increase');
+  }
+
+  return { signCount: authData.signCount };
+}
+
+function checkClientData(
+  encoded: string,
+  type: string,
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty
+): Buffer {
+  const raw = fromBase64url(encoded);
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(raw.toString('utf8'));
+  } catch {
+    throw new WebAuthnError('Malformed client data');
+  }
+
+  if (clientData.type !== type) {
+    throw new WebAuthnError(`Expected ${type} client data`);
+  }
+  if (clientData.challenge !== expectedChallenge) {
+    throw new WebAuthnError('Challenge mismatch');
+  }
+  if (clientData.origin !== rp.origin) {
+    throw new WebAuthnError(`Unexpected origin ${clientData.origin}`);
+  }
+  return raw;
+}
+
+function parseAuthenticatorData(data: Buffer, rp: WebAuthnRelyingParty) {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short');
+  }
+
+  const rpIdHash = crypto.createHash('sha256').update(rp.id).digest();
+  if (!rpIdHash.equals(data.subarray(0, 32))) {
+    throw new WebAuthnError('RP id hash mismatch');
+  }
+
+  const flags = data[32];
+  if (!(flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnError('User was not present');
+  }
+  if (rp.requireUserVerification && !(flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnError('User was not verified');
+  }
+
+  const signCount = data.readUInt32BE(33);
+  if (!(flags & FLAG_ATTESTED_CREDENTIAL)) {
+    return { signCount, credentialId: null, credentialKey: null };
+  }
+
+  // aaguid(16) | credentialIdLength(2) | credentialId | COSE key
+  const idLength = data.readUInt16BE(53);
+  const credentialId = data.subarray(55, 55 + idLength);
+  const credentialKey = decodeCbor(data, 55 + idLength).value;
+
+  return { signCount, credentialId, credentialKey };
+}
+
+function coseToJwk(cose: CborValue): { publicKey: JsonWebKey; algorithm: number } {
+  if (!(cose instanceof Map)) {
+    throw new WebAuthnError('Malformed credential public key');
+  }
+
+  const kty = cose.get(1);
+  const algorithm = cose.get(3) as number;
+  const bytes = (label: number) => {
+    const value = cose.get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new WebAuthnError('Malformed credential public key');
+    }
+    return value.toString('base64url');
+  };
+
+  let publicKey: JsonWebKey;
+  if (kty === 2 && algorithm === COSE_ALGORITHMS.ES256 && cose.get(-1) === 1) {
+    publicKey = { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) };
+  } else if (kty === 1 && algorithm === COSE_ALGORITHMS.EdDSA && cose.get(-1) === 6) {
+    publicKey = { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) };
+  } else if (kty === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    publicKey = { kty: 'RSA', n: bytes(-1), e: bytes(-2) };
+  } else {
+    throw new WebAuthnError(`Unsupported credential key type ${kty}/${algorithm}`);
+  }
+
+  // Fail at registration rather than at first sign-in if the key is unusable
+  crypto.createPublicKey({ key: publicKey, format: 'jwk' });
+  return { publicKey, algorithm };
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
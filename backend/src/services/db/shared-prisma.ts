@@ -0,0 +1,12 @@
+import { PrismaClient } from '@prisma/client';
+
+let sharedPrisma: PrismaClient | null = null;
+
+// Application-wide client, so every router and store shares one connection
+// pool. Prisma connects on the first query, so creating it is cheap.
+export function getPrisma(): PrismaClient {
+  if (!sharedPrisma) {
+    sharedPrisma = new PrismaClient();
+  }
+  return sharedPrisma;
+}
@@ -0,0 +1,80 @@
+import http from 'http';
+import https from 'https';
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import logger from '../../utils/logger';
+import { AddressResolver, checkPublicHost, publicOnlyLookup, resolveAddresses } from '../../utils/public-address';
+
+export interface CallbackNotifierConfig {
+  secret: string;
+  timeoutMs: number;
+  retries: number;
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * Sign a callback body. Receivers recompute the HMAC over
+ * `${timestamp}.${body}` with the shared secret and compare.
+ */
+export function signCallback(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+export class CallbackNotifier {
+  private client: AxiosInstance;
+  private config: CallbackNotifierConfig;
+  private resolve: AddressResolver;
+
+  constructor(config: CallbackNotifierConfig, client?: AxiosInstance, resolve: AddressResolver = resolveAddresses) {
+    this.config = config;
+    // Callback URLs come from callers, so they get the same treatment as
+    // webhook functions: no redirects, no proxy, public addresses only
+    this.client = client || axios.create({
+      timeout: config.timeoutMs,
+      maxRedirects: 0,
+      proxy: false,
+      httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+      httpsAgent: new https.Agent({ lookup: publicOnlyLookup })
+    });
+    this.resolve = resolve;
+  }
+
+  async notify(url: string, payload: Record<string, any>): Promise<boolean> {
+    // The agents only see hostnames, so IP literals are checked here
+    const problems = await checkPublicHost(new URL(url), this.resolve);
+    if (problems.length > 0) {
+      logger.warn(`Refusing callback to ${url}: ${problems[0]}`);
+      return false;
+    }
+
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= this.config.retries + 1; attempt++) {
+      const timestamp = Date.now();
+
+      try {
+        await this.client.post(url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            [TIMESTAMP_HEADER]: String(timestamp),
+            [SIGNATURE_HEADER]: signCallback(this.config.secret, timestamp, body)
+          }
+        });
+        return true;
+      } catch (error: any) {
+        logger.warn(`Callback to ${url} failed (attempt ${attempt}): ${error.message}`);
+        if (attempt <= this.config.retries) {
+          await new Promise(resolve => setTimeout(resolve, 500 * Math.pow(2, attempt - 1)));
+        }
+      }
+    }
+
+    logger.error(`Giving up on callback to ${url}`);
+    return false;
+  }
+}
+
+export default CallbackNotifier;
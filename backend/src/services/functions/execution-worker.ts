@@ -0,0 +1,186 @@
+import logger from '../../utils/logger';
+import { JobQueue } from '../queue/job-queue';
+import { AgentFunctionDefinition, ExecutionResult, ExecutionStatus, FunctionExecutor } from './function-executor';
+import { FunctionSchemaValidator } from './schema-validator';
+import { CallbackNotifier } from './callback-notifier';
+
+export type ExecutionState = 'queued' | 'running' | ExecutionStatus;
+
+export interface ExecutionJob {
+  executionId: string;
+  functionId: string;
+  callerAddress: string;
+  inputs: Record<string, any>;
+  callbackUrl?: string | null;
+}
+
+export interface StoredFunction extends AgentFunctionDefinition {
+  outputSchema?: object | null;
+}
+
+export interface ExecutionUpdate {
+  status: ExecutionState;
+  attempts?: number;
+  outputs?: unknown;
+  error?: string | null;
+  executionTime?: number;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface ExecutionStore {
+  loadFunction(functionId: string): Promise<StoredFunction | null>;
+  updateExecution(executionId: string, update: ExecutionUpdate): Promise<void>;
+}
+
+export interface ExecutionWorkerConfig {
+  pollIntervalMs: number;
+  retryBackoffMs: number;
+  maxRetryBackoffMs: number;
+}
+
+export class ExecutionWorker {
+  private queue: JobQueue<ExecutionJob>;
+  private executor: FunctionExecutor;
+  private store: ExecutionStore;
+  private schemaValidator: FunctionSchemaValidator;
+  private notifier: CallbackNotifier;
+  private config: ExecutionWorkerConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+
+  constructor(
+    queue: JobQueue<ExecutionJob>,
+    executor: FunctionExecutor,
+    store: ExecutionStore,
+    schemaValidator: FunctionSchemaValidator,
+    notifier: CallbackNotifier,
+    config: ExecutionWorkerConfig
+  ) {
+    this.queue = queue;
+    this.executor = executor;
+    this.store = store;
+    this.schemaValidator = schemaValidator;
+    this.notifier = notifier;
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.drain(), this.config.pollIntervalMs);
+    logger.info(`Execution worker polling ${this.queue.name} every ${this.config.pollIntervalMs}ms`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reserve and run a single job. Returns false when the queue was empty.
+   */
+  async processNext(): Promise<boolean> {
+    const job = await this.queue.reserve();
+    if (!job) {
+      return false;
+    }
+
+    const { executionId, functionId, inputs, callerAddress } = job.payload;
+    await this.store.updateExecution(executionId, {
+      status: 'running',
+      attempts: job.attempts,
+      startedAt: new Date()
+    });
+
+    const definition = await this.store.loadFunction(functionId);
+    let result: ExecutionResult;
+    let retryable = true;
+
+    if (job.attempts > job.maxAttempts) {
+      // Only a job whose lease lapsed on its last attempt comes back this often
+      result = { status: 'failed', output: null, error: 'Worker stopped during the final attempt', durationMs: 0 };
+      retryable = false;
+    } else if (!definition) {
+      result = { status: 'failed', output: null, error: 'Function not found', durationMs: 0 };
+      retryable = false;
+    } else {
+      result = await this.executor.execute(definition, inputs, callerAddress);
+
+      if (result.status === 'success' && definition.outputSchema) {
+        const violations = this.schemaValidator.validate(definition.outputSchema, result.output);
+        if (violations.length > 0) {
+          result = {
+            ...result,
+            status: 'failed',
+            output: null,
+            error: 'Function output does not match outputSchema'
+          };
+          retryable = false;
+        }
+      }
+    }
+
+    if (result.status === 'success') {
+      await this.queue.ack(job);
+    } else if (retryable && job.attempts < job.maxAttempts) {
+      const delay = Math.min(
+        this.config.retryBackoffMs * Math.pow(2, job.attempts - 1),
+        this.config.maxRetryBackoffMs
+      );
+      await this.queue.retry(job, delay, result.error || result.status);
+      await this.store.updateExecution(executionId, {
+        status: 'queued',
+        attempts: job.attempts,
+        error: result.error,
+        executionTime: result.durationMs
+      });
+      logger.info(`Execution ${executionId} retrying in ${delay}ms (attempt ${job.attempts}/${job.maxAttempts})`);
+      return true;
+    } else {
+      await this.queue.deadLetter(job, result.error || result.status);
+      logger.warn(`Execution ${executionId} dead-lettered after ${job.attempts} attempt(s)`);
+    }
+
+    await this.store.updateExecution(executionId, {
+      status: result.status,
+      attempts: job.attempts,
+      outputs: result.output,
+      error: result.error,
+      executionTime: result.durationMs,
+      completedAt: new Date()
+    });
+
+    if (job.payload.callbackUrl) {
+      await this.notifier.notify(job.payload.callbackUrl, {
+        executionId,
+        functionId,
+        status: result.status,
+        output: result.output,
+        error: result.error,
+        durationMs: result.durationMs,
+        attempts: job.attempts
+      });
+    }
+
+    return true;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.timer && await this.processNext()) {
+        // Keep going until the queue is empty or the worker is stopped
+      }
+    } catch (error) {
+      logger.error('Execution worker error:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+}
+
+export default ExecutionWorker;
@@ -0,0 +1,137 @@
+import logger from '../../utils/logger';
+import { FunctionExecutionError, FunctionTimeoutError } from '../../utils/errors';
+
+export type FunctionKind = 'webhook' | 'script' | 'chain';
+
+export type ExecutionStatus = 'success' | 'failed' | 'timeout';
+
+export interface AgentFunctionDefinition {
+  id: string;
+  agentAddress: string;
+  functionName: string;
+  kind: FunctionKind;
+  handler: Record<string, any>;
+}
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  output: unknown;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface RunnerContext {
+  callerAddress: string;
+  callStack: string[];
+  // Runs another agent function as part of this execution
+  invoke(functionId: string, inputs: Record<string, any>): Promise<unknown>;
+}
+
+export interface FunctionRunner {
+  // Resolves to a list of problems with the handler config, empty when valid
+  validate(handler: Record<string, any>): Promise<string[]>;
+  run(
+    definition: AgentFunctionDefinition,
+    inputs: Record<string, any>,
+    context: RunnerContext
+  ): Promise<unknown>;
+}
+
+export type FunctionLoader = (functionId: string) => Promise<AgentFunctionDefinition | null>;
+
+export interface FunctionExecutorConfig {
+  maxChainDepth: number;
+}
+
+export class FunctionExecutor {
+  private runners: Map<FunctionKind, FunctionRunner> = new Map();
+  private loadFunction: FunctionLoader;
+  private config: FunctionExecutorConfig;
+
+  constructor(loadFunction: FunctionLoader, config: FunctionExecutorConfig) {
+    this.loadFunction = loadFunction;
+    this.config = config;
+  }
+
+  register(kind: FunctionKind, runner: FunctionRunner): this {
+    this.runners.set(kind, runner);
+    return this;
+  }
+
+  async validateDefinition(kind: string, handler: Record<string, any>): Promise<string[]> {
+    const runner = this.runners.get(kind as FunctionKind);
+    if (!runner) {
+      return [`Unsupported function kind: ${kind}`];
+    }
+    return runner.validate(handler || {});
+  }
+
+  /**
+   * Run a function and report how it went. Runner failures are captured in
+   * the result rather than thrown so they can be recorded as executions.
+   */
+  async execute(
+    definition: AgentFunctionDefinition,
+    inputs: Record<string, any>,
+    callerAddress: string
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+
+    try {
+      const output = await this.run(definition, inputs, callerAddress, []);
+      return {
+        status: 'success',
+        output,
+        error: null,
+        durationMs: Date.now() - startTime
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Function ${definition.id} failed: ${message}`);
+
+      return {
+        status: error instanceof FunctionTimeoutError ? 'timeout' : 'failed',
+        output: null,
+        error: message,
+        durationMs: Date.now() - startTime
+      };
+    }
+  }
+
+  private async run(
+    definition: AgentFunctionDefinition,
+    inputs: Record<string, any>,
+    callerAddress: string,
+    callStack: string[]
+  ): Promise<unknown> {
+    if (callStack.includes(definition.id)) {
+      throw new FunctionExecutionError(`Circular function chain detected at ${definition.id}`);
+    }
+
+    if (callStack.length >= this.config.maxChainDepth) {
+      throw new FunctionExecutionError(`Function chain exceeds maximum depth of ${this.config.maxChainDepth}`);
+    }
+
+    const runner = this.runners.get(definition.kind);
+    if (!runner) {
+      throw new FunctionExecutionError(`Unsupported function kind: ${definition.kind}`);
+    }
+
+    const stack = [...callStack, definition.id];
+    const context: RunnerContext = {
+      callerAddress,
+      callStack: stack,
+      invoke: async (functionId, nestedInputs) => {
+        const nested = await this.loadFunction(functionId);
+        if (!nested) {
+          throw new FunctionExecutionError(`Chained function ${functionId} not found`);
+        }
+        return this.run(nested, nestedInputs, callerAddress, stack);
+      }
+    };
+
+    return runner.run(definition, inputs, context);
+  }
+}
+
+export default FunctionExecutor;
@@ -0,0 +1,39 @@
+import { AgentFunctionDefinition, FunctionRunner, RunnerContext } from '../function-executor';
+
+// Handler: { steps: string[] } - function ids run in order, each step
+// receiving the previous step's output as its inputs.
+export class ChainRunner implements FunctionRunner {
+  async validate(handler: Record<string, any>): Promise<string[]> {
+    const steps = handler.steps;
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return ['handler.steps must be a non-empty array of function ids'];
+    }
+    if (!steps.every(step => typeof step === 'string' && step.length > 0)) {
+      return ['handler.steps must only contain function ids'];
+    }
+    return [];
+  }
+
+  async run(
+    definition: AgentFunctionDefinition,
+    inputs: Record<string, any>,
+    context: RunnerContext
+  ): Promise<unknown> {
+    let current: unknown = inputs;
+
+    for (const functionId of definition.handler.steps as string[]) {
+      current = await context.invoke(functionId, toInputs(current));
+    }
+
+    return current;
+  }
+}
+
+function toInputs(value: unknown): Record<string, any> {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, any>;
+  }
+  return { value };
+}
+
+export default ChainRunner;
@@ -0,0 +1,76 @@
+import ivm from 'isolated-vm';
+import { AgentFunctionDefinition, FunctionRunner } from '../function-executor';
+import { FunctionExecutionError, FunctionTimeoutError } from '../../../utils/errors';
+
+export interface ScriptRunnerConfig {
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+// The snippet is the body of a function receiving `inputs`; its (possibly
+// async) return value must be JSON-serialisable. Inputs cross into the
+// isolate as a string so no host object is reachable from the script.
+const wrap = (source: string) =>
+  '(async function (inputs) {\n' + source + '\n})(JSON.parse(inputsJson))' +
+  '.then((output) => JSON.stringify(output === undefined ? null : output))';
+
+// Handler: { source: string }
+export class ScriptRunner implements FunctionRunner {
+  private config: ScriptRunnerConfig;
+
+  constructor(config: ScriptRunnerConfig) {
+    this.config = config;
+  }
+
+  async validate(handler: Record<string, any>): Promise<string[]> {
+    if (typeof handler.source !== 'string' || handler.source.trim() === '') {
+      return ['handler.source must be a non-empty string'];
+    }
+    return [];
+  }
+
+  /**
+   * Each run gets a fresh V8 isolate with its own heap limit and no Node
+   * globals, so nothing the script reaches leads back to the host. The eval
+   * timeout bounds synchronous CPU time and the isolate is disposed once the
+   * wall-clock budget is spent, which covers runaway async code too.
+   */
+  async run(definition: AgentFunctionDefinition, inputs: Record<string, any>): Promise<unknown> {
+    const { timeoutMs, memoryMb } = this.config;
+    const isolate = new ivm.Isolate({ memoryLimit: memoryMb });
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const context = await isolate.createContext();
+      await context.global.set('inputsJson', JSON.stringify(inputs));
+
+      const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new FunctionTimeoutError(`Script exceeded ${timeoutMs}ms`)), timeoutMs);
+      });
+      const output: string = await Promise.race([
+        context.eval(wrap(definition.handler.source), { timeout: timeoutMs, promise: true }),
+        expired
+      ]);
+
+      return JSON.parse(output);
+    } catch (error: any) {
+      if (error instanceof FunctionTimeoutError) {
+        throw error;
+      }
+      if (error?.message === 'Script execution timed out.') {
+        throw new FunctionTimeoutError(`Script exceeded ${timeoutMs}ms`);
+      }
+      if (isolate.isDisposed) {
+        throw new FunctionExecutionError(`Script exceeded ${memoryMb}MB memory limit`);
+      }
+      throw new FunctionExecutionError(`Script error: ${error?.message || error}`);
+    } finally {
+      clearTimeout(timer);
+      if (!isolate.isDisposed) {
+        isolate.dispose();
+      }
+    }
+  }
+}
+
+export default ScriptRunner;
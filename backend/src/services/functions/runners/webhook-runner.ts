@@ -0,0 +1,95 @@
+import http from 'http';
+import https from 'https';
+import axios, { AxiosInstance } from 'axios';
+import { AgentFunctionDefinition, FunctionRunner, RunnerContext } from '../function-executor';
+import { FunctionExecutionError, FunctionTimeoutError } from '../../../utils/errors';
+import { AddressResolver, checkPublicHost, publicOnlyLookup, resolveAddresses } from '../../../utils/public-address';
+
+export interface WebhookRunnerConfig {
+  timeoutMs: number;
+  maxResponseBytes: number;
+}
+
+// Handler: { url: string, headers?: Record<string, string> }
+export class WebhookRunner implements FunctionRunner {
+  private client: AxiosInstance;
+  private resolve: AddressResolver;
+
+  constructor(config: WebhookRunnerConfig, client?: AxiosInstance, resolve: AddressResolver = resolveAddresses) {
+    // Redirects are not followed since a public URL could bounce to an
+    // internal one, and no proxy is used so the agents see the real host
+    this.client = client || axios.create({
+      timeout: config.timeoutMs,
+      maxRedirects: 0,
+      proxy: false,
+      maxContentLength: config.maxResponseBytes,
+      httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+      httpsAgent: new https.Agent({ lookup: publicOnlyLookup })
+    });
+    this.resolve = resolve;
+  }
+
+  async validate(handler: Record<string, any>): Promise<string[]> {
+    const problems: string[] = [];
+
+    try {
+      const url = new URL(handler.url);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        problems.push('handler.url must use http or https');
+      } else {
+        problems.push(...(await checkPublicHost(url, this.resolve)).map(problem => `handler.url ${problem}`));
+      }
+    } catch {
+      problems.push('handler.url must be a valid URL');
+    }
+
+    if (handler.headers !== undefined && (typeof handler.headers !== 'object' || handler.headers === null)) {
+      problems.push('handler.headers must be an object');
+    }
+
+    return problems;
+  }
+
+  /**
+   * The host is checked again before each call since DNS may have changed
+   * since registration; the client's agents repeat the check on connect.
+   */
+  async run(
+    definition: AgentFunctionDefinition,
+    inputs: Record<string, any>,
+    context: RunnerContext
+  ): Promise<unknown> {
+    const problems = await checkPublicHost(new URL(definition.handler.url), this.resolve);
+    if (problems.length > 0) {
+      throw new FunctionExecutionError(`Webhook refused: ${problems[0]}`);
+    }
+
+    try {
+      const response = await this.client.post(definition.handler.url, {
+        functionId: definition.id,
+        functionName: definition.functionName,
+        agentAddress: definition.agentAddress,
+        callerAddress: context.callerAddress,
+        inputs
+      }, {
+        headers: definition.handler.headers
+      });
+
+      return response.data;
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new FunctionTimeoutError(`Webhook ${definition.handler.url} timed out`);
+      }
+      if (error.code === 'ERR_BAD_RESPONSE' && /maxContentLength/.test(error.message)) {
+        throw new FunctionExecutionError('Webhook response exceeded the size limit');
+      }
+
+      const status = error.response?.status;
+      throw new FunctionExecutionError(
+        status ? `Webhook responded with status ${status}` : `Webhook request failed: ${error.message}`
+      );
+    }
+  }
+}
+
+export default WebhookRunner;
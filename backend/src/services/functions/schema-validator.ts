@@ -0,0 +1,64 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { hashData } from '../../utils/crypto';
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export class FunctionSchemaValidator {
+  private ajv: Ajv;
+  private compiled: Map<string, ValidateFunction> = new Map();
+
+  constructor() {
+    this.ajv = new Ajv({ allErrors: true, strict: false });
+  }
+
+  /**
+   * Check that a schema is itself a valid JSON Schema and compiles.
+   */
+  checkSchema(schema: unknown): SchemaViolation[] {
+    if (schema === null || typeof schema !== 'object' || Array.isArray(schema)) {
+      return [{ path: '', message: 'must be a JSON Schema object' }];
+    }
+
+    if (!this.ajv.validateSchema(schema)) {
+      return toViolations(this.ajv.errors);
+    }
+
+    try {
+      this.getValidator(schema as object);
+      return [];
+    } catch (error) {
+      return [{ path: '', message: error instanceof Error ? error.message : String(error) }];
+    }
+  }
+
+  validate(schema: object, data: unknown): SchemaViolation[] {
+    const validator = this.getValidator(schema);
+    return validator(data) ? [] : toViolations(validator.errors);
+  }
+
+  private getValidator(schema: object): ValidateFunction {
+    const key = hashData(JSON.stringify(schema));
+    let validator = this.compiled.get(key);
+
+    if (!validator) {
+      validator = this.ajv.compile(schema);
+      this.compiled.set(key, validator);
+    }
+
+    return validator;
+  }
+}
+
+function toViolations(errors: ErrorObject[] | null | undefined): SchemaViolation[] {
+  return (errors || []).map(error => ({
+    path: error.instancePath || '/',
+    message: error.keyword === 'additionalProperties'
+      ? `${error.message}: ${(error.params as { additionalProperty: string }).additionalProperty}`
+      : error.message || 'is invalid'
+  }));
+}
+
+export default FunctionSchemaValidator;
@@ -0,0 +1,54 @@
+import { ConflictError } from '../../utils/errors';
+
+export type EscrowStatus =
+  | 'OFFERED'
+  | 'ESCROWED'
+  | 'SETTLED'
+  | 'REFUNDED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+export type EscrowEvent =
+  | 'PAYMENT_CONFIRMED'
+  | 'SETTLE'
+  | 'REFUND'
+  | 'CANCEL'
+  | 'EXPIRE';
+
+// OFFERED: buyer signed an offer and has until expiry to pay into escrow.
+// ESCROWED: payment confirmed on chain, waiting for the seller's release.
+// An escrow that times out before payment expires; after payment it is refunded.
+const TRANSITIONS: Record<EscrowStatus, Partial<Record<EscrowEvent, EscrowStatus>>> = {
+  OFFERED: {
+    PAYMENT_CONFIRMED: 'ESCROWED',
+    CANCEL: 'CANCELLED',
+    EXPIRE: 'EXPIRED'
+  },
+  ESCROWED: {
+    SETTLE: 'SETTLED',
+    REFUND: 'REFUNDED',
+    EXPIRE: 'REFUNDED'
+  },
+  SETTLED: {},
+  REFUNDED: {},
+  CANCELLED: {},
+  EXPIRED: {}
+};
+
+export const ACTIVE_ESCROW_STATUSES: EscrowStatus[] = ['OFFERED', 'ESCROWED'];
+
+export function nextEscrowStatus(status: EscrowStatus, event: EscrowEvent): EscrowStatus {
+  const next = TRANSITIONS[status]?.[event];
+  if (!next) {
+    throw new ConflictError(`Cannot ${event.toLowerCase().replace('_', ' ')} an escrow that is ${status.toLowerCase()}`);
+  }
+  return next;
+}
+
+export function canTransition(status: EscrowStatus, event: EscrowEvent): boolean {
+  return TRANSITIONS[status]?.[event] !== undefined;
+}
+
+export function isTerminalEscrowStatus(status: EscrowStatus): boolean {
+  return Object.keys(TRANSITIONS[status]).length === 0;
+}
@@ -0,0 +1,46 @@
+import { Prisma } from '@prisma/client';
+import { ConflictError } from '../../utils/errors';
+import { normalizeWalletAddress } from '../../utils/wallet-signatures';
+
+// Unique constraint violation
+const PRISMA_UNIQUE_VIOLATION = 'P2002';
+
+export type NoncedAction = 'list' | 'offer';
+
+/**
+ * Record the nonce of a signed listing or offer and return its id. Each
+ * signer can use a nonce once, so a captured signature cannot be replayed.
+ */
+export async function recordMarketplaceNonce(
+  tx: Prisma.TransactionClient,
+  signer: string,
+  nonce: string,
+  action: NoncedAction
+): Promise<string> {
+  try {
+    const record = await tx.marketplaceNonce.create({
+      // Ethereum signers are stored lowercased, as they verify case-insensitively
+      data: { signer: normalizeWalletAddress(signer), nonce, action },
+    });
+    return record.id;
+  } catch (error: any) {
+    if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+      throw new ConflictError('Nonce already used');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Mark the listing and offer behind a sale as spent. Runs in the settlement
+ * transaction, which fails if either authorization already backed a sale.
+ */
+export async function consumeMarketplaceNonces(tx: Prisma.TransactionClient, ids: string[]): Promise<void> {
+  const { count } = await tx.marketplaceNonce.updateMany({
+    where: { id: { in: ids }, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (count !== ids.length) {
+    throw new ConflictError('Listing or offer authorization already used');
+  }
+}
@@ -0,0 +1,93 @@
+import { ZeroAddress } from 'ethers';
+import { config } from '../../config';
+import {
+  detectWalletChain,
+  verifyEthereumTypedData,
+  verifyWalletMessage
+} from '../../utils/wallet-signatures';
+
+export type MarketplaceAction = 'list' | 'offer' | 'settle' | 'cancel' | 'refund';
+
+export type SignatureScheme = 'personal' | 'eip712';
+
+export interface MarketplaceAuthorization {
+  action: MarketplaceAction;
+  agentAddress: string;
+  // Decimal ETH amount, exactly as signed
+  price: string;
+  // Days a listing stays up; 0 for every other action
+  duration: number;
+  // Client nonce for listings and offers, escrow id for escrow actions
+  nonce: string;
+  // Unix seconds after which the signature is no longer accepted
+  expiresAt: number;
+}
+
+// Binds typed-data signatures to one chain and escrow contract, so they
+// cannot be replayed against another deployment. Until an escrow address is
+// configured the zero address stands in, as EIP-712 needs a valid one.
+export const MARKETPLACE_DOMAIN = {
+  name: 'Agent Launchpad Marketplace',
+  version: '1',
+  chainId: config.marketplace.chainId,
+  verifyingContract: config.marketplace.escrowAddress || ZeroAddress
+};
+
+export const MARKETPLACE_TYPES = {
+  MarketplaceAuthorization: [
+    { name: 'action', type: 'string' },
+    { name: 'agentAddress', type: 'string' },
+    { name: 'price', type: 'string' },
+    { name: 'duration', type: 'uint256' },
+    { name: 'nonce', type: 'string' },
+    { name: 'expiresAt', type: 'uint256' }
+  ]
+};
+
+/**
+ * The exact text a wallet signs for EIP-191 and Solana signMessage.
+ */
+export function buildMarketplaceMessage(authorization: MarketplaceAuthorization): string {
+  return [
+    `${MARKETPLACE_DOMAIN.name} authorization`,
+    `Action: ${authorization.action}`,
+    `Agent: ${authorization.agentAddress}`,
+    `Price: ${authorization.price}`,
+    ...(authorization.action === 'list' ? [`Duration: ${authorization.duration} days`] : []),
+    `Nonce: ${authorization.nonce}`,
+    `Expires: ${new Date(authorization.expiresAt * 1000).toISOString()}`
+  ].join('\n');
+}
+
+/**
+ * Check a marketplace signature. Expired authorizations fail like forged
+ * ones; the nonce must still be recorded by the caller to stop replays.
+ */
+export function verifyMarketplaceSignature(
+  signer: string,
+  authorization: MarketplaceAuthorization,
+  signature: string,
+  scheme: SignatureScheme = 'personal'
+): boolean {
+  if (!Number.isSafeInteger(authorization.expiresAt) || authorization.expiresAt * 1000 <= Date.now()) {
+    return false;
+  }
+  if (!Number.isSafeInteger(authorization.duration) || authorization.duration < 0) {
+    return false;
+  }
+
+  if (scheme === 'eip712') {
+    if (detectWalletChain(signer) !== 'ethereum') {
+      return false;
+    }
+    return verifyEthereumTypedData(
+      signer,
+      MARKETPLACE_DOMAIN,
+      MARKETPLACE_TYPES,
+      { ...authorization },
+      signature
+    );
+  }
+
+  return verifyWalletMessage(signer, buildMarketplaceMessage(authorization), signature);
+}
@@ -0,0 +1,91 @@
+import { BUILTIN_METRIC_TYPES, isBuiltinMetricType } from '../../models/metric';
+import { METRIC_KINDS, MemoryMetricTypeStore, MetricKind, MetricTypeDefinition, MetricTypeStore } from './storage/metric-type-store';
+import { ConflictError, ValidationError } from '../../utils/errors';
+
+// Prometheus metric names, so every type can be selected in a query
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const MAX_HELP_LENGTH = 1024;
+
+const BUILTIN_KINDS: Partial<Record<string, MetricKind>> = {
+  request_count: 'counter'
+};
+
+export interface MetricTypeInput {
+  name: string;
+  kind?: MetricKind;
+  help?: string;
+  unit?: string;
+}
+
+/**
+ * The metric types ingestion accepts: the built-in ones, which can't be
+ * changed, plus whatever operators have registered. Removing a type stops
+ * new points of it being accepted; points already stored are kept.
+ */
+export class MetricTypeRegistry {
+  private store: MetricTypeStore;
+
+  constructor(store: MetricTypeStore = new MemoryMetricTypeStore()) {
+    this.store = store;
+  }
+
+  async list(): Promise<MetricTypeDefinition[]> {
+    const custom = await this.store.list();
+    return BUILTIN_METRIC_TYPES.map(builtin)
+      .concat(custom.sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async get(name: string): Promise<MetricTypeDefinition | null> {
+    return isBuiltinMetricType(name) ? builtin(name) : this.store.get(name);
+  }
+
+  async isKnown(name: string): Promise<boolean> {
+    return isBuiltinMetricType(name) || (await this.store.get(name)) !== null;
+  }
+
+  async register(input: MetricTypeInput, createdBy?: string): Promise<MetricTypeDefinition> {
+    const definition = validateInput(input);
+    if (isBuiltinMetricType(definition.name)) {
+      throw new ConflictError(`${definition.name} is a built-in metric type`);
+    }
+
+    const stored: MetricTypeDefinition = { ...definition, builtin: false, createdAt: Date.now(), createdBy };
+    if (!(await this.store.add(stored))) {
+      throw new ConflictError(`Metric type ${definition.name} is already registered`);
+    }
+    return stored;
+  }
+
+  async unregister(name: string): Promise<boolean> {
+    if (isBuiltinMetricType(name)) {
+      throw new ConflictError(`${name} is a built-in metric type`);
+    }
+    return this.store.delete(name);
+  }
+
+  async dispose(): Promise<void> {
+    await this.store.close();
+  }
+}
+
+function builtin(name: string): MetricTypeDefinition {
+  return { name, kind: BUILTIN_KINDS[name] ?? 'gauge', builtin: true };
+}
+
+function validateInput(input: MetricTypeInput): Omit<MetricTypeDefinition, 'builtin'> {
+  const { name, kind = 'unknown', help, unit } = input ?? ({} as MetricTypeInput);
+  if (typeof name !== 'string' || !METRIC_NAME.test(name) || name.startsWith('__')) {
+    throw new ValidationError('Metric type names must match [a-zA-Z_:][a-zA-Z0-9_:]* and not start with __', { field: 'name' });
+  }
+  if (!METRIC_KINDS.includes(kind)) {
+    throw new ValidationError(`Metric kind must be one of ${METRIC_KINDS.join(', ')}`, { field: 'kind' });
+  }
+  if (help !== undefined && (typeof help !== 'string' || help.length > MAX_HELP_LENGTH)) {
+    throw new ValidationError(`Help must be a string of at most ${MAX_HELP_LENGTH} characters`, { field: 'help' });
+  }
+  // OpenMetrics requires the unit to be a suffix of the name
+  if (unit !== undefined && (typeof unit !== 'string' || !/^[a-zA-Z0-9_]+$/.test(unit) || !name.endsWith(`_${unit}`))) {
+    throw new ValidationError('Unit must be a word the name ends with, as in request_duration_seconds', { field: 'unit' });
+  }
+  return { name, kind, help, unit };
+}
@@ -1,6 +1,7 @@
 import { Metric } from '../../models/metric';
 import logger from '@/utils/logger';
 import { MetricsService } from './metrics.service';
+import { addToSummary, emptySummary, MetricsRollupService, MetricSummary } from './metrics-rollup-service';
 
 interface AggregateResult {
   type: string;
@@ -43,14 +44,17 @@ export interface AggregatedMetrics {
 
 export class MetricsAggregationService extends MetricsService {
   private readonly metricsService: MetricsService;
+  private readonly rollups?: MetricsRollupService;
 
-  constructor(metricsService: MetricsService) {
+  constructor(metricsService: MetricsService, rollups?: MetricsRollupService) {
     super();
     this.metricsService = metricsService;
+    this.rollups = rollups;
   }
 
   /**
-   * Get aggregated metrics
+   * Get aggregated metrics. Read from rollups when there are any and no
+   * metadata grouping is asked for, since rollups are kept per type only.
    */
   public async getAggregates(
     start: number,
@@ -59,6 +63,27 @@ export class MetricsAggregationService extends MetricsService {
     options: AggregateOptions = {}
   ): Promise<AggregateResult[]> {
     try {
+      if (this.rollups && !options.groupBy?.length) {
+        const groups = await this.rollups.summarize(start, end, types, options.interval);
+        const results = groups.map(group => ({
+          type: group.type,
+          interval: {
+            start: group.summary.minTime,
+            end: group.summary.maxTime
+          },
+          metrics: this.pickFunctions(this.summaryAggregates(group.summary), options.functions)
+        }));
+
+        logger.info('Metrics aggregated', {
+          start,
+          end,
+          types,
+          groupCount: results.length
+        });
+
+        return results;
+      }
+
       const metrics = await this.metricsService.getMetrics(start, end, types);
 
       // Group metrics by type and interval if specified
@@ -73,8 +98,8 @@ export class MetricsAggregationService extends MetricsService {
           return {
             type,
             interval: {
-              start: Math.min(...groupMetrics.map(m => m.timestamp)),
-              end: Math.max(...groupMetrics.map(m => m.timestamp))
+              start: Math.min(...groupMetrics.map(m => m.timestamp.getTime())),
+              end: Math.max(...groupMetrics.map(m => m.timestamp.getTime()))
             },
             metrics: aggregates,
             metadata: options.groupBy ? 
@@ -123,7 +148,7 @@ export class MetricsAggregationService extends MetricsService {
 
       // Group by interval if specified
       if (options.interval) {
-        const intervalStart = Math.floor(metric.timestamp / options.interval) * options.interval;
+        const intervalStart = Math.floor(metric.timestamp.getTime() / options.interval) * options.interval;
         key += `:${intervalStart}`;
       }
 
@@ -137,53 +162,50 @@ export class MetricsAggregationService extends MetricsService {
   }
 
   /**
-   * Calculate aggregates for a set of metrics
+   * Calculate aggregates for a set of metrics in one pass
    */
   private async calculateAggregates(
     metrics: Metric[],
     functions?: Array<keyof AggregateResult['metrics']>
   ): Promise<AggregateResult['metrics']> {
-    const values = metrics.map(m => m.value);
-    const count = values.length;
-
-    // Basic statistics
-    const min = Math.min(...values);
-    const max = Math.max(...values);
-    const sum = values.reduce((a, b) => a + b, 0);
-    const avg = sum / count;
-
-    // Calculate variance and standard deviation
-    const squaredDiffs = values.map(v => Math.pow(v - avg, 2));
-    const variance = squaredDiffs.reduce((a, b) => a + b, 0) / count;
-    const stdDev = Math.sqrt(variance);
-
-    // Calculate percentiles
-    const sorted = [...values].sort((a, b) => a - b);
-    const getPercentile = (p: number) => {
-      const index = Math.ceil((p / 100) * count) - 1;
-      return sorted[index];
-    };
+    return this.pickFunctions(this.summaryAggregates(this.summarize(metrics)), functions);
+  }
 
-    const p50 = getPercentile(50);
-    const p90 = getPercentile(90);
-    const p95 = getPercentile(95);
-    const p99 = getPercentile(99);
-
-    // Return only requested functions if specified
-    const allMetrics = {
-      count,
-      min,
-      max,
-      avg,
-      sum,
+  private summarize(metrics: Metric[]): MetricSummary {
+    const summary = emptySummary();
+    for (const metric of metrics) {
+      addToSummary(summary, metric);
+    }
+    return summary;
+  }
+
+  /**
+   * Aggregates of a summary; percentiles come from its sketch
+   */
+  private summaryAggregates(summary: MetricSummary): AggregateResult['metrics'] {
+    const variance = summary.m2 / summary.count;
+    return {
+      count: summary.count,
+      min: summary.min,
+      max: summary.max,
+      avg: summary.sum / summary.count,
+      sum: summary.sum,
       variance,
-      stdDev,
-      p50,
-      p90,
-      p95,
-      p99
+      stdDev: Math.sqrt(variance),
+      p50: summary.sketch.quantile(0.5),
+      p90: summary.sketch.quantile(0.9),
+      p95: summary.sketch.quantile(0.95),
+      p99: summary.sketch.quantile(0.99)
     };
+  }
 
+  /**
+   * Return only requested functions if specified
+   */
+  private pickFunctions(
+    allMetrics: AggregateResult['metrics'],
+    functions?: Array<keyof AggregateResult['metrics']>
+  ): AggregateResult['metrics'] {
     if (functions?.length) {
       return Object.fromEntries(
         Object.entries(allMetrics).filter(([key]) => 
@@ -270,31 +292,16 @@ export class MetricsAggregationService extends MetricsService {
       };
     }
 
-    const values = metrics.map(m => m.value).sort((a, b) => a - b);
-    const count = values.length;
-    const sum = values.reduce((acc, val) => acc + val, 0);
-    const average = sum / count;
-    const min = values[0];
-    const max = values[count - 1];
-
-    // Calculate standard deviation
-    const squaredDiffs = values.map(value => Math.pow(value - average, 2));
-    const avgSquaredDiff = squaredDiffs.reduce((acc, val) => acc + val, 0) / count;
-    const stdDev = Math.sqrt(avgSquaredDiff);
-
-    // Calculate percentiles
-    const p95Index = Math.ceil(count * 0.95) - 1;
-    const p99Index = Math.ceil(count * 0.99) - 1;
-
+    const summary = this.summarize(metrics);
     return {
-      count,
-      sum,
-      average,
-      min,
-      max,
-      stdDev,
-      p95: values[p95Index],
-      p99: values[p99Index]
+      count: summary.count,
+      sum: summary.sum,
+      average: summary.sum / summary.count,
+      min: summary.min,
+      max: summary.max,
+      stdDev: Math.sqrt(summary.m2 / summary.count),
+      p95: summary.sketch.quantile(0.95),
+      p99: summary.sketch.quantile(0.99)
     };
   }
 
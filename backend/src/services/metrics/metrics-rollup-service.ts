@@ -0,0 +1,281 @@
+import { Metric } from '../../models/metric';
+import { MetricsService } from './metrics.service';
+import { DDSketch } from './sketch';
+import { MemoryRollupStore, Rollup, RollupStore } from './storage/rollup-store';
+import logger from '../../utils/logger';
+
+export type RollupTierName = '1m' | '5m' | '1h' | '1d';
+
+export interface RollupTier {
+  name: RollupTierName;
+  resolution: number;
+}
+
+// Finest first; each tier is built from the one before it, the first from raw points
+export const ROLLUP_TIERS: RollupTier[] = [
+  { name: '1m', resolution: 60 * 1000 },
+  { name: '5m', resolution: 5 * 60 * 1000 },
+  { name: '1h', resolution: 60 * 60 * 1000 },
+  { name: '1d', resolution: 24 * 60 * 60 * 1000 }
+];
+
+export interface MetricsRollupConfig {
+  // How long each tier's buckets are kept, in milliseconds
+  retention: Record<RollupTierName, number>;
+  // Raw points are kept this long, so a tier never starts further back
+  rawRetention: number;
+  // How often the rollup job runs
+  interval: number;
+  // Points arriving later than this after their bucket closes are left out
+  delay: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_CONFIG: MetricsRollupConfig = {
+  retention: { '1m': 30 * DAY, '5m': 90 * DAY, '1h': 400 * DAY, '1d': 5 * 365 * DAY },
+  rawRetention: 30 * DAY,
+  interval: 5 * 60 * 1000,
+  delay: 60 * 1000
+};
+
+// Buckets a single run reads and writes at once
+const BUCKETS_PER_STEP = 60;
+
+// Running statistics of a set of points, mergeable with another summary
+export interface MetricSummary {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  m2: number;
+  minTime: number;
+  maxTime: number;
+  sketch: DDSketch;
+}
+
+export interface SummaryGroup {
+  type: string;
+  // Start of the interval the group covers, when one was asked for
+  intervalStart?: number;
+  summary: MetricSummary;
+}
+
+export function emptySummary(): MetricSummary {
+  return { count: 0, sum: 0, min: Infinity, max: -Infinity, m2: 0, minTime: Infinity, maxTime: -Infinity, sketch: new DDSketch() };
+}
+
+// Non-finite values can't be summed or binned, so summaries skip them
+export function addToSummary(summary: MetricSummary, metric: Metric): void {
+  if (!isFinite(metric.value)) {
+    return;
+  }
+  const previousMean = summary.count > 0 ? summary.sum / summary.count : 0;
+  summary.count++;
+  summary.sum += metric.value;
+  summary.m2 += (metric.value - previousMean) * (metric.value - summary.sum / summary.count);
+  summary.min = Math.min(summary.min, metric.value);
+  summary.max = Math.max(summary.max, metric.value);
+  summary.minTime = Math.min(summary.minTime, metric.timestamp.getTime());
+  summary.maxTime = Math.max(summary.maxTime, metric.timestamp.getTime());
+  summary.sketch.add(metric.value);
+}
+
+export function mergeSummary(into: MetricSummary, from: MetricSummary): void {
+  if (from.count === 0) {
+    return;
+  }
+  const count = into.count + from.count;
+  const delta = from.sum / from.count - (into.count > 0 ? into.sum / into.count : 0);
+  into.m2 += from.m2 + (into.count > 0 ? delta * delta * into.count * from.count / count : 0);
+  into.count = count;
+  into.sum += from.sum;
+  into.min = Math.min(into.min, from.min);
+  into.max = Math.max(into.max, from.max);
+  into.minTime = Math.min(into.minTime, from.minTime);
+  into.maxTime = Math.max(into.maxTime, from.maxTime);
+  into.sketch.merge(from.sketch);
+}
+
+function toRollup(type: string, resolution: number, start: number, summary: MetricSummary): Rollup {
+  const { sketch, ...stats } = summary;
+  return { type, resolution, start, ...stats, sketch: sketch.toJSON() };
+}
+
+function fromRollup(rollup: Rollup): MetricSummary {
+  const { count, sum, min, max, m2, minTime, maxTime } = rollup;
+  return { count, sum, min, max, m2, minTime, maxTime, sketch: DDSketch.fromJSON(rollup.sketch) };
+}
+
+/**
+ * Keeps count, sum, min, max, variance and a percentile sketch per type at
+ * 1m, 5m, 1h and 1d resolution, each with its own retention. A run closes
+ * every bucket that ended more than `delay` ago, finest tier first, and
+ * advances that tier's watermark; coarser tiers merge the finer buckets
+ * rather than rereading raw points, so they outlive raw retention.
+ */
+export class MetricsRollupService {
+  private metricsService: MetricsService;
+  private store: RollupStore;
+  private config: MetricsRollupConfig;
+  private timer?: NodeJS.Timeout;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    metricsService: MetricsService,
+    store: RollupStore = new MemoryRollupStore(),
+    config: Partial<MetricsRollupConfig> = {}
+  ) {
+    this.metricsService = metricsService;
+    this.store = store;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.run().catch(error => logger.error('Metric rollup run failed:', error));
+    }, this.config.interval);
+  }
+
+  // Overlapping calls share the run in progress
+  run(now = Date.now()): Promise<void> {
+    if (!this.running) {
+      const done = () => {
+        this.running = null;
+      };
+      this.running = this.rollUp(now).then(done, error => {
+        done();
+        throw error;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * The coarsest tier whose buckets fit evenly into `interval`, or without
+   * an interval, the coarsest no longer than the range. Null means the
+   * query has to read raw points.
+   */
+  selectTier(start: number, end: number, interval?: number): RollupTier | null {
+    const candidates = ROLLUP_TIERS.filter(tier => interval
+      ? interval % tier.resolution === 0
+      : tier.resolution <= end - start + 1);
+    return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+  }
+
+  /**
+   * Summaries per type, and per `interval` when given, of the points in
+   * [start, end]. Whole buckets of the selected tier cover what they can;
+   * the partial buckets at either edge and anything past the watermark
+   * come from raw points, so results match a raw scan wherever raw points
+   * are still kept.
+   */
+  async summarize(start: number, end: number, types?: string[], interval?: number): Promise<SummaryGroup[]> {
+    const groups = new Map<string, SummaryGroup>();
+    const groupFor = (type: string, time: number) => {
+      const intervalStart = interval ? Math.floor(time / interval) * interval : undefined;
+      const key = `${type}:${intervalStart ?? ''}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { type, intervalStart, summary: emptySummary() };
+        groups.set(key, group);
+      }
+      return group.summary;
+    };
+
+    const addRaw = async (from: number, to: number) => {
+      if (from > to) return;
+      for (const metric of await this.metricsService.getMetrics(from, to, types)) {
+        addToSummary(groupFor(metric.type, metric.timestamp.getTime()), metric);
+      }
+    };
+
+    const tier = this.selectTier(start, end, interval);
+    const watermark = tier ? await this.store.getWatermark(tier.resolution) : null;
+    if (!tier || watermark === null) {
+      await addRaw(start, end);
+    } else {
+      const resolution = tier.resolution;
+      const rolledStart = Math.ceil(start / resolution) * resolution;
+      const rolledEnd = Math.min(Math.floor((end + 1) / resolution) * resolution, watermark);
+
+      if (rolledStart >= rolledEnd) {
+        await addRaw(start, end);
+      } else {
+        await addRaw(start, rolledStart - 1);
+        for (const rollup of await this.store.find(resolution, { types, start: rolledStart, end: rolledEnd - 1 })) {
+          mergeSummary(groupFor(rollup.type, rollup.start), fromRollup(rollup));
+        }
+        await addRaw(rolledEnd, end);
+      }
+    }
+
+    return Array.from(groups.values())
+      .filter(group => group.summary.count > 0)
+      .sort((a, b) => (a.intervalStart ?? 0) - (b.intervalStart ?? 0) || a.type.localeCompare(b.type));
+  }
+
+  async dispose(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running;
+    await this.store.close();
+  }
+
+  private async rollUp(now: number): Promise<void> {
+    // Raw points count as final once the delay has passed
+    let sourceWatermark = now - this.config.delay;
+
+    for (let i = 0; i < ROLLUP_TIERS.length; i++) {
+      const tier = ROLLUP_TIERS[i];
+      const source = i > 0 ? ROLLUP_TIERS[i - 1] : null;
+      const { resolution } = tier;
+      const end = Math.floor(sourceWatermark / resolution) * resolution;
+      let from = await this.store.getWatermark(resolution)
+        ?? Math.floor((now - this.config.rawRetention) / resolution) * resolution;
+
+      while (from < end) {
+        const to = Math.min(from + resolution * BUCKETS_PER_STEP, end);
+        const buckets = new Map<string, { type: string; start: number; summary: MetricSummary }>();
+        const bucketFor = (type: string, time: number) => {
+          const bucketStart = Math.floor(time / resolution) * resolution;
+          const key = `${type}:${bucketStart}`;
+          let bucket = buckets.get(key);
+          if (!bucket) {
+            bucket = { type, start: bucketStart, summary: emptySummary() };
+            buckets.set(key, bucket);
+          }
+          return bucket.summary;
+        };
+
+        if (source) {
+          for (const rollup of await this.store.find(source.resolution, { start: from, end: to - 1 })) {
+            mergeSummary(bucketFor(rollup.type, rollup.start), fromRollup(rollup));
+          }
+        } else {
+          for (const metric of await this.metricsService.getMetrics(from, to - 1)) {
+            addToSummary(bucketFor(metric.type, metric.timestamp.getTime()), metric);
+          }
+        }
+
+        const rollups = Array.from(buckets.values())
+          .filter(bucket => bucket.summary.count > 0)
+          .map(bucket => toRollup(bucket.type, resolution, bucket.start, bucket.summary));
+        if (rollups.length > 0) {
+          await this.store.put(rollups);
+        }
+        await this.store.setWatermark(resolution, to);
+        from = to;
+      }
+
+      const removed = await this.store.deleteBefore(resolution, now - this.config.retention[tier.name]);
+      if (removed > 0) {
+        logger.debug(`Removed ${removed} expired ${tier.name} metric rollups`);
+      }
+      sourceWatermark = (await this.store.getWatermark(resolution)) ?? end;
+    }
+  }
+}
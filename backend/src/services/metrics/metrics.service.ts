@@ -1,5 +1,5 @@
 import { Metric, MetricType } from '../../models/metric';
-import { config } from '../../config';
+import { MemoryMetricStore, MetricStore } from './storage/metric-store';
 import logger from '../../utils/logger';
 
 interface MetricQuery {
@@ -10,18 +10,30 @@ interface MetricQuery {
   offset?: number;
 }
 
+export interface MetricsServiceConfig {
+  // How long a metric is kept, in milliseconds
+  retentionPeriod: number;
+}
+
+const DEFAULT_CONFIG: MetricsServiceConfig = {
+  retentionPeriod: 30 * 24 * 60 * 60 * 1000
+};
+
 export class MetricsService {
-  private metrics: Map<string, Metric>;
+  private store: MetricStore;
+  private config: MetricsServiceConfig;
+  private cleanupInterval?: NodeJS.Timeout;
 
-  constructor() {
-    this.metrics = new Map();
+  constructor(store: MetricStore = new MemoryMetricStore(), config: Partial<MetricsServiceConfig> = {}) {
+    this.store = store;
+    this.config = { ...DEFAULT_CONFIG, ...config };
     this.startCleanupInterval();
   }
 
   async addMetric(metric: Metric): Promise<void> {
     try {
       this.validateMetric(metric);
-      this.metrics.set(metric.id, metric);
+      await this.store.append(metric);
       logger.debug(`Added metric ${metric.id} of type ${metric.type}`);
     } catch (error) {
       logger.error('Error adding metric:', error);
@@ -30,39 +42,34 @@ export class MetricsService {
   }
 
   async getMetric(id: string): Promise<Metric | null> {
-    const metric = this.metrics.get(id);
-    return metric || null;
+    return this.store.get(id);
   }
 
   async getMetricsByType(type: string): Promise<Metric[]> {
     try {
-      return Array.from(this.metrics.values())
-        .filter(metric => metric.type === type)
-        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      return await this.store.find({ types: [type] });
     } catch (error) {
       logger.error('Error getting metrics by type:', error);
       throw error;
     }
   }
 
-  async queryMetrics(query: MetricQuery): Promise<Metric[]> {
-    try {
-      let filteredMetrics = Array.from(this.metrics.values());
-
-      if (query.type) {
-        filteredMetrics = filteredMetrics.filter(m => m.type === query.type);
-      }
-
-      if (query.startTime) {
-        filteredMetrics = filteredMetrics.filter(m => m.timestamp >= query.startTime!);
-      }
+  // Epoch milliseconds, both inclusive
+  async getMetrics(start: number, end: number, types?: string[]): Promise<Metric[]> {
+    return this.store.find({ types, start, end });
+  }
 
-      if (query.endTime) {
-        filteredMetrics = filteredMetrics.filter(m => m.timestamp <= query.endTime!);
-      }
+  async getMetricsInTimeRange(startTime: Date, endTime: Date): Promise<Metric[]> {
+    return this.store.find({ start: startTime.getTime(), end: endTime.getTime() });
+  }
 
-      // Sort by timestamp
-      filteredMetrics.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  async queryMetrics(query: MetricQuery): Promise<Metric[]> {
+    try {
+      let filteredMetrics = await this.store.find({
+        types: query.type ? [query.type] : undefined,
+        start: query.startTime?.getTime(),
+        end: query.endTime?.getTime()
+      });
 
       // Apply pagination
       if (query.offset !== undefined && query.limit !== undefined) {
@@ -78,20 +85,8 @@ export class MetricsService {
 
   async deleteMetricsByType(type: string, startTime: Date, endTime: Date): Promise<void> {
     try {
-      const metricsToDelete: string[] = [];
-
-      for (const [id, metric] of this.metrics) {
-        if (
-          metric.type === type &&
-          metric.timestamp >= startTime &&
-          metric.timestamp <= endTime
-        ) {
-          metricsToDelete.push(id);
-        }
-      }
-
-      metricsToDelete.forEach(id => this.metrics.delete(id));
-      logger.debug(`Deleted ${metricsToDelete.length} metrics of type ${type}`);
+      const deleted = await this.store.deleteRange({ types: [type], start: startTime.getTime(), end: endTime.getTime() });
+      logger.debug(`Deleted ${deleted} metrics of type ${type}`);
     } catch (error) {
       logger.error('Error deleting metrics:', error);
       throw error;
@@ -100,7 +95,7 @@ export class MetricsService {
 
   async deleteMetric(id: string): Promise<boolean> {
     try {
-      const deleted = this.metrics.delete(id);
+      const deleted = await this.store.delete(id);
       if (deleted) {
         logger.debug(`Deleted metric ${id}`);
       }
@@ -130,33 +125,27 @@ export class MetricsService {
   }
 
   private startCleanupInterval(): void {
-    setInterval(() => {
+    this.cleanupInterval = setInterval(() => {
       this.cleanupOldMetrics();
     }, 60 * 60 * 1000); // Run cleanup every hour
   }
 
-  private cleanupOldMetrics(): void {
+  private async cleanupOldMetrics(): Promise<void> {
     try {
-      const retentionDate = new Date(Date.now() - config.metrics.retentionPeriod);
-      const metricsToDelete: string[] = [];
-
-      for (const [id, metric] of this.metrics) {
-        if (metric.timestamp < retentionDate) {
-          metricsToDelete.push(id);
-        }
-      }
-
-      metricsToDelete.forEach(id => this.metrics.delete(id));
-
-      if (metricsToDelete.length > 0) {
-        logger.debug(`Cleaned up ${metricsToDelete.length} old metrics`);
+      const deleted = await this.store.deleteRange({ end: Date.now() - this.config.retentionPeriod - 1 });
+      if (deleted > 0) {
+        logger.debug(`Cleaned up ${deleted} old metrics`);
       }
     } catch (error) {
       logger.error('Error during metrics cleanup:', error);
     }
   }
 
-  dispose(): void {
-    // Clean up any resources if needed
+  // Stops the cleanup timer and flushes the store
+  async dispose(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+    await this.store.close();
   }
 }
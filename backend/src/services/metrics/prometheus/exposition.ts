@@ -0,0 +1,215 @@
+import { MetricKind } from '../storage/metric-type-store';
+import logger from '../../../utils/logger';
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type Labels = Record<string, string>;
+
+// Seconds, from 5ms to 10s
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface FamilyOptions {
+  name: string;
+  help: string;
+  // Must be the suffix of the name, as in request_duration_seconds
+  unit?: string;
+}
+
+/**
+ * One metric family and its labelled series. Each series is keyed by its
+ * rendered label set, so rendering doesn't have to rebuild it.
+ */
+abstract class Family<S> {
+  readonly name: string;
+  readonly help: string;
+  readonly unit?: string;
+  abstract readonly kind: MetricKind;
+  protected series = new Map<string, S>();
+
+  constructor(options: FamilyOptions) {
+    if (options.unit && !options.name.endsWith(`_${options.unit}`)) {
+      throw new Error(`Metric ${options.name} must end with its unit ${options.unit}`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.unit = options.unit;
+  }
+
+  render(): string[] {
+    const lines = [`# TYPE ${this.name} ${this.kind}`];
+    if (this.unit) {
+      lines.push(`# UNIT ${this.name} ${this.unit}`);
+    }
+    lines.push(`# HELP ${this.name} ${escapeText(this.help)}`);
+    this.series.forEach((series, labels) => {
+      lines.push(...this.renderSeries(labels, series));
+    });
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: string, series: S): string[];
+}
+
+export class Counter extends Family<number> {
+  readonly kind = 'counter';
+
+  inc(labels: Labels = {}, by = 1): void {
+    if (by < 0) {
+      throw new Error(`Counter ${this.name} can only go up`);
+    }
+    const key = formatLabels(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + by);
+  }
+
+  // For totals kept elsewhere, such as the process's CPU time
+  set(labels: Labels, value: number): void {
+    this.series.set(formatLabels(labels), value);
+  }
+
+  protected renderSeries(labels: string, value: number): string[] {
+    return [`${this.name}_total${labels} ${formatValue(value)}`];
+  }
+}
+
+export class Gauge extends Family<number> {
+  readonly kind = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.series.set(formatLabels(labels), value);
+  }
+
+  protected renderSeries(labels: string, value: number): string[] {
+    return [`${this.name}${labels} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  // Per bucket, not yet cumulative
+  counts: number[];
+  count: number;
+  sum: number;
+}
+
+export class Histogram extends Family<HistogramSeries> {
+  readonly kind = 'histogram';
+  private buckets: number[];
+
+  constructor(options: FamilyOptions & { buckets?: number[] }) {
+    super(options);
+    this.buckets = (options.buckets ?? DEFAULT_BUCKETS).slice().sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), count: 0, sum: 0 };
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) {
+      series.counts[bucket]++;
+    }
+    series.count++;
+    series.sum += value;
+    this.series.set(key, series);
+  }
+
+  protected renderSeries(labels: string, series: HistogramSeries): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, i) => {
+      cumulative += series.counts[i];
+      return `${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`;
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${this.name}_count${labels} ${series.count}`);
+    lines.push(`${this.name}_sum${labels} ${formatValue(series.sum)}`);
+    return lines;
+  }
+}
+
+// Brings gauges up to date just before a scrape
+export type Collector = () => void | Promise<void>;
+
+/**
+ * The families the backend reports about itself, rendered in the
+ * OpenMetrics text format for Prometheus to scrape.
+ */
+export class ExpositionRegistry {
+  private families = new Map<string, Family<unknown>>();
+  private collectors: Collector[] = [];
+  private collectTimeoutMs: number;
+
+  // Collectors that read from Redis and the like are given up on after
+  // `collectTimeoutMs`, so a scrape answers before Prometheus times it out
+  constructor(collectTimeoutMs = 2000) {
+    this.collectTimeoutMs = collectTimeoutMs;
+  }
+
+  counter(name: string, help: string, unit?: string): Counter {
+    return this.add(new Counter({ name, help, unit }));
+  }
+
+  gauge(name: string, help: string, unit?: string): Gauge {
+    return this.add(new Gauge({ name, help, unit }));
+  }
+
+  histogram(name: string, help: string, unit?: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram({ name, help, unit, buckets }));
+  }
+
+  collect(collector: Collector): void {
+    this.collectors.push(collector);
+  }
+
+  // A failing collector leaves its families as they were rather than failing the scrape
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          collector(),
+          new Promise((resolve, reject) => {
+            timer = setTimeout(() => reject(new Error(`timed out after ${this.collectTimeoutMs}ms`)), this.collectTimeoutMs);
+          })
+        ]);
+      } catch (error) {
+        logger.error('Metrics collector failed:', error);
+      }
+      clearTimeout(timer);
+    }
+
+    const lines: string[] = [];
+    this.families.forEach(family => {
+      lines.push(...family.render());
+    });
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private add<F extends Family<any>>(family: F): F {
+    if (this.families.has(family.name)) {
+      throw new Error(`Metric ${family.name} is already registered`);
+    }
+    this.families.set(family.name, family);
+    return family;
+  }
+}
+
+function formatValue(value: number): string {
+  if (isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// Sorted, so the same labels in any order are the same series
+function formatLabels(labels: Labels): string {
+  const names = Object.keys(labels).sort();
+  if (names.length === 0) {
+    return '';
+  }
+  return `{${names.map(name => `${name}="${escapeText(labels[name])}"`).join(',')}}`;
+}
+
+// Label values and help text escape the same three characters
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
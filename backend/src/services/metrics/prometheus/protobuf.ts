@@ -0,0 +1,112 @@
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_BYTES = 2;
+export const WIRE_FIXED32 = 5;
+
+/**
+ * Reads protobuf wire format one field at a time, just enough to decode the
+ * remote write messages without generated code. Varints are returned as
+ * JavaScript numbers, exact up to 2^53, which covers millisecond timestamps.
+ */
+export class ProtoReader {
+  private buffer: Buffer;
+  private pos: number;
+  private end: number;
+
+  constructor(buffer: Buffer, start = 0, end = buffer.length) {
+    this.buffer = buffer;
+    this.pos = start;
+    this.end = end;
+  }
+
+  hasMore(): boolean {
+    return this.pos < this.end;
+  }
+
+  readTag(): { field: number; wireType: number } {
+    const tag = this.readVarint();
+    return { field: Math.floor(tag / 8), wireType: tag % 8 };
+  }
+
+  readVarint(): number {
+    let value = 0;
+    for (let shift = 0; shift < 70; shift += 7) {
+      this.need(1);
+      const byte = this.buffer[this.pos++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) {
+        return value;
+      }
+    }
+    throw new Error('Varint is longer than 10 bytes');
+  }
+
+  // Negative int64s arrive as ten-byte two's complement varints
+  readInt64(): number {
+    const value = this.readVarint();
+    return value >= 2 ** 63 ? value - 2 ** 64 : value;
+  }
+
+  // A double's raw eight bytes, so NaN payloads can be told apart
+  readFixed64Bits(): { high: number; low: number } {
+    this.need(8);
+    const low = this.buffer.readUInt32LE(this.pos);
+    const high = this.buffer.readUInt32LE(this.pos + 4);
+    this.pos += 8;
+    return { high, low };
+  }
+
+  // A length-delimited field as a reader over just its bytes
+  readMessage(): ProtoReader {
+    const length = this.readVarint();
+    this.need(length);
+    const reader = new ProtoReader(this.buffer, this.pos, this.pos + length);
+    this.pos += length;
+    return reader;
+  }
+
+  readString(): string {
+    const length = this.readVarint();
+    this.need(length);
+    const value = this.buffer.toString('utf8', this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        return;
+      case WIRE_FIXED64:
+        this.need(8);
+        this.pos += 8;
+        return;
+      case WIRE_BYTES: {
+        const length = this.readVarint();
+        this.need(length);
+        this.pos += length;
+        return;
+      }
+      case WIRE_FIXED32:
+        this.need(4);
+        this.pos += 4;
+        return;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  // Checks a field has the wire type its schema says before it is read
+  expect(wireType: number, expected: number, field: string): void {
+    if (wireType !== expected) {
+      throw new Error(`${field} has wire type ${wireType}, expected ${expected}`);
+    }
+  }
+
+  private need(bytes: number): void {
+    if (this.pos + bytes > this.end) {
+      throw new Error('Protobuf message is truncated');
+    }
+  }
+}
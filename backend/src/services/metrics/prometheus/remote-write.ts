@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { MetricsService } from '../metrics.service';
+import { MetricTypeRegistry } from '../metric-type-registry';
+import { MetricKind } from '../storage/metric-type-store';
+import { ProtoReader, WIRE_BYTES, WIRE_FIXED64, WIRE_VARINT } from './protobuf';
+import { remoteWriteSamples } from './self-metrics';
+import { snappyDecompress } from './snappy';
+import { AppError, ConflictError, ValidationError } from '../../../utils/errors';
+import logger from '../../../utils/logger';
+
+export interface RemoteWriteSample {
+  value: number;
+  // Epoch milliseconds
+  timestamp: number;
+}
+
+export interface RemoteWriteSeries {
+  labels: Record<string, string>;
+  samples: RemoteWriteSample[];
+}
+
+// What Prometheus knows about a metric family, sent alongside the samples
+export interface RemoteWriteMetadata {
+  family: string;
+  kind: MetricKind;
+  help: string;
+  unit: string;
+}
+
+export interface WriteRequest {
+  series: RemoteWriteSeries[];
+  metadata: RemoteWriteMetadata[];
+}
+
+export interface RemoteWriteConfig {
+  // Largest request accepted, compressed or not, in bytes
+  maxBytes: number;
+  // Register unknown metric names instead of rejecting their series
+  autoRegister: boolean;
+}
+
+export interface RemoteWriteResult {
+  samples: number;
+  // Metric names whose series were left out because they aren't registered
+  rejected: string[];
+}
+
+const DEFAULT_CONFIG: RemoteWriteConfig = {
+  maxBytes: 32 * 1024 * 1024,
+  autoRegister: false
+};
+
+// MetricMetadata.MetricType, by enum number
+const METADATA_KINDS: MetricKind[] = ['unknown', 'counter', 'gauge', 'histogram', 'unknown', 'summary', 'unknown', 'unknown'];
+
+// Prometheus marks a series as gone with this particular NaN
+const STALE_HIGH = 0x7ff00000;
+const STALE_LOW = 0x00000002;
+
+/**
+ * Decodes a Prometheus remote write 1.0 body: a snappy-compressed
+ * prometheus.WriteRequest.
+ *
+ *   WriteRequest   { repeated TimeSeries timeseries = 1; repeated MetricMetadata metadata = 3; }
+ *   TimeSeries     { repeated Label labels = 1; repeated Sample samples = 2; }
+ *   Label          { string name = 1; string value = 2; }
+ *   Sample         { double value = 1; int64 timestamp = 2; }
+ *   MetricMetadata { MetricType type = 1; string metric_family_name = 2; string help = 4; string unit = 5; }
+ *
+ * Exemplars and native histograms are skipped, as are staleness markers,
+ * since stored series have no notion of going stale.
+ */
+export function decodeWriteRequest(body: Buffer, maxBytes = DEFAULT_CONFIG.maxBytes): WriteRequest {
+  let reader: ProtoReader;
+  try {
+    reader = new ProtoReader(snappyDecompress(body, maxBytes));
+  } catch (error) {
+    throw new ValidationError(`Malformed snappy body: ${(error as Error).message}`);
+  }
+
+  try {
+    const request: WriteRequest = { series: [], metadata: [] };
+    while (reader.hasMore()) {
+      const { field, wireType } = reader.readTag();
+      if (field === 1) {
+        reader.expect(wireType, WIRE_BYTES, 'WriteRequest.timeseries');
+        request.series.push(readSeries(reader.readMessage()));
+      } else if (field === 3) {
+        reader.expect(wireType, WIRE_BYTES, 'WriteRequest.metadata');
+        request.metadata.push(readMetadata(reader.readMessage()));
+      } else {
+        reader.skip(wireType);
+      }
+    }
+    return request;
+  } catch (error) {
+    throw new ValidationError(`Malformed WriteRequest: ${(error as Error).message}`);
+  }
+}
+
+function readSeries(reader: ProtoReader): RemoteWriteSeries {
+  const series: RemoteWriteSeries = { labels: {}, samples: [] };
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      reader.expect(wireType, WIRE_BYTES, 'TimeSeries.labels');
+      const label = reader.readMessage();
+      let name = '';
+      let value = '';
+      while (label.hasMore()) {
+        const tag = label.readTag();
+        if (tag.field === 1) {
+          label.expect(tag.wireType, WIRE_BYTES, 'Label.name');
+          name = label.readString();
+        } else if (tag.field === 2) {
+          label.expect(tag.wireType, WIRE_BYTES, 'Label.value');
+          value = label.readString();
+        } else {
+          label.skip(tag.wireType);
+        }
+      }
+      series.labels[name] = value;
+    } else if (field === 2) {
+      reader.expect(wireType, WIRE_BYTES, 'TimeSeries.samples');
+      const sample = readSample(reader.readMessage());
+      if (sample) {
+        series.samples.push(sample);
+      }
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return series;
+}
+
+// Null for a staleness marker
+function readSample(reader: ProtoReader): RemoteWriteSample | null {
+  let value = 0;
+  let timestamp = 0;
+  let stale = false;
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      reader.expect(wireType, WIRE_FIXED64, 'Sample.value');
+      const bits = reader.readFixed64Bits();
+      stale = bits.high === STALE_HIGH && bits.low === STALE_LOW;
+      const bytes = Buffer.alloc(8);
+      bytes.writeUInt32LE(bits.low, 0);
+      bytes.writeUInt32LE(bits.high, 4);
+      value = bytes.readDoubleLE(0);
+    } else if (field === 2) {
+      reader.expect(wireType, WIRE_VARINT, 'Sample.timestamp');
+      timestamp = reader.readInt64();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return stale ? null : { value, timestamp };
+}
+
+function readMetadata(reader: ProtoReader): RemoteWriteMetadata {
+  const metadata: RemoteWriteMetadata = { family: '', kind: 'unknown', help: '', unit: '' };
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.readTag();
+    if (field === 1) {
+      reader.expect(wireType, WIRE_VARINT, 'MetricMetadata.type');
+      metadata.kind = METADATA_KINDS[reader.readVarint()] ?? 'unknown';
+    } else if (field === 2 || field === 4 || field === 5) {
+      reader.expect(wireType, WIRE_BYTES, 'MetricMetadata');
+      const text = reader.readString();
+      if (field === 2) metadata.family = text;
+      else if (field === 4) metadata.help = text;
+      else metadata.unit = text;
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Stores remote-written samples as metrics: __name__ becomes the type and
+ * every other label a metadata field, which is how the query engine reads
+ * them back. Series of unregistered types are left out and reported, unless
+ * auto-registration is on.
+ */
+export class RemoteWriteService {
+  private metricsService: MetricsService;
+  private typeRegistry: MetricTypeRegistry;
+  private config: RemoteWriteConfig;
+
+  constructor(metricsService: MetricsService, typeRegistry: MetricTypeRegistry, config: Partial<RemoteWriteConfig> = {}) {
+    this.metricsService = metricsService;
+    this.typeRegistry = typeRegistry;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  get maxBytes(): number {
+    return this.config.maxBytes;
+  }
+
+  async write(body: Buffer): Promise<RemoteWriteResult> {
+    const request = decodeWriteRequest(body, this.config.maxBytes);
+    const families = new Map(request.metadata.map(metadata => [metadata.family, metadata] as [string, RemoteWriteMetadata]));
+    const rejected = new Set<string>();
+    let samples = 0;
+
+    // Checked up front so a bad request writes nothing
+    if (request.series.some(series => !series.labels.__name__)) {
+      throw new ValidationError('Series without a __name__ label');
+    }
+
+    for (const series of request.series) {
+      const { __name__: name, ...metadata } = series.labels;
+      if (!(await this.accepts(name, families))) {
+        rejected.add(name);
+        remoteWriteSamples.inc({ outcome: 'rejected' }, series.samples.length);
+        continue;
+      }
+
+      for (const sample of series.samples) {
+        await this.metricsService.addMetric({
+          id: crypto.randomUUID(),
+          type: name,
+          value: sample.value,
+          timestamp: new Date(sample.timestamp),
+          metadata
+        });
+        samples++;
+      }
+      remoteWriteSamples.inc({ outcome: 'stored' }, series.samples.length);
+    }
+
+    if (rejected.size > 0) {
+      logger.warn(`Remote write left out series of unregistered metric types: ${Array.from(rejected).join(', ')}`);
+    }
+    return { samples, rejected: Array.from(rejected) };
+  }
+
+  private async accepts(name: string, families: Map<string, RemoteWriteMetadata>): Promise<boolean> {
+    if (await this.typeRegistry.isKnown(name)) {
+      return true;
+    }
+    if (!this.config.autoRegister) {
+      return false;
+    }
+
+    const family = familyOf(name, families);
+    try {
+      await this.typeRegistry.register({
+        name,
+        kind: family?.family === name ? family.kind : family ? 'counter' : 'unknown',
+        help: family?.help || undefined,
+        unit: family?.unit && name.endsWith(`_${family.unit}`) ? family.unit : undefined
+      }, 'remote-write');
+      return true;
+    } catch (error) {
+      // Registered by a concurrent request in the meantime
+      if (error instanceof ConflictError) {
+        return true;
+      }
+      // A name the registry won't take, such as one starting with __
+      if (error instanceof AppError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+// Histogram and summary families are sent as <family>_bucket, _sum and
+// _count series, all of them cumulative
+function familyOf(name: string, families: Map<string, RemoteWriteMetadata>): RemoteWriteMetadata | undefined {
+  const exact = families.get(name);
+  if (exact) {
+    return exact;
+  }
+  const match = /^(.*)_(bucket|sum|count)$/.exec(name);
+  const family = match ? families.get(match[1]) : undefined;
+  return family && (family.kind === 'histogram' || family.kind === 'summary') ? family : undefined;
+}
@@ -0,0 +1,70 @@
+import { JobQueue } from '../../queue/job-queue';
+import { ExpositionRegistry } from './exposition';
+
+/**
+ * What the backend reports about its own process, served at /metrics.
+ * Middleware and services record into these as they go; the process and
+ * queue figures are read when Prometheus scrapes.
+ */
+export const selfMetrics = new ExpositionRegistry();
+
+export const httpRequests = selfMetrics.counter(
+  'http_requests',
+  'HTTP requests answered, by method, matched route and status'
+);
+
+export const httpRequestDuration = selfMetrics.histogram(
+  'http_request_duration_seconds',
+  'Time from receiving an HTTP request to finishing its response',
+  'seconds'
+);
+
+export const rateLimitRequests = selfMetrics.counter(
+  'rate_limit_requests',
+  'Requests counted against a rate limit tier, by whether they were let through'
+);
+
+export const rateLimitErrors = selfMetrics.counter(
+  'rate_limit_errors',
+  'Requests failed because the rate limit store could not be reached'
+);
+
+export const remoteWriteSamples = selfMetrics.counter(
+  'remote_write_samples',
+  'Samples received through remote write, by whether they were stored'
+);
+
+const queueJobs = selfMetrics.gauge('job_queue_jobs', 'Jobs in each queue, by state');
+const cpuSeconds = selfMetrics.counter('process_cpu_seconds', 'User and system CPU time spent', 'seconds');
+const residentMemory = selfMetrics.gauge('process_resident_memory_bytes', 'Resident set size', 'bytes');
+const heapBytes = selfMetrics.gauge('nodejs_heap_bytes', 'V8 heap size, by used and total', 'bytes');
+const startTime = selfMetrics.gauge('process_start_time_seconds', 'When the process started, in Unix seconds', 'seconds');
+
+const queues: JobQueue<unknown>[] = [];
+
+startTime.set({}, Math.round(Date.now() / 1000 - process.uptime()));
+
+// Reports the queue's job counts at every scrape
+export function trackQueue(queue: JobQueue<any>): void {
+  queues.push(queue);
+}
+
+selfMetrics.collect(() => {
+  const cpu = process.cpuUsage();
+  cpuSeconds.set({}, (cpu.user + cpu.system) / 1e6);
+
+  const memory = process.memoryUsage();
+  residentMemory.set({}, memory.rss);
+  heapBytes.set({ state: 'used' }, memory.heapUsed);
+  heapBytes.set({ state: 'total' }, memory.heapTotal);
+});
+
+selfMetrics.collect(async () => {
+  for (const queue of queues) {
+    const stats = await queue.stats();
+    queueJobs.set({ queue: queue.name, state: 'ready' }, stats.ready);
+    queueJobs.set({ queue: queue.name, state: 'delayed' }, stats.delayed);
+    queueJobs.set({ queue: queue.name, state: 'processing' }, stats.processing);
+    queueJobs.set({ queue: queue.name, state: 'dead' }, stats.dead);
+  }
+});
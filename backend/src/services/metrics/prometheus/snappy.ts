@@ -0,0 +1,97 @@
+/**
+ * Decompresses the snappy block format (not the framed stream format),
+ * which is what Prometheus remote write sends. The block starts with the
+ * uncompressed length as a varint, followed by literals and back-references
+ * into what has been written so far:
+ *
+ *   tag & 3 = 0  literal, length in the tag or the 1-4 bytes after it
+ *   tag & 3 = 1  copy, 4-11 bytes from an 11-bit offset
+ *   tag & 3 = 2  copy, 1-64 bytes from a 16-bit offset
+ *   tag & 3 = 3  copy, 1-64 bytes from a 32-bit offset
+ *
+ * `maxLength` is checked against the declared length before anything is
+ * allocated, so a small body can't claim gigabytes.
+ */
+export function snappyDecompress(input: Buffer, maxLength = Infinity): Buffer {
+  let pos = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (pos >= input.length || shift > 28) {
+      throw new Error('Invalid snappy length header');
+    }
+    const byte = input[pos++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) {
+      break;
+    }
+  }
+  if (length > maxLength) {
+    throw new Error(`Decompressed size ${length} exceeds the limit of ${maxLength} bytes`);
+  }
+
+  const output = Buffer.alloc(length);
+  let written = 0;
+
+  const need = (bytes: number) => {
+    if (pos + bytes > input.length) {
+      throw new Error('Snappy block is truncated');
+    }
+  };
+
+  while (pos < input.length) {
+    const tag = input[pos++];
+
+    if ((tag & 3) === 0) {
+      let literalLength = tag >>> 2;
+      if (literalLength >= 60) {
+        const bytes = literalLength - 59;
+        need(bytes);
+        literalLength = input.readUIntLE(pos, bytes);
+        pos += bytes;
+      }
+      literalLength++;
+      need(literalLength);
+      if (written + literalLength > length) {
+        throw new Error('Snappy block is longer than its header says');
+      }
+      input.copy(output, written, pos, pos + literalLength);
+      pos += literalLength;
+      written += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    if ((tag & 3) === 1) {
+      need(1);
+      copyLength = 4 + ((tag >>> 2) & 7);
+      offset = ((tag >>> 5) << 8) | input[pos++];
+    } else if ((tag & 3) === 2) {
+      need(2);
+      copyLength = (tag >>> 2) + 1;
+      offset = input.readUInt16LE(pos);
+      pos += 2;
+    } else {
+      need(4);
+      copyLength = (tag >>> 2) + 1;
+      offset = input.readUInt32LE(pos);
+      pos += 4;
+    }
+
+    if (offset === 0 || offset > written) {
+      throw new Error(`Invalid snappy copy offset ${offset}`);
+    }
+    if (written + copyLength > length) {
+      throw new Error('Snappy block is longer than its header says');
+    }
+    // Byte by byte, since a copy may overlap what it is producing
+    for (let i = 0; i < copyLength; i++, written++) {
+      output[written] = output[written - offset];
+    }
+  }
+
+  if (written !== length) {
+    throw new Error(`Snappy block decompressed to ${written} bytes, expected ${length}`);
+  }
+  return output;
+}
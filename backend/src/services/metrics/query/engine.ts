@@ -0,0 +1,418 @@
+import { Metric } from '../../../models/metric';
+import { QueryError } from '../../../utils/errors';
+import { MetricsService } from '../metrics.service';
+import { DDSketch } from '../sketch';
+import { Aggregate, BinaryOp, Call, Expr, LabelMatcher, parseQuery, Selector, typeOf } from './parser';
+
+export type Labels = Record<string, string>;
+
+export interface Point {
+  time: number;
+  value: number;
+}
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+export interface Series {
+  labels: Labels;
+  points: Point[];
+}
+
+export type QueryValue =
+  | { type: 'scalar'; value: number }
+  | { type: 'vector'; samples: Sample[] }
+  | { type: 'matrix'; series: Series[] };
+
+export interface QueryEngineConfig {
+  // How far back an instant selector looks for a series' latest point
+  lookbackDelta: number;
+  // Most evaluation steps one range query may take
+  maxSteps: number;
+}
+
+const DEFAULT_CONFIG: QueryEngineConfig = {
+  lookbackDelta: 5 * 60 * 1000,
+  maxSteps: 11000
+};
+
+// Series each selector in the query matched, fetched once per query
+type Fetched = Map<Selector, Series[]>;
+
+const NAME = '__name__';
+
+const MATH_FUNCTIONS: Record<string, (value: number) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  floor: Math.floor,
+  sqrt: Math.sqrt
+};
+
+/**
+ * Evaluates queries from ./parser against MetricsService. Series are
+ * identified by the metric type plus the primitive fields of `metadata`.
+ * rate() and increase() treat a drop in value as a counter reset and, unlike
+ * Prometheus, don't extrapolate to the edges of the window.
+ */
+export class MetricsQueryEngine {
+  private metricsService: MetricsService;
+  private config: QueryEngineConfig;
+
+  constructor(metricsService: MetricsService, config: Partial<QueryEngineConfig> = {}) {
+    this.metricsService = metricsService;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async instant(query: string, time: number): Promise<QueryValue> {
+    const expr = parseQuery(query);
+    return this.evaluate(expr, time, await this.fetch(expr, time, time));
+  }
+
+  // Evaluates at start, start + step, ... up to end, one series per label set
+  async range(query: string, start: number, end: number, step: number): Promise<Series[]> {
+    if (step <= 0) {
+      throw new QueryError('step must be positive');
+    }
+    if (end < start) {
+      throw new QueryError('end must not be before start');
+    }
+    if ((end - start) / step + 1 > this.config.maxSteps) {
+      throw new QueryError(`Range queries are limited to ${this.config.maxSteps} steps; increase step`);
+    }
+
+    const expr = parseQuery(query);
+    if (typeOf(expr) === 'matrix') {
+      throw new QueryError('A range query must return a scalar or instant vector, not a range vector');
+    }
+    const fetched = await this.fetch(expr, start, end);
+    const results = new Map<string, Series>();
+
+    for (let time = start; time <= end; time += step) {
+      const value = this.evaluate(expr, time, fetched);
+      const samples = value.type === 'scalar' ? [{ labels: {}, value: value.value }] : samplesOf(value);
+      for (const sample of samples) {
+        const key = signature(sample.labels, true);
+        const series = results.get(key) ?? { labels: sample.labels, points: [] };
+        series.points.push({ time, value: sample.value });
+        results.set(key, series);
+      }
+    }
+    return Array.from(results.values());
+  }
+
+  // Loads every selector's points for the whole evaluation window up front
+  private async fetch(expr: Expr, start: number, end: number): Promise<Fetched> {
+    const fetched: Fetched = new Map();
+    for (const selector of selectorsIn(expr)) {
+      const from = start - selector.offset - (selector.range ?? this.config.lookbackDelta);
+      const to = end - selector.offset;
+      const metrics = await this.metricsService.getMetrics(from, to, selector.name ? [selector.name] : undefined);
+
+      const matchers = selector.matchers.map(matcherFor);
+      const series = new Map<string, Series>();
+      for (const metric of metrics) {
+        const labels = labelsOf(metric);
+        if (!matchers.every(match => match(labels))) {
+          continue;
+        }
+        const key = signature(labels, true);
+        const entry = series.get(key) ?? { labels, points: [] };
+        entry.points.push({ time: metric.timestamp.getTime(), value: metric.value });
+        series.set(key, entry);
+      }
+      fetched.set(selector, Array.from(series.values()));
+    }
+    return fetched;
+  }
+
+  private evaluate(expr: Expr, time: number, fetched: Fetched): QueryValue {
+    switch (expr.kind) {
+      case 'number':
+        return { type: 'scalar', value: expr.value };
+      case 'selector':
+        return this.select(expr, time, fetched);
+      case 'call':
+        return this.call(expr, time, fetched);
+      case 'aggregate':
+        return this.aggregate(expr, time, fetched);
+      case 'unary':
+        return this.arithmetic('*', { type: 'scalar', value: -1 }, this.evaluate(expr.expr, time, fetched));
+      case 'binary':
+        return this.arithmetic(expr.op, this.evaluate(expr.left, time, fetched), this.evaluate(expr.right, time, fetched));
+    }
+  }
+
+  private select(selector: Selector, time: number, fetched: Fetched): QueryValue {
+    const end = time - selector.offset;
+    const all = fetched.get(selector) ?? [];
+
+    if (selector.range !== undefined) {
+      const series: Series[] = [];
+      for (const entry of all) {
+        const points = entry.points.slice(upperBound(entry.points, end - selector.range), upperBound(entry.points, end));
+        if (points.length > 0) {
+          series.push({ labels: entry.labels, points });
+        }
+      }
+      return { type: 'matrix', series };
+    }
+
+    const samples: Sample[] = [];
+    for (const entry of all) {
+      const index = upperBound(entry.points, end) - 1;
+      if (index >= 0 && entry.points[index].time >= end - this.config.lookbackDelta) {
+        samples.push({ labels: entry.labels, value: entry.points[index].value });
+      }
+    }
+    return { type: 'vector', samples };
+  }
+
+  private call(call: Call, time: number, fetched: Fetched): QueryValue {
+    if (call.func === 'time') {
+      return { type: 'scalar', value: time / 1000 };
+    }
+
+    const args = call.args.map(arg => this.evaluate(arg, time, fetched));
+    const last = args[args.length - 1];
+
+    if (last.type === 'vector') {
+      const apply = MATH_FUNCTIONS[call.func];
+      return {
+        type: 'vector',
+        samples: last.samples.map(sample => ({ labels: withoutName(sample.labels), value: apply(sample.value) }))
+      };
+    }
+
+    const window = (call.args[call.args.length - 1] as Selector).range!;
+    const samples: Sample[] = [];
+    for (const series of last.type === 'matrix' ? last.series : []) {
+      const value = overTime(call.func, series.points, window, args[0].type === 'scalar' ? args[0].value : 0);
+      if (value !== null) {
+        samples.push({ labels: withoutName(series.labels), value });
+      }
+    }
+    return { type: 'vector', samples };
+  }
+
+  private aggregate(aggregate: Aggregate, time: number, fetched: Fetched): QueryValue {
+    const samples = samplesOf(this.evaluate(aggregate.expr, time, fetched));
+    const param = aggregate.param ? this.evaluate(aggregate.param, time, fetched) : null;
+
+    const groups = new Map<string, { labels: Labels; values: number[] }>();
+    for (const sample of samples) {
+      const labels: Labels = {};
+      for (const label of Object.keys(sample.labels)) {
+        const listed = aggregate.labels.includes(label);
+        if (aggregate.without ? !listed && label !== NAME : listed) {
+          labels[label] = sample.labels[label];
+        }
+      }
+      const key = signature(labels, true);
+      const group = groups.get(key) ?? { labels, values: [] };
+      group.values.push(sample.value);
+      groups.set(key, group);
+    }
+
+    return {
+      type: 'vector',
+      samples: Array.from(groups.values()).map(group => ({
+        labels: group.labels,
+        value: combine(aggregate.op, group.values, param?.type === 'scalar' ? param.value : 0)
+      }))
+    };
+  }
+
+  // Vectors on both sides are matched one-to-one on their labels, names aside
+  private arithmetic(op: BinaryOp, left: QueryValue, right: QueryValue): QueryValue {
+    if (left.type === 'scalar' && right.type === 'scalar') {
+      return { type: 'scalar', value: operate(op, left.value, right.value) };
+    }
+    if (left.type === 'scalar' || right.type === 'scalar') {
+      const scalar = left.type === 'scalar' ? left.value : right.type === 'scalar' ? right.value : NaN;
+      return {
+        type: 'vector',
+        samples: samplesOf(left.type === 'scalar' ? right : left).map(sample => ({
+          labels: withoutName(sample.labels),
+          value: left.type === 'scalar' ? operate(op, scalar, sample.value) : operate(op, sample.value, scalar)
+        }))
+      };
+    }
+
+    const rightByLabels = new Map<string, Sample>();
+    for (const sample of samplesOf(right)) {
+      const key = signature(sample.labels, false);
+      if (rightByLabels.has(key)) {
+        throw new QueryError(`Many-to-one matching isn't supported; the right-hand side has several series for ${key}`);
+      }
+      rightByLabels.set(key, sample);
+    }
+
+    const samples: Sample[] = [];
+    const seen = new Set<string>();
+    for (const sample of samplesOf(left)) {
+      const key = signature(sample.labels, false);
+      const match = rightByLabels.get(key);
+      if (!match) continue;
+      if (seen.has(key)) {
+        throw new QueryError(`Many-to-one matching isn't supported; the left-hand side has several series for ${key}`);
+      }
+      seen.add(key);
+      samples.push({ labels: withoutName(sample.labels), value: operate(op, sample.value, match.value) });
+    }
+    return { type: 'vector', samples };
+  }
+}
+
+// The parser guarantees a vector wherever this is called
+function samplesOf(value: QueryValue): Sample[] {
+  return value.type === 'vector' ? value.samples : [];
+}
+
+function selectorsIn(expr: Expr): Selector[] {
+  switch (expr.kind) {
+    case 'selector':
+      return [expr];
+    case 'call':
+      return expr.args.reduce<Selector[]>((all, arg) => all.concat(selectorsIn(arg)), []);
+    case 'aggregate':
+      return selectorsIn(expr.expr).concat(expr.param ? selectorsIn(expr.param) : []);
+    case 'binary':
+      return selectorsIn(expr.left).concat(selectorsIn(expr.right));
+    case 'unary':
+      return selectorsIn(expr.expr);
+    default:
+      return [];
+  }
+}
+
+// The type as __name__, plus every metadata field that is a string, number or boolean
+function labelsOf(metric: Metric): Labels {
+  const labels: Labels = { [NAME]: metric.type };
+  for (const key of Object.keys(metric.metadata ?? {})) {
+    const value = metric.metadata![key];
+    if (key !== NAME && ['string', 'number', 'boolean'].includes(typeof value)) {
+      labels[key] = String(value);
+    }
+  }
+  return labels;
+}
+
+// A missing label matches as the empty string; regexes must match the whole value
+function matcherFor(matcher: LabelMatcher): (labels: Labels) => boolean {
+  const valueOf = (labels: Labels) => labels[matcher.label] ?? '';
+  switch (matcher.op) {
+    case '=':
+      return labels => valueOf(labels) === matcher.value;
+    case '!=':
+      return labels => valueOf(labels) !== matcher.value;
+    case '=~':
+    case '!~': {
+      const pattern = new RegExp(`^(?:${matcher.value})$`);
+      return matcher.op === '=~' ? labels => pattern.test(valueOf(labels)) : labels => !pattern.test(valueOf(labels));
+    }
+  }
+}
+
+function signature(labels: Labels, withName: boolean): string {
+  const pairs = Object.keys(labels)
+    .filter(label => withName || label !== NAME)
+    .sort()
+    .map(label => `${label}=${JSON.stringify(labels[label])}`);
+  return `{${pairs.join(', ')}}`;
+}
+
+function withoutName(labels: Labels): Labels {
+  const { [NAME]: _name, ...rest } = labels;
+  return rest;
+}
+
+// Index of the first point after `time`
+function upperBound(points: Point[], time: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function increaseOf(points: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    const change = points[i].value - points[i - 1].value;
+    total += change >= 0 ? change : points[i].value;
+  }
+  return total;
+}
+
+// Null when the window holds too few points for the function
+function overTime(func: string, points: Point[], window: number, param: number): number | null {
+  const values = points.map(point => point.value);
+  switch (func) {
+    case 'rate':
+      return points.length < 2 ? null : increaseOf(points) / (window / 1000);
+    case 'increase':
+      return points.length < 2 ? null : increaseOf(points);
+    case 'delta':
+      return points.length < 2 ? null : values[values.length - 1] - values[0];
+    case 'last_over_time':
+      return values[values.length - 1];
+    case 'quantile_over_time':
+      return combine('quantile', values, param);
+    default:
+      return combine(func.replace('_over_time', ''), values, param);
+  }
+}
+
+function combine(op: string, values: number[], param: number): number {
+  switch (op) {
+    case 'sum':
+      return values.reduce((a, b) => a + b, 0);
+    case 'avg':
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min':
+      return values.reduce((a, b) => Math.min(a, b), Infinity);
+    case 'max':
+      return values.reduce((a, b) => Math.max(a, b), -Infinity);
+    case 'count':
+      return values.length;
+    case 'stddev': {
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      return Math.sqrt(values.reduce((a, b) => a + (b - mean) * (b - mean), 0) / values.length);
+    }
+    case 'quantile': {
+      if (param < 0 || param > 1) {
+        return param < 0 ? -Infinity : Infinity;
+      }
+      const sketch = new DDSketch();
+      values.forEach(value => sketch.add(value));
+      return sketch.quantile(param);
+    }
+    default:
+      throw new QueryError(`Unknown aggregation "${op}"`);
+  }
+}
+
+function operate(op: BinaryOp, left: number, right: number): number {
+  switch (op) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+    case '^':
+      return Math.pow(left, right);
+  }
+}
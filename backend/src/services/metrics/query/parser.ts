@@ -0,0 +1,453 @@
+import { QueryError } from '../../../utils/errors';
+
+/**
+ * A small PromQL-style language over metrics. The metric type is the name
+ * and primitive `metadata` fields are labels:
+ *
+ *   response_time{route="/api/agents", region=~"eu-.*"}
+ *   rate(request_count{status!="500"}[5m])
+ *   sum by (region) (avg_over_time(cpu_usage[1h])) / 100
+ *   quantile(0.95, response_time) without (host)
+ */
+
+export type ValueType = 'scalar' | 'vector' | 'matrix';
+
+export type MatchOp = '=' | '!=' | '=~' | '!~';
+export type BinaryOp = '+' | '-' | '*' | '/' | '%' | '^';
+export type AggregateOp = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'stddev' | 'quantile';
+
+export interface LabelMatcher {
+  label: string;
+  op: MatchOp;
+  value: string;
+}
+
+export interface NumberLiteral {
+  kind: 'number';
+  value: number;
+}
+
+export interface Selector {
+  kind: 'selector';
+  // Only set when written as a bare name; also present as a __name__ matcher
+  name?: string;
+  matchers: LabelMatcher[];
+  // Milliseconds; set for range selectors such as `cpu_usage[5m]`
+  range?: number;
+  offset: number;
+}
+
+export interface Call {
+  kind: 'call';
+  func: string;
+  args: Expr[];
+}
+
+export interface Aggregate {
+  kind: 'aggregate';
+  op: AggregateOp;
+  param?: Expr;
+  expr: Expr;
+  labels: string[];
+  without: boolean;
+}
+
+export interface Binary {
+  kind: 'binary';
+  op: BinaryOp;
+  left: Expr;
+  right: Expr;
+}
+
+export interface Unary {
+  kind: 'unary';
+  expr: Expr;
+}
+
+export type Expr = NumberLiteral | Selector | Call | Aggregate | Binary | Unary;
+
+// Argument types each function takes, and what it returns
+export const FUNCTIONS: Record<string, { args: ValueType[]; returns: ValueType }> = {
+  rate: { args: ['matrix'], returns: 'vector' },
+  increase: { args: ['matrix'], returns: 'vector' },
+  delta: { args: ['matrix'], returns: 'vector' },
+  avg_over_time: { args: ['matrix'], returns: 'vector' },
+  sum_over_time: { args: ['matrix'], returns: 'vector' },
+  min_over_time: { args: ['matrix'], returns: 'vector' },
+  max_over_time: { args: ['matrix'], returns: 'vector' },
+  count_over_time: { args: ['matrix'], returns: 'vector' },
+  last_over_time: { args: ['matrix'], returns: 'vector' },
+  quantile_over_time: { args: ['scalar', 'matrix'], returns: 'vector' },
+  abs: { args: ['vector'], returns: 'vector' },
+  ceil: { args: ['vector'], returns: 'vector' },
+  floor: { args: ['vector'], returns: 'vector' },
+  sqrt: { args: ['vector'], returns: 'vector' },
+  time: { args: [], returns: 'scalar' }
+};
+
+const AGGREGATE_OPS: AggregateOp[] = ['sum', 'avg', 'min', 'max', 'count', 'stddev', 'quantile'];
+
+const PRECEDENCE: Record<BinaryOp, number> = { '+': 1, '-': 1, '*': 2, '/': 2, '%': 2, '^': 3 };
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+const DURATION = /^(\d+(ms|s|m|h|d|w|y))+$/;
+
+// "1h30m" and the like, in milliseconds; null when it isn't one
+export function parseDuration(text: string): number | null {
+  if (!DURATION.test(text)) {
+    return null;
+  }
+  let total = 0;
+  const parts = /(\d+)(ms|s|m|h|d|w|y)/g;
+  let part: RegExpExecArray | null;
+  while ((part = parts.exec(text))) {
+    total += parseInt(part[1], 10) * DURATION_UNITS[part[2]];
+  }
+  return total;
+}
+
+type TokenType = 'number' | 'duration' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: Array<[TokenType, RegExp]> = [
+  ['duration', /(\d+(ms|s|m|h|d|w|y))+(?![a-zA-Z0-9_:])/y],
+  ['number', /(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/y],
+  ['identifier', /[a-zA-Z_:][a-zA-Z0-9_:]*/y],
+  ['string', /"(\\.|[^"\\])*"|'(\\.|[^'\\])*'/y],
+  ['operator', /!=|=~|!~|[-+*/%^=]/y],
+  ['punctuation', /[(){}[\],]/y]
+];
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    if (/\s/.test(query[position])) {
+      position++;
+      continue;
+    }
+    let matched = false;
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(query);
+      if (match) {
+        tokens.push({ type, text: match[0], position });
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      throw new QueryError(`Unexpected character "${query[position]}"`, position);
+    }
+  }
+  tokens.push({ type: 'end', text: '', position });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(query: string) {
+    this.tokens = tokenize(query);
+  }
+
+  parse(): Expr {
+    const expr = this.expression(1);
+    if (this.peek().type !== 'end') {
+      this.fail(`Unexpected "${this.peek().text}"`);
+    }
+    return expr;
+  }
+
+  private expression(minPrecedence: number): Expr {
+    let left = this.unary();
+    for (;;) {
+      const token = this.peek();
+      const op = token.text as BinaryOp;
+      if (token.type !== 'operator' || !(op in PRECEDENCE) || PRECEDENCE[op] < minPrecedence) {
+        return left;
+      }
+      this.next();
+      // ^ is right-associative, the rest left
+      const right = this.expression(op === '^' ? PRECEDENCE[op] : PRECEDENCE[op] + 1);
+      left = this.binary(op, left, right, token.position);
+    }
+  }
+
+  private unary(): Expr {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.text === '-' || token.text === '+')) {
+      this.next();
+      // Binds looser than ^, so -2^2 is -4
+      const expr = this.expression(PRECEDENCE['^']);
+      this.expectNotMatrix(expr, token.position);
+      return token.text === '-' ? { kind: 'unary', expr } : expr;
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Expr {
+    const expr = this.primary();
+
+    if (this.peek().text === '[') {
+      const open = this.next();
+      if (expr.kind !== 'selector' || expr.range !== undefined) {
+        this.fail('Ranges only apply to metric selectors', open.position);
+      }
+      (expr as Selector).range = this.duration();
+      this.expect(']');
+    }
+
+    if (this.peek().type === 'identifier' && this.peek().text === 'offset') {
+      const keyword = this.next();
+      if (expr.kind !== 'selector') {
+        this.fail('offset only applies to metric selectors', keyword.position);
+      }
+      (expr as Selector).offset = this.duration();
+    }
+    return expr;
+  }
+
+  private primary(): Expr {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.next();
+      return { kind: 'number', value: parseFloat(token.text) };
+    }
+    if (token.text === '(') {
+      this.next();
+      const expr = this.expression(1);
+      this.expect(')');
+      return expr;
+    }
+    if (token.text === '{') {
+      return this.selector();
+    }
+    if (token.type === 'identifier') {
+      const following = this.tokens[this.index + 1].text;
+      if (AGGREGATE_OPS.includes(token.text as AggregateOp) && ['(', 'by', 'without'].includes(following)) {
+        return this.aggregate();
+      }
+      if (following === '(') {
+        return this.call();
+      }
+      return this.selector();
+    }
+    return this.fail(token.type === 'end' ? 'Unexpected end of query' : `Unexpected "${token.text}"`);
+  }
+
+  private selector(): Selector {
+    const selector: Selector = { kind: 'selector', matchers: [], offset: 0 };
+    if (this.peek().type === 'identifier') {
+      selector.name = this.next().text;
+      selector.matchers.push({ label: '__name__', op: '=', value: selector.name });
+    }
+
+    if (this.peek().text === '{') {
+      const open = this.next();
+      while (this.peek().text !== '}') {
+        const label = this.expectType('identifier').text;
+        const op = this.next();
+        if (!['=', '!=', '=~', '!~'].includes(op.text)) {
+          this.fail(`Expected a label matcher operator, got "${op.text}"`, op.position);
+        }
+        const value = this.string();
+        if (op.text === '=~' || op.text === '!~') {
+          try {
+            new RegExp(value);
+          } catch {
+            this.fail(`Invalid regular expression "${value}"`, op.position);
+          }
+        }
+        selector.matchers.push({ label, op: op.text as MatchOp, value });
+        if (this.peek().text !== ',') break;
+        this.next();
+      }
+      this.expect('}');
+      if (selector.matchers.length === 0) {
+        this.fail('A selector needs a metric name or at least one label matcher', open.position);
+      }
+    }
+    return selector;
+  }
+
+  private call(): Call {
+    const name = this.next();
+    const signature = FUNCTIONS[name.text];
+    if (!signature) {
+      this.fail(`Unknown function "${name.text}"`, name.position);
+    }
+    this.expect('(');
+    const args: Expr[] = [];
+    while (this.peek().text !== ')') {
+      args.push(this.expression(1));
+      if (this.peek().text !== ',') break;
+      this.next();
+    }
+    this.expect(')');
+
+    if (args.length !== signature.args.length) {
+      this.fail(`${name.text}() takes ${signature.args.length} argument(s), got ${args.length}`, name.position);
+    }
+    args.forEach((arg, i) => {
+      if (typeOf(arg) !== signature.args[i]) {
+        this.fail(`Argument ${i + 1} of ${name.text}() must be a ${signature.args[i]}, got a ${typeOf(arg)}`, name.position);
+      }
+    });
+    return { kind: 'call', func: name.text, args };
+  }
+
+  private aggregate(): Aggregate {
+    const op = this.next();
+    const aggregate: Aggregate = {
+      kind: 'aggregate',
+      op: op.text as AggregateOp,
+      expr: { kind: 'number', value: 0 },
+      labels: [],
+      without: false
+    };
+    const grouped = this.grouping(aggregate);
+
+    this.expect('(');
+    if (aggregate.op === 'quantile') {
+      aggregate.param = this.expression(1);
+      if (typeOf(aggregate.param) !== 'scalar') {
+        this.fail('The quantile must be a scalar', op.position);
+      }
+      this.expect(',');
+    }
+    aggregate.expr = this.expression(1);
+    this.expect(')');
+    if (typeOf(aggregate.expr) !== 'vector') {
+      this.fail(`${aggregate.op}() needs an instant vector`, op.position);
+    }
+
+    if (!grouped) {
+      this.grouping(aggregate);
+    }
+    return aggregate;
+  }
+
+  // `by (a, b)` or `without (a, b)`, before or after the arguments
+  private grouping(aggregate: Aggregate): boolean {
+    const keyword = this.peek().text;
+    if (keyword !== 'by' && keyword !== 'without') {
+      return false;
+    }
+    this.next();
+    aggregate.without = keyword === 'without';
+    this.expect('(');
+    while (this.peek().text !== ')') {
+      aggregate.labels.push(this.expectType('identifier').text);
+      if (this.peek().text !== ',') break;
+      this.next();
+    }
+    this.expect(')');
+    return true;
+  }
+
+  private binary(op: BinaryOp, left: Expr, right: Expr, position: number): Binary {
+    this.expectNotMatrix(left, position);
+    this.expectNotMatrix(right, position);
+    return { kind: 'binary', op, left, right };
+  }
+
+  private expectNotMatrix(expr: Expr, position: number): void {
+    if (typeOf(expr) === 'matrix') {
+      this.fail('Range vectors can only be passed to functions such as rate()', position);
+    }
+  }
+
+  private duration(): number {
+    const token = this.next();
+    const duration = token.type === 'duration' ? parseDuration(token.text) : null;
+    if (duration === null) {
+      this.fail(`Expected a duration such as 5m, got "${token.text}"`, token.position);
+    }
+    return duration!;
+  }
+
+  private string(): string {
+    const token = this.expectType('string');
+    const quote = token.text[0];
+    return token.text.slice(1, -1).replace(/\\(.)/g, (_, char) => {
+      if (char === 'n') return '\n';
+      if (char === 't') return '\t';
+      return char === quote || char === '\\' ? char : `\\${char}`;
+    });
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private expect(text: string): Token {
+    const token = this.next();
+    if (token.text !== text) {
+      this.fail(`Expected "${text}", got ${token.type === 'end' ? 'end of query' : `"${token.text}"`}`, token.position);
+    }
+    return token;
+  }
+
+  private expectType(type: TokenType): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      this.fail(`Expected a ${type}, got ${token.type === 'end' ? 'end of query' : `"${token.text}"`}`, token.position);
+    }
+    return token;
+  }
+
+  private fail(message: string, position = this.peek().position): never {
+    throw new QueryError(message, position);
+  }
+}
+
+export function typeOf(expr: Expr): ValueType {
+  switch (expr.kind) {
+    case 'number':
+      return 'scalar';
+    case 'selector':
+      return expr.range !== undefined ? 'matrix' : 'vector';
+    case 'call':
+      return FUNCTIONS[expr.func].returns;
+    case 'aggregate':
+      return 'vector';
+    case 'binary':
+      return typeOf(expr.left) === 'scalar' && typeOf(expr.right) === 'scalar' ? 'scalar' : 'vector';
+    case 'unary':
+      return typeOf(expr.expr);
+  }
+}
+
+export function parseQuery(query: string): Expr {
+  if (!query.trim()) {
+    throw new QueryError('Query is empty');
+  }
+  return new Parser(query).parse();
+}
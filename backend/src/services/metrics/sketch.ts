@@ -0,0 +1,137 @@
+// Smallest magnitude given its own bin; anything closer to zero counts as zero
+const MIN_INDEXABLE = 1e-9;
+
+export interface SerializedSketch {
+  alpha: number;
+  zeros: number;
+  // [bin index, count] pairs
+  positive: Array<[number, number]>;
+  negative: Array<[number, number]>;
+}
+
+/**
+ * DDSketch: values fall into logarithmic bins, so percentiles cost one pass
+ * and a few kilobytes instead of a sorted copy of every sample.
+ *
+ * Accuracy: for any q, `quantile(q)` is within `alpha * |x|` of x, the
+ * exact nearest-rank quantile (the ceil(q * n)-th smallest sample), for
+ * every x at least 1e-9 in magnitude; smaller samples read back as 0.
+ * The bound holds after any number of merges, and merging is exact: a
+ * merged sketch equals one built from all the samples. Bins grow with the
+ * log of the value range, about 2,400 per sign for 1e-9 to 1e12 at the
+ * default alpha of 1%.
+ *
+ * Sketches only merge with others of the same alpha, and round-trip
+ * through `toJSON`/`fromJSON` so rollups can store them.
+ */
+export class DDSketch {
+  readonly alpha: number;
+  private gamma: number;
+  private logGamma: number;
+  private positive = new Map<number, number>();
+  private negative = new Map<number, number>();
+  private zeros = 0;
+  private total = 0;
+
+  constructor(alpha = 0.01) {
+    this.alpha = alpha;
+    this.gamma = (1 + alpha) / (1 - alpha);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  get count(): number {
+    return this.total;
+  }
+
+  // Non-finite values have no bin and are ignored
+  add(value: number, count = 1): void {
+    if (!isFinite(value)) {
+      return;
+    }
+    if (Math.abs(value) < MIN_INDEXABLE) {
+      this.zeros += count;
+    } else {
+      const bins = value > 0 ? this.positive : this.negative;
+      const index = this.index(Math.abs(value));
+      bins.set(index, (bins.get(index) ?? 0) + count);
+    }
+    this.total += count;
+  }
+
+  merge(other: DDSketch): void {
+    if (other.alpha !== this.alpha) {
+      throw new Error(`Cannot merge sketches with accuracy ${other.alpha} and ${this.alpha}`);
+    }
+    for (const [index, count] of other.positive) {
+      this.positive.set(index, (this.positive.get(index) ?? 0) + count);
+    }
+    for (const [index, count] of other.negative) {
+      this.negative.set(index, (this.negative.get(index) ?? 0) + count);
+    }
+    this.zeros += other.zeros;
+    this.total += other.total;
+  }
+
+  // Nearest-rank quantile, q in [0, 1]; NaN when empty
+  quantile(q: number): number {
+    if (this.total === 0) {
+      return NaN;
+    }
+    const rank = Math.min(this.total - 1, Math.max(0, Math.ceil(q * this.total) - 1));
+    let seen = 0;
+
+    // Most negative first, which is the largest magnitude
+    for (const index of Array.from(this.negative.keys()).sort((a, b) => b - a)) {
+      seen += this.negative.get(index)!;
+      if (seen > rank) {
+        return -this.value(index);
+      }
+    }
+    seen += this.zeros;
+    if (seen > rank) {
+      return 0;
+    }
+    let highest = 0;
+    for (const index of Array.from(this.positive.keys()).sort((a, b) => a - b)) {
+      seen += this.positive.get(index)!;
+      highest = this.value(index);
+      if (seen > rank) {
+        break;
+      }
+    }
+    return highest;
+  }
+
+  toJSON(): SerializedSketch {
+    return {
+      alpha: this.alpha,
+      zeros: this.zeros,
+      positive: Array.from(this.positive.entries()),
+      negative: Array.from(this.negative.entries())
+    };
+  }
+
+  static fromJSON(data: SerializedSketch): DDSketch {
+    const sketch = new DDSketch(data.alpha);
+    for (const [index, count] of data.positive) {
+      sketch.positive.set(index, count);
+      sketch.total += count;
+    }
+    for (const [index, count] of data.negative) {
+      sketch.negative.set(index, count);
+      sketch.total += count;
+    }
+    sketch.zeros = data.zeros;
+    sketch.total += data.zeros;
+    return sketch;
+  }
+
+  private index(magnitude: number): number {
+    return Math.ceil(Math.log(magnitude) / this.logGamma);
+  }
+
+  // Midpoint of the bin in relative terms, hence the alpha error bound
+  private value(index: number): number {
+    return 2 * Math.pow(this.gamma, index) / (this.gamma + 1);
+  }
+}
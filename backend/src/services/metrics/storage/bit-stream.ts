@@ -0,0 +1,63 @@
+/**
+ * Writes values bit by bit, most significant bit first. `count` is at most
+ * 32 so every value fits a JavaScript uint32.
+ */
+export class BitWriter {
+  private buffer: Buffer;
+  private bitLength = 0;
+
+  constructor(initialBytes = 256) {
+    this.buffer = Buffer.alloc(initialBytes);
+  }
+
+  writeBit(bit: number): void {
+    const byteIndex = this.bitLength >>> 3;
+    if (byteIndex >= this.buffer.length) {
+      const grown = Buffer.alloc(this.buffer.length * 2);
+      this.buffer.copy(grown);
+      this.buffer = grown;
+    }
+    if (bit) {
+      this.buffer[byteIndex] |= 0x80 >>> (this.bitLength & 7);
+    }
+    this.bitLength++;
+  }
+
+  writeBits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit((value >>> i) & 1);
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, Math.ceil(this.bitLength / 8)));
+  }
+}
+
+export class BitReader {
+  private buffer: Buffer;
+  private position = 0;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  readBit(): number {
+    const byteIndex = this.position >>> 3;
+    if (byteIndex >= this.buffer.length) {
+      throw new RangeError('Read past the end of the bit stream');
+    }
+    const bit = (this.buffer[byteIndex] >>> (7 - (this.position & 7))) & 1;
+    this.position++;
+    return bit;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      // Multiplying rather than shifting keeps 32-bit values unsigned
+      value = value * 2 + this.readBit();
+    }
+    return value;
+  }
+}
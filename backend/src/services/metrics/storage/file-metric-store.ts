@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Metric } from '../../../models/metric';
+import { byTimestamp, inRange, MetricRange, MetricStore } from './metric-store';
+import { encodeSegment, readSegment, readSegmentHeader, SegmentInfo } from './segment';
+import logger from '../../../utils/logger';
+
+export interface FileMetricStoreOptions {
+  // Span of the time partitions each series is split into
+  blockDurationMs: number;
+  // Points per compressed chunk, the smallest unit a query reads
+  chunkSize: number;
+  // Points held in the head before they are written into segments
+  flushThreshold: number;
+}
+
+const DEFAULT_OPTIONS: FileMetricStoreOptions = {
+  blockDurationMs: 2 * 60 * 60 * 1000,
+  chunkSize: 1024,
+  flushThreshold: 10000
+};
+
+const WAL_FILE = 'head.wal';
+const SEGMENT_EXTENSION = '.seg';
+
+/**
+ * Embedded time-series store under one directory:
+ *
+ *   <dir>/head.wal                       recent points, one JSON line each
+ *   <dir>/<type>/<blockStart>.seg        compressed columnar segments
+ *
+ * New points go to the head and its write-ahead log. Once the head is
+ * full, or on close, it is merged into one segment per type and time
+ * block. Segment headers are kept in memory, so a range query opens only
+ * the blocks, and within them the chunks, that overlap it.
+ */
+export class FileMetricStore implements MetricStore {
+  private dir: string;
+  private options: FileMetricStoreOptions;
+  // type -> blockStart -> segment
+  private segments = new Map<string, Map<number, SegmentInfo>>();
+  private head = new Map<string, Metric>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string, options: Partial<FileMetricStoreOptions> = {}) {
+    this.dir = dir;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async append(metric: Metric): Promise<void> {
+    await this.load();
+    return this.serialize(async () => {
+      await fs.promises.appendFile(this.walPath(), JSON.stringify(metric) + '\n', 'utf8');
+      this.head.set(metric.id, metric);
+      if (this.head.size >= this.options.flushThreshold) {
+        await this.flushHead();
+      }
+    });
+  }
+
+  // Segments aren't indexed by id, so a miss in the head reads them all
+  async get(id: string): Promise<Metric | null> {
+    await this.load();
+    return this.serialize(async () => {
+      const buffered = this.head.get(id);
+      if (buffered) {
+        return buffered;
+      }
+      for (const segment of this.segmentsIn({})) {
+        const found = (await readSegment(segment)).find(metric => metric.id === id);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    });
+  }
+
+  async find(range: MetricRange): Promise<Metric[]> {
+    await this.load();
+    return this.serialize(async () => {
+      let results: Metric[] = [];
+      for (const segment of this.segmentsIn(range)) {
+        const points = await readSegment(segment, chunk => overlaps(chunk.minTime, chunk.maxTime, range));
+        results = results.concat(points.filter(metric => inRange(metric.timestamp.getTime(), range)));
+      }
+      for (const metric of this.head.values()) {
+        if ((!range.types || range.types.includes(metric.type)) && inRange(metric.timestamp.getTime(), range)) {
+          results.push(metric);
+        }
+      }
+      return results.sort(byTimestamp);
+    });
+  }
+
+  async deleteRange(range: MetricRange): Promise<number> {
+    await this.load();
+    return this.serialize(async () => {
+      await this.flushHead();
+      let removed = 0;
+
+      for (const segment of this.segmentsIn(range)) {
+        const { type, blockStart, minTime, maxTime, count } = segment.header;
+        if ((range.start === undefined || range.start <= minTime) && (range.end === undefined || maxTime <= range.end)) {
+          await this.writeSegment(type, blockStart, []);
+          removed += count;
+          continue;
+        }
+
+        const points = await readSegment(segment);
+        const kept = points.filter(metric => !inRange(metric.timestamp.getTime(), range));
+        if (kept.length < points.length) {
+          await this.writeSegment(type, blockStart, kept);
+          removed += points.length - kept.length;
+        }
+      }
+      return removed;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    return this.serialize(async () => {
+      // Flushed first so the log can't bring the point back on restart
+      await this.flushHead();
+
+      for (const segment of this.segmentsIn({})) {
+        const points = await readSegment(segment);
+        const index = points.findIndex(metric => metric.id === id);
+        if (index >= 0) {
+          points.splice(index, 1);
+          await this.writeSegment(segment.header.type, segment.header.blockStart, points);
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.loaded) {
+      return;
+    }
+    await this.loaded;
+    await this.serialize(() => this.flushHead());
+  }
+
+  private async flushHead(): Promise<void> {
+    if (this.head.size === 0) {
+      return;
+    }
+
+    const blocks = new Map<string, Map<number, Metric[]>>();
+    for (const metric of this.head.values()) {
+      const byBlock = blocks.get(metric.type) ?? new Map<number, Metric[]>();
+      const blockStart = this.blockStart(metric.timestamp.getTime());
+      const points = byBlock.get(blockStart) ?? [];
+      points.push(metric);
+      byBlock.set(blockStart, points);
+      blocks.set(metric.type, byBlock);
+    }
+
+    for (const [type, byBlock] of blocks) {
+      for (const [blockStart, added] of byBlock) {
+        const existing = this.segments.get(type)?.get(blockStart);
+        const addedIds = new Set(added.map(metric => metric.id));
+        // Replaying the log after a crash mid-flush re-adds points that are
+        // already in a segment; the newer copy wins
+        const kept = existing ? (await readSegment(existing)).filter(metric => !addedIds.has(metric.id)) : [];
+        await this.writeSegment(type, blockStart, kept.concat(added).sort(byTimestamp));
+      }
+    }
+
+    await fs.promises.writeFile(this.walPath(), '', 'utf8');
+    this.head.clear();
+  }
+
+  // Replaces the block's segment atomically; no points removes it
+  private async writeSegment(type: string, blockStart: number, metrics: Metric[]): Promise<void> {
+    const filePath = this.segmentPath(type, blockStart);
+    const blocks = this.segments.get(type) ?? new Map<number, SegmentInfo>();
+
+    if (metrics.length === 0) {
+      await fs.promises.rm(filePath, { force: true });
+      blocks.delete(blockStart);
+    } else {
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, encodeSegment(type, blockStart, metrics, this.options.chunkSize));
+      await fs.promises.rename(tempPath, filePath);
+      blocks.set(blockStart, await readSegmentHeader(filePath));
+    }
+
+    if (blocks.size > 0) {
+      this.segments.set(type, blocks);
+    } else {
+      this.segments.delete(type);
+    }
+  }
+
+  // Segments whose type and time span overlap the range, oldest first
+  private segmentsIn(range: MetricRange): SegmentInfo[] {
+    const types = range.types ?? Array.from(this.segments.keys());
+    const matches: SegmentInfo[] = [];
+    for (const type of types) {
+      const blocks = Array.from(this.segments.get(type)?.values() ?? []);
+      matches.push(...blocks.filter(segment => overlaps(segment.header.minTime, segment.header.maxTime, range)));
+    }
+    return matches.sort((a, b) => a.header.blockStart - b.header.blockStart);
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+
+        const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+          const typeDir = path.join(this.dir, entry.name);
+          for (const file of await fs.promises.readdir(typeDir)) {
+            if (!file.endsWith(SEGMENT_EXTENSION)) {
+              // Left over from a write interrupted before its rename
+              await fs.promises.rm(path.join(typeDir, file), { force: true });
+              continue;
+            }
+            const segment = await readSegmentHeader(path.join(typeDir, file));
+            const blocks = this.segments.get(segment.header.type) ?? new Map<number, SegmentInfo>();
+            blocks.set(segment.header.blockStart, segment);
+            this.segments.set(segment.header.type, blocks);
+          }
+        }
+
+        for await (const metric of this.readWal()) {
+          this.head.set(metric.id, metric);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async *readWal(): AsyncGenerator<Metric> {
+    if (!fs.existsSync(this.walPath())) {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.walPath(), { encoding: 'utf8' }),
+      crlfDelay: Infinity
+    });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const raw = JSON.parse(line);
+          yield { ...raw, timestamp: new Date(raw.timestamp) };
+        } catch {
+          // A crash can leave the last line half written
+          logger.warn(`Skipping unreadable line in ${this.walPath()}`);
+        }
+      }
+    } finally {
+      lines.close();
+    }
+  }
+
+  private blockStart(timestamp: number): number {
+    return Math.floor(timestamp / this.options.blockDurationMs) * this.options.blockDurationMs;
+  }
+
+  private walPath(): string {
+    return path.join(this.dir, WAL_FILE);
+  }
+
+  // Types come from clients, so they are escaped into a single safe name
+  private segmentPath(type: string, blockStart: number): string {
+    const typeDir = encodeURIComponent(type).replace(/\./g, '%2E').replace(/\*/g, '%2A');
+    return path.join(this.dir, typeDir, `${blockStart}${SEGMENT_EXTENSION}`);
+  }
+
+  // Writes, flushes and the reads that open segment files must not interleave
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
+
+function overlaps(minTime: number, maxTime: number, range: MetricRange): boolean {
+  return (range.start === undefined || maxTime >= range.start) && (range.end === undefined || minTime <= range.end);
+}
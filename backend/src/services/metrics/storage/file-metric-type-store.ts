@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { MetricTypeDefinition, MetricTypeStore } from './metric-type-store';
+
+/**
+ * Custom metric types as one JSON array, held in memory and rewritten
+ * through a rename on every change. Registrations are rare and the list is
+ * small, so there is nothing to gain from anything finer.
+ */
+export class FileMetricTypeStore implements MetricTypeStore {
+  private filePath: string;
+  private types = new Map<string, MetricTypeDefinition>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+  private tempCounter = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<MetricTypeDefinition[]> {
+    await this.load();
+    return Array.from(this.types.values());
+  }
+
+  async get(name: string): Promise<MetricTypeDefinition | null> {
+    await this.load();
+    return this.types.get(name) ?? null;
+  }
+
+  async add(definition: MetricTypeDefinition): Promise<boolean> {
+    await this.load();
+    return this.serialize(async () => {
+      if (this.types.has(definition.name)) {
+        return false;
+      }
+      this.types.set(definition.name, definition);
+      await this.save();
+      return true;
+    });
+  }
+
+  async delete(name: string): Promise<boolean> {
+    await this.load();
+    return this.serialize(async () => {
+      if (!this.types.delete(name)) {
+        return false;
+      }
+      await this.save();
+      return true;
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+
+  private async save(): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(Array.from(this.types.values()), null, 2), 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        if (fs.existsSync(this.filePath)) {
+          const saved: MetricTypeDefinition[] = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+          for (const definition of saved) {
+            this.types.set(definition.name, definition);
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { MetricRange } from './metric-store';
+import { byStart, Rollup, rollupKey, RollupStore, selectRollups } from './rollup-store';
+
+// Buckets per file, so a rollup run rewrites one small file per tier
+const PARTITION_BUCKETS = 60;
+const WATERMARK_FILE = 'watermarks.json';
+
+/**
+ * Rollups as JSON files under one directory:
+ *
+ *   <dir>/watermarks.json                    resolution -> watermark
+ *   <dir>/<resolution>/<partitionStart>.json buckets of that span
+ *
+ * Files are replaced whole through a rename, so a crash leaves either the
+ * old or the new version. Only the partitions a query overlaps are read.
+ */
+export class FileRollupStore implements RollupStore {
+  private dir: string;
+  // resolution -> partition starts on disk
+  private partitions = new Map<number, Set<number>>();
+  private watermarks = new Map<number, number>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+  private tempCounter = 0;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async put(rollups: Rollup[]): Promise<void> {
+    await this.load();
+    return this.serialize(async () => {
+      const byPartition = new Map<string, Rollup[]>();
+      for (const rollup of rollups) {
+        const key = `${rollup.resolution}/${this.partitionStart(rollup.resolution, rollup.start)}`;
+        byPartition.set(key, (byPartition.get(key) ?? []).concat(rollup));
+      }
+
+      for (const added of byPartition.values()) {
+        const { resolution } = added[0];
+        const partition = this.partitionStart(resolution, added[0].start);
+        const merged = new Map<string, Rollup>();
+        for (const rollup of (await this.readPartition(resolution, partition)).concat(added)) {
+          merged.set(rollupKey(rollup), rollup);
+        }
+        await this.writePartition(resolution, partition, Array.from(merged.values()));
+      }
+    });
+  }
+
+  async find(resolution: number, range: MetricRange): Promise<Rollup[]> {
+    await this.load();
+    return this.serialize(async () => {
+      let results: Rollup[] = [];
+      for (const partition of this.partitionsIn(resolution, range)) {
+        results = results.concat(selectRollups(await this.readPartition(resolution, partition), range));
+      }
+      return results.sort(byStart);
+    });
+  }
+
+  async deleteBefore(resolution: number, before: number): Promise<number> {
+    await this.load();
+    return this.serialize(async () => {
+      let removed = 0;
+      for (const partition of this.partitionsIn(resolution, { end: before - 1 })) {
+        const rollups = await this.readPartition(resolution, partition);
+        const kept = rollups.filter(rollup => rollup.start >= before);
+        if (kept.length < rollups.length) {
+          await this.writePartition(resolution, partition, kept);
+          removed += rollups.length - kept.length;
+        }
+      }
+      return removed;
+    });
+  }
+
+  async getWatermark(resolution: number): Promise<number | null> {
+    await this.load();
+    return this.watermarks.get(resolution) ?? null;
+  }
+
+  async setWatermark(resolution: number, watermark: number): Promise<void> {
+    await this.load();
+    return this.serialize(async () => {
+      this.watermarks.set(resolution, watermark);
+      const saved: Record<string, number> = {};
+      this.watermarks.forEach((value, key) => {
+        saved[key] = value;
+      });
+      await this.writeAtomically(path.join(this.dir, WATERMARK_FILE), JSON.stringify(saved));
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+
+  private partitionStart(resolution: number, start: number): number {
+    const span = resolution * PARTITION_BUCKETS;
+    return Math.floor(start / span) * span;
+  }
+
+  private partitionsIn(resolution: number, range: MetricRange): number[] {
+    const span = resolution * PARTITION_BUCKETS;
+    return Array.from(this.partitions.get(resolution) ?? [])
+      .filter(partition => (range.start === undefined || partition + span > range.start)
+        && (range.end === undefined || partition <= range.end))
+      .sort((a, b) => a - b);
+  }
+
+  private partitionPath(resolution: number, partition: number): string {
+    return path.join(this.dir, String(resolution), `${partition}.json`);
+  }
+
+  private async readPartition(resolution: number, partition: number): Promise<Rollup[]> {
+    if (!this.partitions.get(resolution)?.has(partition)) {
+      return [];
+    }
+    return JSON.parse(await fs.promises.readFile(this.partitionPath(resolution, partition), 'utf8'));
+  }
+
+  // No rollups removes the file
+  private async writePartition(resolution: number, partition: number, rollups: Rollup[]): Promise<void> {
+    const filePath = this.partitionPath(resolution, partition);
+    const partitions = this.partitions.get(resolution) ?? new Set<number>();
+
+    if (rollups.length === 0) {
+      await fs.promises.rm(filePath, { force: true });
+      partitions.delete(partition);
+    } else {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await this.writeAtomically(filePath, JSON.stringify(rollups.sort(byStart)));
+      partitions.add(partition);
+    }
+    this.partitions.set(resolution, partitions);
+  }
+
+  private async writeAtomically(filePath: string, contents: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+    await fs.promises.writeFile(tempPath, contents, 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+
+        const watermarkPath = path.join(this.dir, WATERMARK_FILE);
+        if (fs.existsSync(watermarkPath)) {
+          const saved: Record<string, number> = JSON.parse(await fs.promises.readFile(watermarkPath, 'utf8'));
+          for (const resolution of Object.keys(saved)) {
+            this.watermarks.set(Number(resolution), saved[resolution]);
+          }
+        }
+
+        const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+          const partitions = new Set<number>();
+          for (const file of await fs.promises.readdir(path.join(this.dir, entry.name))) {
+            if (file.endsWith('.json')) {
+              partitions.add(Number(path.basename(file, '.json')));
+            } else {
+              // Left over from a write interrupted before its rename
+              await fs.promises.rm(path.join(this.dir, entry.name, file), { force: true });
+            }
+          }
+          this.partitions.set(Number(entry.name), partitions);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(task, task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,227 @@
+import { BitReader, BitWriter } from './bit-stream';
+
+/**
+ * Column codecs from Facebook's Gorilla paper (Pelkonen et al., VLDB 2015).
+ * Timestamps store the delta of deltas, which is zero for regularly
+ * scraped series; values store the XOR with the previous value, which has
+ * long runs of zero bits when a series changes slowly. 64-bit quantities
+ * are handled as hi/lo uint32 pairs.
+ */
+
+const TWO_32 = 2 ** 32;
+
+// [prefix, prefix length, value bits]: ranges sized for millisecond timestamps
+const DOD_BUCKETS: Array<[number, number, number]> = [
+  [0b10, 2, 7],
+  [0b110, 3, 9],
+  [0b1110, 4, 12]
+];
+
+export function encodeTimestamps(timestamps: number[]): Buffer {
+  const writer = new BitWriter();
+  if (timestamps.length === 0) {
+    return writer.toBuffer();
+  }
+
+  writeZigZag64(writer, timestamps[0]);
+  let previous = timestamps[0];
+  let previousDelta = 0;
+
+  for (let i = 1; i < timestamps.length; i++) {
+    const delta = timestamps[i] - previous;
+    const dod = delta - previousDelta;
+    previous = timestamps[i];
+    previousDelta = delta;
+
+    if (dod === 0) {
+      writer.writeBit(0);
+      continue;
+    }
+    const bucket = DOD_BUCKETS.find(([, , bits]) => dod >= -(2 ** (bits - 1) - 1) && dod <= 2 ** (bits - 1));
+    if (bucket) {
+      const [prefix, prefixLength, bits] = bucket;
+      writer.writeBits(prefix, prefixLength);
+      writer.writeBits(dod + 2 ** (bits - 1) - 1, bits);
+    } else {
+      writer.writeBits(0b1111, 4);
+      writeZigZag64(writer, dod);
+    }
+  }
+  return writer.toBuffer();
+}
+
+export function decodeTimestamps(buffer: Buffer, count: number): number[] {
+  const timestamps: number[] = [];
+  if (count === 0) {
+    return timestamps;
+  }
+
+  const reader = new BitReader(buffer);
+  let previous = readZigZag64(reader);
+  let previousDelta = 0;
+  timestamps.push(previous);
+
+  while (timestamps.length < count) {
+    let prefixLength = 0;
+    while (prefixLength < 4 && reader.readBit() === 1) {
+      prefixLength++;
+    }
+
+    let dod: number;
+    if (prefixLength === 0) {
+      dod = 0;
+    } else if (prefixLength < 4) {
+      const bits = DOD_BUCKETS[prefixLength - 1][2];
+      dod = reader.readBits(bits) - (2 ** (bits - 1) - 1);
+    } else {
+      dod = readZigZag64(reader);
+    }
+
+    previousDelta += dod;
+    previous += previousDelta;
+    timestamps.push(previous);
+  }
+  return timestamps;
+}
+
+export function encodeValues(values: number[]): Buffer {
+  const writer = new BitWriter();
+  if (values.length === 0) {
+    return writer.toBuffer();
+  }
+
+  let [previousHi, previousLo] = floatBits(values[0]);
+  writer.writeBits(previousHi, 32);
+  writer.writeBits(previousLo, 32);
+  let windowLeading = -1;
+  let windowTrailing = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const [hi, lo] = floatBits(values[i]);
+    const xorHi = (hi ^ previousHi) >>> 0;
+    const xorLo = (lo ^ previousLo) >>> 0;
+    previousHi = hi;
+    previousLo = lo;
+
+    if (xorHi === 0 && xorLo === 0) {
+      writer.writeBit(0);
+      continue;
+    }
+    writer.writeBit(1);
+
+    // Leading zeros are stored in 5 bits, so at most 31 of them are skipped
+    const leading = Math.min(31, leadingZeros64(xorHi, xorLo));
+    const trailing = trailingZeros64(xorHi, xorLo);
+
+    if (windowLeading >= 0 && leading >= windowLeading && trailing >= windowTrailing) {
+      // Fits inside the previous window: reuse its bounds
+      writer.writeBit(0);
+      writeBits64(writer, ...shiftRight64(xorHi, xorLo, windowTrailing), 64 - windowLeading - windowTrailing);
+    } else {
+      const meaningful = 64 - leading - trailing;
+      writer.writeBit(1);
+      writer.writeBits(leading, 5);
+      writer.writeBits(meaningful - 1, 6);
+      writeBits64(writer, ...shiftRight64(xorHi, xorLo, trailing), meaningful);
+      windowLeading = leading;
+      windowTrailing = trailing;
+    }
+  }
+  return writer.toBuffer();
+}
+
+export function decodeValues(buffer: Buffer, count: number): number[] {
+  const values: number[] = [];
+  if (count === 0) {
+    return values;
+  }
+
+  const reader = new BitReader(buffer);
+  let hi = reader.readBits(32);
+  let lo = reader.readBits(32);
+  values.push(floatFromBits(hi, lo));
+  let windowLeading = 0;
+  let windowTrailing = 0;
+
+  while (values.length < count) {
+    if (reader.readBit() === 1) {
+      if (reader.readBit() === 1) {
+        windowLeading = reader.readBits(5);
+        const meaningful = reader.readBits(6) + 1;
+        windowTrailing = 64 - windowLeading - meaningful;
+      }
+      const [xorHi, xorLo] = shiftLeft64(...readBits64(reader, 64 - windowLeading - windowTrailing), windowTrailing);
+      hi = (hi ^ xorHi) >>> 0;
+      lo = (lo ^ xorLo) >>> 0;
+    }
+    values.push(floatFromBits(hi, lo));
+  }
+  return values;
+}
+
+const floatView = new DataView(new ArrayBuffer(8));
+
+function floatBits(value: number): [number, number] {
+  floatView.setFloat64(0, value);
+  return [floatView.getUint32(0), floatView.getUint32(4)];
+}
+
+function floatFromBits(hi: number, lo: number): number {
+  floatView.setUint32(0, hi);
+  floatView.setUint32(4, lo);
+  return floatView.getFloat64(0);
+}
+
+// Safe for any integer a double holds exactly
+function writeZigZag64(writer: BitWriter, value: number): void {
+  const zigzag = value >= 0 ? value * 2 : -value * 2 - 1;
+  writer.writeBits(Math.floor(zigzag / TWO_32), 32);
+  writer.writeBits(zigzag % TWO_32, 32);
+}
+
+function readZigZag64(reader: BitReader): number {
+  const zigzag = reader.readBits(32) * TWO_32 + reader.readBits(32);
+  return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+}
+
+function leadingZeros64(hi: number, lo: number): number {
+  return hi !== 0 ? Math.clz32(hi) : 32 + Math.clz32(lo);
+}
+
+function trailingZeros32(value: number): number {
+  return value === 0 ? 32 : 31 - Math.clz32(value & -value);
+}
+
+function trailingZeros64(hi: number, lo: number): number {
+  return lo !== 0 ? trailingZeros32(lo) : 32 + trailingZeros32(hi);
+}
+
+function shiftRight64(hi: number, lo: number, n: number): [number, number] {
+  if (n === 0) return [hi, lo];
+  if (n < 32) return [hi >>> n, ((lo >>> n) | (hi << (32 - n))) >>> 0];
+  return [0, hi >>> (n - 32)];
+}
+
+function shiftLeft64(hi: number, lo: number, n: number): [number, number] {
+  if (n === 0) return [hi, lo];
+  if (n < 32) return [((hi << n) | (lo >>> (32 - n))) >>> 0, (lo << n) >>> 0];
+  return [(lo << (n - 32)) >>> 0, 0];
+}
+
+// The low `count` bits of hi:lo
+function writeBits64(writer: BitWriter, hi: number, lo: number, count: number): void {
+  if (count > 32) {
+    writer.writeBits(hi, count - 32);
+    writer.writeBits(lo, 32);
+  } else {
+    writer.writeBits(lo, count);
+  }
+}
+
+function readBits64(reader: BitReader, count: number): [number, number] {
+  if (count > 32) {
+    const hi = reader.readBits(count - 32);
+    return [hi, reader.readBits(32)];
+  }
+  return [0, reader.readBits(count)];
+}
@@ -0,0 +1,128 @@
+import { Metric } from '../../../models/metric';
+
+// Bounds are inclusive epoch milliseconds; leave one out for an open range
+export interface MetricRange {
+  types?: string[];
+  start?: number;
+  end?: number;
+}
+
+// Where MetricsService keeps its points. Ids are unique per point.
+export interface MetricStore {
+  append(metric: Metric): Promise<void>;
+  get(id: string): Promise<Metric | null>;
+  // Matching metrics in ascending timestamp order
+  find(range: MetricRange): Promise<Metric[]>;
+  // Returns the count removed
+  deleteRange(range: MetricRange): Promise<number>;
+  delete(id: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+export function inRange(timestamp: number, range: MetricRange): boolean {
+  return (range.start === undefined || timestamp >= range.start)
+    && (range.end === undefined || timestamp <= range.end);
+}
+
+export const byTimestamp = (a: Metric, b: Metric) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * Per-type arrays kept in timestamp order, so range queries binary-search
+ * instead of scanning. Nothing survives a restart; used in tests and when
+ * METRICS_STORE=memory.
+ */
+export class MemoryMetricStore implements MetricStore {
+  private series = new Map<string, Metric[]>();
+  private byId = new Map<string, Metric>();
+
+  async append(metric: Metric): Promise<void> {
+    await this.delete(metric.id);
+    const points = this.series.get(metric.type) ?? [];
+    points.splice(upperBound(points, metric.timestamp.getTime()), 0, metric);
+    this.series.set(metric.type, points);
+    this.byId.set(metric.id, metric);
+  }
+
+  async get(id: string): Promise<Metric | null> {
+    return this.byId.get(id) ?? null;
+  }
+
+  async find(range: MetricRange): Promise<Metric[]> {
+    const types = range.types ?? Array.from(this.series.keys());
+    let results: Metric[] = [];
+    for (const type of types) {
+      const points = this.series.get(type) ?? [];
+      const [from, to] = bounds(points, range);
+      results = results.concat(points.slice(from, to));
+    }
+    return types.length > 1 ? results.sort(byTimestamp) : results;
+  }
+
+  async deleteRange(range: MetricRange): Promise<number> {
+    let removed = 0;
+    for (const type of range.types ?? Array.from(this.series.keys())) {
+      const points = this.series.get(type);
+      if (!points) continue;
+
+      const [from, to] = bounds(points, range);
+      for (const metric of points.splice(from, to - from)) {
+        this.byId.delete(metric.id);
+      }
+      removed += to - from;
+      if (points.length === 0) {
+        this.series.delete(type);
+      }
+    }
+    return removed;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const metric = this.byId.get(id);
+    if (!metric) {
+      return false;
+    }
+    const points = this.series.get(metric.type)!;
+    points.splice(points.indexOf(metric), 1);
+    if (points.length === 0) {
+      this.series.delete(metric.type);
+    }
+    this.byId.delete(id);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.series.clear();
+    this.byId.clear();
+  }
+}
+
+function bounds(points: Metric[], range: MetricRange): [number, number] {
+  return [
+    range.start === undefined ? 0 : lowerBound(points, range.start),
+    range.end === undefined ? points.length : upperBound(points, range.end)
+  ];
+}
+
+// First index with timestamp >= time
+function lowerBound(points: Metric[], time: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid].timestamp.getTime() < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// First index with timestamp > time
+function upperBound(points: Metric[], time: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid].timestamp.getTime() <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
@@ -0,0 +1,52 @@
+// OpenMetrics metric families, minus the ones nothing here produces
+export type MetricKind = 'counter' | 'gauge' | 'histogram' | 'summary' | 'unknown';
+
+export const METRIC_KINDS: MetricKind[] = ['counter', 'gauge', 'histogram', 'summary', 'unknown'];
+
+export interface MetricTypeDefinition {
+  name: string;
+  kind: MetricKind;
+  help?: string;
+  unit?: string;
+  builtin: boolean;
+  // Epoch milliseconds; built-in types have neither
+  createdAt?: number;
+  // User id, or "remote-write" for types registered by ingestion
+  createdBy?: string;
+}
+
+// Where the custom metric types are kept. Built-in types are never stored.
+export interface MetricTypeStore {
+  list(): Promise<MetricTypeDefinition[]>;
+  get(name: string): Promise<MetricTypeDefinition | null>;
+  // Returns false, and changes nothing, when the name is taken
+  add(definition: MetricTypeDefinition): Promise<boolean>;
+  delete(name: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+export class MemoryMetricTypeStore implements MetricTypeStore {
+  private types = new Map<string, MetricTypeDefinition>();
+
+  async list(): Promise<MetricTypeDefinition[]> {
+    return Array.from(this.types.values());
+  }
+
+  async get(name: string): Promise<MetricTypeDefinition | null> {
+    return this.types.get(name) ?? null;
+  }
+
+  async add(definition: MetricTypeDefinition): Promise<boolean> {
+    if (this.types.has(definition.name)) {
+      return false;
+    }
+    this.types.set(definition.name, definition);
+    return true;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.types.delete(name);
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,89 @@
+import { SerializedSketch } from '../sketch';
+import { MetricRange } from './metric-store';
+
+// Summary of one type's points in [start, start + resolution)
+export interface Rollup {
+  type: string;
+  resolution: number;
+  start: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  // Sum of squared differences from the mean, merged with Chan's formula
+  m2: number;
+  // First and last point timestamps
+  minTime: number;
+  maxTime: number;
+  sketch: SerializedSketch;
+}
+
+// Where MetricsRollupService keeps its buckets, one series per resolution
+export interface RollupStore {
+  // Replaces any bucket with the same type, resolution and start
+  put(rollups: Rollup[]): Promise<void>;
+  // Buckets whose start is in the range, in start order
+  find(resolution: number, range: MetricRange): Promise<Rollup[]>;
+  // Drops buckets starting before `before`; returns the count removed
+  deleteBefore(resolution: number, before: number): Promise<number>;
+  // Every bucket starting before the watermark is final
+  getWatermark(resolution: number): Promise<number | null>;
+  setWatermark(resolution: number, watermark: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const rollupKey = (rollup: Rollup) => `${rollup.type}:${rollup.start}`;
+
+export const byStart = (a: Rollup, b: Rollup) => a.start - b.start || a.type.localeCompare(b.type);
+
+export function selectRollups(rollups: Iterable<Rollup>, range: MetricRange): Rollup[] {
+  const matches: Rollup[] = [];
+  for (const rollup of rollups) {
+    if ((!range.types || range.types.includes(rollup.type))
+      && (range.start === undefined || rollup.start >= range.start)
+      && (range.end === undefined || rollup.start <= range.end)) {
+      matches.push(rollup);
+    }
+  }
+  return matches.sort(byStart);
+}
+
+export class MemoryRollupStore implements RollupStore {
+  // resolution -> type:start -> rollup
+  private tiers = new Map<number, Map<string, Rollup>>();
+  private watermarks = new Map<number, number>();
+
+  async put(rollups: Rollup[]): Promise<void> {
+    for (const rollup of rollups) {
+      const tier = this.tiers.get(rollup.resolution) ?? new Map<string, Rollup>();
+      tier.set(rollupKey(rollup), rollup);
+      this.tiers.set(rollup.resolution, tier);
+    }
+  }
+
+  async find(resolution: number, range: MetricRange): Promise<Rollup[]> {
+    return selectRollups(this.tiers.get(resolution)?.values() ?? [], range);
+  }
+
+  async deleteBefore(resolution: number, before: number): Promise<number> {
+    const tier = this.tiers.get(resolution);
+    let removed = 0;
+    for (const [key, rollup] of tier ?? []) {
+      if (rollup.start < before) {
+        tier!.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async getWatermark(resolution: number): Promise<number | null> {
+    return this.watermarks.get(resolution) ?? null;
+  }
+
+  async setWatermark(resolution: number, watermark: number): Promise<void> {
+    this.watermarks.set(resolution, watermark);
+  }
+
+  async close(): Promise<void> {}
+}
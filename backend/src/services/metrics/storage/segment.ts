@@ -0,0 +1,165 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { Metric, MetricType } from '../../../models/metric';
+import { decodeTimestamps, decodeValues, encodeTimestamps, encodeValues } from './gorilla';
+
+/**
+ * One series' points for one time block, stored column by column:
+ *
+ *   "MSEG" | version u8 | header length u32 | header JSON | chunk...
+ *
+ * Each chunk holds up to `chunkSize` points as four length-prefixed
+ * columns (timestamps, values, ids, metadata). The header lists every
+ * chunk's time range and position, so a query reads only the chunks that
+ * overlap it.
+ */
+
+const MAGIC = 'MSEG';
+const VERSION = 1;
+const PREAMBLE_BYTES = 9;
+
+export interface SegmentChunk {
+  minTime: number;
+  maxTime: number;
+  count: number;
+  // Relative to the end of the header
+  offset: number;
+  length: number;
+}
+
+export interface SegmentHeader {
+  type: string;
+  blockStart: number;
+  count: number;
+  minTime: number;
+  maxTime: number;
+  chunks: SegmentChunk[];
+}
+
+export interface SegmentInfo {
+  path: string;
+  header: SegmentHeader;
+  dataOffset: number;
+}
+
+// `metrics` must be in timestamp order
+export function encodeSegment(type: string, blockStart: number, metrics: Metric[], chunkSize: number): Buffer {
+  const chunks: SegmentChunk[] = [];
+  const bodies: Buffer[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < metrics.length; i += chunkSize) {
+    const points = metrics.slice(i, i + chunkSize);
+    const body = encodeChunk(points);
+    chunks.push({
+      minTime: points[0].timestamp.getTime(),
+      maxTime: points[points.length - 1].timestamp.getTime(),
+      count: points.length,
+      offset,
+      length: body.length
+    });
+    bodies.push(body);
+    offset += body.length;
+  }
+
+  const header: SegmentHeader = {
+    type,
+    blockStart,
+    count: metrics.length,
+    minTime: chunks[0]?.minTime ?? blockStart,
+    maxTime: chunks[chunks.length - 1]?.maxTime ?? blockStart,
+    chunks
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const preamble = Buffer.alloc(PREAMBLE_BYTES);
+  preamble.write(MAGIC, 0, 'ascii');
+  preamble.writeUInt8(VERSION, 4);
+  preamble.writeUInt32LE(headerBytes.length, 5);
+
+  return Buffer.concat([preamble, headerBytes, ...bodies]);
+}
+
+export async function readSegmentHeader(filePath: string): Promise<SegmentInfo> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const preamble = await readExactly(handle, 0, PREAMBLE_BYTES);
+    if (preamble.toString('ascii', 0, 4) !== MAGIC || preamble.readUInt8(4) !== VERSION) {
+      throw new Error(`${filePath} is not a version ${VERSION} metric segment`);
+    }
+    const headerLength = preamble.readUInt32LE(5);
+    const header = JSON.parse((await readExactly(handle, PREAMBLE_BYTES, headerLength)).toString('utf8'));
+    return { path: filePath, header, dataOffset: PREAMBLE_BYTES + headerLength };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Points of the chunks `wanted` picks, in timestamp order
+export async function readSegment(
+  segment: SegmentInfo,
+  wanted: (chunk: SegmentChunk) => boolean = () => true
+): Promise<Metric[]> {
+  const chunks = segment.header.chunks.filter(wanted);
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const handle = await fs.promises.open(segment.path, 'r');
+  try {
+    let metrics: Metric[] = [];
+    for (const chunk of chunks) {
+      const body = await readExactly(handle, segment.dataOffset + chunk.offset, chunk.length);
+      metrics = metrics.concat(decodeChunk(segment.header.type, chunk.count, body));
+    }
+    return metrics;
+  } finally {
+    await handle.close();
+  }
+}
+
+function encodeChunk(points: Metric[]): Buffer {
+  const columns = [
+    encodeTimestamps(points.map(point => point.timestamp.getTime())),
+    encodeValues(points.map(point => point.value)),
+    zlib.deflateRawSync(JSON.stringify(points.map(point => point.id))),
+    zlib.deflateRawSync(JSON.stringify(points.map(point => point.metadata ?? null)))
+  ];
+  const parts: Buffer[] = [];
+  for (const column of columns) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(column.length);
+    parts.push(length, column);
+  }
+  return Buffer.concat(parts);
+}
+
+function decodeChunk(type: string, count: number, body: Buffer): Metric[] {
+  const columns: Buffer[] = [];
+  for (let position = 0; position < body.length;) {
+    const length = body.readUInt32LE(position);
+    columns.push(body.subarray(position + 4, position + 4 + length));
+    position += 4 + length;
+  }
+
+  const timestamps = decodeTimestamps(columns[0], count);
+  const values = decodeValues(columns[1], count);
+  const ids: string[] = JSON.parse(zlib.inflateRawSync(columns[2]).toString('utf8'));
+  const metadata: Array<Record<string, any> | null> = JSON.parse(zlib.inflateRawSync(columns[3]).toString('utf8'));
+
+  return ids.map((id, i) => ({
+    id,
+    type: type as MetricType,
+    value: values[i],
+    timestamp: new Date(timestamps[i]),
+    ...(metadata[i] ? { metadata: metadata[i]! } : {})
+  }));
+}
+
+async function readExactly(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Metric segment is truncated');
+  }
+  return buffer;
+}
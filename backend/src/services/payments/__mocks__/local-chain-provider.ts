@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import {
+  EthereumRpcProvider,
+  EthereumTransaction,
+  EthereumTransactionReceipt
+} from '../ethereum-rpc-provider';
+
+// In-memory Anvil/Hardhat-style chain for testing. Every sent transaction
+// is auto-mined into its own block unless `pending` is set.
+export class LocalChainProvider implements EthereumRpcProvider {
+  private blockNumber = 0;
+  private transactions: Map<string, EthereumTransaction> = new Map();
+  private receipts: Map<string, EthereumTransactionReceipt> = new Map();
+
+  sendTransaction(tx: {
+    from: string;
+    to: string | null;
+    value: bigint;
+    reverted?: boolean;
+    pending?: boolean;
+  }): string {
+    const hash = '0x' + crypto.randomBytes(32).toString('hex');
+    const blockNumber = tx.pending ? null : ++this.blockNumber;
+
+    this.transactions.set(hash, {
+      hash,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      blockNumber
+    });
+
+    if (blockNumber !== null) {
+      this.receipts.set(hash, {
+        transactionHash: hash,
+        from: tx.from,
+        to: tx.to,
+        blockNumber,
+        status: tx.reverted ? 0 : 1
+      });
+    }
+
+    return hash;
+  }
+
+  mine(blocks: number = 1): void {
+    this.blockNumber += blocks;
+  }
+
+  async getTransaction(hash: string): Promise<EthereumTransaction | null> {
+    return this.transactions.get(hash) || null;
+  }
+
+  async getTransactionReceipt(hash: string): Promise<EthereumTransactionReceipt | null> {
+    return this.receipts.get(hash) || null;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+}
+
+export default LocalChainProvider;
@@ -0,0 +1,103 @@
+import { ApiService } from '../api.service';
+import logger from '../../utils/logger';
+
+export interface EthereumTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  blockNumber: number | null;
+}
+
+export interface EthereumTransactionReceipt {
+  transactionHash: string;
+  from: string;
+  to: string | null;
+  blockNumber: number;
+  status: number;
+}
+
+/**
+ * Minimal read-only view of an Ethereum node. Anything that speaks the
+ * standard eth_* JSON-RPC methods (geth, Anvil, Hardhat, hosted RPC) can
+ * back it.
+ */
+export interface EthereumRpcProvider {
+  getTransaction(hash: string): Promise<EthereumTransaction | null>;
+  getTransactionReceipt(hash: string): Promise<EthereumTransactionReceipt | null>;
+  getBlockNumber(): Promise<number>;
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export class JsonRpcEthereumProvider extends ApiService implements EthereumRpcProvider {
+  private requestId = 0;
+
+  constructor(rpcUrl: string, timeout: number = 10000) {
+    super({
+      baseURL: rpcUrl,
+      timeout,
+      retries: 3,
+      retryDelay: 500
+    });
+  }
+
+  async getTransaction(hash: string): Promise<EthereumTransaction | null> {
+    const tx = await this.call<any>('eth_getTransactionByHash', [hash]);
+    if (!tx) {
+      return null;
+    }
+
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to ?? null,
+      value: BigInt(tx.value),
+      blockNumber: tx.blockNumber ? parseInt(tx.blockNumber, 16) : null
+    };
+  }
+
+  async getTransactionReceipt(hash: string): Promise<EthereumTransactionReceipt | null> {
+    const receipt = await this.call<any>('eth_getTransactionReceipt', [hash]);
+    if (!receipt) {
+      return null;
+    }
+
+    return {
+      transactionHash: receipt.transactionHash,
+      from: receipt.from,
+      to: receipt.to ?? null,
+      blockNumber: parseInt(receipt.blockNumber, 16),
+      status: parseInt(receipt.status, 16)
+    };
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const blockNumber = await this.call<string>('eth_blockNumber', []);
+    return parseInt(blockNumber, 16);
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.post<JsonRpcResponse<T>>('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params
+    });
+
+    if (response.data.error) {
+      logger.error(`JSON-RPC ${method} failed:`, response.data.error);
+      throw new Error(`JSON-RPC error ${response.data.error.code}: ${response.data.error.message}`);
+    }
+
+    return response.data.result as T;
+  }
+}
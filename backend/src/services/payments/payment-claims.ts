@@ -0,0 +1,36 @@
+import { Prisma } from '@prisma/client';
+import { ConflictError } from '../../utils/errors';
+
+// Unique constraint violation
+const PRISMA_UNIQUE_VIOLATION = 'P2002';
+
+export type PaymentPurpose = 'launch' | 'escrow';
+
+/**
+ * Record that a verified transaction has paid for something. The hash is
+ * the PaymentClaim key, so a second claim fails even when two requests
+ * verify the same transaction at once. Call it inside the transaction that
+ * grants what was paid for, so a failed grant releases the claim.
+ */
+export async function claimPayment(
+  tx: Prisma.TransactionClient,
+  txHash: string,
+  purpose: PaymentPurpose,
+  claimedBy: string
+): Promise<void> {
+  try {
+    await tx.paymentClaim.create({
+      // Hex hashes compare case-insensitively
+      data: { txHash: txHash.toLowerCase(), purpose, claimedBy },
+    });
+  } catch (error: any) {
+    if (error?.code === PRISMA_UNIQUE_VIOLATION) {
+      throw new ConflictError('Payment transaction already used');
+    }
+    throw error;
+  }
+}
+
+export async function isPaymentClaimed(tx: Prisma.TransactionClient, txHash: string): Promise<boolean> {
+  return !!(await tx.paymentClaim.findUnique({ where: { txHash: txHash.toLowerCase() } }));
+}
@@ -0,0 +1,131 @@
+import { EthereumRpcProvider } from './ethereum-rpc-provider';
+import logger from '../../utils/logger';
+
+export interface PaymentVerifierConfig {
+  recipientAddress: string;
+  amountWei: bigint;
+  minConfirmations: number;
+}
+
+export type PaymentRejectionCode =
+  | 'TX_NOT_FOUND'
+  | 'TX_PENDING'
+  | 'TX_REVERTED'
+  | 'INSUFFICIENT_CONFIRMATIONS'
+  | 'WRONG_RECIPIENT'
+  | 'INSUFFICIENT_AMOUNT'
+  | 'WRONG_PAYER';
+
+export interface PaymentRejectionReason {
+  code: PaymentRejectionCode;
+  message: string;
+}
+
+export interface PaymentVerdict {
+  verified: boolean;
+  txHash: string;
+  payer?: string;
+  recipient?: string | null;
+  amountWei?: string;
+  confirmations: number;
+  reasons: PaymentRejectionReason[];
+}
+
+export interface VerifyPaymentOptions {
+  // Whoever claims the payment; anyone else's transaction is rejected
+  expectedPayer: string;
+  amountWei?: bigint;
+}
+
+export class PaymentVerifier {
+  private provider: EthereumRpcProvider;
+  private config: PaymentVerifierConfig;
+
+  constructor(provider: EthereumRpcProvider, config: PaymentVerifierConfig) {
+    if (!config.recipientAddress) {
+      throw new Error('Payment recipient address must be configured');
+    }
+
+    this.provider = provider;
+    this.config = config;
+  }
+
+  /**
+   * Check that a transaction pays the configured recipient at least the
+   * expected amount from the expected payer and is buried under enough
+   * blocks. Every failed check is reported, not just the first one.
+   */
+  async verify(txHash: string, options: VerifyPaymentOptions): Promise<PaymentVerdict> {
+    const expectedAmount = options.amountWei ?? this.config.amountWei;
+    const reasons: PaymentRejectionReason[] = [];
+
+    const tx = await this.provider.getTransaction(txHash);
+    if (!tx) {
+      return this.reject(txHash, 0, [{ code: 'TX_NOT_FOUND', message: 'Transaction not found' }]);
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt || tx.blockNumber === null) {
+      return this.reject(txHash, 0, [{ code: 'TX_PENDING', message: 'Transaction has not been mined yet' }]);
+    }
+
+    const latestBlock = await this.provider.getBlockNumber();
+    const confirmations = Math.max(0, latestBlock - receipt.blockNumber + 1);
+
+    if (receipt.status !== 1) {
+      reasons.push({ code: 'TX_REVERTED', message: 'Transaction reverted' });
+    }
+
+    if (confirmations < this.config.minConfirmations) {
+      reasons.push({
+        code: 'INSUFFICIENT_CONFIRMATIONS',
+        message: `Transaction has ${confirmations} of ${this.config.minConfirmations} required confirmations`
+      });
+    }
+
+    if (!sameAddress(tx.to, this.config.recipientAddress)) {
+      reasons.push({ code: 'WRONG_RECIPIENT', message: 'Payment was not sent to the launch recipient address' });
+    }
+
+    if (tx.value < expectedAmount) {
+      reasons.push({
+        code: 'INSUFFICIENT_AMOUNT',
+        message: `Payment of ${tx.value} wei is below the required ${expectedAmount} wei`
+      });
+    }
+
+    if (!sameAddress(tx.from, options.expectedPayer)) {
+      reasons.push({ code: 'WRONG_PAYER', message: 'Transaction was not sent by the expected payer' });
+    }
+
+    const verdict: PaymentVerdict = {
+      verified: reasons.length === 0,
+      txHash,
+      payer: tx.from,
+      recipient: tx.to,
+      amountWei: tx.value.toString(),
+      confirmations,
+      reasons
+    };
+
+    if (!verdict.verified) {
+      logger.warn(`Payment ${txHash} rejected`, { reasons: reasons.map(r => r.code) });
+    }
+
+    return verdict;
+  }
+
+  private reject(txHash: string, confirmations: number, reasons: PaymentRejectionReason[]): PaymentVerdict {
+    logger.warn(`Payment ${txHash} rejected`, { reasons: reasons.map(r => r.code) });
+    return {
+      verified: false,
+      txHash,
+      confirmations,
+      reasons
+    };
+  }
+}
+
+function sameAddress(a: string | null | undefined, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
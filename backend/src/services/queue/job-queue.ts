@@ -0,0 +1,40 @@
+export interface Job<T> {
+  id: string;
+  queue: string;
+  payload: T;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: number;
+  runAt: number;
+  lastError?: string;
+}
+
+export interface EnqueueOptions {
+  id?: string;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+export interface QueueStats {
+  ready: number;
+  delayed: number;
+  processing: number;
+  dead: number;
+}
+
+/**
+ * At-least-once job queue. A reserved job stays "processing" until it is
+ * acked, scheduled for another attempt or moved to the dead-letter list.
+ * Queues that outlive their workers also hand a job out again once its
+ * reservation lapses, with `attempts` counting every reservation.
+ */
+export interface JobQueue<T> {
+  readonly name: string;
+  enqueue(payload: T, options?: EnqueueOptions): Promise<Job<T>>;
+  reserve(): Promise<Job<T> | null>;
+  ack(job: Job<T>): Promise<void>;
+  retry(job: Job<T>, delayMs: number, error: string): Promise<void>;
+  deadLetter(job: Job<T>, error: string): Promise<void>;
+  getDeadLetters(limit?: number): Promise<Job<T>[]>;
+  stats(): Promise<QueueStats>;
+}
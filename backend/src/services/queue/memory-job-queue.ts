@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { EnqueueOptions, Job, JobQueue, QueueStats } from './job-queue';
+
+export class MemoryJobQueue<T> implements JobQueue<T> {
+  readonly name: string;
+  private ready: string[] = [];
+  private delayed: Map<string, number> = new Map();
+  private processing: Set<string> = new Set();
+  private dead: string[] = [];
+  private jobs: Map<string, Job<T>> = new Map();
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  async enqueue(payload: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const now = Date.now();
+    const job: Job<T> = {
+      id: options.id || crypto.randomUUID(),
+      queue: this.name,
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 1,
+      createdAt: now,
+      runAt: now + (options.delayMs || 0)
+    };
+
+    this.jobs.set(job.id, job);
+    if (options.delayMs) {
+      this.delayed.set(job.id, job.runAt);
+    } else {
+      this.ready.push(job.id);
+    }
+
+    return job;
+  }
+
+  async reserve(): Promise<Job<T> | null> {
+    this.promoteDueJobs();
+
+    const id = this.ready.shift();
+    if (!id) {
+      return null;
+    }
+
+    const job = this.jobs.get(id)!;
+    job.attempts++;
+    this.processing.add(id);
+    return job;
+  }
+
+  async ack(job: Job<T>): Promise<void> {
+    this.processing.delete(job.id);
+    this.jobs.delete(job.id);
+  }
+
+  async retry(job: Job<T>, delayMs: number, error: string): Promise<void> {
+    this.processing.delete(job.id);
+    job.lastError = error;
+    job.runAt = Date.now() + delayMs;
+    this.jobs.set(job.id, job);
+    this.delayed.set(job.id, job.runAt);
+  }
+
+  async deadLetter(job: Job<T>, error: string): Promise<void> {
+    this.processing.delete(job.id);
+    job.lastError = error;
+    this.jobs.set(job.id, job);
+    this.dead.unshift(job.id);
+  }
+
+  async getDeadLetters(limit: number = 100): Promise<Job<T>[]> {
+    return this.dead.slice(0, limit).map(id => this.jobs.get(id)!);
+  }
+
+  async stats(): Promise<QueueStats> {
+    return {
+      ready: this.ready.length,
+      delayed: this.delayed.size,
+      processing: this.processing.size,
+      dead: this.dead.length
+    };
+  }
+
+  private promoteDueJobs(): void {
+    const now = Date.now();
+    for (const [id, runAt] of this.delayed) {
+      if (runAt <= now) {
+        this.delayed.delete(id);
+        this.ready.push(id);
+      }
+    }
+  }
+}
+
+export default MemoryJobQueue;
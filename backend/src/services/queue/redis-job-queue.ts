@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { EnqueueOptions, Job, JobQueue, QueueStats } from './job-queue';
+
+// Atomically moves due jobs from the delayed set onto the ready list
+const PROMOTE_DUE_JOBS = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('LPUSH', KEYS[2], id)
+end
+return #ids
+`;
+
+// Pops the next ready job and leases it until ARGV[1]
+const LEASE_NEXT_JOB = `
+local id = redis.call('RPOP', KEYS[1])
+if id then
+  redis.call('ZADD', KEYS[2], ARGV[1], id)
+end
+return id
+`;
+
+// Puts jobs whose lease ran out back at the head of the ready list
+const REQUEUE_EXPIRED_LEASES = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('RPUSH', KEYS[2], id)
+end
+return #ids
+`;
+
+export interface RedisJobQueueOptions {
+  keyPrefix?: string;
+  // How long a reserved job may go unacknowledged before another worker
+  // takes it over; should exceed the longest expected run
+  leaseMs?: number;
+}
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Reserved jobs are leased rather than held indefinitely: the processing set
+ * is scored by lease deadline, and a job whose worker died before acking it
+ * goes back on the ready list once the deadline passes.
+ */
+export class RedisJobQueue<T> implements JobQueue<T> {
+  readonly name: string;
+  private redis: Redis;
+  private leaseMs: number;
+  private keys: {
+    base: string;
+    ready: string;
+    delayed: string;
+    processing: string;
+    dead: string;
+  };
+
+  constructor(redis: Redis, name: string, options: RedisJobQueueOptions = {}) {
+    const keyPrefix = options.keyPrefix || 'queue';
+    this.redis = redis;
+    this.name = name;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.keys = {
+      base: `${keyPrefix}:${name}`,
+      ready: `${keyPrefix}:${name}:ready`,
+      delayed: `${keyPrefix}:${name}:delayed`,
+      // Lease deadlines; a new key since the old processing key held a list
+      processing: `${keyPrefix}:${name}:leases`,
+      dead: `${keyPrefix}:${name}:dead`
+    };
+  }
+
+  async enqueue(payload: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const now = Date.now();
+    const job: Job<T> = {
+      id: options.id || crypto.randomUUID(),
+      queue: this.name,
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 1,
+      createdAt: now,
+      runAt: now + (options.delayMs || 0)
+    };
+
+    const multi = this.redis.multi().set(this.jobKey(job.id), JSON.stringify(job));
+    if (options.delayMs) {
+      multi.zadd(this.keys.delayed, job.runAt, job.id);
+    } else {
+      multi.lpush(this.keys.ready, job.id);
+    }
+    await multi.exec();
+
+    return job;
+  }
+
+  /**
+   * Every reserve() reaps expired leases first, so polling workers recover
+   * each other's jobs without a separate process. A requeued job keeps its
+   * attempt count, which lets the worker give up on jobs that keep killing it.
+   */
+  async reserve(): Promise<Job<T> | null> {
+    const now = Date.now();
+    await this.requeueExpiredLeases(now);
+    await this.redis.eval(PROMOTE_DUE_JOBS, 2, this.keys.delayed, this.keys.ready, now, 100);
+
+    const id = await this.redis.eval(
+      LEASE_NEXT_JOB, 2, this.keys.ready, this.keys.processing, now + this.leaseMs
+    ) as string | null;
+    if (!id) {
+      return null;
+    }
+
+    const raw = await this.redis.get(this.jobKey(id));
+    if (!raw) {
+      // The job body expired or was removed; drop the orphaned id
+      await this.redis.zrem(this.keys.processing, id);
+      return null;
+    }
+
+    const job = JSON.parse(raw) as Job<T>;
+    job.attempts++;
+    await this.redis.set(this.jobKey(id), JSON.stringify(job));
+    return job;
+  }
+
+  // Returns how many jobs were put back on the ready list
+  async requeueExpiredLeases(now: number = Date.now()): Promise<number> {
+    return await this.redis.eval(
+      REQUEUE_EXPIRED_LEASES, 2, this.keys.processing, this.keys.ready, now, 100
+    ) as number;
+  }
+
+  async ack(job: Job<T>): Promise<void> {
+    await this.redis.multi()
+      .zrem(this.keys.processing, job.id)
+      .del(this.jobKey(job.id))
+      .exec();
+  }
+
+  async retry(job: Job<T>, delayMs: number, error: string): Promise<void> {
+    const updated: Job<T> = { ...job, lastError: error, runAt: Date.now() + delayMs };
+
+    await this.redis.multi()
+      .zrem(this.keys.processing, job.id)
+      .set(this.jobKey(job.id), JSON.stringify(updated))
+      .zadd(this.keys.delayed, updated.runAt, job.id)
+      .exec();
+  }
+
+  async deadLetter(job: Job<T>, error: string): Promise<void> {
+    const updated: Job<T> = { ...job, lastError: error };
+
+    await this.redis.multi()
+      .zrem(this.keys.processing, job.id)
+      .set(this.jobKey(job.id), JSON.stringify(updated))
+      .lpush(this.keys.dead, job.id)
+      .exec();
+  }
+
+  async getDeadLetters(limit: number = 100): Promise<Job<T>[]> {
+    const ids = await this.redis.lrange(this.keys.dead, 0, limit - 1);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const raw = await this.redis.mget(...ids.map(id => this.jobKey(id)));
+    return raw
+      .filter((value): value is string => value !== null)
+      .map(value => JSON.parse(value) as Job<T>);
+  }
+
+  async stats(): Promise<QueueStats> {
+    const [ready, delayed, processing, dead] = await Promise.all([
+      this.redis.llen(this.keys.ready),
+      this.redis.zcard(this.keys.delayed),
+      this.redis.zcard(this.keys.processing),
+      this.redis.llen(this.keys.dead)
+    ]);
+
+    return { ready, delayed, processing, dead };
+  }
+
+  private jobKey(id: string): string {
+    return `${this.keys.base}:job:${id}`;
+  }
+}
+
+export default RedisJobQueue;
@@ -0,0 +1,94 @@
+import logger from '../../utils/logger';
+
+export interface RateLimitHit {
+  // Requests counted in the current window, including this one
+  count: number;
+  // Epoch milliseconds when the window ends and the count starts over
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request counters keyed by opaque strings such as
+ * "search:user:u1". Shared between replicas when backed by Redis.
+ */
+export interface RateLimitStore {
+  // Counts a request in a window that starts at the key's first request
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+  private hitsSincePurge = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.purgeOccasionally(now);
+
+    const current = this.windows.get(key);
+    const window = current && current.resetAt > now ? current : { count: 0, resetAt: now + windowMs };
+    window.count++;
+    this.windows.set(key, window);
+    return { ...window };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  // Every request is a chance to grow the map, so expired windows are
+  // swept every so often rather than on a timer
+  private purgeOccasionally(now: number) {
+    if (++this.hitsSincePurge < 1000) {
+      return;
+    }
+    this.hitsSincePurge = 0;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counts in the primary store and falls back to the secondary while the
+ * primary is failing, so a Redis outage degrades limits to per-replica
+ * instead of rejecting every request.
+ */
+export class InsuranceRateLimitStore implements RateLimitStore {
+  private primary: RateLimitStore;
+  private fallback: RateLimitStore;
+  private failing = false;
+
+  constructor(primary: RateLimitStore, fallback: RateLimitStore = new MemoryRateLimitStore()) {
+    this.primary = primary;
+    this.fallback = fallback;
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    try {
+      const result = await this.primary.hit(key, windowMs);
+      if (this.failing) {
+        this.failing = false;
+        logger.info('Rate limit store recovered, leaving in-memory fallback');
+      }
+      return result;
+    } catch (error) {
+      if (!this.failing) {
+        this.failing = true;
+        logger.warn('Rate limit store failed, counting in memory until it recovers:', error);
+      }
+      return this.fallback.hit(key, windowMs);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.fallback.reset(key);
+    try {
+      await this.primary.reset(key);
+    } catch (error) {
+      logger.warn('Rate limit store failed to reset a key:', error);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import Redis from 'ioredis';
+import { RateLimitHit, RateLimitStore } from './rate-limit-store';
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis;
+  private keyPrefix: string;
+
+  constructor(redis: Redis, keyPrefix: string = 'rl') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redisKey = `${this.keyPrefix}:${key}`;
+    // Only the request that creates the key starts the window
+    const results = await this.redis
+      .multi()
+      .set(redisKey, '0', 'PX', windowMs, 'NX')
+      .incr(redisKey)
+      .pttl(redisKey)
+      .exec();
+    if (!results) {
+      throw new Error('Rate limit transaction was aborted');
+    }
+
+    const failed = results.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+    const count = results[1][1] as number;
+    const ttl = results[2][1] as number;
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(`${this.keyPrefix}:${key}`);
+  }
+}
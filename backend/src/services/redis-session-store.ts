@@ -0,0 +1,77 @@
+import Redis from 'ioredis';
+import { Session } from '../types';
+import { SessionStore } from './session-store';
+
+export class RedisSessionStore implements SessionStore {
+  private redis: Redis;
+  private keyPrefix: string;
+
+  constructor(redis: Redis, keyPrefix: string = 'session') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async save(session: Session): Promise<void> {
+    // No session outlives its full lifetime from now, so the user's index
+    // can expire then without dropping a live session
+    const lifetimeMs = session.absoluteExpiresAt.getTime() - session.createdAt.getTime();
+    await this.redis
+      .multi()
+      .set(this.sessionKey(session.id), JSON.stringify(session), 'PX', Math.max(session.expiresAt.getTime() - Date.now(), 1))
+      .sadd(this.userKey(session.userId), session.id)
+      .pexpire(this.userKey(session.userId), Math.max(lifetimeMs, 1))
+      .exec();
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const value = await this.redis.get(this.sessionKey(sessionId));
+    return value ? deserialize(value) : null;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const session = await this.get(sessionId);
+    const removed = await this.redis.del(this.sessionKey(sessionId));
+    if (session) {
+      await this.redis.srem(this.userKey(session.userId), sessionId);
+    }
+    return removed === 1;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessionIds = await this.redis.smembers(this.userKey(userId));
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    // Expired sessions disappear on their own but linger in the user's set
+    const values = await this.redis.mget(...sessionIds.map(id => this.sessionKey(id)));
+    const stale = sessionIds.filter((_, index) => !values[index]);
+    if (stale.length > 0) {
+      await this.redis.srem(this.userKey(userId), ...stale);
+    }
+    return values.flatMap(value => value ? [deserialize(value)] : []);
+  }
+
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `${this.keyPrefix}:${sessionId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.keyPrefix}:user:${userId}`;
+  }
+}
+
+function deserialize(value: string): Session {
+  const session = JSON.parse(value);
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    lastAccessedAt: new Date(session.lastAccessedAt),
+    expiresAt: new Date(session.expiresAt),
+    absoluteExpiresAt: new Date(session.absoluteExpiresAt)
+  };
+}
@@ -1,12 +1,50 @@
 import logger from '../utils/logger';
 import { AuditConfig, AuditEvent, AuditLevel, AuditMetrics } from '../types';
-import { hashData } from '../utils/crypto';
+import {
+  AuditEventFilter,
+  AuditSequenceConflictError,
+  AuditStore,
+  ChainedAuditEvent,
+  computeAuditHash,
+  GENESIS_HASH,
+  scanAuditEvents
+} from './audit/audit-store';
+import { MemoryAuditStore } from './audit/memory-audit-store';
+import { AuditArchiver } from './audit/audit-archiver';
+
+export interface ChainBreak {
+  sequence: number;
+  eventId?: string;
+  reason: string;
+}
+
+export interface ChainVerificationResult {
+  valid: boolean;
+  checked: number;
+  fromSequence: number | null;
+  toSequence: number | null;
+  brokenAt?: ChainBreak;
+}
+
+export interface RetentionResult {
+  archived: number;
+  deleted: number;
+  segment?: string;
+}
+
+const MAX_APPEND_ATTEMPTS = 3;
+const RETENTION_BATCH_SIZE = 10000;
 
 export class SecurityAuditLogger {
+  // Recent events kept in memory for threshold alerts; the store is the record
   private events: AuditEvent[] = [];
   private config: AuditConfig;
+  private store: AuditStore;
+  private archiver: AuditArchiver | null;
+  private appending: Promise<unknown> = Promise.resolve();
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
-  constructor(config: AuditConfig) {
+  constructor(config: AuditConfig, store: AuditStore = new MemoryAuditStore(), archiver: AuditArchiver | null = null) {
     this.config = {
       logLevel: config.logLevel,
       retentionPeriod: config.retentionPeriod,
@@ -16,26 +54,14 @@ export class SecurityAuditLogger {
         critical: config.alertThresholds.critical
       }
     };
+    this.store = store;
+    this.archiver = archiver;
 
     this.startPeriodicCleanup();
   }
 
-  async logEvent(event: Partial<AuditEvent>): Promise<void> {
-    const now = new Date();
-    const fullEvent: AuditEvent = {
-      id: this.generateEventId(),
-      timestamp: now,
-      level: event.level || 'info',
-      type: event.type || 'unknown',
-      userId: event.userId,
-      sessionId: event.sessionId,
-      message: event.message || '',
-      metadata: event.metadata,
-      hash: this.generateEventHash({
-        ...event,
-        timestamp: now
-      })
-    };
+  async logEvent(event: Partial<AuditEvent>): Promise<ChainedAuditEvent> {
+    const fullEvent = await this.appendToChain(event);
 
     this.events.push(fullEvent);
     this.enforceEventLimit();
@@ -43,27 +69,53 @@ export class SecurityAuditLogger {
 
     logger.log(fullEvent.level, fullEvent.message, {
       eventId: fullEvent.id,
+      sequence: fullEvent.sequence,
       type: fullEvent.type,
       userId: fullEvent.userId,
       metadata: fullEvent.metadata
     });
-  }
 
-  private generateEventId(): string {
-    return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return fullEvent;
   }
 
-  private generateEventHash(event: Partial<AuditEvent>): string {
-    const data = JSON.stringify({
-      timestamp: event.timestamp,
-      type: event.type,
-      userId: event.userId,
-      sessionId: event.sessionId,
-      message: event.message,
-      metadata: event.metadata
-    });
+  // Appends are serialised within the process; a conflict means another
+  // process wrote the same sequence, so re-read the head and link again.
+  private appendToChain(event: Partial<AuditEvent>): Promise<ChainedAuditEvent> {
+    const append = async (): Promise<ChainedAuditEvent> => {
+      for (let attempt = 1; ; attempt++) {
+        const previous = await this.store.last();
+        const chained: Omit<ChainedAuditEvent, 'hash'> = {
+          sequence: previous ? previous.sequence + 1 : 1,
+          previousHash: previous ? previous.hash : GENESIS_HASH,
+          id: this.generateEventId(),
+          timestamp: new Date(),
+          level: event.level || 'info',
+          type: event.type || 'unknown',
+          userId: event.userId,
+          sessionId: event.sessionId,
+          message: event.message || '',
+          metadata: event.metadata
+        };
+        const fullEvent: ChainedAuditEvent = { ...chained, hash: computeAuditHash(chained) };
 
-    return hashData(data);
+        try {
+          await this.store.append(fullEvent);
+          return fullEvent;
+        } catch (error) {
+          if (!(error instanceof AuditSequenceConflictError) || attempt >= MAX_APPEND_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    };
+
+    const run = this.appending.then(append, append);
+    this.appending = run.catch(() => undefined);
+    return run;
+  }
+
+  private generateEventId(): string {
+    return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private enforceEventLimit(): void {
@@ -151,19 +203,118 @@ export class SecurityAuditLogger {
   }
 
   private startPeriodicCleanup(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       const cutoff = new Date(Date.now() - this.config.retentionPeriod * 1000);
       this.events = this.events.filter(event => event.timestamp >= cutoff);
+      this.applyRetention(cutoff).catch(error => logger.error('Audit retention failed:', error));
     }, 3600000); // Run cleanup every hour
   }
 
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Move events older than the cutoff into the archive, then delete them
+   * from the store. Without an archiver nothing is deleted.
+   */
+  async applyRetention(cutoff: Date): Promise<RetentionResult> {
+    if (!this.archiver) {
+      logger.warn('Audit retention skipped: no archiver configured');
+      return { archived: 0, deleted: 0 };
+    }
+
+    // Only a contiguous run from the oldest event is archived, so the live
+    // store always continues exactly where the archive stops.
+    const expired: ChainedAuditEvent[] = [];
+    for await (const event of scanAuditEvents(this.store, {})) {
+      if (event.timestamp >= cutoff || expired.length >= RETENTION_BATCH_SIZE) break;
+      expired.push(event);
+    }
+
+    if (expired.length === 0) {
+      return { archived: 0, deleted: 0 };
+    }
+
+    const segment = await this.archiver.archive(expired);
+    const deleted = await this.store.deleteThrough(segment.toSequence);
+    logger.info(`Archived audit events ${segment.fromSequence}-${segment.toSequence} to ${segment.file}`);
+
+    return { archived: expired.length, deleted, segment: segment.file };
+  }
+
   async getMetrics(): Promise<AuditMetrics> {
     return this.calculateMetrics(this.events);
   }
 
-  async verifyEventIntegrity(event: AuditEvent): Promise<boolean> {
-    const computedHash = this.generateEventHash(event);
-    return computedHash === event.hash;
+  async verifyEventIntegrity(event: ChainedAuditEvent): Promise<boolean> {
+    return computeAuditHash(event) === event.hash;
+  }
+
+  /**
+   * Walk the chain between two sequence numbers (inclusive, defaulting to
+   * the whole live store) and report the first event that was modified,
+   * removed or moved. The boundary with archived events is checked against
+   * the archive manifest.
+   */
+  async verifyChain(from?: number, to?: number): Promise<ChainVerificationResult> {
+    const result: ChainVerificationResult = { valid: true, checked: 0, fromSequence: null, toSequence: null };
+    const fail = (brokenAt: ChainBreak): ChainVerificationResult => ({ ...result, valid: false, brokenAt });
+
+    let expectedSequence: number | null = null;
+    let expectedPreviousHash: string | null = null;
+
+    const startAt = from ?? (await this.store.first())?.sequence;
+    if (startAt === undefined) {
+      return result;
+    }
+
+    if (startAt === 1) {
+      expectedSequence = 1;
+      expectedPreviousHash = GENESIS_HASH;
+    } else {
+      const [predecessor] = await this.store.find({ fromSequence: startAt - 1, toSequence: startAt - 1 }, { limit: 1 });
+      if (predecessor) {
+        expectedSequence = startAt;
+        expectedPreviousHash = predecessor.hash;
+      } else {
+        const segments = this.archiver ? await this.archiver.segments() : [];
+        const boundary = segments.find(segment => segment.toSequence === startAt - 1);
+        if (!boundary) {
+          return fail({ sequence: startAt - 1, reason: 'Predecessor is neither in the store nor archived' });
+        }
+        expectedSequence = startAt;
+        expectedPreviousHash = boundary.lastHash;
+      }
+    }
+
+    for await (const event of scanAuditEvents(this.store, { fromSequence: startAt, toSequence: to })) {
+      result.fromSequence = result.fromSequence ?? event.sequence;
+
+      if (event.sequence !== expectedSequence) {
+        return fail({ sequence: expectedSequence!, reason: `Event missing, found ${event.sequence} instead` });
+      }
+      if (event.previousHash !== expectedPreviousHash) {
+        return fail({ sequence: event.sequence, eventId: event.id, reason: 'Does not link to the previous event' });
+      }
+      if (computeAuditHash(event) !== event.hash) {
+        return fail({ sequence: event.sequence, eventId: event.id, reason: 'Contents do not match hash' });
+      }
+
+      result.checked++;
+      result.toSequence = event.sequence;
+      expectedSequence = event.sequence + 1;
+      expectedPreviousHash = event.hash;
+    }
+
+    if (to !== undefined && result.toSequence !== to) {
+      return fail({ sequence: expectedSequence!, reason: 'Chain ends before the requested range' });
+    }
+
+    return result;
   }
 
   async searchEvents(options: {
@@ -172,15 +323,24 @@ export class SecurityAuditLogger {
     level?: AuditLevel;
     userId?: string;
     type?: string;
-  }): Promise<AuditEvent[]> {
-    return this.events.filter(event => {
-      if (options.startDate && event.timestamp < options.startDate) return false;
-      if (options.endDate && event.timestamp > options.endDate) return false;
-      if (options.level && event.level !== options.level) return false;
-      if (options.userId && event.userId !== options.userId) return false;
-      if (options.type && event.type !== options.type) return false;
-      return true;
-    });
+  }): Promise<ChainedAuditEvent[]> {
+    const events: ChainedAuditEvent[] = [];
+    for await (const event of scanAuditEvents(this.store, options)) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * One page of matching events in sequence order, after the given
+   * sequence number.
+   */
+  async findEvents(filter: AuditEventFilter, afterSequence: number | undefined, limit: number): Promise<ChainedAuditEvent[]> {
+    return this.store.find(filter, { afterSequence, limit });
+  }
+
+  streamEvents(filter: AuditEventFilter): AsyncGenerator<ChainedAuditEvent> {
+    return scanAuditEvents(this.store, filter);
   }
 }
 
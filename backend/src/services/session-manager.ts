@@ -1,128 +1,210 @@
-import { config } from '../config';
+import crypto from 'crypto';
+import { DeviceSummary, Session, SessionDevice, SessionMetadata } from '../types';
+import { MemorySessionStore, SessionStore } from './session-store';
+import { ConflictError } from '../utils/errors';
 import logger from '../utils/logger';
 
-export interface Session {
-  id: string;
-  userId: string;
-  data: Record<string, any>;
-  createdAt: Date;
-  lastAccessedAt: Date;
-  expiresAt: Date;
+// What to do when a user at maxSessions opens another session
+export type SessionEvictionPolicy = 'oldest' | 'least_recently_used' | 'reject';
+
+export interface SessionManagerConfig {
+  // Inactivity after which a session ends
+  idleTimeoutMs: number;
+  // Lifetime from creation, however active the session is
+  absoluteTimeoutMs: number;
+  // Per user; 0 for no limit
+  maxSessions: number;
+  evictionPolicy: SessionEvictionPolicy;
+  cleanupIntervalMs: number;
 }
 
+// The server passes config.session in; these serve tests and tools
+const DEFAULT_CONFIG: SessionManagerConfig = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  absoluteTimeoutMs: 24 * 60 * 60 * 1000,
+  maxSessions: 10,
+  evictionPolicy: 'least_recently_used',
+  cleanupIntervalMs: 60 * 60 * 1000
+};
+
+/**
+ * The one place sessions are created, whether by wallet sign-in or the
+ * /api/session routes. Sessions slide forward on use up to
+ * an absolute lifetime, are capped per user, and remember the device they
+ * were opened from so users can see and sign out their devices.
+ */
 export class SessionManager {
-  private sessions: Map<string, Session>;
-  private cleanupInterval: NodeJS.Timeout;
+  private store: SessionStore;
+  private config: SessionManagerConfig;
+  private cleanupInterval?: NodeJS.Timeout;
 
-  constructor() {
-    this.sessions = new Map();
+  constructor(store: SessionStore = new MemorySessionStore(), sessionConfig: Partial<SessionManagerConfig> = {}) {
+    this.store = store;
+    this.config = { ...DEFAULT_CONFIG, ...sessionConfig };
     this.startCleanupInterval();
   }
 
-  async createSession(userId: string, data: Record<string, any> = {}): Promise<Session> {
+  async createSession(
+    userId: string,
+    data: Record<string, any> = {},
+    metadata: SessionMetadata = {}
+  ): Promise<Session> {
+    await this.enforceSessionLimit(userId);
+
+    const now = new Date();
+    const absoluteExpiresAt = new Date(now.getTime() + this.config.absoluteTimeoutMs);
     const session: Session = {
       id: this.generateSessionId(),
       userId,
       data,
-      createdAt: new Date(),
-      lastAccessedAt: new Date(),
-      expiresAt: new Date(Date.now() + config.session.maxAge)
+      device: deviceFor(metadata),
+      createdAt: now,
+      lastAccessedAt: now,
+      expiresAt: this.slidingExpiry(now, absoluteExpiresAt),
+      absoluteExpiresAt
     };
 
-    this.sessions.set(session.id, session);
+    await this.store.save(session);
     logger.debug(`Created session ${session.id} for user ${userId}`);
     return session;
   }
 
+  // Reads a session without counting it as activity, for checking who may
+  // act on it before anything is touched
+  async peekSession(sessionId: string): Promise<Session | null> {
+    return this.store.get(sessionId);
+  }
+
+  // Looking a session up counts as activity and pushes its expiry out
   async getSession(sessionId: string): Promise<Session | null> {
-    const session = this.sessions.get(sessionId);
-    
+    const session = await this.store.get(sessionId);
     if (!session) {
       return null;
     }
 
-    if (this.isExpired(session)) {
-      await this.destroySession(sessionId);
-      return null;
-    }
-
-    session.lastAccessedAt = new Date();
+    const now = new Date();
+    session.lastAccessedAt = now;
+    session.expiresAt = this.slidingExpiry(now, session.absoluteExpiresAt);
+    await this.store.save(session);
     return session;
   }
 
   async updateSession(sessionId: string, data: Partial<Record<string, any>>): Promise<Session | null> {
     const session = await this.getSession(sessionId);
-    
     if (!session) {
       return null;
     }
 
     session.data = { ...session.data, ...data };
-    session.lastAccessedAt = new Date();
-    this.sessions.set(sessionId, session);
-
+    await this.store.save(session);
     return session;
   }
 
   async destroySession(sessionId: string): Promise<void> {
-    if (this.sessions.has(sessionId)) {
-      this.sessions.delete(sessionId);
+    if (await this.store.delete(sessionId)) {
       logger.debug(`Destroyed session ${sessionId}`);
     }
   }
 
   async getUserSessions(userId: string): Promise<Session[]> {
-    const userSessions: Session[] = [];
-    
-    for (const session of this.sessions.values()) {
-      if (session.userId === userId && !this.isExpired(session)) {
-        userSessions.push(session);
+    const sessions = await this.store.listByUser(userId);
+    return sessions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async destroyUserSessions(userId: string): Promise<void> {
+    const sessions = await this.store.listByUser(userId);
+    await Promise.all(sessions.map(session => this.store.delete(session.id)));
+    logger.debug(`Destroyed all sessions for user ${userId}`);
+  }
+
+  // Most recently used first
+  async listDevices(userId: string): Promise<DeviceSummary[]> {
+    const devices = new Map<string, DeviceSummary>();
+
+    for (const session of await this.getUserSessions(userId)) {
+      const device = devices.get(session.device.fingerprint);
+      if (!device) {
+        const { fingerprint, deviceId, userAgent, ipAddress } = session.device;
+        devices.set(fingerprint, {
+          fingerprint,
+          deviceId,
+          userAgent,
+          ipAddress,
+          firstSeenAt: session.createdAt,
+          lastSeenAt: session.lastAccessedAt,
+          sessionIds: [session.id]
+        });
+        continue;
+      }
+
+      device.sessionIds.push(session.id);
+      if (session.lastAccessedAt > device.lastSeenAt) {
+        device.lastSeenAt = session.lastAccessedAt;
+        device.ipAddress = session.device.ipAddress;
       }
     }
 
-    return userSessions;
+    return Array.from(devices.values()).sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
   }
 
-  async destroyUserSessions(userId: string): Promise<void> {
-    const sessions = await this.getUserSessions(userId);
-    
-    for (const session of sessions) {
-      await this.destroySession(session.id);
+  // Ends every session of the user's on that device; returns how many
+  async revokeDevice(userId: string, fingerprint: string): Promise<number> {
+    const sessions = (await this.store.listByUser(userId))
+      .filter(session => session.device.fingerprint === fingerprint);
+    await Promise.all(sessions.map(session => this.store.delete(session.id)));
+
+    if (sessions.length > 0) {
+      logger.debug(`Revoked device ${fingerprint} (${sessions.length} sessions) for user ${userId}`);
     }
+    return sessions.length;
+  }
 
-    logger.debug(`Destroyed all sessions for user ${userId}`);
+  private async enforceSessionLimit(userId: string): Promise<void> {
+    if (this.config.maxSessions <= 0) {
+      return;
+    }
+
+    const sessions = await this.store.listByUser(userId);
+    if (sessions.length < this.config.maxSessions) {
+      return;
+    }
+    if (this.config.evictionPolicy === 'reject') {
+      throw new ConflictError('Session limit reached, sign out of another device first');
+    }
+
+    const field = this.config.evictionPolicy === 'oldest' ? 'createdAt' : 'lastAccessedAt';
+    const evicted = sessions
+      .sort((a, b) => a[field].getTime() - b[field].getTime())
+      .slice(0, sessions.length - this.config.maxSessions + 1);
+
+    for (const session of evicted) {
+      await this.store.delete(session.id);
+      logger.debug(`Evicted session ${session.id} of user ${userId} (${this.config.evictionPolicy})`);
+    }
+  }
+
+  private slidingExpiry(now: Date, absoluteExpiresAt: Date): Date {
+    return new Date(Math.min(now.getTime() + this.config.idleTimeoutMs, absoluteExpiresAt.getTime()));
   }
 
   private startCleanupInterval(): void {
     this.cleanupInterval = setInterval(
       () => this.cleanup(),
-      config.session.cleanupInterval
+      this.config.cleanupIntervalMs
     );
   }
 
   private async cleanup(): Promise<void> {
-    const now = new Date();
-    const expiredSessions: string[] = [];
-
-    for (const [sessionId, session] of this.sessions) {
-      if (this.isExpired(session)) {
-        expiredSessions.push(sessionId);
+    try {
+      const purged = await this.store.purgeExpired();
+      if (purged > 0) {
+        logger.debug(`Cleaned up ${purged} expired sessions`);
       }
-    }
-
-    for (const sessionId of expiredSessions) {
-      await this.destroySession(sessionId);
-    }
-
-    if (expiredSessions.length > 0) {
-      logger.debug(`Cleaned up ${expiredSessions.length} expired sessions`);
+    } catch (error) {
+      logger.error('Session cleanup failed:', error);
     }
   }
 
-  private isExpired(session: Session): boolean {
-    return session.expiresAt <= new Date();
-  }
-
   private generateSessionId(): string {
     return crypto.randomUUID();
   }
@@ -132,4 +214,17 @@ export class SessionManager {
       clearInterval(this.cleanupInterval);
     }
   }
-}
\ No newline at end of file
+}
+
+// Keyed on the client's device id when it sends one. The user agent is the
+// fallback; the IP is recorded but left out, since it changes as a laptop
+// or phone moves between networks.
+function deviceFor(metadata: SessionMetadata): SessionDevice {
+  const source = metadata.deviceId ? `device:${metadata.deviceId}` : `ua:${metadata.userAgent ?? 'unknown'}`;
+  return {
+    fingerprint: crypto.createHash('sha256').update(source).digest('hex').slice(0, 32),
+    deviceId: metadata.deviceId,
+    userAgent: metadata.userAgent,
+    ipAddress: metadata.ipAddress
+  };
+}
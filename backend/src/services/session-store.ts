@@ -0,0 +1,76 @@
+import { Session } from '../types';
+
+/**
+ * Where sessions live. Shared between replicas so a session created on one
+ * is visible (and revocable) on all of them. Stores drop a session once its
+ * expiresAt has passed.
+ */
+export interface SessionStore {
+  // Creates or replaces the session
+  save(session: Session): Promise<void>;
+  get(sessionId: string): Promise<Session | null>;
+  delete(sessionId: string): Promise<boolean>;
+  listByUser(userId: string): Promise<Session[]>;
+  // Removes expired sessions; stores with native expiry can return 0
+  purgeExpired(): Promise<number>;
+}
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+  private userSessions = new Map<string, Set<string>>();
+
+  async save(session: Session): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+    if (!this.userSessions.has(session.userId)) {
+      this.userSessions.set(session.userId, new Set());
+    }
+    this.userSessions.get(session.userId)!.add(session.id);
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await this.delete(sessionId);
+      return null;
+    }
+    return { ...session };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    this.sessions.delete(sessionId);
+    this.userSessions.get(session.userId)?.delete(sessionId);
+    if (this.userSessions.get(session.userId)?.size === 0) {
+      this.userSessions.delete(session.userId);
+    }
+    return true;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessions: Session[] = [];
+    for (const sessionId of Array.from(this.userSessions.get(userId) ?? [])) {
+      const session = await this.get(sessionId);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [sessionId, session] of Array.from(this.sessions)) {
+      if (session.expiresAt.getTime() <= now && await this.delete(sessionId)) {
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
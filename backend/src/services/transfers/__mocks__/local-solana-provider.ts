@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { encodeBase58 } from '../../../utils/crypto';
+import {
+  SolanaCommitment,
+  SolanaRpcProvider,
+  SolanaSignatureStatus,
+  SolanaTokenBalance,
+  SolanaTransaction
+} from '../solana-rpc-provider';
+
+// In-memory Solana cluster for testing. Tracks SPL token balances per
+// owner and records the pre/post balances of every transfer.
+export class LocalSolanaProvider implements SolanaRpcProvider {
+  private slot = 0;
+  private balances: Map<string, bigint> = new Map();
+  private transactions: Map<string, SolanaTransaction> = new Map();
+  private statuses: Map<string, SolanaSignatureStatus> = new Map();
+
+  mint(mint: string, owner: string, amount: bigint = BigInt(1)): void {
+    const key = `${mint}:${owner}`;
+    this.balances.set(key, (this.balances.get(key) ?? BigInt(0)) + amount);
+  }
+
+  transfer(tx: {
+    mint: string;
+    from: string;
+    to: string;
+    amount?: bigint;
+    failed?: boolean;
+    commitment?: SolanaCommitment;
+  }): string {
+    const signature = encodeBase58(crypto.randomBytes(64));
+    const amount = tx.amount ?? BigInt(1);
+    const owners = [tx.from, tx.to];
+    const preTokenBalances = owners.map((owner, i) => this.balanceOf(tx.mint, owner, i));
+
+    if (!tx.failed) {
+      this.mint(tx.mint, tx.from, -amount);
+      this.mint(tx.mint, tx.to, amount);
+    }
+
+    const postTokenBalances = owners.map((owner, i) => this.balanceOf(tx.mint, owner, i));
+    const slot = ++this.slot;
+
+    this.transactions.set(signature, {
+      signature,
+      slot,
+      failed: !!tx.failed,
+      preTokenBalances,
+      postTokenBalances
+    });
+    this.statuses.set(signature, {
+      slot,
+      confirmationStatus: tx.commitment ?? 'finalized',
+      failed: !!tx.failed
+    });
+
+    return signature;
+  }
+
+  async getTransaction(signature: string): Promise<SolanaTransaction | null> {
+    return this.transactions.get(signature) ?? null;
+  }
+
+  async getSignatureStatus(signature: string): Promise<SolanaSignatureStatus | null> {
+    return this.statuses.get(signature) ?? null;
+  }
+
+  private balanceOf(mint: string, owner: string, accountIndex: number): SolanaTokenBalance {
+    return {
+      accountIndex,
+      mint,
+      owner,
+      amount: this.balances.get(`${mint}:${owner}`) ?? BigInt(0)
+    };
+  }
+}
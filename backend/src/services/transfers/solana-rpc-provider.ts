@@ -0,0 +1,117 @@
+import { ApiService } from '../api.service';
+import logger from '../../utils/logger';
+
+export type SolanaCommitment = 'processed' | 'confirmed' | 'finalized';
+
+export interface SolanaTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner: string;
+  amount: bigint;
+}
+
+export interface SolanaTransaction {
+  signature: string;
+  slot: number;
+  failed: boolean;
+  preTokenBalances: SolanaTokenBalance[];
+  postTokenBalances: SolanaTokenBalance[];
+}
+
+export interface SolanaSignatureStatus {
+  slot: number;
+  confirmationStatus: SolanaCommitment | null;
+  failed: boolean;
+}
+
+/**
+ * Minimal read-only view of a Solana cluster, enough to see how a
+ * transaction moved SPL token balances.
+ */
+export interface SolanaRpcProvider {
+  getTransaction(signature: string): Promise<SolanaTransaction | null>;
+  getSignatureStatus(signature: string): Promise<SolanaSignatureStatus | null>;
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export class JsonRpcSolanaProvider extends ApiService implements SolanaRpcProvider {
+  private requestId = 0;
+
+  constructor(rpcUrl: string, timeout: number = 10000) {
+    super({
+      baseURL: rpcUrl,
+      timeout,
+      retries: 3,
+      retryDelay: 500
+    });
+  }
+
+  async getTransaction(signature: string): Promise<SolanaTransaction | null> {
+    const tx = await this.call<any>('getTransaction', [
+      signature,
+      { encoding: 'json', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+    ]);
+    if (!tx) {
+      return null;
+    }
+
+    return {
+      signature,
+      slot: tx.slot,
+      failed: tx.meta?.err != null,
+      preTokenBalances: (tx.meta?.preTokenBalances || []).map(toTokenBalance),
+      postTokenBalances: (tx.meta?.postTokenBalances || []).map(toTokenBalance)
+    };
+  }
+
+  async getSignatureStatus(signature: string): Promise<SolanaSignatureStatus | null> {
+    const response = await this.call<{ value: any[] }>('getSignatureStatuses', [
+      [signature],
+      { searchTransactionHistory: true }
+    ]);
+    const status = response?.value?.[0];
+    if (!status) {
+      return null;
+    }
+
+    return {
+      slot: status.slot,
+      confirmationStatus: status.confirmationStatus ?? null,
+      failed: status.err != null
+    };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.post<JsonRpcResponse<T>>('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params
+    });
+
+    if (response.data.error) {
+      logger.error(`Solana RPC ${method} failed:`, response.data.error);
+      throw new Error(`JSON-RPC error ${response.data.error.code}: ${response.data.error.message}`);
+    }
+
+    return response.data.result as T;
+  }
+}
+
+function toTokenBalance(balance: any): SolanaTokenBalance {
+  return {
+    accountIndex: balance.accountIndex,
+    mint: balance.mint,
+    owner: balance.owner,
+    amount: BigInt(balance.uiTokenAmount.amount)
+  };
+}
@@ -0,0 +1,66 @@
+import { ConflictError } from '../../utils/errors';
+
+export type TransferRequestStatus =
+  | 'PENDING'
+  | 'ACCEPTED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'EXPIRED';
+
+export type TransferRequestEvent = 'ACCEPT' | 'CONFIRM' | 'CANCEL' | 'EXPIRE';
+
+// PENDING: owner initiated, waiting for the recipient's signed acceptance.
+// ACCEPTED: both sides agreed, waiting for the on-chain transfer.
+const TRANSITIONS: Record<TransferRequestStatus, Partial<Record<TransferRequestEvent, TransferRequestStatus>>> = {
+  PENDING: {
+    ACCEPT: 'ACCEPTED',
+    CANCEL: 'CANCELLED',
+    EXPIRE: 'EXPIRED'
+  },
+  ACCEPTED: {
+    CONFIRM: 'COMPLETED',
+    CANCEL: 'CANCELLED',
+    EXPIRE: 'EXPIRED'
+  },
+  COMPLETED: {},
+  CANCELLED: {},
+  EXPIRED: {}
+};
+
+export const OPEN_TRANSFER_STATUSES: TransferRequestStatus[] = ['PENDING', 'ACCEPTED'];
+
+export function nextTransferStatus(
+  status: TransferRequestStatus,
+  event: TransferRequestEvent
+): TransferRequestStatus {
+  const next = TRANSITIONS[status]?.[event];
+  if (!next) {
+    throw new ConflictError(`Cannot ${event.toLowerCase()} a transfer request that is ${status.toLowerCase()}`);
+  }
+  return next;
+}
+
+export type TransferAction = 'initiate' | 'accept' | 'cancel';
+
+export interface TransferAuthorization {
+  action: TransferAction;
+  agentAddress: string;
+  fromAddress: string;
+  toAddress: string;
+  // Client nonce when initiating, request id afterwards
+  nonce: string;
+}
+
+/**
+ * The exact text a wallet signs to initiate, accept or cancel a transfer.
+ */
+export function buildTransferMessage(authorization: TransferAuthorization): string {
+  return [
+    'Agent Launchpad ownership transfer',
+    `Action: ${authorization.action}`,
+    `Agent: ${authorization.agentAddress}`,
+    `From: ${authorization.fromAddress}`,
+    `To: ${authorization.toAddress}`,
+    `Nonce: ${authorization.nonce}`
+  ].join('\n');
+}
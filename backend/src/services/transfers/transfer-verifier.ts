@@ -0,0 +1,120 @@
+import { SolanaCommitment, SolanaRpcProvider, SolanaTokenBalance } from './solana-rpc-provider';
+
+export interface TransferVerifierConfig {
+  commitment: 'confirmed' | 'finalized';
+}
+
+export type TransferRejectionCode =
+  | 'TX_NOT_FOUND'
+  | 'TX_FAILED'
+  | 'NOT_CONFIRMED'
+  | 'NO_TOKEN_MOVEMENT'
+  | 'WRONG_SENDER'
+  | 'WRONG_RECIPIENT';
+
+export interface TransferRejectionReason {
+  code: TransferRejectionCode;
+  message: string;
+}
+
+export interface TransferVerdict {
+  verified: boolean;
+  signature: string;
+  slot?: number;
+  amount?: string;
+  reasons: TransferRejectionReason[];
+}
+
+export interface ExpectedTransfer {
+  mint: string;
+  fromAddress: string;
+  toAddress: string;
+}
+
+const COMMITMENT_RANK: Record<SolanaCommitment, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2
+};
+
+export class TransferVerifier {
+  private provider: SolanaRpcProvider;
+  private config: TransferVerifierConfig;
+
+  constructor(provider: SolanaRpcProvider, config: TransferVerifierConfig) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  /**
+   * Check that a transaction moved the agent's token out of the sender's
+   * wallet and into the recipient's, and has reached the configured
+   * commitment level.
+   */
+  async verify(signature: string, expected: ExpectedTransfer): Promise<TransferVerdict> {
+    const reasons: TransferRejectionReason[] = [];
+
+    const tx = await this.provider.getTransaction(signature);
+    if (!tx) {
+      return { verified: false, signature, reasons: [{ code: 'TX_NOT_FOUND', message: 'Transaction not found' }] };
+    }
+
+    if (tx.failed) {
+      reasons.push({ code: 'TX_FAILED', message: 'Transaction failed on chain' });
+    }
+
+    const status = await this.provider.getSignatureStatus(signature);
+    const reached = status?.confirmationStatus ? COMMITMENT_RANK[status.confirmationStatus] : -1;
+    if (reached < COMMITMENT_RANK[this.config.commitment]) {
+      reasons.push({
+        code: 'NOT_CONFIRMED',
+        message: `Transaction is ${status?.confirmationStatus || 'unknown'}, need ${this.config.commitment}`
+      });
+    }
+
+    const deltas = balanceDeltas(tx.preTokenBalances, tx.postTokenBalances, expected.mint);
+    const moved = [...deltas.values()].some(delta => delta !== BigInt(0));
+    const sent = -(deltas.get(expected.fromAddress) ?? BigInt(0));
+    const received = deltas.get(expected.toAddress) ?? BigInt(0);
+
+    if (!moved) {
+      reasons.push({ code: 'NO_TOKEN_MOVEMENT', message: 'Transaction does not move the agent token' });
+    } else {
+      if (sent <= BigInt(0)) {
+        reasons.push({ code: 'WRONG_SENDER', message: `Agent token did not leave ${expected.fromAddress}` });
+      }
+      if (received <= BigInt(0)) {
+        reasons.push({ code: 'WRONG_RECIPIENT', message: `Agent token did not arrive at ${expected.toAddress}` });
+      }
+    }
+
+    return {
+      verified: reasons.length === 0,
+      signature,
+      slot: tx.slot,
+      amount: received > BigInt(0) ? received.toString() : undefined,
+      reasons
+    };
+  }
+}
+
+// Net change per owner for one mint. An owner can hold several token
+// accounts, so balances are summed before comparing.
+function balanceDeltas(
+  pre: SolanaTokenBalance[],
+  post: SolanaTokenBalance[],
+  mint: string
+): Map<string, bigint> {
+  const deltas = new Map<string, bigint>();
+
+  for (const balance of post) {
+    if (balance.mint !== mint) continue;
+    deltas.set(balance.owner, (deltas.get(balance.owner) ?? BigInt(0)) + balance.amount);
+  }
+  for (const balance of pre) {
+    if (balance.mint !== mint) continue;
+    deltas.set(balance.owner, (deltas.get(balance.owner) ?? BigInt(0)) - balance.amount);
+  }
+
+  return deltas;
+}
@@ -0,0 +1,71 @@
+import { AuthorizationError, ConflictError } from '../../utils/errors';
+
+export type ReviewDecision = 'APPROVE' | 'REJECT';
+
+export interface ReviewEvidence {
+  type: string;
+  url?: string;
+  description: string;
+}
+
+export interface VerificationReviewRecord {
+  reviewerId: string;
+  decision: ReviewDecision;
+}
+
+export interface ReviewClaim {
+  claimedBy: string | null;
+  claimedAt: Date | null;
+}
+
+export interface ReviewPolicy {
+  requiredApprovals: number;
+  claimTtlMs: number;
+}
+
+export type ReviewOutcome = 'VERIFIED' | 'REJECTED' | null;
+
+/**
+ * Decide whether a pending agent is finished. One rejection is enough to
+ * reject; verification needs approvals from distinct reviewers.
+ */
+export function evaluateReviews(reviews: VerificationReviewRecord[], policy: ReviewPolicy): ReviewOutcome {
+  if (reviews.some(review => review.decision === 'REJECT')) {
+    return 'REJECTED';
+  }
+
+  const approvers = new Set(
+    reviews.filter(review => review.decision === 'APPROVE').map(review => review.reviewerId)
+  );
+  return approvers.size >= policy.requiredApprovals ? 'VERIFIED' : null;
+}
+
+export function isClaimActive(claim: ReviewClaim, policy: ReviewPolicy, now: Date = new Date()): boolean {
+  return !!claim.claimedBy && !!claim.claimedAt &&
+    now.getTime() - claim.claimedAt.getTime() < policy.claimTtlMs;
+}
+
+/**
+ * Throws unless the reviewer may take the claim. A stale claim can be
+ * taken over, and a reviewer who already decided cannot claim again, so
+ * the second approval always comes from someone else.
+ */
+export function assertCanClaim(
+  reviewerId: string,
+  claim: ReviewClaim,
+  reviews: VerificationReviewRecord[],
+  policy: ReviewPolicy
+): void {
+  if (isClaimActive(claim, policy) && claim.claimedBy !== reviewerId) {
+    throw new ConflictError(`Review is claimed by ${claim.claimedBy}`);
+  }
+  if (reviews.some(review => review.reviewerId === reviewerId)) {
+    throw new ConflictError('You have already reviewed this agent');
+  }
+}
+
+export function assertHoldsClaim(reviewerId: string, claim: ReviewClaim, policy: ReviewPolicy): void {
+  if (!isClaimActive(claim, policy) || claim.claimedBy !== reviewerId) {
+    throw new AuthorizationError('Claim the review before deciding');
+  }
+}
@@ -7,26 +7,38 @@ export interface ApiServiceConfig {
 }
 
 // Session Types
-export interface SessionConfig {
-  maxSessions?: number;
-  sessionTimeout?: number;
-  inactivityTimeout?: number;
-  cleanupInterval?: number;
+export interface SessionMetadata {
+  deviceId?: string;
+  userAgent?: string;
+  ipAddress?: string;
 }
 
-export interface SessionMetadata {
-  deviceId: string;
-  userAgent: string;
-  ipAddress: string;
+export interface SessionDevice extends SessionMetadata {
+  // Hash of the device id, or of the user agent when the client sends none
+  fingerprint: string;
 }
 
 export interface Session {
   id: string;
   userId: string;
+  data: Record<string, any>;
+  device: SessionDevice;
   createdAt: Date;
   lastAccessedAt: Date;
+  // Slides forward on every access but never past absoluteExpiresAt
   expiresAt: Date;
-  metadata: SessionMetadata;
+  absoluteExpiresAt: Date;
+}
+
+// A user's sessions grouped by device fingerprint
+export interface DeviceSummary {
+  fingerprint: string;
+  deviceId?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  sessionIds: string[];
 }
 
 // Token Types
@@ -97,8 +109,9 @@ export interface AuditMetrics {
   };
 }
 
-// Metric Types
-export type MetricType = 
+// Metric Types. The built-in ones are always accepted; operators register
+// others at runtime through the metric type registry.
+export type BuiltinMetricType =
   | 'cpu_usage'
   | 'memory_usage'
   | 'disk_usage'
@@ -109,6 +122,8 @@ export type MetricType =
   | 'active_users'
   | 'transaction_volume';
 
+export type MetricType = string;
+
 export interface Metric {
   id: string;
   type: MetricType;
@@ -0,0 +1,101 @@
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Decode one CBOR item (RFC 8949) starting at offset and return it with the
+ * offset just past it. Covers what WebAuthn attestation objects and COSE
+ * keys use: integers, byte and text strings, arrays, maps, tags and simple
+ * values. Maps decode to Map because COSE keys are integers.
+ */
+export function decodeCbor(data: Buffer, offset: number = 0): { value: CborValue; offset: number } {
+  if (offset >= data.length) {
+    throw new CborError('Unexpected end of input');
+  }
+
+  const initial = data[offset];
+  const major = initial >> 5;
+  const { length, offset: next } = readArgument(data, offset + 1, initial & 0x1f);
+
+  switch (major) {
+    case 0:
+      return { value: length, offset: next };
+    case 1:
+      return { value: -1 - length, offset: next };
+    case 2:
+      return { value: slice(data, next, length), offset: next + length };
+    case 3:
+      return { value: slice(data, next, length).toString('utf8'), offset: next + length };
+    case 4: {
+      const items: CborValue[] = [];
+      let position = next;
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(data, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let position = next;
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(data, position);
+        const value = decodeCbor(data, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    case 6:
+      // Tags only annotate the next item
+      return decodeCbor(data, next);
+    default:
+      return { value: simpleValue(initial & 0x1f), offset: next };
+  }
+}
+
+function readArgument(data: Buffer, offset: number, info: number): { length: number; offset: number } {
+  if (info < 24) {
+    return { length: info, offset };
+  }
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) {
+    throw new CborError('Indefinite lengths are not supported');
+  }
+  if (offset + size > data.length) {
+    throw new CborError('Unexpected end of input');
+  }
+  const value = size === 8 ? Number(data.readBigUInt64BE(offset)) : data.readUIntBE(offset, size);
+  return { length: value, offset: offset + size };
+}
+
+function slice(data: Buffer, offset: number, length: number): Buffer {
+  if (offset + length > data.length) {
+    throw new CborError('Unexpected end of input');
+  }
+  return data.subarray(offset, offset + length);
+}
+
+function simpleValue(info: number): CborValue {
+  switch (info) {
+    case 20: return false;
+    case 21: return true;
+    case 22: return null;
+    case 23: return undefined;
+    default: throw new CborError(`Unsupported simple value ${info}`);
+  }
+}
@@ -31,6 +31,64 @@ export async function generateSecureToken(length: number = 32): Promise<string>
   return bytes.toString('base64').replace(/[+/=]/g, '');
 }
 
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export function decodeBase58(value: string): Buffer {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Leading '1's encode leading zero bytes
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
+
+export function encodeBase58(data: Buffer): string {
+  const digits: number[] = [];
+
+  for (const byte of data) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let leading = '';
+  for (const byte of data) {
+    if (byte !== 0) break;
+    leading += '1';
+  }
+
+  return leading + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
 export function encryptData(data: string, key: string): string {
   const iv = crypto.randomBytes(16);
   const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(key, 'hex'), iv);
@@ -0,0 +1,30 @@
+// Agent metadata a caller with agent:update may change. Ownership
+// (creator) and verification state have their own flows.
+export const AGENT_METADATA_FIELDS = ['name', 'symbol', 'description', 'imageUrl', 'externalUrl', 'attributes'] as const;
+
+// Agent function settings a caller with function:manage may change. The
+// agent it belongs to is fixed at registration.
+export const AGENT_FUNCTION_FIELDS = [
+  'description',
+  'inputSchema',
+  'outputSchema',
+  'category',
+  'version',
+  'kind',
+  'handler'
+] as const;
+
+// Copy only the listed fields that are present, so request bodies cannot
+// write columns a route never meant to expose
+export function pickFields<K extends string>(source: any, fields: readonly K[]): Partial<Record<K, any>> {
+  const picked: Partial<Record<K, any>> = {};
+  if (!source || typeof source !== 'object') {
+    return picked;
+  }
+  for (const field of fields) {
+    if (Object.prototype.hasOwnProperty.call(source, field)) {
+      picked[field] = source[field];
+    }
+  }
+  return picked;
+}
@@ -1,5 +1,3 @@
-import { ValidationError } from '../types';
-
 export class AppError extends Error {
   constructor(
     public statusCode: number,
@@ -55,9 +53,46 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class AccountLockedError extends AppError {
+  constructor(public retryAfterSeconds: number) {
+    super(429, 'Too many failed login attempts, try again later', true, { retryAfter: retryAfterSeconds });
+    Object.setPrototypeOf(this, AccountLockedError.prototype);
+  }
+}
+
+// The client must solve `challenge` and send the solution with its next attempt
+export class ChallengeRequiredError extends AppError {
+  constructor(challenge: Record<string, any>, message: string = 'Challenge required') {
+    super(428, message, true, { challenge });
+    Object.setPrototypeOf(this, ChallengeRequiredError.prototype);
+  }
+}
+
 export class ServerError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(500, message, false);
     Object.setPrototypeOf(this, ServerError.prototype);
   }
 }
+
+export class FunctionExecutionError extends AppError {
+  constructor(message: string, details?: any) {
+    super(502, message, true, details);
+    Object.setPrototypeOf(this, FunctionExecutionError.prototype);
+  }
+}
+
+export class FunctionTimeoutError extends AppError {
+  constructor(message: string = 'Function execution timed out') {
+    super(504, message, true);
+    Object.setPrototypeOf(this, FunctionTimeoutError.prototype);
+  }
+}
+
+// A metrics query that doesn't parse or can't be evaluated; `position` is the offset in the query text
+export class QueryError extends AppError {
+  constructor(message: string, position?: number) {
+    super(400, message, true, position !== undefined ? { position } : undefined);
+    Object.setPrototypeOf(this, QueryError.prototype);
+  }
+}
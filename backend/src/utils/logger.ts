@@ -1,7 +1,8 @@
 import winston from 'winston';
+import { config } from '../config';
 
 const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
+  level: config.logLevel,
   format: winston.format.combine(
     winston.format.timestamp(),
     winston.format.json()
@@ -0,0 +1,28 @@
+import { Request, Response } from 'express';
+
+// RFC 7807 problem details
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: any;
+}
+
+export function sendProblem(
+  req: Request,
+  res: Response,
+  problem: ProblemDetails
+) {
+  const body: ProblemDetails = {
+    ...problem,
+    type: `/problems/${problem.type}`,
+    instance: problem.instance || req.originalUrl
+  };
+
+  return res
+    .status(problem.status)
+    .type('application/problem+json')
+    .send(JSON.stringify(body));
+}
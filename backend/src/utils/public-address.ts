@@ -0,0 +1,86 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, RFC1918, link-local (cloud metadata lives at 169.254.169.254),
+// carrier-grade NAT, unique-local and the unspecified/reserved blocks
+const PRIVATE_RANGES = new net.BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against
+// the IPv4 ranges, so those need no separate entry
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export type AddressResolver = (hostname: string) => Promise<string[]>;
+
+export const resolveAddresses: AddressResolver = async hostname => {
+  const results = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  return results.map(result => result.address);
+};
+
+/**
+ * Resolve a URL's host and list what is wrong with it as an outbound target,
+ * empty when every address it resolves to is public. A host that does not
+ * resolve is reported rather than thrown.
+ */
+export async function checkPublicHost(
+  url: URL,
+  resolve: AddressResolver = resolveAddresses
+): Promise<string[]> {
+  // URL keeps the brackets around IPv6 literals
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(hostname);
+  } catch {
+    return [`${hostname} does not resolve`];
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return [`${hostname} resolves to a private or reserved address`];
+  }
+  return [];
+}
+
+/**
+ * dns.lookup for http(s).Agent that refuses private addresses. Checking at
+ * connect time means a host cannot pass the pre-flight check and then
+ * re-resolve to an internal address (DNS rebinding).
+ */
+export function publicOnlyLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, verbatim: true }, (error, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) {
+      return callback(error, address, family);
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (!addresses.every(isPublicAddress)) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private or reserved address`);
+      refused.code = 'EPRIVATEADDRESS';
+      return callback(refused, address, family);
+    }
+    callback(null, address, family);
+  });
+}
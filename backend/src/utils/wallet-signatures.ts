@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { verifyMessage, verifyTypedData, TypedDataDomain, TypedDataField } from 'ethers';
+import { decodeBase58 } from './crypto';
+import logger from './logger';
+
+export type WalletChain = 'ethereum' | 'solana';
+
+const ETHEREUM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function detectWalletChain(address: string): WalletChain | null {
+  if (ETHEREUM_ADDRESS.test(address)) {
+    return 'ethereum';
+  }
+  if (SOLANA_ADDRESS.test(address)) {
+    return 'solana';
+  }
+  return null;
+}
+
+// Ethereum addresses compare case-insensitively, Solana addresses exactly
+export function normalizeWalletAddress(address: string): string {
+  return detectWalletChain(address) === 'ethereum' ? address.toLowerCase() : address;
+}
+
+/**
+ * Verify a personal_sign (EIP-191) signature from an Ethereum wallet.
+ */
+export function verifyEthereumMessage(address: string, message: string, signature: string): boolean {
+  try {
+    return verifyMessage(message, signature).toLowerCase() === address.toLowerCase();
+  } catch (error) {
+    logger.debug('Invalid EIP-191 signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Verify an eth_signTypedData_v4 (EIP-712) signature.
+ */
+export function verifyEthereumTypedData(
+  address: string,
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, any>,
+  signature: string
+): boolean {
+  try {
+    return verifyTypedData(domain, types, value, signature).toLowerCase() === address.toLowerCase();
+  } catch (error) {
+    logger.debug('Invalid EIP-712 signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Verify an ed25519 signMessage signature from a Solana wallet. Both the
+ * address and the signature are base58 encoded, as wallet adapters emit them.
+ */
+export function verifySolanaMessage(address: string, message: string, signature: string): boolean {
+  try {
+    const publicKey = decodeBase58(address);
+    const signatureBytes = decodeBase58(signature);
+    if (publicKey.length !== 32 || signatureBytes.length !== 64) {
+      return false;
+    }
+
+    const key = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: publicKey.toString('base64url') },
+      format: 'jwk'
+    });
+
+    return crypto.verify(null, Buffer.from(message, 'utf8'), key, signatureBytes);
+  } catch (error) {
+    logger.debug('Invalid ed25519 signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Verify a plain signed message from either kind of wallet, picking the
+ * scheme from the address format.
+ */
+export function verifyWalletMessage(address: string, message: string, signature: string): boolean {
+  switch (detectWalletChain(address)) {
+    case 'ethereum':
+      return verifyEthereumMessage(address, message, signature);
+    case 'solana':
+      return verifySolanaMessage(address, message, signature);
+    default:
+      return false;
+  }
+}
@@ -53,7 +53,7 @@ const AgentAnalytics: React.FC<AgentAnalyticsProps> = ({
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/analytics/${agentAddress}?period=all`);
+      const response = await fetch(`/api/v1/agents/analytics/${agentAddress}?period=all`);
       if (!response.ok) {
         throw new Error('Failed to load analytics');
       }
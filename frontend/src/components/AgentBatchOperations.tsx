@@ -123,7 +123,7 @@ const AgentBatchOperations: React.FC<AgentBatchOperationsProps> = ({
         const agent = agents[i];
         
         try {
-          const response = await fetch('/api/agents/batch/create', {
+          const response = await fetch('/api/v1/agents/batch/create', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -33,7 +33,7 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ creatorAddress, onClose
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch(`/api/agents/creator/${creatorAddress}`);
+      const response = await fetch(`/api/v1/agents/creator/${creatorAddress}`);
       if (!response.ok) {
         throw new Error('Failed to fetch agents');
       }
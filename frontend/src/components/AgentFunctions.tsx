@@ -18,6 +18,11 @@ interface AgentFunction {
   createdAt: string;
 }
 
+interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
 interface ExecutionHistory {
   id: string;
   status: string;
@@ -43,6 +48,7 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
   const [loading, setLoading] = useState(true);
   const [executing, setExecuting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({});
   const [activeTab, setActiveTab] = useState<'functions' | 'history'>('functions');
 
   useEffect(() => {
@@ -60,7 +66,7 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/${agentAddress}/functions`);
+      const response = await fetch(`/api/v1/agents/${agentAddress}/functions`);
       if (!response.ok) {
         throw new Error('Failed to load functions');
       }
@@ -81,7 +87,7 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
 
   const loadExecutionHistory = async (functionId: string) => {
     try {
-      const response = await fetch(`/api/agents/execution-history/${functionId}`);
+      const response = await fetch(`/api/v1/agents/execution-history/${functionId}`);
       if (!response.ok) {
         throw new Error('Failed to load execution history');
       }
@@ -108,8 +114,9 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
     try {
       setExecuting(true);
       setError(null);
+      setFieldErrors({});
 
-      const response = await fetch(`/api/agents/execute-function/${selectedFunction.id}`, {
+      const response = await fetch(`/api/v1/agents/execute-function/${selectedFunction.id}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -120,6 +127,12 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
         }),
       });
 
+      if (response.headers.get('Content-Type')?.includes('application/problem+json')) {
+        const problem = await response.json();
+        setFieldErrors(groupViolations(problem.errors || []));
+        throw new Error(problem.title || 'Failed to execute function');
+      }
+
       if (!response.ok) {
         throw new Error('Failed to execute function');
       }
@@ -150,41 +163,91 @@ const AgentFunctions: React.FC<AgentFunctionsProps> = ({
     }
   };
 
+  const groupViolations = (violations: SchemaViolation[]) => {
+    return violations.reduce<Record<string, string[]>>((acc, violation) => {
+      // "/query" -> "query"; root-level errors are keyed by ""
+      const key = violation.path.split('/')[1] || '';
+      acc[key] = [...(acc[key] || []), violation.message];
+      return acc;
+    }, {});
+  };
+
   const renderInputForm = () => {
     if (!selectedFunction) return null;
 
     const schema = selectedFunction.inputSchema;
-    return Object.entries(schema.properties || {}).map(([key, prop]: [string, any]) => (
-      <div key={key} className="input-group">
-        <label>{key}</label>
-        {prop.type === 'string' && (
-          <input
-            type="text"
-            value={functionInputs[key] || ''}
-            onChange={(e) => handleInputChange(key, e.target.value)}
-            placeholder={prop.description}
-          />
-        )}
-        {prop.type === 'number' && (
-          <input
-            type="number"
-            value={functionInputs[key] || ''}
-            onChange={(e) => handleInputChange(key, parseFloat(e.target.value))}
-            placeholder={prop.description}
-          />
-        )}
-        {prop.type === 'boolean' && (
-          <select
-            value={functionInputs[key] || ''}
-            onChange={(e) => handleInputChange(key, e.target.value === 'true')}
-          >
-            <option value="">Select...</option>
-            <option value="true">True</option>
-            <option value="false">False</option>
-          </select>
+    const required: string[] = schema.required || [];
+
+    return (
+      <>
+        {fieldErrors[''] && (
+          <div className="field-errors">
+            {fieldErrors[''].map(message => <span key={message}>{message}</span>)}
+          </div>
         )}
-      </div>
-    ));
+        {Object.entries(schema.properties || {}).map(([key, prop]: [string, any]) => (
+          <div key={key} className={`input-group ${fieldErrors[key] ? 'invalid' : ''}`}>
+            <label>
+              {prop.title || key}
+              {required.includes(key) && <span className="required">*</span>}
+            </label>
+            {Array.isArray(prop.enum) ? (
+              <select
+                value={functionInputs[key] ?? ''}
+                onChange={(e) => handleInputChange(key, prop.enum[parseInt(e.target.value, 10)])}
+              >
+                <option value="">Select...</option>
+                {prop.enum.map((option: any, index: number) => (
+                  <option key={String(option)} value={index}>{String(option)}</option>
+                ))}
+              </select>
+            ) : (
+              <>
+                {prop.type === 'string' && (
+                  <input
+                    type="text"
+                    value={functionInputs[key] || ''}
+                    onChange={(e) => handleInputChange(key, e.target.value)}
+                    placeholder={prop.description}
+                    minLength={prop.minLength}
+                    maxLength={prop.maxLength}
+                  />
+                )}
+                {(prop.type === 'number' || prop.type === 'integer') && (
+                  <input
+                    type="number"
+                    value={functionInputs[key] ?? ''}
+                    step={prop.type === 'integer' ? 1 : 'any'}
+                    min={prop.minimum}
+                    max={prop.maximum}
+                    onChange={(e) => handleInputChange(
+                      key,
+                      prop.type === 'integer' ? parseInt(e.target.value, 10) : parseFloat(e.target.value)
+                    )}
+                    placeholder={prop.description}
+                  />
+                )}
+                {prop.type === 'boolean' && (
+                  <select
+                    value={functionInputs[key] === undefined ? '' : String(functionInputs[key])}
+                    onChange={(e) => handleInputChange(key, e.target.value === 'true')}
+                  >
+                    <option value="">Select...</option>
+                    <option value="true">True</option>
+                    <option value="false">False</option>
+                  </select>
+                )}
+              </>
+            )}
+            {fieldErrors[key] && (
+              <div className="field-errors">
+                {fieldErrors[key].map(message => <span key={message}>{message}</span>)}
+              </div>
+            )}
+          </div>
+        ))}
+      </>
+    );
   };
 
   if (loading) {
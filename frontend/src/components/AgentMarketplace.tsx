@@ -58,7 +58,7 @@ const AgentMarketplace: React.FC<MarketplaceProps> = ({
         ...filters,
       });
 
-      const response = await fetch(`/api/agents/marketplace/listings?${queryParams}`);
+      const response = await fetch(`/api/v1/agents/marketplace/listings?${queryParams}`);
       if (!response.ok) {
         throw new Error('Failed to fetch listings');
       }
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { usePermissions } from '../hooks/use-permissions';
+import { agentResource } from '../utils/permissions';
+import { getAuthToken } from '../services/walletAuth';
 
 interface AgentMetadataEditorProps {
   agentAddress: string;
+  // Current owner, used to check the user may edit before they try
+  creator: string;
   initialMetadata: {
     name: string;
     symbol: string;
@@ -20,11 +25,14 @@ interface AgentMetadataEditorProps {
 
 const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
   agentAddress,
+  creator,
   initialMetadata,
   onSave,
   onClose,
 }) => {
   const { publicKey } = useWallet();
+  const { can, loaded } = usePermissions();
+  const mayEdit = can('agent:update', agentResource({ agentAddress, creator }));
   const [metadata, setMetadata] = useState(initialMetadata);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -32,7 +40,7 @@ const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
 
   const validateMetadata = async () => {
     try {
-      const response = await fetch('/api/agents/metadata-validation', {
+      const response = await fetch('/api/v1/agents/metadata-validation', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -94,6 +102,10 @@ const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
       setError('Please connect your wallet');
       return;
     }
+    if (!mayEdit) {
+      setError('Only the agent owner or a delegate can edit its metadata');
+      return;
+    }
 
     const isValid = await validateMetadata();
     if (!isValid) {
@@ -104,10 +116,12 @@ const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
       setIsSaving(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/metadata/${agentAddress}`, {
+      const token = getAuthToken();
+      const response = await fetch(`/api/v1/agents/metadata/${agentAddress}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         body: JSON.stringify({
           ...metadata,
@@ -240,6 +254,9 @@ const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
           </button>
         </div>
 
+        {loaded && !mayEdit && (
+          <p className="error-message">Sign in with the owner's wallet to edit this agent.</p>
+        )}
         {error && <p className="error-message">{error}</p>}
 
         <div className="editor-actions">
@@ -253,7 +270,7 @@ const AgentMetadataEditor: React.FC<AgentMetadataEditorProps> = ({
           <button
             className="save-button"
             onClick={handleSubmit}
-            disabled={isSaving}
+            disabled={isSaving || !mayEdit}
           >
             {isSaving ? 'Saving...' : 'Save Changes'}
           </button>
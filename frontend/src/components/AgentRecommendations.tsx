@@ -52,7 +52,7 @@ const AgentRecommendations: React.FC<AgentRecommendationsProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/${publicKey.toBase58()}/recommendations`);
+      const response = await fetch(`/api/v1/agents/${publicKey.toBase58()}/recommendations`);
       if (!response.ok) {
         throw new Error('Failed to load recommendations');
       }
@@ -72,7 +72,7 @@ const AgentRecommendations: React.FC<AgentRecommendationsProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/trending?timeframe=${timeframe}`);
+      const response = await fetch(`/api/v1/agents/trending?timeframe=${timeframe}`);
       if (!response.ok) {
         throw new Error('Failed to load trending agents');
       }
@@ -92,7 +92,7 @@ const AgentRecommendations: React.FC<AgentRecommendationsProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/${agentAddress}/similar`);
+      const response = await fetch(`/api/v1/agents/${agentAddress}/similar`);
       if (!response.ok) {
         throw new Error('Failed to load similar agents');
       }
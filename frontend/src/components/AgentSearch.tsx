@@ -88,7 +88,7 @@ const AgentSearch: React.FC<AgentSearchProps> = ({
         order: sortOrder,
       });
 
-      const response = await fetch(`/api/agents/search?${queryParams}`);
+      const response = await fetch(`/api/v1/agents/search?${queryParams}`);
       if (!response.ok) {
         throw new Error('Failed to perform search');
       }
@@ -98,7 +98,7 @@ const AgentSearch: React.FC<AgentSearchProps> = ({
 
       // Record search query
       if (query.trim()) {
-        await fetch(`/api/agents/search/record?q=${encodeURIComponent(query)}`);
+        await fetch(`/api/v1/agents/search/record?q=${encodeURIComponent(query)}`);
       }
     } catch (err) {
       console.error('Error performing search:', err);
@@ -115,7 +115,7 @@ const AgentSearch: React.FC<AgentSearchProps> = ({
     }
 
     try {
-      const response = await fetch(`/api/agents/search/suggestions?q=${encodeURIComponent(query)}`);
+      const response = await fetch(`/api/v1/agents/search/suggestions?q=${encodeURIComponent(query)}`);
       if (!response.ok) {
         throw new Error('Failed to load suggestions');
       }
@@ -129,7 +129,7 @@ const AgentSearch: React.FC<AgentSearchProps> = ({
 
   const loadTrendingSearches = async () => {
     try {
-      const response = await fetch('/api/agents/search/trending');
+      const response = await fetch('/api/v1/agents/search/trending');
       if (!response.ok) {
         throw new Error('Failed to load trending searches');
       }
@@ -54,8 +54,8 @@ const AgentSocial: React.FC<AgentSocialProps> = ({
       setError(null);
 
       const [commentsRes, feedRes] = await Promise.all([
-        fetch(`/api/agents/${agentAddress}/comments`),
-        fetch(`/api/agents/${agentAddress}/feed`),
+        fetch(`/api/v1/agents/${agentAddress}/comments`),
+        fetch(`/api/v1/agents/${agentAddress}/feed`),
       ]);
 
       if (!commentsRes.ok || !feedRes.ok) {
@@ -81,7 +81,7 @@ const AgentSocial: React.FC<AgentSocialProps> = ({
     if (!publicKey) return;
 
     try {
-      const response = await fetch(`/api/agents/${agentAddress}/followers`);
+      const response = await fetch(`/api/v1/agents/${agentAddress}/followers`);
       if (!response.ok) {
         throw new Error('Failed to check follow status');
       }
@@ -102,7 +102,7 @@ const AgentSocial: React.FC<AgentSocialProps> = ({
     }
 
     try {
-      const response = await fetch('/api/agents/follow', {
+      const response = await fetch('/api/v1/agents/follow', {
         method: isFollowing ? 'DELETE' : 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -135,7 +135,7 @@ const AgentSocial: React.FC<AgentSocialProps> = ({
     }
 
     try {
-      const response = await fetch('/api/agents/comment', {
+      const response = await fetch('/api/v1/agents/comment', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { PublicKey, Transaction } from '@solana/web3.js';
 import { Token } from '@solana/spl-token';
+import { buildTransferMessage, encodeBase58, TransferAction } from '../utils/wallet-messages';
 
 interface AgentTransferProps {
   agentAddress: string;
@@ -9,18 +10,29 @@ interface AgentTransferProps {
   onClose: () => void;
 }
 
+interface TransferRequest {
+  id: number;
+  agentAddress: string;
+  fromAddress: string;
+  toAddress: string;
+  status: 'PENDING' | 'ACCEPTED' | 'COMPLETED' | 'CANCELLED' | 'EXPIRED';
+  expiresAt: string;
+}
+
 const AgentTransfer: React.FC<AgentTransferProps> = ({
   agentAddress,
   onTransferComplete,
   onClose,
 }) => {
   const { connection } = useConnection();
-  const { publicKey, signTransaction } = useWallet();
+  const { publicKey, signTransaction, signMessage } = useWallet();
   const [recipientAddress, setRecipientAddress] = useState('');
-  const [isValidating, setIsValidating] = useState(false);
+  const [openRequest, setOpenRequest] = useState<TransferRequest | null>(null);
   const [isTransferring, setIsTransferring] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const walletAddress = publicKey?.toBase58();
+
   const validateAddress = (address: string) => {
     try {
       new PublicKey(address);
@@ -35,115 +47,206 @@ const AgentTransfer: React.FC<AgentTransferProps> = ({
     setError(null);
   };
 
-  const checkTransferEligibility = async () => {
+  const fetchOpenRequest = useCallback(async () => {
     try {
-      const response = await fetch(`/api/agents/transfer-eligibility/${agentAddress}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          currentOwner: publicKey?.toBase58(),
-        }),
-      });
-
+      const response = await fetch(`/api/v1/agents/transfer-requests?agentAddress=${agentAddress}`);
       if (!response.ok) {
-        throw new Error('Failed to check transfer eligibility');
+        throw new Error('Failed to fetch transfer requests');
       }
 
-      const data = await response.json();
-      return data.isEligible;
+      const requests: TransferRequest[] = await response.json();
+      setOpenRequest(
+        requests.find(request => request.status === 'PENDING' || request.status === 'ACCEPTED') || null
+      );
     } catch (err) {
-      console.error('Error checking transfer eligibility:', err);
-      return false;
+      console.error('Error fetching transfer requests:', err);
     }
+  }, [agentAddress]);
+
+  useEffect(() => {
+    fetchOpenRequest();
+  }, [fetchOpenRequest]);
+
+  const sign = async (action: TransferAction, fromAddress: string, toAddress: string, nonce: string) => {
+    if (!signMessage) {
+      throw new Error('Connected wallet does not support message signing');
+    }
+
+    const message = buildTransferMessage({ action, agentAddress, fromAddress, toAddress, nonce });
+    const signature = await signMessage(new TextEncoder().encode(message));
+    return encodeBase58(signature);
   };
 
-  const handleTransfer = async () => {
-    if (!publicKey || !signTransaction) {
-      setError('Please connect your wallet');
-      return;
+  const postJson = async (url: string, payload: object) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Transfer request failed');
     }
+    return data;
+  };
 
-    if (!validateAddress(recipientAddress)) {
-      setError('Invalid recipient address');
+  const runAction = async (action: () => Promise<void>) => {
+    if (!publicKey) {
+      setError('Please connect your wallet');
       return;
     }
 
     try {
       setIsTransferring(true);
       setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error transferring agent:', err);
+      setError(err instanceof Error ? err.message : 'Failed to transfer agent');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
 
-      // Check eligibility
-      const isEligible = await checkTransferEligibility();
-      if (!isEligible) {
-        throw new Error('Agent is not eligible for transfer');
-      }
+  // Step 1: owner proposes the transfer
+  const handleInitiate = () => runAction(async () => {
+    if (!validateAddress(recipientAddress)) {
+      throw new Error('Invalid recipient address');
+    }
+
+    const nonce = crypto.randomUUID();
+    const signature = await sign('initiate', walletAddress!, recipientAddress, nonce);
+    const request = await postJson('/api/v1/agents/transfer-requests', {
+      agentAddress,
+      fromAddress: walletAddress,
+      toAddress: recipientAddress,
+      nonce,
+      signature,
+    });
+
+    setOpenRequest(request);
+  });
 
-      // Create transfer transaction
-      const agentPublicKey = new PublicKey(agentAddress);
-      const recipientPublicKey = new PublicKey(recipientAddress);
+  // Step 2: recipient agrees to receive the agent
+  const handleAccept = () => runAction(async () => {
+    const request = openRequest!;
+    const signature = await sign('accept', request.fromAddress, request.toAddress, String(request.id));
+    setOpenRequest(await postJson(`/api/v1/agents/transfer-requests/${request.id}/accept`, { signature }));
+  });
 
-      const token = new Token(
-        connection,
-        agentPublicKey,
+  // Step 3: owner moves the token on chain, then the backend confirms it
+  const handleSend = () => runAction(async () => {
+    if (!signTransaction) {
+      throw new Error('Connected wallet cannot sign transactions');
+    }
+
+    const request = openRequest!;
+    const agentPublicKey = new PublicKey(agentAddress);
+    const recipientPublicKey = new PublicKey(request.toAddress);
+
+    const token = new Token(
+      connection,
+      agentPublicKey,
+      Token.PROGRAM_ID,
+      publicKey!
+    );
+
+    const fromTokenAccount = await token.getOrCreateAssociatedAccountInfo(
+      publicKey!
+    );
+
+    const toTokenAccount = await token.getOrCreateAssociatedAccountInfo(
+      recipientPublicKey
+    );
+
+    const transaction = new Transaction().add(
+      Token.createTransferInstruction(
         Token.PROGRAM_ID,
-        publicKey
-      );
+        fromTokenAccount.address,
+        toTokenAccount.address,
+        publicKey!,
+        [],
+        1
+      )
+    );
 
-      const fromTokenAccount = await token.getOrCreateAssociatedAccountInfo(
-        publicKey
-      );
+    // Sign and send transaction
+    transaction.recentBlockhash = (
+      await connection.getRecentBlockhash()
+    ).blockhash;
+    transaction.feePayer = publicKey!;
 
-      const toTokenAccount = await token.getOrCreateAssociatedAccountInfo(
-        recipientPublicKey
-      );
+    const signed = await signTransaction(transaction);
+    const transactionSignature = await connection.sendRawTransaction(signed.serialize());
+    await connection.confirmTransaction(transactionSignature, 'finalized');
 
-      const transaction = new Transaction().add(
-        Token.createTransferInstruction(
-          Token.PROGRAM_ID,
-          fromTokenAccount.address,
-          toTokenAccount.address,
-          publicKey,
-          [],
-          1
-        )
-      );
+    await postJson(`/api/v1/agents/transfer-requests/${request.id}/confirm`, { transactionSignature });
 
-      // Sign and send transaction
-      transaction.recentBlockhash = (
-        await connection.getRecentBlockhash()
-      ).blockhash;
-      transaction.feePayer = publicKey;
-
-      const signed = await signTransaction(transaction);
-      const signature = await connection.sendRawTransaction(signed.serialize());
-      await connection.confirmTransaction(signature);
-
-      // Update backend
-      const response = await fetch(`/api/agents/transfer/${agentAddress}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          currentOwner: publicKey.toBase58(),
-          newOwner: recipientAddress,
-          signature,
-        }),
-      });
+    setOpenRequest(null);
+    onTransferComplete();
+  });
 
-      if (!response.ok) {
-        throw new Error('Failed to update agent metadata');
-      }
+  const handleCancelRequest = () => runAction(async () => {
+    const request = openRequest!;
+    const signature = await sign('cancel', request.fromAddress, request.toAddress, String(request.id));
+    await postJson(`/api/v1/agents/transfer-requests/${request.id}/cancel`, {
+      actor: walletAddress,
+      signature,
+    });
 
-      onTransferComplete();
-    } catch (err) {
-      console.error('Error transferring agent:', err);
-      setError(err instanceof Error ? err.message : 'Failed to transfer agent');
-    } finally {
-      setIsTransferring(false);
-    }
+    setOpenRequest(null);
+  });
+
+  const renderOpenRequest = (request: TransferRequest) => {
+    const isSender = walletAddress === request.fromAddress;
+    const isRecipient = walletAddress === request.toAddress;
+
+    return (
+      <div className="transfer-request">
+        <p className="transfer-status">
+          {request.status === 'PENDING'
+            ? 'Waiting for the recipient to accept'
+            : 'Accepted, waiting for the on-chain transfer'}
+        </p>
+        <p className="transfer-party">To: {request.toAddress}</p>
+        <p className="transfer-expiry">
+          Expires {new Date(request.expiresAt).toLocaleString()}
+        </p>
+
+        <div className="transfer-actions">
+          {(isSender || isRecipient) && (
+            <button
+              className="cancel-button"
+              onClick={handleCancelRequest}
+              disabled={isTransferring}
+            >
+              Cancel Transfer
+            </button>
+          )}
+          {isRecipient && request.status === 'PENDING' && (
+            <button
+              className="transfer-button"
+              onClick={handleAccept}
+              disabled={isTransferring}
+            >
+              {isTransferring ? 'Accepting...' : 'Accept Transfer'}
+            </button>
+          )}
+          {isSender && request.status === 'ACCEPTED' && (
+            <button
+              className="transfer-button"
+              onClick={handleSend}
+              disabled={isTransferring}
+            >
+              {isTransferring ? 'Transferring...' : 'Send Agent'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -154,36 +257,40 @@ const AgentTransfer: React.FC<AgentTransferProps> = ({
       </div>
 
       <div className="transfer-content">
-        <div className="input-group">
-          <label htmlFor="recipient">Recipient Address</label>
-          <input
-            id="recipient"
-            type="text"
-            value={recipientAddress}
-            onChange={handleAddressChange}
-            placeholder="Enter Solana wallet address"
-            disabled={isTransferring}
-          />
-        </div>
+        {openRequest ? renderOpenRequest(openRequest) : (
+          <>
+            <div className="input-group">
+              <label htmlFor="recipient">Recipient Address</label>
+              <input
+                id="recipient"
+                type="text"
+                value={recipientAddress}
+                onChange={handleAddressChange}
+                placeholder="Enter Solana wallet address"
+                disabled={isTransferring}
+              />
+            </div>
 
-        {error && <p className="error-message">{error}</p>}
+            <div className="transfer-actions">
+              <button
+                className="cancel-button"
+                onClick={onClose}
+                disabled={isTransferring}
+              >
+                Cancel
+              </button>
+              <button
+                className="transfer-button"
+                onClick={handleInitiate}
+                disabled={!recipientAddress || isTransferring}
+              >
+                {isTransferring ? 'Requesting...' : 'Request Transfer'}
+              </button>
+            </div>
+          </>
+        )}
 
-        <div className="transfer-actions">
-          <button
-            className="cancel-button"
-            onClick={onClose}
-            disabled={isTransferring}
-          >
-            Cancel
-          </button>
-          <button
-            className="transfer-button"
-            onClick={handleTransfer}
-            disabled={!recipientAddress || isTransferring}
-          >
-            {isTransferring ? 'Transferring...' : 'Transfer Agent'}
-          </button>
-        </div>
+        {error && <p className="error-message">{error}</p>}
       </div>
     </div>
   );
@@ -5,6 +5,8 @@ interface AgentVerificationProps {
   agentAddress: string;
   onVerificationComplete: () => void;
   onClose: () => void;
+  // Bearer token of a signed-in admin; enables the reviewer view
+  reviewerToken?: string;
 }
 
 interface VerificationHistory {
@@ -15,10 +17,27 @@ interface VerificationHistory {
   timestamp: string;
 }
 
+interface ReviewEvidence {
+  type: string;
+  description: string;
+  url?: string;
+}
+
+interface ReviewQueueItem {
+  agentAddress: string;
+  claimedBy: string | null;
+  approvals: number;
+  requiredApprovals: number;
+  reviewedByMe: boolean;
+}
+
+const EMPTY_EVIDENCE: ReviewEvidence = { type: 'link', description: '', url: '' };
+
 const AgentVerification: React.FC<AgentVerificationProps> = ({
   agentAddress,
   onVerificationComplete,
   onClose,
+  reviewerToken,
 }) => {
   const { publicKey } = useWallet();
   const [verificationStatus, setVerificationStatus] = useState<string>('UNVERIFIED');
@@ -26,15 +45,96 @@ const AgentVerification: React.FC<AgentVerificationProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [details, setDetails] = useState('');
+  const [queueItem, setQueueItem] = useState<ReviewQueueItem | null>(null);
+  const [hasClaim, setHasClaim] = useState(false);
+  const [decision, setDecision] = useState<'VERIFIED' | 'REJECTED'>('VERIFIED');
+  const [notes, setNotes] = useState('');
+  const [evidence, setEvidence] = useState<ReviewEvidence[]>([{ ...EMPTY_EVIDENCE }]);
 
   useEffect(() => {
     loadVerificationHistory();
   }, [agentAddress]);
 
+  useEffect(() => {
+    if (reviewerToken && verificationStatus === 'PENDING') {
+      loadQueueItem();
+    }
+  }, [agentAddress, reviewerToken, verificationStatus]);
+
+  const reviewerFetch = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${reviewerToken}`,
+      },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Review request failed');
+    }
+    return data;
+  };
+
+  const runReviewAction = async (action: () => Promise<void>) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error during verification review:', err);
+      setError(err instanceof Error ? err.message : 'Verification review failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadQueueItem = () => runReviewAction(async () => {
+    const queue: ReviewQueueItem[] = await reviewerFetch('/api/v1/agents/verify-queue');
+    setQueueItem(queue.find(item => item.agentAddress === agentAddress) || null);
+  });
+
+  const handleClaim = () => runReviewAction(async () => {
+    await reviewerFetch(`/api/v1/agents/verify-queue/${agentAddress}/claim`, { method: 'POST' });
+    setHasClaim(true);
+  });
+
+  const handleRelease = () => runReviewAction(async () => {
+    await reviewerFetch(`/api/v1/agents/verify-queue/${agentAddress}/release`, { method: 'POST' });
+    setHasClaim(false);
+    await loadQueueItem();
+  });
+
+  const handleSubmitReview = () => runReviewAction(async () => {
+    await reviewerFetch(`/api/v1/agents/verify-status/${agentAddress}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        status: decision,
+        notes,
+        evidence: evidence.map(item => ({ ...item, url: item.url || undefined })),
+      }),
+    });
+
+    setHasClaim(false);
+    setNotes('');
+    setEvidence([{ ...EMPTY_EVIDENCE }]);
+    await loadVerificationHistory();
+    onVerificationComplete();
+  });
+
+  const updateEvidence = (index: number, field: keyof ReviewEvidence, value: string) => {
+    setEvidence(items => items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const canSubmitReview = notes.trim().length >= 10 &&
+    evidence.length > 0 &&
+    evidence.every(item => item.type && item.description.trim());
+
   const loadVerificationHistory = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch(`/api/agents/verify-history/${agentAddress}`);
+      const response = await fetch(`/api/v1/agents/verify-history/${agentAddress}`);
       if (!response.ok) {
         throw new Error('Failed to load verification history');
       }
@@ -63,7 +163,7 @@ const AgentVerification: React.FC<AgentVerificationProps> = ({
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/agents/verify-request/${agentAddress}`, {
+      const response = await fetch(`/api/v1/agents/verify-request/${agentAddress}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -153,6 +253,115 @@ const AgentVerification: React.FC<AgentVerificationProps> = ({
           </div>
         )}
 
+        {reviewerToken && verificationStatus === 'PENDING' && queueItem && (
+          <div className="review-panel">
+            <h4>Reviewer</h4>
+            <p className="review-progress">
+              Approvals: {queueItem.approvals}/{queueItem.requiredApprovals}
+              {queueItem.claimedBy && !hasClaim && ` · Claimed by ${queueItem.claimedBy}`}
+            </p>
+
+            {queueItem.reviewedByMe ? (
+              <p className="review-note">You have already reviewed this request.</p>
+            ) : !hasClaim ? (
+              <button
+                className="request-button"
+                onClick={handleClaim}
+                disabled={isLoading || !!queueItem.claimedBy}
+              >
+                Claim Review
+              </button>
+            ) : (
+              <div className="review-form">
+                <div className="input-group">
+                  <label htmlFor="decision">Decision</label>
+                  <select
+                    id="decision"
+                    value={decision}
+                    onChange={(e) => setDecision(e.target.value as 'VERIFIED' | 'REJECTED')}
+                    disabled={isLoading}
+                  >
+                    <option value="VERIFIED">Approve</option>
+                    <option value="REJECTED">Reject</option>
+                  </select>
+                </div>
+
+                <div className="input-group">
+                  <label htmlFor="notes">Notes</label>
+                  <textarea
+                    id="notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Explain what you checked and why (at least 10 characters)"
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="evidence-list">
+                  <label>Evidence</label>
+                  {evidence.map((item, index) => (
+                    <div key={index} className="evidence-item">
+                      <select
+                        value={item.type}
+                        onChange={(e) => updateEvidence(index, 'type', e.target.value)}
+                        disabled={isLoading}
+                      >
+                        <option value="link">Link</option>
+                        <option value="code-review">Code review</option>
+                        <option value="on-chain">On-chain check</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <input
+                        type="text"
+                        value={item.description}
+                        onChange={(e) => updateEvidence(index, 'description', e.target.value)}
+                        placeholder="Description"
+                        disabled={isLoading}
+                      />
+                      <input
+                        type="url"
+                        value={item.url}
+                        onChange={(e) => updateEvidence(index, 'url', e.target.value)}
+                        placeholder="https:// (optional)"
+                        disabled={isLoading}
+                      />
+                      {evidence.length > 1 && (
+                        <button
+                          className="remove-evidence"
+                          onClick={() => setEvidence(items => items.filter((_, i) => i !== index))}
+                          disabled={isLoading}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    className="add-evidence"
+                    onClick={() => setEvidence(items => [...items, { ...EMPTY_EVIDENCE }])}
+                    disabled={isLoading}
+                  >
+                    + Add evidence
+                  </button>
+                </div>
+
+                <div className="review-actions">
+                  <button className="release-button" onClick={handleRelease} disabled={isLoading}>
+                    Release
+                  </button>
+                  <button
+                    className="request-button"
+                    onClick={handleSubmitReview}
+                    disabled={isLoading || !canSubmitReview}
+                  >
+                    {isLoading ? 'Submitting...' : 'Submit Review'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {error && <p className="error-message">{error}</p>}
 
         <div className="verification-history">
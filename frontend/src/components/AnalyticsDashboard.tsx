@@ -65,7 +65,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch('/api/analytics/platform');
+      const response = await fetch('/api/v1/analytics/platform');
       if (!response.ok) {
         throw new Error('Failed to load platform metrics');
       }
@@ -87,7 +87,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/analytics/agent/${agentAddress}?timeframe=${timeframe}`);
+      const response = await fetch(`/api/v1/analytics/agent/${agentAddress}?timeframe=${timeframe}`);
       if (!response.ok) {
         throw new Error('Failed to load agent metrics');
       }
@@ -107,7 +107,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/analytics/marketplace?timeframe=${timeframe}`);
+      const response = await fetch(`/api/v1/analytics/marketplace?timeframe=${timeframe}`);
       if (!response.ok) {
         throw new Error('Failed to load marketplace metrics');
       }
@@ -129,7 +129,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/analytics/user/${publicKey.toBase58()}?timeframe=${timeframe}`);
+      const response = await fetch(`/api/v1/analytics/user/${publicKey.toBase58()}?timeframe=${timeframe}`);
       if (!response.ok) {
         throw new Error('Failed to load user metrics');
       }
@@ -1,11 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { PublicKey } from '@solana/web3.js';
+import { authenticateWallet, PendingMfaSession, WalletSession } from '../services/walletAuth';
+import { encodeBase58 } from '../utils/wallet-messages';
 
 interface SolanaWalletConnectProps {
   onConnect: (publicKey: string) => void;
+  onAuthenticated?: (session: WalletSession | PendingMfaSession) => void;
 }
 
-const SolanaWalletConnect: React.FC<SolanaWalletConnectProps> = ({ onConnect }) => {
+const SolanaWalletConnect: React.FC<SolanaWalletConnectProps> = ({ onConnect, onAuthenticated }) => {
   const [connecting, setConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -39,7 +42,16 @@ const SolanaWalletConnect: React.FC<SolanaWalletConnectProps> = ({ onConnect })
 
       const solana = (window as any).solana;
       const response = await solana.connect();
-      onConnect(response.publicKey.toString());
+      const publicKey = response.publicKey.toString();
+
+      // Sign-In with Solana: the backend issues the message, the wallet signs it
+      const session = await authenticateWallet(publicKey, async message => {
+        const { signature } = await solana.signMessage(new TextEncoder().encode(message), 'utf8');
+        return encodeBase58(signature);
+      });
+
+      onConnect(publicKey);
+      onAuthenticated?.(session);
     } catch (err) {
       console.error('Error connecting Solana wallet:', err);
       setError(err instanceof Error ? err.message : 'Failed to connect wallet');
@@ -38,7 +38,7 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({
 
   const checkEthTransaction = async () => {
     try {
-      const response = await fetch(`/api/agents/verify-payment/${ethTxHash}`);
+      const response = await fetch(`/api/v1/agents/verify-payment/${ethTxHash}`);
       if (!response.ok) {
         throw new Error('Failed to verify ETH payment');
       }
@@ -60,7 +60,7 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({
 
   const checkSolanaTransaction = async () => {
     try {
-      const response = await fetch(`/api/agents/verify-deployment/${solanaSignature}`);
+      const response = await fetch(`/api/v1/agents/verify-deployment/${solanaSignature}`);
       if (!response.ok) {
         throw new Error('Failed to verify Solana deployment');
       }
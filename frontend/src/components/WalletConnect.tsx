@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { ethers } from 'ethers';
 import Web3Modal from 'web3modal';
+import { authenticateWallet, PendingMfaSession, WalletSession } from '../services/walletAuth';
 
 interface WalletConnectProps {
   onConnect: (address: string) => void;
+  onAuthenticated?: (session: WalletSession | PendingMfaSession) => void;
 }
 
-const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
+const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect, onAuthenticated }) => {
   const [connecting, setConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -24,11 +26,15 @@ const WalletConnect: React.FC<WalletConnectProps> = ({ onConnect }) => {
       const provider = new ethers.BrowserProvider(instance);
       const signer = await provider.getSigner();
       const address = await signer.getAddress();
-      
+
+      // Sign-In with Ethereum: the backend issues the message, the wallet signs it
+      const session = await authenticateWallet(address, message => signer.signMessage(message));
+
       onConnect(address);
+      onAuthenticated?.(session);
     } catch (err) {
       console.error('Error connecting wallet:', err);
-      setError('Failed to connect wallet. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to connect wallet. Please try again.');
     } finally {
       setConnecting(false);
     }
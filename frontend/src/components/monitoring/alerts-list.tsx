@@ -33,6 +33,7 @@ import {
   Search,
   SortAsc,
   SortDesc,
+  Unlock,
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import {
@@ -42,6 +43,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { AuditEvent, LockScope, fetchLockoutEvents, unlockLogin } from '../../services/securityAlerts';
 
 interface Alert {
   id: string;
@@ -52,6 +54,28 @@ interface Alert {
   timestamp: string;
   status: 'new' | 'investigating' | 'resolved' | 'closed';
   assignedTo?: string;
+  // Set for login lockouts, which an admin can clear from here
+  lockout?: { scope: LockScope; subject: string; lockedUntil: string };
+}
+
+const LOCKOUT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+function lockoutToAlert(event: AuditEvent): Alert {
+  const lockedUntil = event.metadata?.lockedUntil;
+  return {
+    id: event.id,
+    type: 'authentication',
+    severity: event.level === 'critical' ? 'critical' : 'high',
+    message: event.message,
+    source: 'Authentication Service',
+    timestamp: event.timestamp,
+    status: lockedUntil && new Date(lockedUntil) > new Date() ? 'new' : 'closed',
+    lockout: event.metadata && {
+      scope: event.metadata.scope,
+      subject: event.metadata.subject,
+      lockedUntil
+    }
+  };
 }
 
 const AlertsList = () => {
@@ -65,22 +89,20 @@ const AlertsList = () => {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Simulated data - would be fetched from API in production
-    const mockAlerts: Alert[] = [
-      {
-        id: '1',
-        type: 'security',
-        severity: 'critical',
-        message: 'Multiple failed login attempts detected',
-        source: 'Authentication Service',
-        timestamp: new Date().toISOString(),
-        status: 'new'
-      },
-      // Add more mock alerts...
-    ];
+    let cancelled = false;
 
-    setAlerts(mockAlerts);
-    setIsLoading(false);
+    fetchLockoutEvents(new Date(Date.now() - LOCKOUT_LOOKBACK_MS))
+      .then(events => {
+        if (!cancelled) setAlerts(events.map(lockoutToAlert));
+      })
+      .catch(err => console.error('Failed to load lockout alerts:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
@@ -134,6 +156,16 @@ const AlertsList = () => {
     ));
   };
 
+  const handleUnlock = async (alert: Alert) => {
+    if (!alert.lockout) return;
+    try {
+      await unlockLogin(alert.lockout.scope, alert.lockout.subject);
+      handleUpdateStatus(alert.id, 'resolved');
+    } catch (err) {
+      console.error('Failed to clear lockout:', err);
+    }
+  };
+
   const getSeverityColor = (severity: Alert['severity']) => {
     switch (severity) {
       case 'critical':
@@ -294,6 +326,12 @@ const AlertsList = () => {
                             <CheckCircle2 className="mr-2 h-4 w-4" />
                             <span>Mark Resolved</span>
                           </DropdownMenuItem>
+                          {alert.lockout && alert.status !== 'closed' && (
+                            <DropdownMenuItem onClick={() => handleUnlock(alert)}>
+                              <Unlock className="mr-2 h-4 w-4" />
+                              <span>Unlock Login</span>
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem>
                             <ExternalLink className="mr-2 h-4 w-4" />
                             <span>View Details</span>
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAuthToken } from '../services/walletAuth';
+import { can as evaluate, Permission, Policy, PolicyResource, PolicyScope, PolicySubject } from '../utils/permissions';
+
+interface PermissionsResponse {
+  userId: string;
+  roles: string[];
+  wallets: string[];
+  scope?: PolicyScope;
+  permissions: Permission[];
+  allPermissions: Permission[];
+  policy: Policy;
+}
+
+let cached: { token: string; request: Promise<PermissionsResponse> } | null = null;
+
+// One request per access token, shared by every component that asks
+function loadPermissions(token: string): Promise<PermissionsResponse> {
+  if (!cached || cached.token !== token) {
+    const request = fetch('/api/auth/permissions', {
+      headers: { Authorization: `Bearer ${token}` }
+    }).then(async response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load permissions (${response.status})`);
+      }
+      return response.json() as Promise<PermissionsResponse>;
+    });
+    cached = { token, request };
+    request.catch(() => {
+      cached = null;
+    });
+  }
+  return cached.request;
+}
+
+/**
+ * `can(action, resource)` for the signed-in user. Answers false while the
+ * permissions load, when nobody is signed in or for a permission the server
+ * does not define; the API enforces the same rules, so this only decides
+ * what to show.
+ */
+export function usePermissions() {
+  const [grants, setGrants] = useState<PermissionsResponse | null>(null);
+  const token = getAuthToken();
+
+  useEffect(() => {
+    if (!token) {
+      setGrants(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadPermissions(token)
+      .then(result => {
+        if (!cancelled) {
+          setGrants(result);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading permissions:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const can = useCallback((action: Permission, resource?: PolicyResource | null) => {
+    if (!grants) {
+      return false;
+    }
+    if (!grants.allPermissions.includes(action)) {
+      console.warn(`Unknown permission ${action}`);
+      return false;
+    }
+    const subject: PolicySubject = {
+      id: grants.userId,
+      roles: grants.roles,
+      wallets: grants.wallets,
+      scope: grants.scope
+    };
+    return evaluate(grants.policy, subject, action, resource);
+  }, [grants]);
+
+  return { can, loaded: grants !== null };
+}
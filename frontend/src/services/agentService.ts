@@ -4,8 +4,6 @@ import { ethers } from 'ethers';
 
 const SOLANA_NETWORK = 'devnet'; // Change to 'mainnet-beta' for production
 const SOLANA_ENDPOINT = `https://api.${SOLANA_NETWORK}.solana.com`;
-const PAYMENT_AMOUNT = '0.006'; // ETH
-const PAYMENT_ADDRESS = '0x...'; // Replace with actual payment address
 
 export interface AgentData {
   name: string;
@@ -14,6 +12,13 @@ export interface AgentData {
   totalSupply: string;
 }
 
+// Set by the backend's payment config, which verifies launches against it
+export interface LaunchFee {
+  recipientAddress: string;
+  amountWei: string;
+  minConfirmations: number;
+}
+
 export interface PaymentVerification {
   success: boolean;
   transactionHash?: string;
@@ -46,13 +51,17 @@ export class AgentService {
         throw new Error('Failed to initialize Ethereum provider');
       }
 
+      const fee = await this.getLaunchFee();
+      if (!fee.recipientAddress) {
+        throw new Error('Launch payments are not configured');
+      }
+
       const signer = await this.provider.getSigner();
-      const amount = ethers.parseEther(PAYMENT_AMOUNT);
 
       // Create and send the transaction
       const tx = await signer.sendTransaction({
-        to: PAYMENT_ADDRESS,
-        value: amount,
+        to: fee.recipientAddress,
+        value: BigInt(fee.amountWei),
       });
 
       // Wait for transaction confirmation
@@ -136,6 +145,14 @@ export class AgentService {
     }
   }
 
+  private async getLaunchFee(): Promise<LaunchFee> {
+    const response = await fetch('/api/v1/agents/launch-fee');
+    if (!response.ok) {
+      throw new Error('Failed to fetch launch fee');
+    }
+    return response.json();
+  }
+
   private async storeAgentMetadata(
     agentAddress: string,
     metadata: {
@@ -147,7 +164,7 @@ export class AgentService {
     }
   ) {
     try {
-      const response = await fetch('/api/agents/metadata', {
+      const response = await fetch('/api/v1/agents/metadata', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -196,7 +213,7 @@ export class AgentService {
 
   private async getAgentMetadata(agentAddress: string) {
     try {
-      const response = await fetch(`/api/agents/metadata/${agentAddress}`);
+      const response = await fetch(`/api/v1/agents/metadata/${agentAddress}`);
       if (!response.ok) {
         throw new Error('Failed to fetch agent metadata');
       }
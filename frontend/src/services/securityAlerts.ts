@@ -0,0 +1,48 @@
+import { getAuthToken } from './walletAuth';
+
+export interface AuditEvent {
+  id: string;
+  sequence: number;
+  type: string;
+  level: 'info' | 'warning' | 'critical';
+  userId?: string;
+  message: string;
+  timestamp: string;
+  metadata?: Record<string, any>;
+}
+
+export type LockScope = 'username' | 'ip' | 'username_ip';
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const token = getAuthToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init.headers || {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    }
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+// Login lockouts recorded by the backend's brute-force protection since
+// `since`, newest first. The audit API pages oldest first, so one large
+// page over a bounded window is read and reversed.
+export async function fetchLockoutEvents(since: Date, limit: number = 1000): Promise<AuditEvent[]> {
+  const params = new URLSearchParams({ type: 'auth.lockout', from: since.toISOString(), limit: String(limit) });
+  const { events } = await request<{ events: AuditEvent[] }>(`/api/audit/events?${params}`);
+  return events.reverse();
+}
+
+export async function unlockLogin(scope: LockScope, subject: string): Promise<boolean> {
+  const { unlocked } = await request<{ unlocked: boolean }>(
+    `/api/lockouts/${scope}/${encodeURIComponent(subject)}`,
+    { method: 'DELETE' }
+  );
+  return unlocked;
+}
@@ -0,0 +1,122 @@
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export interface LinkedWallet {
+  address: string;
+  chain: 'ethereum' | 'solana';
+  linkedAt: string;
+}
+
+export interface WalletAccount {
+  id: string;
+  roles: string[];
+  wallets: LinkedWallet[];
+}
+
+export interface WalletSession {
+  token: string;
+  account: WalletAccount;
+}
+
+// Accounts with a second factor get a short-lived mfaToken to pass to
+// completeMfaLogin instead of a session
+export interface PendingMfaSession {
+  mfaRequired: true;
+  mfaToken: string;
+  account: WalletAccount;
+}
+
+export type MfaProof =
+  | { method: 'totp' | 'recovery'; code: string }
+  | { method: 'webauthn'; response: unknown };
+
+// Signs the challenge text and returns the signature in the encoding the
+// backend expects (hex for Ethereum, base58 for Solana)
+export type MessageSigner = (message: string) => Promise<string>;
+
+export class WalletAuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WalletAuthError';
+  }
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function clearAuthTokens(): void {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+async function postJson<T>(url: string, body: unknown, token?: string | null): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new WalletAuthError(data.error || 'Wallet sign-in failed', response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Sign in with the wallet, or, when already signed in, link the wallet to
+ * the current account so both Ethereum and Solana wallets reach it.
+ */
+export async function authenticateWallet(
+  address: string,
+  sign: MessageSigner
+): Promise<WalletSession | PendingMfaSession> {
+  const { message } = await postJson<{ message: string }>('/api/auth/wallet/nonce', { address });
+  const signature = await sign(message);
+
+  const currentToken = getAuthToken();
+  if (currentToken) {
+    try {
+      const { account } = await postJson<{ account: WalletAccount }>(
+        '/api/auth/wallet/link',
+        { message, signature },
+        currentToken
+      );
+      return { token: currentToken, account };
+    } catch (err) {
+      // A stale token is rejected before the nonce is used, so the same
+      // signed message can still sign in from scratch
+      if (!(err instanceof WalletAuthError && err.status === 401)) {
+        throw err;
+      }
+      clearAuthTokens();
+    }
+  }
+
+  const result = await postJson<
+    | { mfaRequired: false; token: string; refreshToken: string; account: WalletAccount }
+    | { mfaRequired: true; mfaToken: string; account: WalletAccount }
+  >('/api/auth/wallet/verify', { message, signature });
+
+  if (result.mfaRequired) {
+    return { mfaRequired: true, mfaToken: result.mfaToken, account: result.account };
+  }
+  localStorage.setItem(ACCESS_TOKEN_KEY, result.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, result.refreshToken);
+  return { token: result.token, account: result.account };
+}
+
+export async function completeMfaLogin(pending: PendingMfaSession, proof: MfaProof): Promise<WalletSession> {
+  const { token, refreshToken } = await postJson<{ token: string; refreshToken: string }>(
+    '/api/auth/mfa/verify',
+    proof,
+    pending.mfaToken
+  );
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  return { token, account: pending.account };
+}
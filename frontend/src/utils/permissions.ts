@@ -0,0 +1,94 @@
+// Mirrors the policy evaluation in backend/src/services/auth/policy.ts. The
+// policy itself (which roles and relations grant what) and the list of
+// permission names come from the server, so only the matching rules live
+// here.
+
+// One of the names in /api/auth/permissions' allPermissions, such as
+// 'agent:update'
+export type Permission = string;
+
+export type Relation = 'owner' | 'delegate';
+
+export interface Policy {
+  roles: Record<string, string[]>;
+  relations: Record<Relation, string[]>;
+}
+
+export interface PolicyScope {
+  agents?: string[];
+  actions?: Permission[];
+}
+
+export interface PolicySubject {
+  id: string;
+  roles: string[];
+  wallets?: string[];
+  scope?: PolicyScope;
+}
+
+export interface Delegation {
+  subject: string;
+  actions?: Permission[];
+}
+
+export interface PolicyResource {
+  type: string;
+  id: string;
+  owner?: string;
+  delegates?: Delegation[];
+}
+
+export function can(
+  policy: Policy,
+  subject: PolicySubject,
+  action: Permission,
+  resource?: PolicyResource | null
+): boolean {
+  if (subject.scope && !withinScope(subject.scope, action, resource)) {
+    return false;
+  }
+  const roleGrants = subject.roles.flatMap(role => policy.roles[role] ?? []);
+  if (grants(roleGrants, action)) {
+    return true;
+  }
+  if (!resource) {
+    return false;
+  }
+  return relationsTo(subject, resource, action).some(relation => grants(policy.relations[relation] ?? [], action));
+}
+
+export function agentResource(agent: { agentAddress: string; creator: string }): PolicyResource {
+  return { type: 'agent', id: agent.agentAddress, owner: agent.creator };
+}
+
+function grants(granted: string[], action: Permission): boolean {
+  const [namespace] = action.split(':');
+  return granted.some(grant => grant === '*' || grant === action || grant === `${namespace}:*`);
+}
+
+function withinScope(scope: PolicyScope, action: Permission, resource?: PolicyResource | null): boolean {
+  if (scope.actions && !scope.actions.includes(action)) {
+    return false;
+  }
+  if (scope.agents) {
+    return resource?.type === 'agent' && scope.agents.includes(resource.id);
+  }
+  return true;
+}
+
+function relationsTo(subject: PolicySubject, resource: PolicyResource, action: Permission): Relation[] {
+  const identities = new Set([subject.id, ...(subject.wallets ?? [])].map(normalizeIdentity));
+  const relations: Relation[] = [];
+  if (resource.owner && identities.has(normalizeIdentity(resource.owner))) {
+    relations.push('owner');
+  }
+  if (resource.delegates?.some(delegate => identities.has(normalizeIdentity(delegate.subject))
+    && (!delegate.actions || delegate.actions.includes(action)))) {
+    relations.push('delegate');
+  }
+  return relations;
+}
+
+function normalizeIdentity(identity: string): string {
+  return /^0x[0-9a-fA-F]{40}$/.test(identity) ? identity.toLowerCase() : identity;
+}
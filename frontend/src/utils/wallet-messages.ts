@@ -0,0 +1,49 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Wallet adapters return raw signature bytes; the API expects base58.
+export function encodeBase58(data: Uint8Array): string {
+  const digits: number[] = [];
+
+  data.forEach(byte => {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  });
+
+  let leading = '';
+  for (let i = 0; i < data.length && data[i] === 0; i++) {
+    leading += '1';
+  }
+
+  return leading + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+export type TransferAction = 'initiate' | 'accept' | 'cancel';
+
+export interface TransferAuthorization {
+  action: TransferAction;
+  agentAddress: string;
+  fromAddress: string;
+  toAddress: string;
+  nonce: string;
+}
+
+// Must match buildTransferMessage on the backend byte for byte
+export function buildTransferMessage(authorization: TransferAuthorization): string {
+  return [
+    'Agent Launchpad ownership transfer',
+    `Action: ${authorization.action}`,
+    `Agent: ${authorization.agentAddress}`,
+    `From: ${authorization.fromAddress}`,
+    `To: ${authorization.toAddress}`,
+    `Nonce: ${authorization.nonce}`
+  ].join('\n');
+}